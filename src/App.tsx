@@ -5,6 +5,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Campaigns from "./pages/Campaigns";
+import CampaignRetries from "./pages/CampaignRetries";
+import CampaignDeadLetters from "./pages/CampaignDeadLetters";
+import CampaignDetail from "./pages/CampaignDetail";
 import SupabaseTest from "./pages/SupabaseTest";
 import PremiumGate from "./pages/PremiumGate";
 import NotFound from "./pages/NotFound";
@@ -25,6 +28,9 @@ const App = () => (
           
           {/* Active/Implemented Routes */}
           <Route path="/engage/campaigns" element={<Campaigns />} />
+          <Route path="/engage/campaigns/retries" element={<CampaignRetries />} />
+          <Route path="/engage/campaigns/retries/dead-letters" element={<CampaignDeadLetters />} />
+          <Route path="/engage/campaigns/:id" element={<CampaignDetail />} />
           <Route path="/supabase-test" element={<SupabaseTest />} />
           <Route path="/account-settings" element={<AccountSettings />} />
           <Route path="/settings/account" element={<AccountSettings />} />
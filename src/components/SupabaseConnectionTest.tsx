@@ -5,7 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, XCircle, RefreshCw, Database } from 'lucide-react';
 import { supabaseHelpers } from '@/lib/supabase';
-import { SupabaseCampaignService } from '@/services/supabaseCampaignService';
+import { SupabaseCampaignRepository } from '@/services/campaignRepository';
 
 export function SupabaseConnectionTest() {
   const [connectionStatus, setConnectionStatus] = useState<{
@@ -30,7 +30,7 @@ export function SupabaseConnectionTest() {
       if (result.success) {
         // If connected, try to get campaign stats
         try {
-          const stats = await SupabaseCampaignService.getCampaignStats();
+          const stats = await new SupabaseCampaignRepository().getCampaignStats();
           setCampaignStats(stats);
         } catch (err) {
           console.log('Campaign stats not available yet (table might not exist)');
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Archive, ArchiveRestore, Copy, Download, Info, Pause, Play, Trash2, X } from 'lucide-react';
+import { CampaignBulkAction, CampaignExportFormat, CampaignSelection } from '@/types/campaign';
+import { useCampaignBulkActions } from '@/hooks/useCampaignBulkActions';
+import { ARCHIVED_TAB } from '@/services/campaignService';
+
+// Failures listed in the summary before the rest are counted
+const MAX_LISTED_FAILURES = 5;
+
+const actionLabels: Record<CampaignBulkAction, string> = {
+  duplicate: 'duplicated',
+  archive: 'archived',
+  unarchive: 'restored',
+  delete: 'deleted',
+  pause: 'paused',
+  resume: 'resumed'
+};
+
+const campaignCount = (count: number) => `${count} campaign${count === 1 ? '' : 's'}`;
+
+interface CampaignBulkActionBarProps {
+  selection: CampaignSelection;
+  selectedCount: number;
+  totalCount: number; // Campaigns matching the list query
+  pageCount: number; // Campaigns on the current page
+  isAllMatching: boolean;
+  isPageSelected: boolean;
+  activeTab: string;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onCompleted: () => void; // Reload the list after campaigns changed
+}
+
+/**
+ * Actions for the selected campaigns, with select-all-across-pages and a summary of the last action
+ */
+export function CampaignBulkActionBar({
+  selection,
+  selectedCount,
+  totalCount,
+  pageCount,
+  isAllMatching,
+  isPageSelected,
+  activeTab,
+  onSelectAllMatching,
+  onClearSelection,
+  onCompleted
+}: CampaignBulkActionBarProps) {
+  const { isRunning, error, lastAction, results, runAction, exportCampaigns, clearResults } = useCampaignBulkActions();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const isArchivedTab = activeTab === ARCHIVED_TAB;
+
+  const handleAction = async (action: CampaignBulkAction) => {
+    setConfirmDelete(false);
+    try {
+      await runAction(action, selection);
+      onClearSelection();
+      onCompleted();
+    } catch {
+      // Error shows in the summary below
+    }
+  };
+
+  const handleExport = async (format: CampaignExportFormat) => {
+    try {
+      const { blob, filename } = await exportCampaigns(selection, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // Error shows in the summary below
+    }
+  };
+
+  const failures = results?.filter(result => !result.ok) ?? [];
+  const succeeded = (results?.length ?? 0) - failures.length;
+
+  if (selectedCount === 0 && !results && !error) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-4">
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-muted/30 px-4 py-2">
+          <span className="text-sm font-medium text-foreground mr-2">{campaignCount(selectedCount)} selected</span>
+
+          <Button variant="outline" size="sm" disabled={isRunning} onClick={() => handleAction('duplicate')}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </Button>
+          <Button variant="outline" size="sm" disabled={isRunning} onClick={() => handleAction('pause')}>
+            <Pause className="w-4 h-4 mr-2" />
+            Pause
+          </Button>
+          <Button variant="outline" size="sm" disabled={isRunning} onClick={() => handleAction('resume')}>
+            <Play className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
+          {isArchivedTab ? (
+            <Button variant="outline" size="sm" disabled={isRunning} onClick={() => handleAction('unarchive')}>
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+              Restore
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled={isRunning} onClick={() => handleAction('archive')}>
+              <Archive className="w-4 h-4 mr-2" />
+              Archive
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isRunning}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onSelect={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            disabled={isRunning}
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onClearSelection}>
+            <X className="w-4 h-4 mr-1" />
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {/* Select all across pages */}
+      {isAllMatching ? (
+        <p className="text-sm text-muted-foreground text-center">
+          All {campaignCount(selectedCount)} matching the current filters are selected.
+        </p>
+      ) : isPageSelected && totalCount > pageCount && (
+        <p className="text-sm text-muted-foreground text-center">
+          All {campaignCount(pageCount)} on this page are selected.{' '}
+          <button className="font-medium text-primary hover:underline" onClick={onSelectAllMatching}>
+            Select all {campaignCount(totalCount)} matching the current filters
+          </button>
+        </p>
+      )}
+
+      {/* Summary of the last action */}
+      {(results || error) && (
+        <Alert className={error || failures.length > 0 ? 'border-destructive bg-destructive/10' : ''}>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            <div className="flex items-start justify-between">
+              <div className="space-y-1">
+                {error ? (
+                  <p className="text-destructive">{error}</p>
+                ) : lastAction && (
+                  <p>{campaignCount(succeeded)} {actionLabels[lastAction]}{failures.length > 0 ? `, ${failures.length} skipped` : ''}</p>
+                )}
+                {failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                  <p key={failure.campaignId} className="text-xs text-muted-foreground">
+                    ID - {failure.campaignId}: {failure.error}
+                  </p>
+                ))}
+                {failures.length > MAX_LISTED_FAILURES && (
+                  <p className="text-xs text-muted-foreground">and {failures.length - MAX_LISTED_FAILURES} more</p>
+                )}
+              </div>
+              <button aria-label="Dismiss" className="text-muted-foreground hover:text-foreground" onClick={clearResults}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {campaignCount(selectedCount)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The campaigns, their retry history and delivery data are deleted permanently. Running campaigns are skipped.
+              To hide campaigns without losing them, archive them instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => handleAction('delete')}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, Info, RefreshCw } from 'lucide-react';
+import { CampaignFailureCount, CampaignFunnelStage, CampaignFunnelStageKey, FinalPreviewData } from '@/types/campaign';
+import { useCampaignDetail } from '@/hooks/useCampaignDetail';
+import { CampaignDetail } from '@/services/campaignDetailService';
+import { RetryService } from '@/services/retryService';
+import { AccountSettingsService } from '@/services/accountSettingsService';
+import { CampaignDetailSkeleton } from './CampaignDetailSkeleton';
+import { RetryAttemptTimeline } from './RetryAttemptTimeline';
+import { fmt } from './CreateCampaignModal';
+
+interface CampaignDetailPageProps {
+  campaignId?: string;
+}
+
+const formatPercent = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+const formatAmount = (amount: number) =>
+  `${AccountSettingsService.getSettings().messageCost.currency} ${amount.toFixed(2)}`;
+
+const sendModeLabels: Record<FinalPreviewData['schedule']['mode'], string> = {
+  OPTIMIZE: 'Optimize with Co-marketer',
+  SPECIFIC_TIME: 'Specific time',
+  SEND_AT_END: 'Send at end'
+};
+
+const Row = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="grid grid-cols-[160px_1fr] gap-4 text-sm">
+    <div className="text-muted-foreground">{label}:</div>
+    <div className="break-words text-foreground">{value}</div>
+  </div>
+);
+
+function FailureList({ failures, campaignId }: { failures: CampaignFailureCount[]; campaignId: string }) {
+  if (failures.length === 0) {
+    return <p className="text-sm text-muted-foreground">No failed messages</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 font-medium">Error code</th>
+          <th className="py-1 font-medium">Description</th>
+          <th className="py-1 font-medium text-right">Messages</th>
+        </tr>
+      </thead>
+      <tbody>
+        {failures.map(failure => (
+          <tr key={failure.errorCode} className="border-t border-border">
+            <td className="py-2 font-mono">{failure.errorCode}</td>
+            <td className="py-2 text-muted-foreground">
+              {RetryService.getRetryPolicy(failure.errorCode, campaignId)?.description ?? '—'}
+            </td>
+            <td className="py-2 text-right">{failure.count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// What a funnel stage is made of, shown when the stage is selected
+function StageDrillDown({ stage, detail }: { stage: CampaignFunnelStage; detail: CampaignDetail }) {
+  const { campaign, funnel, failures, retryStats } = detail;
+  const index = funnel.findIndex(s => s.key === stage.key);
+  const previous = index > 0 ? funnel[index - 1] : null;
+  const published = funnel[0].count;
+
+  return (
+    <div className="mt-4 rounded-md border border-border bg-muted/20 p-4 space-y-3">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+        <span><span className="text-muted-foreground">{stage.label}:</span> {stage.count}</span>
+        <span><span className="text-muted-foreground">Of published:</span> {formatPercent(published > 0 ? stage.count / published : null)}</span>
+        {previous && (
+          <>
+            <span><span className="text-muted-foreground">Of {previous.label.toLowerCase()}:</span> {formatPercent(stage.stepRate)}</span>
+            <span><span className="text-muted-foreground">Drop-off:</span> {Math.max(previous.count - stage.count, 0)}</span>
+          </>
+        )}
+      </div>
+
+      {stage.key === 'sent' && retryStats?.recipients && (
+        <p className="text-sm text-muted-foreground">
+          {retryStats.recipients.total} recipients went into retry: {retryStats.recipients.delivered} delivered,{' '}
+          {retryStats.recipients.sent} awaiting a delivery status, {retryStats.recipients.retrying} still retrying,{' '}
+          {retryStats.recipients.exhausted} exhausted
+        </p>
+      )}
+      {stage.key === 'delivered' && (
+        <>
+          <p className="text-sm text-muted-foreground">{campaign.failed ?? 0} messages failed to deliver</p>
+          <FailureList failures={failures} campaignId={campaign.id} />
+        </>
+      )}
+      {stage.key === 'converted' && (
+        <p className="text-sm text-muted-foreground">
+          {campaign.config?.conversionGoal ? `Goal "${campaign.config.conversionGoal}" · ` : ''}
+          {formatAmount(campaign.conversionRevenue ?? 0)} revenue
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ConfigurationCard({ config }: { config: FinalPreviewData | null | undefined }) {
+  if (!config) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Configuration</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No configuration was stored when this campaign was published</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { schedule } = config;
+  const segmentNames = (segments: FinalPreviewData['includeSegments']) =>
+    segments.length > 0 ? segments.map(segment => segment.name).join(', ') : 'None';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Configuration</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Row label="Name" value={config.name} />
+        <Row label="Tags" value={config.tags.length > 0 ? config.tags.join(', ') : 'None'} />
+        <Row label="Reachable contacts" value={config.reachableContacts.toLocaleString()} />
+        <Row label="Include segments" value={segmentNames(config.includeSegments)} />
+        <Row label="Exclude segments" value={segmentNames(config.excludeSegments)} />
+        <Row label="Deduplication" value={config.deduplicationEnabled ? 'On' : 'Off'} />
+        <Row
+          label="Sampling method"
+          value={config.samplingMethod === 'RANDOM_SAMPLE' ? 'Random Sample' : 'HEPF (High Engagement Preferred First)'}
+        />
+        <Row label="Template" value={config.templateName} />
+        <Row label="Frequency cap" value={schedule.frequencyCapEnabled ? 'On' : 'Off'} />
+        <Row label="When to send" value={sendModeLabels[schedule.mode]} />
+        {schedule.mode === 'SPECIFIC_TIME' && <Row label="Specific time" value={fmt(schedule.specificTimeAt, schedule.timezone)} />}
+        {schedule.mode !== 'SPECIFIC_TIME' && <Row label="Start time" value={fmt(schedule.startAt, schedule.timezone)} />}
+        {schedule.mode !== 'SPECIFIC_TIME' && <Row label="End time" value={fmt(schedule.sendAtEndAt ?? schedule.endAt, schedule.timezone)} />}
+        {typeof schedule.controlGroupPct === 'number' && <Row label="Control group" value={`${schedule.controlGroupPct}%`} />}
+        <Row label="Timezone" value={schedule.timezone} />
+        <Row label="Conversion goal" value={config.conversionGoalEnabled ? config.conversionGoal ?? 'On' : 'Off'} />
+        {config.conversionGoalEnabled && config.revenueParameter != null && (
+          <Row label="Revenue parameter" value={config.revenueParameter} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Campaign detail: delivery funnel with per-stage drill-down, failures by error code,
+ * conversion revenue, the configuration frozen at publish and the retry history
+ */
+export function CampaignDetailPage({ campaignId }: CampaignDetailPageProps) {
+  const { detail, isLoading, error, refetch } = useCampaignDetail(campaignId);
+  const [selectedStage, setSelectedStage] = useState<CampaignFunnelStageKey | null>(null);
+  const campaign = detail?.campaign;
+  const published = detail?.funnel[0].count ?? 0;
+  const stage = detail?.funnel.find(s => s.key === selectedStage);
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      {/* Page Header */}
+      <div className="sticky top-0 z-40 bg-background border-b border-border px-4 sm:px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Link to="/engage/campaigns" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <h2 className="text-2xl font-semibold text-foreground">{campaign?.name ?? 'Campaign'}</h2>
+              {campaign && (
+                <Badge
+                  variant={campaign.status === 'SENT' ? 'default' : 'secondary'}
+                  className={campaign.status === 'SENT' ? 'bg-success text-success-foreground' : ''}
+                >
+                  {campaign.status}
+                </Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground">
+              {campaign ? `${campaign.channel} · ID - ${campaign.id} · Sent ${campaign.sentOn || 'NA'}` : `ID - ${campaignId}`}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !detail ? (
+        <CampaignDetailSkeleton />
+      ) : (
+        <div className="flex-1 px-4 sm:px-6 py-6 space-y-6">
+          {error && (
+            <Alert className="border-destructive bg-destructive/10">
+              <Info className="h-4 w-4 text-destructive" />
+              <AlertDescription className="text-destructive">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {!error && !detail && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>This campaign doesn't exist or has been deleted.</AlertDescription>
+            </Alert>
+          )}
+
+          {detail && campaign && (
+            <>
+              {/* Delivery funnel */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Delivery funnel</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {detail.funnel.map(s => (
+                      <button
+                        key={s.key}
+                        className={`w-full flex items-center space-x-4 rounded-md px-2 py-1 text-left hover:bg-muted/40 ${
+                          selectedStage === s.key ? 'bg-muted/40 ring-1 ring-border' : ''
+                        }`}
+                        aria-pressed={selectedStage === s.key}
+                        onClick={() => setSelectedStage(selectedStage === s.key ? null : s.key)}
+                      >
+                        <span className="w-20 text-sm text-muted-foreground">{s.label}</span>
+                        <span className="flex-1 h-6 bg-muted rounded overflow-hidden">
+                          <span
+                            className="block h-full bg-primary/70"
+                            style={{ width: `${published > 0 ? Math.min(s.count / published, 1) * 100 : 0}%` }}
+                          />
+                        </span>
+                        <span className="w-16 text-right text-sm font-medium text-foreground">{s.count}</span>
+                        <span className="w-16 text-right text-xs text-muted-foreground">{formatPercent(s.stepRate)}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {stage ? (
+                    <StageDrillDown stage={stage} detail={detail} />
+                  ) : (
+                    <p className="mt-4 text-xs text-muted-foreground">Select a stage to see its breakdown</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                <ConfigurationCard config={campaign.config} />
+
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Failures by error code</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <FailureList failures={detail.failures} campaignId={campaign.id} />
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Conversion goal revenue</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                      {campaign.config && !campaign.config.conversionGoalEnabled ? (
+                        <p className="text-sm text-muted-foreground">No conversion goal was set for this campaign</p>
+                      ) : (
+                        <>
+                          <p className="text-2xl font-semibold text-foreground">{formatAmount(campaign.conversionRevenue ?? 0)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {campaign.converted ?? 0} conversions
+                            {campaign.config?.conversionGoal ? ` of "${campaign.config.conversionGoal}"` : ''}
+                            {campaign.converted ? ` · ${formatAmount((campaign.conversionRevenue ?? 0) / campaign.converted)} per conversion` : ''}
+                          </p>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              </div>
+
+              {/* Retry history */}
+              <Card className="overflow-hidden">
+                <CardHeader>
+                  <CardTitle className="text-base">Retry history</CardTitle>
+                </CardHeader>
+                {detail.retryState ? (
+                  <RetryAttemptTimeline retryState={detail.retryState} stats={detail.retryStats ?? undefined} />
+                ) : (
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground">Retries were not enabled for this campaign</p>
+                  </CardContent>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+
+export function CampaignDetailSkeleton() {
+  return (
+    <div className="flex-1 px-4 sm:px-6 py-6 space-y-6">
+      {/* Funnel */}
+      <div className="bg-card rounded-lg border border-border p-6 space-y-4">
+        <Skeleton className="w-32 h-5" />
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="flex items-center space-x-4">
+            <Skeleton className="w-20 h-4" />
+            <Skeleton className="h-6 flex-1" />
+            <Skeleton className="w-16 h-4" />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Configuration */}
+        <div className="bg-card rounded-lg border border-border p-6 space-y-3">
+          <Skeleton className="w-40 h-5" />
+          {[...Array(8)].map((_, i) => (
+            <div key={i} className="grid grid-cols-[160px_1fr] gap-4">
+              <Skeleton className="w-24 h-4" />
+              <Skeleton className="w-40 h-4" />
+            </div>
+          ))}
+        </div>
+
+        {/* Failures and revenue */}
+        <div className="space-y-6">
+          <div className="bg-card rounded-lg border border-border p-6 space-y-3">
+            <Skeleton className="w-36 h-5" />
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="flex justify-between">
+                <Skeleton className="w-32 h-4" />
+                <Skeleton className="w-8 h-4" />
+              </div>
+            ))}
+          </div>
+          <div className="bg-card rounded-lg border border-border p-6 space-y-3">
+            <Skeleton className="w-36 h-5" />
+            <Skeleton className="w-28 h-8" />
+          </div>
+        </div>
+      </div>
+
+      {/* Retry history */}
+      <div className="bg-card rounded-lg border border-border p-6 space-y-3">
+        <Skeleton className="w-28 h-5" />
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="space-y-2">
+            <Skeleton className="w-48 h-4" />
+            <Skeleton className="w-64 h-3" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter } from 'lucide-react';
+import { BUSINESS_NUMBERS, CampaignAdvancedFilters, CampaignRetryFilter } from '@/types/campaign';
+import { CampaignViewService } from '@/services/campaignViewService';
+
+// Select items can't have an empty value, so "any" stands for no filter
+const ANY = 'any';
+
+const retryOptions: { value: CampaignRetryFilter; label: string }[] = [
+  { value: 'active', label: 'Has active retries' },
+  { value: 'expired', label: 'TTL expired' }
+];
+
+interface CampaignFilterPanelProps {
+  filters: CampaignAdvancedFilters;
+  onApply: (filters: CampaignAdvancedFilters) => void;
+}
+
+/**
+ * Filter button with the panel for date ranges, tags, template, business number, creator and retry status
+ */
+export function CampaignFilterPanel({ filters, onApply }: CampaignFilterPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<CampaignAdvancedFilters>(filters);
+  const [tagsInput, setTagsInput] = useState('');
+  const activeCount = CampaignViewService.countAdvancedFilters(filters);
+
+  // Edit a copy; the list only changes on Apply
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(filters);
+      setTagsInput(filters.tags?.join(', ') ?? '');
+    }
+    setOpen(next);
+  };
+
+  const update = (updates: Partial<CampaignAdvancedFilters>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const apply = (next: CampaignAdvancedFilters) => {
+    onApply(next);
+    setOpen(false);
+  };
+
+  const dateRange = (label: string, fromKey: 'createdFrom' | 'sentFrom', toKey: 'createdTo' | 'sentTo') => (
+    <div>
+      <Label>{label}</Label>
+      <div className="flex items-center space-x-2 mt-1">
+        <Input
+          type="date"
+          aria-label={`${label} from`}
+          value={draft[fromKey] ?? ''}
+          max={draft[toKey]}
+          onChange={(e) => update({ [fromKey]: e.target.value || undefined })}
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label={`${label} to`}
+          value={draft[toKey] ?? ''}
+          min={draft[fromKey]}
+          onChange={(e) => update({ [toKey]: e.target.value || undefined })}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Filter className="w-4 h-4 mr-2" />
+          Filter
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2 px-1.5">{activeCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 space-y-4">
+        {dateRange('Created', 'createdFrom', 'createdTo')}
+        {dateRange('Sent', 'sentFrom', 'sentTo')}
+
+        <div>
+          <Label htmlFor="filter-tags">Tags</Label>
+          <Input
+            id="filter-tags"
+            className="mt-1"
+            placeholder="e.g. Adobe, EMI"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">Campaigns with any of the tags (comma-separated)</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="filter-template">Template</Label>
+            <Input
+              id="filter-template"
+              className="mt-1"
+              placeholder="Template ID"
+              value={draft.templateId ?? ''}
+              onChange={(e) => update({ templateId: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="filter-creator">Created by</Label>
+            <Input
+              id="filter-creator"
+              className="mt-1"
+              placeholder="Email"
+              value={draft.createdBy ?? ''}
+              onChange={(e) => update({ createdBy: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Business number</Label>
+            <Select
+              value={draft.businessNumberId ?? ANY}
+              onValueChange={(value) => update({ businessNumberId: value === ANY ? undefined : value })}
+            >
+              <SelectTrigger className="mt-1" aria-label="Filter by business number">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {BUSINESS_NUMBERS.map(number => (
+                  <SelectItem key={number.id} value={number.id}>{number.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Retries</Label>
+            <Select
+              value={draft.retryStatus || ANY}
+              onValueChange={(value) => update({ retryStatus: value === ANY ? undefined : value as CampaignRetryFilter })}
+            >
+              <SelectTrigger className="mt-1" aria-label="Filter by retry status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {retryOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2 border-t border-border">
+          <Button variant="ghost" size="sm" onClick={() => apply({})}>Clear filters</Button>
+          <Button size="sm" onClick={() => apply({ ...draft, tags: tagsInput.split(',') })}>Apply</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
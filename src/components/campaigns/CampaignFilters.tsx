@@ -2,23 +2,48 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Search, 
-  Filter, 
   Download, 
   Hash, 
   Percent, 
   Settings,
   X
 } from 'lucide-react';
-import { StatusTab, CampaignFilters as CampaignFiltersType } from '@/types/campaign';
+import { CampaignFilterPanel } from './CampaignFilterPanel';
+import { CampaignSavedViews } from './CampaignSavedViews';
+import {
+  StatusTab,
+  CampaignAdvancedFilters,
+  CampaignFilters as CampaignFiltersType,
+  CampaignChannel,
+  CampaignChannelFilter,
+  CampaignSortBy,
+  CampaignSortOrder
+} from '@/types/campaign';
+
+const channels: CampaignChannel[] = ['WhatsApp', 'SMS', 'Email', 'Push'];
+
+// Sort choices, keyed "<sortBy>:<sortOrder>"
+const sortOptions: { value: `${CampaignSortBy}:${CampaignSortOrder}`; label: string }[] = [
+  { value: 'date:desc', label: 'Newest first' },
+  { value: 'date:asc', label: 'Oldest first' },
+  { value: 'name:asc', label: 'Name (A–Z)' },
+  { value: 'name:desc', label: 'Name (Z–A)' },
+  { value: 'status:asc', label: 'Status (A–Z)' },
+  { value: 'status:desc', label: 'Status (Z–A)' }
+];
 
 interface CampaignFiltersProps {
   statusTabs: StatusTab[];
   filters: CampaignFiltersType;
   onSearchChange: (query: string) => void;
   onTabChange: (tab: string) => void;
-  onChannelFilterChange: (filter: string) => void;
+  onChannelFilterChange: (filter: CampaignChannelFilter) => void;
+  onSortChange: (sortBy: CampaignSortBy, sortOrder: CampaignSortOrder) => void;
+  onAdvancedFiltersChange: (filters: CampaignAdvancedFilters) => void;
+  onApplyView: (filters: CampaignFiltersType) => void;
   onPreserveScroll: () => void;
 }
 
@@ -28,6 +53,9 @@ export function CampaignFilters({
   onSearchChange,
   onTabChange,
   onChannelFilterChange,
+  onSortChange,
+  onAdvancedFiltersChange,
+  onApplyView,
   onPreserveScroll
 }: CampaignFiltersProps) {
   const handleTabChange = (newTab: string) => {
@@ -35,7 +63,7 @@ export function CampaignFilters({
     onTabChange(newTab);
   };
 
-  const handleChannelFilterChange = (filter: string) => {
+  const handleChannelFilterChange = (filter: CampaignChannelFilter) => {
     onPreserveScroll();
     onChannelFilterChange(filter);
   };
@@ -60,7 +88,26 @@ export function CampaignFilters({
               </button>
             </Badge>
           )}
-          <Button variant="ghost" size="sm" className="text-primary">
+          <Select
+            value={filters.activeChannelFilter}
+            onValueChange={(value) => handleChannelFilterChange(value as CampaignChannel)}
+          >
+            <SelectTrigger className="h-8 w-36" aria-label="Filter by channel">
+              <SelectValue placeholder="All channels" />
+            </SelectTrigger>
+            <SelectContent>
+              {channels.map(channel => (
+                <SelectItem key={channel} value={channel}>{channel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-primary"
+            disabled={!filters.activeChannelFilter}
+            onClick={() => handleChannelFilterChange('')}
+          >
             Clear All
           </Button>
         </div>
@@ -112,10 +159,24 @@ export function CampaignFilters({
               className="pl-10"
             />
           </div>
-          <Button variant="outline" size="sm">
-            <Filter className="w-4 h-4 mr-2" />
-            Filter
-          </Button>
+          <CampaignFilterPanel filters={filters.advanced} onApply={onAdvancedFiltersChange} />
+          <Select
+            value={`${filters.sortBy}:${filters.sortOrder}`}
+            onValueChange={(value) => {
+              const [sortBy, sortOrder] = value.split(':') as [CampaignSortBy, CampaignSortOrder];
+              onSortChange(sortBy, sortOrder);
+            }}
+          >
+            <SelectTrigger className="w-40" aria-label="Sort campaigns">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CampaignSavedViews filters={filters} onApply={onApplyView} />
         </div>
       </div>
     </div>
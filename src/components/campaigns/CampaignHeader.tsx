@@ -1,6 +1,7 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Plus, RefreshCw } from 'lucide-react';
 
 interface CampaignHeaderProps {
   onCreateCampaign: () => void;
@@ -18,6 +19,12 @@ export function CampaignHeader({ onCreateCampaign }: CampaignHeaderProps) {
           </p>
         </div>
         <div className="flex items-center space-x-3">
+          <Button variant="outline" asChild>
+            <Link to="/engage/campaigns/retries">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              RETRIES
+            </Link>
+          </Button>
           <Button
             onClick={onCreateCampaign}
             className="bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { CalendarClock, History, MoreHorizontal, Pause, Play, XCircle } from 'lucide-react';
+import { useRetryControls } from '@/hooks/useRetryControls';
+import { RetryControlAction, RetryControlAuditEntry, RetryControlStatus } from '@/services/retryControls';
+import { RetryTtlRules, RetryTtlValidationError } from '@/services/retryTtlRules';
+
+type RetryDialog = 'ttl' | 'cancel' | 'history' | null;
+
+const statusLabels: Record<RetryControlStatus, string> = {
+  active: 'Retries active',
+  paused: 'Retries paused',
+  cancelled: 'Retries cancelled',
+  finished: 'No retries pending'
+};
+
+const actionLabels: Record<RetryControlAction, string> = {
+  paused: 'Paused',
+  resumed: 'Resumed',
+  ttl_changed: 'TTL changed',
+  cancelled: 'Cancelled'
+};
+
+const formatDateTime = (value: string) => format(new Date(value), 'dd MMM yyyy, hh:mm a');
+
+const toTtlInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+// Retry TTL errors are shown with the account's localized messages
+const describeError = (err: unknown) =>
+  err instanceof RetryTtlValidationError
+    ? RetryTtlRules.formatErrors(err.errors).join(' ')
+    : err instanceof Error ? err.message : 'Retry action failed';
+
+interface CampaignRetryActionsProps {
+  campaignId: string;
+  campaignName: string;
+}
+
+/**
+ * Row action menu with the campaign's retry controls (pause, resume, TTL change, cancel)
+ */
+export function CampaignRetryActions({ campaignId, campaignName }: CampaignRetryActionsProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [hasOpened, setHasOpened] = useState(false);
+  const [dialog, setDialog] = useState<RetryDialog>(null);
+  const [ttlInput, setTtlInput] = useState('');
+  const [cancelReason, setCancelReason] = useState('');
+  const [audit, setAudit] = useState<RetryControlAuditEntry[] | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { retryState, status, isLoading, error, pause, resume, changeTtl, cancel, getAuditLog } =
+    useRetryControls(campaignId, hasOpened);
+
+  const onMenuOpenChange = (open: boolean) => {
+    setIsMenuOpen(open);
+    if (open) {
+      setHasOpened(true);
+    }
+  };
+
+  const openDialog = (next: Exclude<RetryDialog, null>) => {
+    setActionError(null);
+    if (next === 'ttl') {
+      setTtlInput(retryState?.retryConfig.ttlDateTime ? toTtlInput(retryState.retryConfig.ttlDateTime) : '');
+    } else if (next === 'cancel') {
+      setCancelReason('');
+    } else {
+      setAudit(null);
+      getAuditLog().then(setAudit).catch(err => setActionError(describeError(err)));
+    }
+    setDialog(next);
+  };
+
+  // Keep dialogs open on failure so the operator can correct the input
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsBusy(true);
+      setActionError(null);
+      await action();
+      setDialog(null);
+    } catch (err) {
+      setActionError(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const allowedRange = retryState?.retryConfig.scheduledDateTime
+    ? RetryTtlRules.getAllowedRange(retryState.retryConfig.scheduledDateTime)
+    : null;
+  const canControl = status === 'active' || status === 'paused';
+
+  return (
+    <>
+      <DropdownMenu open={isMenuOpen} onOpenChange={onMenuOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" aria-label={`Actions for ${campaignName}`}>
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            {isLoading ? 'Loading retry state...' : error ? error : statusLabels[status]}
+          </DropdownMenuLabel>
+          {retryState?.cancelReason && (
+            <DropdownMenuLabel className="pt-0 text-xs font-normal text-muted-foreground">
+              Reason: {retryState.cancelReason}
+            </DropdownMenuLabel>
+          )}
+          <DropdownMenuSeparator />
+          {status === 'paused' ? (
+            <DropdownMenuItem disabled={isLoading} onSelect={() => run(resume)}>
+              <Play className="w-4 h-4 mr-2" />
+              Resume retries
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem disabled={isLoading || status !== 'active'} onSelect={() => run(pause)}>
+              <Pause className="w-4 h-4 mr-2" />
+              Pause retries
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem disabled={isLoading || !canControl} onSelect={() => openDialog('ttl')}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Change retry TTL
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            disabled={isLoading || !canControl}
+            onSelect={() => openDialog('cancel')}
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Cancel retries
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openDialog('history')}>
+            <History className="w-4 h-4 mr-2" />
+            Retry audit trail
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {actionError && !dialog && (
+        <p className="mt-1 max-w-[12rem] text-xs text-destructive">{actionError}</p>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          {dialog === 'ttl' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Change retry TTL</DialogTitle>
+                <DialogDescription>
+                  Retries for "{campaignName}" stop at the new TTL.
+                  {allowedRange && ` Allowed between ${formatDateTime(allowedRange.min.toISOString())} and ${formatDateTime(allowedRange.max.toISOString())}.`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor={`retry-ttl-${campaignId}`}>Retry until</Label>
+                <Input
+                  id={`retry-ttl-${campaignId}`}
+                  type="datetime-local"
+                  value={ttlInput}
+                  onChange={(e) => setTtlInput(e.target.value)}
+                />
+              </div>
+              {actionError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{actionError}</AlertDescription>
+                </Alert>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialog(null)}>Close</Button>
+                <Button
+                  disabled={isBusy || !ttlInput}
+                  onClick={() => run(() => changeTtl(new Date(ttlInput).toISOString()))}
+                >
+                  Save TTL
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === 'cancel' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Cancel retries</DialogTitle>
+                <DialogDescription>
+                  No further retries are sent for "{campaignName}". This can't be undone.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor={`cancel-reason-${campaignId}`}>Reason</Label>
+                <Textarea
+                  id={`cancel-reason-${campaignId}`}
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="e.g. Offer withdrawn"
+                />
+              </div>
+              {actionError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{actionError}</AlertDescription>
+                </Alert>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialog(null)}>Keep retrying</Button>
+                <Button
+                  variant="destructive"
+                  disabled={isBusy || !cancelReason.trim()}
+                  onClick={() => run(() => cancel(cancelReason))}
+                >
+                  Cancel retries
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === 'history' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Retry audit trail</DialogTitle>
+                <DialogDescription>Operator actions on retries for "{campaignName}"</DialogDescription>
+              </DialogHeader>
+              {actionError ? (
+                <Alert variant="destructive">
+                  <AlertDescription>{actionError}</AlertDescription>
+                </Alert>
+              ) : !audit ? (
+                <p className="text-sm text-muted-foreground">Loading audit trail...</p>
+              ) : audit.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No retry actions yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {audit.map((item, index) => (
+                    <li key={index} className="text-sm">
+                      <span className="font-medium">{actionLabels[item.action]}</span>
+                      <span className="text-muted-foreground"> by {item.actor} on {formatDateTime(item.occurredAt)}</span>
+                      {item.details && <div className="text-xs text-muted-foreground">{item.details}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
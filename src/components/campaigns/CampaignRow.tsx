@@ -1,29 +1,45 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { MessageCircle, MoreHorizontal } from 'lucide-react';
-import { CampaignRowProps } from '@/types/campaign';
+import { Mail, MessageCircle, MessageSquareText, Smartphone } from 'lucide-react';
+import { CampaignChannel, CampaignRowProps } from '@/types/campaign';
+import { CampaignRetryActions } from './CampaignRetryActions';
+
+const channelIcons: Record<CampaignChannel, { icon: typeof MessageCircle; className: string }> = {
+  WhatsApp: { icon: MessageCircle, className: 'text-success' },
+  SMS: { icon: MessageSquareText, className: 'text-purple-600' },
+  Email: { icon: Mail, className: 'text-blue-600' },
+  Push: { icon: Smartphone, className: 'text-purple-600' }
+};
+
+export function CampaignRow({ campaign, isHighlighted = false, isSelected = false, onSelect }: CampaignRowProps) {
+  const { icon: ChannelIcon, className: channelIconClass } = channelIcons[campaign.channel] ?? channelIcons.WhatsApp;
 
-export function CampaignRow({ campaign, isHighlighted = false, onSelect }: CampaignRowProps) {
   return (
     <tr 
       id={`campaign-${campaign.id}`}
       className={`border-t border-border hover:bg-muted/25 ${
-        isHighlighted ? 'bg-success/10 ring-1 ring-success/20' : ''
+        isHighlighted ? 'bg-success/10 ring-1 ring-success/20' : isSelected ? 'bg-muted/40' : ''
       }`}
     >
       <td className="px-4 py-4">
-        <Checkbox onChange={() => onSelect?.(campaign.id)} />
+        <Checkbox
+          checked={isSelected}
+          onCheckedChange={() => onSelect?.(campaign.id)}
+          aria-label={`Select ${campaign.name}`}
+        />
       </td>
       <td className="px-4 py-4">
         <div className="flex items-start space-x-3">
           <div className="flex-shrink-0">
-            <MessageCircle className="w-4 h-4 text-success mt-0.5" />
+            <ChannelIcon className={`w-4 h-4 mt-0.5 ${channelIconClass}`} aria-label={campaign.channel} />
           </div>
           <div>
             <div className="text-sm font-medium text-foreground">
-              {campaign.name}
+              <Link to={`/engage/campaigns/${campaign.id}`} className="hover:text-primary hover:underline">
+                {campaign.name}
+              </Link>
               {isHighlighted && (
                 <Badge variant="outline" className="ml-2 text-xs border-success text-success">
                   New
@@ -65,9 +81,7 @@ export function CampaignRow({ campaign, isHighlighted = false, onSelect }: Campa
         <div className="text-sm text-foreground">{campaign.bounce}</div>
       </td>
       <td className="px-4 py-4">
-        <Button variant="ghost" size="sm">
-          <MoreHorizontal className="w-4 h-4" />
-        </Button>
+        <CampaignRetryActions campaignId={campaign.id} campaignName={campaign.name} />
       </td>
     </tr>
   );
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Save, Trash2 } from 'lucide-react';
+import { CampaignFilters } from '@/types/campaign';
+import { useSavedCampaignViews } from '@/hooks/useSavedCampaignViews';
+import { MAX_VIEW_NAME_LENGTH } from '@/services/campaignViewService';
+
+interface CampaignSavedViewsProps {
+  filters: CampaignFilters;
+  onApply: (filters: CampaignFilters) => void;
+}
+
+/**
+ * Menu of the user's saved list views, with saving the current filters under a name
+ */
+export function CampaignSavedViews({ filters, onApply }: CampaignSavedViewsProps) {
+  const { views, isLoading, error, saveView, deleteView } = useSavedCampaignViews();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openSaveDialog = () => {
+    setName('');
+    setSaveError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await saveView(name, filters);
+      setIsDialogOpen(false);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const replacesExisting = views.some(view => view.name === name.trim());
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            {isLoading ? 'Loading saved views...' : error ? error : views.length === 0 ? 'No saved views yet' : 'Saved views'}
+          </DropdownMenuLabel>
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onSelect={() => onApply(view.filters)} className="justify-between">
+              <span className="truncate">{view.name}</span>
+              <button
+                aria-label={`Delete view ${view.name}`}
+                className="ml-2 p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteView(view.id).catch(() => undefined); // Error shows in the menu label
+                }}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <Save className="w-4 h-4 mr-2" />
+            Save current view...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>Save the current search, tab, channel, sort and filters under a name.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              maxLength={MAX_VIEW_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Expired WhatsApp retries"
+            />
+            {replacesExisting && (
+              <p className="text-xs text-muted-foreground">Replaces your saved view with this name</p>
+            )}
+          </div>
+          {saveError && (
+            <Alert variant="destructive">
+              <AlertDescription>{saveError}</AlertDescription>
+            </Alert>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button disabled={isSaving || !name.trim()} onClick={handleSave}>Save view</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,158 +4,38 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { MessageCircle, MoreHorizontal } from 'lucide-react';
+import { CampaignTableProps } from '@/types/campaign';
+import { CampaignService } from '@/services/campaignService';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { CampaignTableSkeleton } from './CampaignTableSkeleton';
 
-interface Campaign {
-  id: string;
-  name: string;
-  status: 'DRAFT' | 'SENT';
-  sentOn: string | null;
-  published: number;
-  sent: number;
-  opened: number;
-  clicked: number;
-  bounce: string;
-  channel: 'WhatsApp' | 'Email' | 'SMS';
-}
-
-const baseCampaigns: Campaign[] = [
-  {
-    id: '246',
-    name: 'Copy:2 Sep 2025 @1:35pm- la...',
-    status: 'DRAFT',
-    sentOn: null,
-    published: 0,
-    sent: 0,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '262',
-    name: 'Copy:4 Sep 2025 @9:31pm-cra...',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 09:31 PM (GMT +05:30)',
-    published: 219,
-    sent: 219,
-    opened: 1,
-    clicked: 1,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '261',
-    name: 'crawer event',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 09:28 PM (GMT +05:30)',
-    published: 219,
-    sent: 219,
-    opened: 1,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '260',
-    name: 'testing_verification',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 06:23 PM (GMT +05:30)',
-    published: 1,
-    sent: 1,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '257',
-    name: 'test campaign',
-    status: 'SENT',
-    sentOn: 'Sep 03, 2025 07:38 PM (GMT +05:30)',
-    published: 1,
-    sent: 1,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  }
-];
-
-interface CampaignTableProps {
-  publishedCampaignId?: string | null;
-  searchQuery?: string;
-  activeTab?: string;
-}
-
-export function CampaignTable({ publishedCampaignId, searchQuery = '', activeTab = 'all' }: CampaignTableProps) {
+export function CampaignTable({ publishedCampaignId, searchQuery = '', activeTab = 'all', channel = '' }: CampaignTableProps) {
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
 
-  // Create campaigns list with newly published campaign at top (if exists)
-  const campaigns = useMemo(() => {
-    const campaignList = [...baseCampaigns];
-    
-    // Add newly published campaign to the top
-    if (publishedCampaignId) {
-      const newCampaign: Campaign = {
-        id: publishedCampaignId,
-        name: 'New WhatsApp Campaign',
-        status: 'SENT',
-        sentOn: new Date().toLocaleString('en-US', {
-          year: 'numeric',
-          month: 'short',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          hour12: true,
-          timeZoneName: 'short'
-        }),
-        published: 1,
-        sent: 1,
-        opened: 0,
-        clicked: 0,
-        bounce: 'NA',
-        channel: 'WhatsApp'
-      };
-      
-      // Pin to top for 10 seconds, then sort by latest
-      campaignList.unshift(newCampaign);
-    }
-    
-    return campaignList;
-  }, [publishedCampaignId]);
+  // Campaigns from the campaign repository, with the newly published campaign pinned to the top
+  const { campaigns, isLoading, error } = useCampaigns(publishedCampaignId);
 
-  // Filter campaigns based on search and tab
-  const filteredCampaigns = useMemo(() => {
-    let filtered = campaigns;
-    
-    if (searchQuery) {
-      filtered = filtered.filter(campaign =>
-        campaign.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        campaign.id.includes(searchQuery)
-      );
-    }
-    
-    if (activeTab !== 'all') {
-      switch (activeTab) {
-        case 'drafts':
-          filtered = filtered.filter(c => c.status === 'DRAFT');
-          break;
-        case 'sent':
-          filtered = filtered.filter(c => c.status === 'SENT');
-          break;
-        // Add more filters as needed
-      }
-    }
-    
-    return filtered;
-  }, [campaigns, searchQuery, activeTab]);
+  // Filter campaigns based on search, tab and channel
+  const filteredCampaigns = useMemo(
+    () => CampaignService.filterCampaigns(campaigns, searchQuery, activeTab, channel),
+    [campaigns, searchQuery, activeTab, channel]
+  );
 
   // Pagination logic
   const totalPages = Math.ceil(filteredCampaigns.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
   const currentCampaigns = filteredCampaigns.slice(startIndex, endIndex);
+
+  if (isLoading) {
+    return <CampaignTableSkeleton />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">Error loading campaigns: {error}</p>;
+  }
+
   return (
     <div className="space-y-4">
       {/* Table */}
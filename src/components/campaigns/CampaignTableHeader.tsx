@@ -4,16 +4,18 @@ import { Checkbox } from '@/components/ui/checkbox';
 interface CampaignTableHeaderProps {
   onSelectAll?: (selected: boolean) => void;
   allSelected?: boolean;
+  someSelected?: boolean; // Shows the checkbox as indeterminate
 }
 
-export function CampaignTableHeader({ onSelectAll, allSelected = false }: CampaignTableHeaderProps) {
+export function CampaignTableHeader({ onSelectAll, allSelected = false, someSelected = false }: CampaignTableHeaderProps) {
   return (
     <thead className="bg-muted/50 sticky top-0 z-10">
       <tr>
         <th className="w-12 px-4 py-3">
           <Checkbox 
-            checked={allSelected}
-            onCheckedChange={(checked) => onSelectAll?.(checked as boolean)}
+            checked={allSelected ? true : someSelected ? 'indeterminate' : false}
+            onCheckedChange={(checked) => onSelectAll?.(checked === true)}
+            aria-label="Select all campaigns on this page"
           />
         </th>
         <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">
@@ -1,66 +1,43 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Campaign, CampaignTableProps } from '@/types/campaign';
-import { usePagination } from '@/hooks/usePagination';
 import { CampaignTableHeader } from './CampaignTableHeader';
 import { CampaignRow } from './CampaignRow';
-import { TablePagination } from './TablePagination';
+import { TablePagination, TablePaginationProps } from './TablePagination';
 
 interface CampaignTableNewProps extends CampaignTableProps {
-  campaigns: Campaign[];
+  campaigns: Campaign[]; // Current page, already paginated on the server
+  pagination: TablePaginationProps;
+  // Row selection is kept by the page, so it can span pages
+  isSelected: (campaignId: string) => boolean;
+  onSelectCampaign: (campaignId: string) => void;
+  onSelectPage: (campaignIds: string[], selected: boolean) => void;
 }
 
-export function CampaignTableNew({ 
-  campaigns, 
-  publishedCampaignId 
+export function CampaignTableNew({
+  campaigns: currentCampaigns,
+  publishedCampaignId,
+  pagination,
+  isSelected,
+  onSelectCampaign,
+  onSelectPage
 }: CampaignTableNewProps) {
-  const [selectedCampaigns, setSelectedCampaigns] = useState<Set<string>>(new Set());
-  
-  const {
-    currentItems: currentCampaigns,
-    paginationState,
-    totalPages,
-    startIndex,
-    endIndex,
-    goToPage,
-    nextPage,
-    previousPage,
-    changeItemsPerPage,
-    canGoNext,
-    canGoPrevious
-  } = usePagination(campaigns, 10);
-
-  const handleSelectCampaign = (campaignId: string) => {
-    setSelectedCampaigns(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(campaignId)) {
-        newSet.delete(campaignId);
-      } else {
-        newSet.add(campaignId);
-      }
-      return newSet;
-    });
-  };
+  const selectedOnPage = currentCampaigns.filter(campaign => isSelected(campaign.id)).length;
+  const allSelected = currentCampaigns.length > 0 && selectedOnPage === currentCampaigns.length;
 
   const handleSelectAll = (selected: boolean) => {
-    if (selected) {
-      setSelectedCampaigns(new Set(currentCampaigns.map(c => c.id)));
-    } else {
-      setSelectedCampaigns(new Set());
-    }
+    onSelectPage(currentCampaigns.map(c => c.id), selected);
   };
 
-  const allSelected = currentCampaigns.length > 0 && 
-    currentCampaigns.every(campaign => selectedCampaigns.has(campaign.id));
-
   return (
     <div className="space-y-4">
       {/* Table */}
       <div className="bg-card rounded-lg border border-border overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
-            <CampaignTableHeader 
+            <CampaignTableHeader
               onSelectAll={handleSelectAll}
               allSelected={allSelected}
+              someSelected={selectedOnPage > 0}
             />
             <tbody>
               {currentCampaigns.map((campaign) => (
@@ -68,7 +45,8 @@ export function CampaignTableNew({
                   key={campaign.id}
                   campaign={campaign}
                   isHighlighted={campaign.id === publishedCampaignId}
-                  onSelect={handleSelectCampaign}
+                  isSelected={isSelected(campaign.id)}
+                  onSelect={onSelectCampaign}
                 />
               ))}
             </tbody>
@@ -77,18 +55,7 @@ export function CampaignTableNew({
       </div>
 
       {/* Pagination */}
-      <TablePagination
-        paginationState={paginationState}
-        totalPages={totalPages}
-        startIndex={startIndex}
-        endIndex={endIndex}
-        onPageChange={goToPage}
-        onItemsPerPageChange={changeItemsPerPage}
-        canGoNext={canGoNext}
-        canGoPrevious={canGoPrevious}
-        onNext={nextPage}
-        onPrevious={previousPage}
-      />
+      <TablePagination {...pagination} />
     </div>
   );
 }
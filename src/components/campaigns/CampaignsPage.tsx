@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { CampaignTable } from './CampaignTable';
 import { CreateCampaignModal } from './CreateCampaignModal';
+import { CampaignChannel, CampaignChannelFilter } from '@/types/campaign';
 
 const statusTabs = [
   { id: 'all', label: 'All', count: 196 },
@@ -33,7 +34,7 @@ export function CampaignsPage() {
   const [activeTab, setActiveTab] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [activeChannelFilter, setActiveChannelFilter] = useState('WhatsApp');
+  const [activeChannelFilter, setActiveChannelFilter] = useState<CampaignChannelFilter>('WhatsApp');
   const [isLoading, setIsLoading] = useState(false);
   const [showSuccessBanner, setShowSuccessBanner] = useState(false);
   const [publishedCampaignId, setPublishedCampaignId] = useState<string | null>(null);
@@ -53,7 +54,7 @@ export function CampaignsPage() {
       setPublishedCampaignId(campaignId);
       
       if (channel) {
-        setActiveChannelFilter(channel);
+        setActiveChannelFilter(channel as CampaignChannel);
       }
       
       // Auto-scroll to newly published campaign after data loads
@@ -96,7 +97,7 @@ export function CampaignsPage() {
     setActiveTab(newTab);
   };
 
-  const handleChannelFilterChange = (filter: string) => {
+  const handleChannelFilterChange = (filter: CampaignChannelFilter) => {
     if (tableContainerRef.current) {
       setScrollPosition(tableContainerRef.current.scrollTop);
     }
@@ -237,6 +238,7 @@ export function CampaignsPage() {
               publishedCampaignId={publishedCampaignId}
               searchQuery={searchQuery}
               activeTab={activeTab}
+              channel={activeChannelFilter}
             />
           )}
         </div>
@@ -1,42 +1,74 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { CampaignHeader } from './CampaignHeader';
 import { SuccessBanner } from './SuccessBanner';
 import { CampaignFilters } from './CampaignFilters';
 import { CampaignTableNew } from './CampaignTableNew';
 import { CampaignTableSkeleton } from './CampaignTableSkeleton';
+import { CampaignBulkActionBar } from './CampaignBulkActionBar';
 import { CreateCampaignModal } from './CreateCampaignModal';
-import { useCampaigns } from '@/hooks/useCampaigns';
+import { useCampaignPages } from '@/hooks/useCampaignPages';
 import { useCampaignFilters } from '@/hooks/useCampaignFilters';
+import { useCampaignSelection } from '@/hooks/useCampaignSelection';
 import { useSuccessBanner } from '@/hooks/useSuccessBanner';
 import { useScrollPreservation } from '@/hooks/useScrollPreservation';
+import { CampaignBulkService } from '@/services/campaignBulkService';
 
 export function CampaignsPageNew() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   
   // Custom hooks for state management
   const { bannerState } = useSuccessBanner();
-  const { campaigns, statusTabs, isLoading, error } = useCampaigns(bannerState.campaignId);
   const { 
     filters, 
-    filteredCampaigns, 
+    listOptions, 
     updateSearchQuery, 
     updateActiveTab, 
-    updateChannelFilter 
-  } = useCampaignFilters(campaigns);
+    updateChannelFilter,
+    updateSort,
+    updateAdvancedFilters,
+    applyFilters
+  } = useCampaignFilters();
+  const {
+    campaigns,
+    statusTabs,
+    isLoading,
+    error,
+    refetch,
+    paginationState,
+    totalPages,
+    startIndex,
+    endIndex,
+    goToPage,
+    nextPage,
+    previousPage,
+    changeItemsPerPage,
+    canGoToPage,
+    canGoNext,
+    canGoPrevious
+  } = useCampaignPages(listOptions, bannerState.campaignId);
+  const {
+    selection,
+    isAllMatching,
+    isSelected,
+    toggleCampaign,
+    setPageSelected,
+    selectAllMatching,
+    clearSelection
+  } = useCampaignSelection(listOptions);
   const { containerRef, preserveScrollPosition } = useScrollPreservation();
+  const selectedCount = CampaignBulkService.countSelected(selection, paginationState.totalItems);
+
+  // Show the channel of a just-published campaign so it appears in the list
+  useEffect(() => {
+    if (bannerState.channel) {
+      updateChannelFilter(bannerState.channel);
+    }
+  }, [bannerState.channel]);
 
   const handleCreateCampaign = () => {
     setShowCreateModal(true);
   };
 
-  if (error) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <p className="text-red-500">Error loading campaigns: {error}</p>
-      </div>
-    );
-  }
-
   return (
     <div className="flex flex-col min-h-screen w-full">
       {/* Page Header */}
@@ -52,6 +84,9 @@ export function CampaignsPageNew() {
         onSearchChange={updateSearchQuery}
         onTabChange={updateActiveTab}
         onChannelFilterChange={updateChannelFilter}
+        onSortChange={updateSort}
+        onAdvancedFiltersChange={updateAdvancedFilters}
+        onApplyView={applyFilters}
         onPreserveScroll={preserveScrollPosition}
       />
 
@@ -62,12 +97,46 @@ export function CampaignsPageNew() {
         style={{ WebkitOverflowScrolling: 'touch' }}
       >
         <div className="pt-4">
-          {isLoading ? (
+          <CampaignBulkActionBar
+            selection={selection}
+            selectedCount={selectedCount}
+            totalCount={paginationState.totalItems}
+            pageCount={campaigns.length}
+            isAllMatching={isAllMatching}
+            isPageSelected={campaigns.length > 0 && campaigns.every(campaign => isSelected(campaign.id))}
+            activeTab={filters.activeTab}
+            onSelectAllMatching={selectAllMatching}
+            onClearSelection={clearSelection}
+            onCompleted={refetch}
+          />
+
+          {/* Errors stay below the filters so the search can still be changed */}
+          {error ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-red-500">Error loading campaigns: {error}</p>
+            </div>
+          ) : isLoading ? (
             <CampaignTableSkeleton />
           ) : (
             <CampaignTableNew 
-              campaigns={filteredCampaigns}
+              campaigns={campaigns}
               publishedCampaignId={bannerState.campaignId}
+              isSelected={isSelected}
+              onSelectCampaign={toggleCampaign}
+              onSelectPage={setPageSelected}
+              pagination={{
+                paginationState,
+                totalPages,
+                startIndex,
+                endIndex,
+                onPageChange: goToPage,
+                onItemsPerPageChange: changeItemsPerPage,
+                canGoNext,
+                canGoPrevious,
+                onNext: nextPage,
+                onPrevious: previousPage,
+                canGoToPage
+              }}
             />
           )}
         </div>
@@ -0,0 +1,190 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CampaignContent, EmailCampaignContent, SmsCampaignContent } from '@/types/campaign';
+import { ChannelContentRules, MAX_EMAIL_SUBJECT_LENGTH, MAX_SMS_SEGMENTS } from '@/services/channelContentRules';
+
+// Rule error for one field (callers show it once the operator has typed in the field)
+const FieldError = ({ errors, match }: { errors: string[]; match: string }) => {
+  const error = errors.find(message => message.startsWith(match));
+  return error ? <p className="text-xs text-destructive mt-1">{error}</p> : null;
+};
+
+interface SmsSetupFieldsProps {
+  senderHeader: string;
+  dltTemplateId: string;
+  onSenderHeaderChange: (senderHeader: string) => void;
+  onDltTemplateIdChange: (dltTemplateId: string) => void;
+}
+
+/**
+ * SMS setup: DLT-registered sender header and content template ID
+ */
+export function SmsSetupFields({ senderHeader, dltTemplateId, onSenderHeaderChange, onDltTemplateIdChange }: SmsSetupFieldsProps) {
+  const errors = ChannelContentRules.validateSetup({ channel: 'SMS', senderHeader, dltTemplateId, body: '' });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="smsSenderHeader">Sender header *</Label>
+        <Input
+          id="smsSenderHeader"
+          value={senderHeader}
+          onChange={(e) => onSenderHeaderChange(e.target.value.toUpperCase())}
+          placeholder="e.g. HDFCBK"
+          maxLength={6}
+          className="mt-1"
+        />
+        <p className="text-xs text-muted-foreground mt-1">Header registered on the DLT platform (6 letters or 6 digits)</p>
+        {senderHeader && <FieldError errors={errors} match="Sender header" />}
+      </div>
+
+      <div>
+        <Label htmlFor="smsDltTemplateId">DLT template ID *</Label>
+        <Input
+          id="smsDltTemplateId"
+          value={dltTemplateId}
+          onChange={(e) => onDltTemplateIdChange(e.target.value.trim())}
+          placeholder="19-digit template ID"
+          inputMode="numeric"
+          maxLength={19}
+          className="mt-1"
+        />
+        {dltTemplateId && <FieldError errors={errors} match="DLT template ID" />}
+      </div>
+    </div>
+  );
+}
+
+interface SmsContentFieldsProps {
+  body: string;
+  onChange: (body: string) => void;
+}
+
+/**
+ * SMS message text with the encoding and segment count
+ */
+export function SmsContentFields({ body, onChange }: SmsContentFieldsProps) {
+  const { encoding, length, segments } = ChannelContentRules.countSmsSegments(body);
+
+  return (
+    <div>
+      <Label htmlFor="smsBody">Message *</Label>
+      <Textarea
+        id="smsBody"
+        value={body}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Text must match the registered DLT template, e.g. Dear {#var#}, your EMI of Rs {#var#} is due on {#var#}"
+        rows={6}
+        className="mt-1"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{encoding}</span>
+        <span className={segments > MAX_SMS_SEGMENTS ? 'text-destructive' : undefined}>
+          {length} characters · {segments} / {MAX_SMS_SEGMENTS} SMS
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface EmailSetupFieldsProps {
+  subject: string;
+  onChange: (subject: string) => void;
+}
+
+/**
+ * Email setup: subject line
+ */
+export function EmailSetupFields({ subject, onChange }: EmailSetupFieldsProps) {
+  return (
+    <div>
+      <Label htmlFor="emailSubject">Subject *</Label>
+      <Input
+        id="emailSubject"
+        value={subject}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Subject line"
+        className="mt-1"
+      />
+      <div className="flex justify-end text-xs text-muted-foreground mt-1">
+        <span className={subject.length > MAX_EMAIL_SUBJECT_LENGTH ? 'text-destructive' : undefined}>
+          {subject.length}/{MAX_EMAIL_SUBJECT_LENGTH}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface EmailContentFieldsProps {
+  htmlBody: string;
+  onChange: (htmlBody: string) => void;
+}
+
+/**
+ * Email HTML body
+ */
+export function EmailContentFields({ htmlBody, onChange }: EmailContentFieldsProps) {
+  return (
+    <div>
+      <Label htmlFor="emailHtmlBody">HTML body *</Label>
+      <Textarea
+        id="emailHtmlBody"
+        value={htmlBody}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="<html>...</html>"
+        rows={14}
+        className="mt-1 font-mono text-xs"
+      />
+    </div>
+  );
+}
+
+const SmsPreview = ({ content }: { content: SmsCampaignContent }) => (
+  <div className="flex justify-center">
+    <div className="relative w-64 h-[31.25rem] bg-black rounded-[2rem] p-2">
+      <div className="w-full h-full bg-white rounded-[1.5rem] overflow-hidden">
+        <div className="bg-muted p-4 text-center font-medium">{content.senderHeader || 'Sender'}</div>
+        <div className="p-4">
+          {content.body ? (
+            <div className="bg-gray-100 rounded-lg p-3 w-[12.5rem] text-sm whitespace-pre-wrap break-words">
+              {content.body}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground text-sm">Enter a message to see preview</div>
+          )}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+// The body is rendered in a sandboxed frame so its markup and scripts can't reach the app
+const EmailPreview = ({ content }: { content: EmailCampaignContent }) => (
+  <div className="border border-border rounded-lg bg-white overflow-hidden">
+    <div className="p-3 border-b border-border text-sm">
+      <span className="text-muted-foreground">Subject: </span>
+      <span className="font-medium">{content.subject || 'No subject'}</span>
+    </div>
+    {content.htmlBody ? (
+      <iframe title="Email preview" sandbox="" srcDoc={content.htmlBody} className="w-full h-[28rem]" />
+    ) : (
+      <div className="p-6 text-center text-muted-foreground text-sm">Enter the email body to see preview</div>
+    )}
+  </div>
+);
+
+/**
+ * Preview of SMS and email content (WhatsApp previews use the approved template)
+ */
+export function ChannelContentPreview({ content }: { content: CampaignContent }) {
+  switch (content.channel) {
+    case 'SMS':
+      return <SmsPreview content={content} />;
+    case 'Email':
+      return <EmailPreview content={content} />;
+    default:
+      return null;
+  }
+}
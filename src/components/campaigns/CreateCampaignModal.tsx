@@ -2,7 +2,7 @@ import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { DateTime } from 'luxon';
 import { z } from 'zod';
-import { RetryTtlConfig, DEFAULT_RETRY_POLICIES } from '@/types/campaign';
+import { RetryTtlConfig, DEFAULT_RETRY_POLICIES, BUSINESS_NUMBERS, DEFAULT_BUSINESS_NUMBER_ID, CampaignChannel, CampaignContent, SamplingMethod, ScheduleConfig, SendMode } from '@/types/campaign';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,7 +19,16 @@ import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Calendar } from '@/components/ui/calendar';
-import { format } from 'date-fns';
+import { format, parse, startOfDay } from 'date-fns';
+import { RetryTtlRules } from '@/services/retryTtlRules';
+import { ClockService } from '@/services/clock';
+import { useAccountSettings } from '@/hooks/useAccountSettings';
+import { RetryPlannerPanel } from './RetryPlannerPanel';
+import { MessagingBudgetPanel } from './MessagingBudgetPanel';
+import { MessagingRateLimiter } from '@/services/messagingRateLimiter';
+import { useToast } from '@/hooks/use-toast';
+import { ChannelContentRules } from '@/services/channelContentRules';
+import { ChannelContentPreview, EmailContentFields, EmailSetupFields, SmsContentFields, SmsSetupFields } from './ChannelSteps';
 import { 
   ChevronLeft,
   Plus,
@@ -57,9 +66,8 @@ type Step = 'start' | 'channels' | 'setup' | 'audience' | 'content' | 'schedule'
 type StepKey = 'setup' | 'audience' | 'content' | 'schedule';
 type StepIndex = 0 | 1 | 2 | 3;
 type StepStatus = 'idle' | 'editing' | 'valid' | 'invalid';
-
-type SamplingMethod = 'RANDOM_SAMPLE' | 'HEPF';
-type SendMode = 'OPTIMIZE' | 'SPECIFIC_TIME' | 'SEND_AT_END';
+// Channels the wizard has setup and content steps for
+type WizardChannel = Exclude<CampaignChannel, 'Push'>;
 
 interface StepMeta {
   index: StepIndex;
@@ -79,32 +87,6 @@ interface WizardPersist {
   timestamp: number;
 }
 
-interface ScheduleConfig {
-  frequencyCapEnabled: boolean;
-  mode: SendMode;
-  startAt?: string;        // ISO 8601
-  endAt?: string;          // ISO 8601
-  sendAtEndAt?: string;    // ISO 8601 (optional; derive from endAt if absent when mode=SEND_AT_END)
-  specificTimeAt?: string; // ISO 8601 (when mode=SPECIFIC_TIME)
-  controlGroupPct?: number; // 0–100
-  timezone: string;        // IANA, e.g. "Asia/Kolkata"
-}
-
-interface FinalPreviewData {
-  name: string;
-  tags: string[];
-  reachableContacts: number;
-  includeSegments: { id: string; name: string }[];
-  excludeSegments: { id: string; name: string }[];
-  deduplicationEnabled: boolean;
-  samplingMethod: SamplingMethod;
-  templateName: string;
-  schedule: ScheduleConfig;
-  conversionGoalEnabled: boolean;
-  conversionGoal?: string;
-  revenueParameter?: number | null;
-}
-
 // Zod validation schema
 export const scheduleSchema = z.object({
   frequencyCapEnabled: z.boolean().default(false),
@@ -129,6 +111,7 @@ export function fmt(iso?: string, tz?: string) {
 }
 
 interface CampaignFormData {
+  channel: WizardChannel;
   campaignName: string;
   tags: string[];
   businessNumber: string;
@@ -142,6 +125,13 @@ interface CampaignFormData {
   selectedSegments: string[];
   excludeSegments: string[];
   selectedTemplate: string;
+  // SMS fields (DLT registration)
+  smsSenderHeader: string;
+  smsDltTemplateId: string;
+  smsBody: string;
+  // Email fields
+  emailSubject: string;
+  emailHtmlBody: string;
   scheduleType: 'now' | 'later' | 'optimize';
   startTime: string;
   endTime: string;
@@ -165,6 +155,10 @@ interface CampaignFormData {
   stopOnConversion: boolean;
   stopOnManualPause: boolean;
   stopOnTemplateChange: boolean;
+  // Campaign quiet hours override (account quiet hours apply when off)
+  customQuietHours: boolean;
+  quietHoursStart: string; // HH:mm
+  quietHoursEnd: string; // HH:mm
   // Legacy migration flags
   _legacySamplingMigrated?: boolean;
   // Schedule configuration
@@ -186,16 +180,6 @@ interface AdobeSegment {
   lastRefreshed: string;
 }
 
-const businessNumbers = [
-  {
-    id: 'netcore',
-    name: 'Netcore Solutions Support (+91 2249757637)',
-    quality: 'HIGH',
-    messagingLimit: '10000 Messaging limit per 24hrs',
-    lastUpdated: 'Sep 09, 2025 12:03 PM'
-  }
-];
-
 const whatsappTemplates: WhatsAppTemplate[] = [
   {
     id: 'static_carousel_recs_url',
@@ -599,9 +583,33 @@ const SummaryPanel = ({ formData, currentStep }: { formData: CampaignFormData; c
               </>
             )}
             <div>
-              <span className="font-medium text-foreground">Business number:</span>
-              <div>Netcore Solutions Support (+91 2249757637)</div>
+              <span className="font-medium text-foreground">Channel:</span>
+              <div>{formData.channel}</div>
             </div>
+            {formData.channel === 'WhatsApp' && (
+              <div>
+                <span className="font-medium text-foreground">Business number:</span>
+                <div>Netcore Solutions Support (+91 2249757637)</div>
+              </div>
+            )}
+            {formData.channel === 'SMS' && (
+              <>
+                <div>
+                  <span className="font-medium text-foreground">Sender header:</span>
+                  <div>{formData.smsSenderHeader || 'Not set'}</div>
+                </div>
+                <div>
+                  <span className="font-medium text-foreground">DLT template ID:</span>
+                  <div>{formData.smsDltTemplateId || 'Not set'}</div>
+                </div>
+              </>
+            )}
+            {formData.channel === 'Email' && (
+              <div>
+                <span className="font-medium text-foreground">Subject:</span>
+                <div>{formData.emailSubject || 'Not set'}</div>
+              </div>
+            )}
             <div>
               <span className="font-medium text-foreground">Link tracking:</span>
               <div>{formData.linkTracking ? 'Enabled' : 'Disabled'}</div>
@@ -690,7 +698,7 @@ const SummaryPanel = ({ formData, currentStep }: { formData: CampaignFormData; c
           </button>
           {expandedSections.content && (
             <div className="space-y-2 text-sm text-muted-foreground animate-in slide-in-from-top-2 duration-200">
-            {formData.selectedTemplate && (
+            {formData.channel === 'WhatsApp' && formData.selectedTemplate && (
               <div>
                 <span className="font-medium text-foreground">Template:</span>
                 <div>{formData.selectedTemplate}</div>
@@ -819,7 +827,7 @@ const normalizeCampaignData = (data: any): CampaignFormData => {
   // Handle legacy retry duration migration to TTL
   if (data.retryDuration && !data.retryTtlDate) {
     // Convert legacy retryDuration (days) to TTL date
-    const scheduledDate = data.scheduledDate || new Date();
+    const scheduledDate = data.scheduledDate || ClockService.now();
     const ttlDate = new Date(scheduledDate);
     ttlDate.setDate(ttlDate.getDate() + data.retryDuration);
     normalized.retryTtlDate = ttlDate;
@@ -829,6 +837,31 @@ const normalizeCampaignData = (data: any): CampaignFormData => {
   return normalized;
 };
 
+// Combine the TTL date picker's date and 12-hour time ("11:59 PM") into one datetime
+const getRetryTtlDateTime = (ttlDate: Date | null, ttlTime: string): Date | null => {
+  if (!ttlDate) return null;
+  return parse(ttlTime, 'h:mm a', ttlDate);
+};
+
+// Channel-specific content saved with the campaign
+const buildCampaignContent = (data: CampaignFormData): CampaignContent => {
+  switch (data.channel) {
+    case 'SMS':
+      return { channel: 'SMS', senderHeader: data.smsSenderHeader, dltTemplateId: data.smsDltTemplateId, body: data.smsBody };
+    case 'Email':
+      return { channel: 'Email', subject: data.emailSubject, htmlBody: data.emailHtmlBody };
+    default:
+      return { channel: 'WhatsApp', businessNumberId: data.businessNumber, templateId: data.selectedTemplate };
+  }
+};
+
+// Channel picker ids that open the wizard
+const wizardChannels: Record<string, WizardChannel> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  email: 'Email'
+};
+
 const WIZARD_STORAGE_KEY = 'hdfc-campaign-wizard-state';
 const WIZARD_STORAGE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
@@ -876,11 +909,14 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
     }
   }, [open, wizardProgress.current]);
   
+  const { settings: accountSettings } = useAccountSettings();
+
   const [formData, setFormData] = useState<CampaignFormData>(() => {
     const defaultData = {
+      channel: 'WhatsApp',
       campaignName: 'Adobe',
       tags: ['Adobe'],
-      businessNumber: 'netcore',
+      businessNumber: DEFAULT_BUSINESS_NUMBER_ID,
       linkTracking: true,
       conversionGoalEnabled: true,
       eventName: 'Account Opened (Savings)',
@@ -891,6 +927,11 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       selectedSegments: [],
       excludeSegments: [],
       selectedTemplate: 'static_carousel_recs_url',
+      smsSenderHeader: '',
+      smsDltTemplateId: '',
+      smsBody: '',
+      emailSubject: '',
+      emailHtmlBody: '',
       scheduleType: 'now',
       startTime: 'Sep 09, 2025 03:45 pm',
       endTime: 'Sep 10, 2025 02:45 pm',
@@ -914,6 +955,9 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       stopOnConversion: true,
       stopOnManualPause: true,
       stopOnTemplateChange: true,
+      customQuietHours: false,
+      quietHoursStart: '21:00',
+      quietHoursEnd: '09:00',
       // Schedule configuration
       scheduleConfig: {
         frequencyCapEnabled: true,
@@ -943,7 +987,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       
       // Auto-set default TTL when retry is enabled and no TTL date is set
       if (updates.retryEnabled === true && !newData.retryTtlDate) {
-        const scheduledDate = newData.scheduledDate || new Date();
+        const scheduledDate = newData.scheduledDate || ClockService.now();
         const defaultTtl = new Date(scheduledDate);
         defaultTtl.setDate(defaultTtl.getDate() + 7); // Default to 7 days (recommended value)
         newData.retryTtlDate = defaultTtl;
@@ -980,12 +1024,10 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
     if (formData.tags.length === 0) {
       errors.push('At least one tag is required');
     }
-    if (!formData.businessNumber.trim()) {
-      errors.push('Business number is required');
-    }
+    errors.push(...ChannelContentRules.validateSetup(buildCampaignContent(formData)));
     
     return { isValid: errors.length === 0, errors };
-  }, [formData.campaignName, formData.tags, formData.businessNumber]);
+  }, [formData]);
 
   const validateAudienceStep = useCallback((): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
@@ -998,14 +1040,50 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
   }, [formData.targetAudience, formData.selectedSegments]);
 
   const validateContentStep = useCallback((): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    
-    if (!formData.selectedTemplate) {
-      errors.push('Template selection is required');
-    }
+    const errors = ChannelContentRules.validateContent(buildCampaignContent(formData));
     
     return { isValid: errors.length === 0, errors };
-  }, [formData.selectedTemplate]);
+  }, [formData]);
+
+  // Campaign quiet hours override (undefined falls back to the account's)
+  const selectedBusinessNumber = MessagingRateLimiter.getBusinessNumber(formData.businessNumber);
+
+  // Contacts in the included segments (messages the initial send takes from the tier budget)
+  const audienceSize = useMemo(
+    () => adobeSegments
+      .filter(s => formData.selectedSegments.includes(s.id))
+      .reduce((sum, s) => sum + s.users, 0),
+    [formData.selectedSegments]
+  );
+
+  const campaignQuietHours = useMemo(
+    () => formData.customQuietHours
+      ? { enabled: true, startTime: formData.quietHoursStart, endTime: formData.quietHoursEnd }
+      : undefined,
+    [formData.customQuietHours, formData.quietHoursStart, formData.quietHoursEnd]
+  );
+
+  // Projected retry calendar inputs (original send time and TTL)
+  const retryPlanTimes = useMemo(() => {
+    const scheduledTime = formData.scheduledDate
+      ? parse(formData.scheduledTime, 'h:mm a', formData.scheduledDate)
+      : ClockService.now();
+    return {
+      scheduledAt: isNaN(scheduledTime.getTime()) ? formData.scheduledDate || ClockService.now() : scheduledTime,
+      ttlDateTime: getRetryTtlDateTime(formData.retryTtlDate, formData.retryTtlTime)
+    };
+  }, [formData.scheduledDate, formData.scheduledTime, formData.retryTtlDate, formData.retryTtlTime]);
+
+  const ttlValidation = useMemo(() => {
+    if (!formData.retryEnabled) return { isValid: true, errors: [] };
+    const now = ClockService.now();
+    return RetryTtlRules.validate(
+      getRetryTtlDateTime(formData.retryTtlDate, formData.retryTtlTime),
+      formData.scheduledDate || now,
+      accountSettings.ttlBounds,
+      now
+    );
+  }, [formData.retryEnabled, formData.retryTtlDate, formData.retryTtlTime, formData.scheduledDate, accountSettings.ttlBounds]);
 
   const validateScheduleStep = useCallback((): { isValid: boolean; errors: string[] } => {
     const result = scheduleSchema.safeParse(formData.scheduleConfig);
@@ -1017,30 +1095,11 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       });
     }
     
-    // Validate retry TTL constraints
-    if (formData.retryEnabled && formData.retryTtlDate) {
-      const scheduledDate = formData.scheduledDate || new Date();
-      const minDate = new Date(scheduledDate);
-      minDate.setDate(minDate.getDate() + 1); // At least 24 hours after scheduled date
-      const maxDate = new Date(scheduledDate);
-      maxDate.setDate(maxDate.getDate() + 28); // Maximum 28 days from scheduled date
-      
-      if (formData.retryTtlDate < minDate) {
-        errors.push('TTL must be at least 24 hours after the scheduled date');
-      }
-      
-      if (formData.retryTtlDate > maxDate) {
-        errors.push('TTL cannot be more than 28 days after the scheduled date');
-      }
-    }
-    
-    // Validate retry TTL is set when retry is enabled
-    if (formData.retryEnabled && !formData.retryTtlDate) {
-      errors.push('Retry TTL date is required when retry logic is enabled');
-    }
+    // Validate retry TTL against the account's TTL rules
+    errors.push(...RetryTtlRules.formatErrors(ttlValidation.errors));
     
     return { isValid: result.success && errors.length === 0, errors };
-  }, [formData.scheduleConfig, formData.retryEnabled, formData.retryTtlDate, formData.scheduledDate]);
+  }, [formData.scheduleConfig, ttlValidation]);
 
   // Update wizard progress when form data changes
   const updateWizardProgress = useCallback(() => {
@@ -1284,7 +1343,10 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
   };
 
   const handleChannelClick = (channelId: string) => {
-    if (channelId === 'whatsapp') {
+    const channel = wizardChannels[channelId];
+    if (channel) {
+      // Retries are only sent for WhatsApp campaigns
+      updateFormData(channel === 'WhatsApp' ? { channel } : { channel, retryEnabled: false });
       setCurrentStep('setup');
     }
   };
@@ -1375,9 +1437,10 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
     setWizardProgress(initializeWizardProgress());
     clearPersistedState();
     setFormData(normalizeCampaignData({
+      channel: 'WhatsApp',
       campaignName: 'Adobe',
       tags: ['Adobe'],
-      businessNumber: 'netcore',
+      businessNumber: DEFAULT_BUSINESS_NUMBER_ID,
       linkTracking: true,
       conversionGoalEnabled: true,
       eventName: 'Account Opened (Savings)',
@@ -1388,6 +1451,11 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       selectedSegments: [],
       excludeSegments: [],
       selectedTemplate: 'static_carousel_recs_url',
+      smsSenderHeader: '',
+      smsDltTemplateId: '',
+      smsBody: '',
+      emailSubject: '',
+      emailHtmlBody: '',
       scheduleType: 'now',
       startTime: 'Sep 09, 2025 03:45 pm',
       endTime: 'Sep 10, 2025 02:45 pm',
@@ -1410,7 +1478,10 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       retryTtlTime: '11:59 PM',
       stopOnConversion: true,
       stopOnManualPause: true,
-      stopOnTemplateChange: true
+      stopOnTemplateChange: true,
+      customQuietHours: false,
+      quietHoursStart: '21:00',
+      quietHoursEnd: '09:00'
     }));
     setLegacyMigrationNote(null);
     onClose();
@@ -1497,7 +1568,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   <Button variant="ghost" size="sm" onClick={handleBack}>
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
-                  <DialogTitle className="text-xl font-semibold">WhatsApp campaign</DialogTitle>
+                  <DialogTitle className="text-xl font-semibold">{formData.channel} campaign</DialogTitle>
                 </div>
                 <div className="flex space-x-2">
                   <Button variant="outline">FINISH LATER</Button>
@@ -1514,28 +1585,55 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto px-4 sm:px-6 pb-4 sm:pb-6" style={{ WebkitOverflowScrolling: 'touch' }}>
           <div className="space-y-6 pt-6">
-            <div>
-              <h3 className="text-lg font-semibold mb-2">Select template</h3>
-              <p className="text-sm text-muted-foreground mb-4">Select pre-approved message for whatsapp campaign</p>
-              
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="template">Template *</Label>
-                  <div className="mt-1">
-                    <TemplateDropdown
-                      selectedTemplate={formData.selectedTemplate}
-                      onTemplateChange={(template) => updateFormData({ selectedTemplate: template })}
-                    />
+            {formData.channel === 'SMS' && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Message</h3>
+                <p className="text-sm text-muted-foreground mb-4">Write the text of the DLT template you selected in setup</p>
+                <SmsContentFields body={formData.smsBody} onChange={(smsBody) => updateFormData({ smsBody })} />
+              </div>
+            )}
+
+            {formData.channel === 'Email' && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Email body</h3>
+                <p className="text-sm text-muted-foreground mb-4">Paste or write the HTML of your email</p>
+                <EmailContentFields
+                  htmlBody={formData.emailHtmlBody}
+                  onChange={(emailHtmlBody) => updateFormData({ emailHtmlBody })}
+                />
+              </div>
+            )}
+
+            {formData.channel === 'WhatsApp' && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Select template</h3>
+                <p className="text-sm text-muted-foreground mb-4">Select pre-approved message for whatsapp campaign</p>
+                
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="template">Template *</Label>
+                    <div className="mt-1">
+                      <TemplateDropdown
+                        selectedTemplate={formData.selectedTemplate}
+                        onTemplateChange={(template) => updateFormData({ selectedTemplate: template })}
+                      />
+                    </div>
                   </div>
+                  
                 </div>
-                
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
       
       {/* Preview Panel */}
+      {formData.channel !== 'WhatsApp' ? (
+        <div className="w-80 border-l border-border bg-muted/20 p-6">
+          <h3 className="text-lg font-semibold mb-6">Preview</h3>
+          <ChannelContentPreview content={buildCampaignContent(formData)} />
+        </div>
+      ) : (
       <div className="w-80 border-l border-border bg-muted/20 p-6">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold">Preview</h3>
@@ -1606,6 +1704,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
           </div>
         </div>
       </div>
+      )}
     </div>
   );
 
@@ -1621,6 +1720,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
 
   // Helper function to check if template allows retry
   const isRetryAllowed = () => {
+    if (formData.channel !== 'WhatsApp') return false;
     const selectedTemplate = whatsappTemplates.find(t => t.id === formData.selectedTemplate);
     return selectedTemplate && 
            (selectedTemplate.category === 'Marketing' || selectedTemplate.category === 'Promotional') &&
@@ -1649,7 +1749,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   <Button variant="ghost" size="sm" onClick={handleBack}>
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
-                  <DialogTitle className="text-xl font-semibold">WhatsApp campaign</DialogTitle>
+                  <DialogTitle className="text-xl font-semibold">{formData.channel} campaign</DialogTitle>
                 </div>
                 <div className="flex space-x-2">
                   <Button variant="outline">FINISH LATER</Button>
@@ -1680,6 +1780,15 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                 </div>
               </div>
 
+              {/* Messaging tier budget of the business number */}
+              {formData.channel === 'WhatsApp' && (
+                <MessagingBudgetPanel
+                  businessNumberId={formData.businessNumber}
+                  plannedMessages={audienceSize}
+                  className="mb-6"
+                />
+              )}
+
               {/* Frequency Cap */}
               <div className="mb-6">
                 <div className="flex items-center justify-between p-4 border border-border rounded-lg bg-orange-50 border-orange-200">
@@ -1918,8 +2027,17 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                 />
               </div>
 
+              {formData.channel !== 'WhatsApp' && (
+                <Alert className="mb-4">
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    Retry logic is only available for WhatsApp campaigns.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Template Category/Status Validation */}
-              {formData.selectedTemplate && !isRetryAllowed() && (
+              {formData.channel === 'WhatsApp' && formData.selectedTemplate && !isRetryAllowed() && (
                 <Alert className="mb-4">
                   <Info className="h-4 w-4" />
                   <AlertDescription>
@@ -1942,7 +2060,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   
                   <div className="ml-6">
                     <p className="text-sm text-muted-foreground mb-4">
-                      Set the period during which the campaign is active. Any messages not delivered within this period is revoked. Min 24 hours and Max 28 days is allowed. By default, the TTL is set to 7 days.
+                      Set the period during which the campaign is active. Any messages not delivered within this period is revoked. Min {accountSettings.ttlBounds.minHours} hours and Max {Math.floor(accountSettings.ttlBounds.maxHours / 24)} days is allowed. By default, the TTL is set to 7 days.
                     </p>
                     
                     <div className="space-y-4">
@@ -1977,12 +2095,11 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                                   }
                                 }}
                                 disabled={(date) => {
-                                  const scheduledDate = formData.scheduledDate || new Date();
-                                  const minDate = new Date(scheduledDate);
-                                  minDate.setDate(minDate.getDate() + 1); // At least 24 hours after scheduled date
-                                  const maxDate = new Date(scheduledDate);
-                                  maxDate.setDate(maxDate.getDate() + 28); // Maximum 28 days from scheduled date
-                                  return date < minDate || date > maxDate;
+                                  const { min, max } = RetryTtlRules.getAllowedRange(
+                                    formData.scheduledDate || ClockService.now(),
+                                    accountSettings.ttlBounds
+                                  );
+                                  return date < startOfDay(min) || date > max;
                                 }}
                                 initialFocus
                               />
@@ -2020,10 +2137,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                         
                         {/* TTL Validation Error Display */}
                         {(() => {
-                          const validation = validateScheduleStep();
-                          const ttlErrors = validation.errors.filter(error => 
-                            error.includes('TTL') || error.includes('retry')
-                          );
+                          const ttlErrors = RetryTtlRules.formatErrors(ttlValidation.errors);
                           return ttlErrors.length > 0 && (
                             <div className="mt-2">
                               {ttlErrors.map((error, index) => (
@@ -2035,6 +2149,52 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                           );
                         })()}
                       </div>
+
+                      {/* Quiet Hours Override */}
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <Label className="text-sm font-medium">Custom quiet hours</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Retries are never sent during quiet hours ({formData.scheduleConfig.timezone}). Account quiet hours apply unless overridden.
+                            </p>
+                          </div>
+                          <Switch
+                            checked={formData.customQuietHours}
+                            onCheckedChange={(checked) => updateFormData({ customQuietHours: checked })}
+                          />
+                        </div>
+                        {formData.customQuietHours && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <Label className="text-xs">Quiet from</Label>
+                              <Input
+                                type="time"
+                                value={formData.quietHoursStart}
+                                onChange={(e) => updateFormData({ quietHoursStart: e.target.value })}
+                                className="mt-1"
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Quiet until</Label>
+                              <Input
+                                type="time"
+                                value={formData.quietHoursEnd}
+                                onChange={(e) => updateFormData({ quietHoursEnd: e.target.value })}
+                                className="mt-1"
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Retry Planner */}
+                      <RetryPlannerPanel
+                        scheduledAt={retryPlanTimes.scheduledAt}
+                        ttlDateTime={retryPlanTimes.ttlDateTime}
+                        timezone={formData.scheduleConfig.timezone}
+                        quietHours={campaignQuietHours}
+                      />
                     </div>
                   </div>
                 </div>
@@ -2112,8 +2272,10 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
   );
 
   const navigate = useNavigate();
-  
-  const handlePublish = () => {
+  const { toast } = useToast();
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const handlePublish = async () => {
     // Validation: Check if retry logic is enabled with Utility template
     const selectedTemplate = whatsappTemplates.find(t => t.id === formData.selectedTemplate);
     
@@ -2121,8 +2283,44 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       // This should already be prevented by UI, but adding extra validation
       return;
     }
+    if (ChannelContentRules.validate(buildCampaignContent(formData)).length > 0) {
+      return;
+    }
+
+    // A send-now campaign takes its messages from the business number's 24h budget (shared with retries)
+    // as it is published; scheduled sends are not reserved ahead of their send time. Nothing sends the
+    // messages over budget later, so a send-now campaign that doesn't fit is not published.
+    if (formData.channel === 'WhatsApp' && formData.scheduleType === 'now') {
+      setIsPublishing(true);
+      try {
+        const budget = await MessagingRateLimiter.getBudget(formData.businessNumber);
+        const reservation = audienceSize <= budget.remaining
+          ? await MessagingRateLimiter.reserve(formData.businessNumber, audienceSize)
+          : null;
+        if (!reservation || reservation.granted < audienceSize) {
+          toast({
+            variant: 'destructive',
+            title: 'Campaign not published',
+            description: audienceSize > budget.limit
+              ? `${audienceSize.toLocaleString()} messages exceed the business number's limit of ${budget.limit.toLocaleString()} per 24hrs. Narrow the audience.`
+              : `${audienceSize.toLocaleString()} messages exceed the ${budget.remaining.toLocaleString()} left in the messaging budget. Narrow the audience or schedule the send for after ${format(new Date(budget.fullAt), 'dd MMM, hh:mm a')}.`
+          });
+          return;
+        }
+      } catch (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Campaign not published',
+          description: error instanceof Error ? error.message : 'Failed to reserve messaging budget'
+        });
+        return;
+      } finally {
+        setIsPublishing(false);
+      }
+    }
 
     updateFormData({ isPublished: true });
+
     setShowProgressPopup(true);
     setCurrentProgressStep(0);
     
@@ -2140,7 +2338,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       const campaignId = `${Date.now()}`;
       onClose();
       // Redirect to campaigns page with success flag and campaign ID
-      navigate(`/engage/campaigns?published=true&campaignId=${campaignId}&channel=WhatsApp`);
+      navigate(`/engage/campaigns?published=true&campaignId=${campaignId}&channel=${formData.channel}`);
     }, (progressSteps.length + 1) * 1000);
   };
 
@@ -2169,7 +2367,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   <Badge variant="secondary" className="bg-gray-100 text-gray-800">DRAFT</Badge>
                 </div>
               </div>
-              <Button onClick={handlePublish}>SAVE & PUBLISH</Button>
+              <Button onClick={handlePublish} disabled={isPublishing}>SAVE & PUBLISH</Button>
             </div>
             
             {/* Tags */}
@@ -2390,61 +2588,75 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   </Button>
                 </div>
                 
-                <div className="space-y-4">
-                  <Row label="Template Name" value={formData.selectedTemplate} />
-                  
-                  <div className="text-sm text-muted-foreground">
-                    Note: Test your template post-approval by Meta to confirm accuracy before sending it to users.
-                  </div>
+                {formData.channel === 'WhatsApp' ? (
+                  <div className="space-y-4">
+                    <Row label="Template Name" value={formData.selectedTemplate} />
+                    
+                    <div className="text-sm text-muted-foreground">
+                      Note: Test your template post-approval by Meta to confirm accuracy before sending it to users.
+                    </div>
 
-                  {/* Phone Preview */}
-                  <div className="flex justify-center">
-                    <div className="relative w-64 h-[31.25rem] bg-black rounded-[2rem] p-2">
-                      <div className="w-full h-full bg-white rounded-[1.5rem] overflow-hidden">
-                        {/* WhatsApp Header */}
-                        <div className="bg-green-600 text-white p-4 flex items-center space-x-3">
-                          <div className="w-8 h-8 bg-white rounded-full flex items-center justify-center">
-                            <img 
-                              src="/lovable-uploads/770b7510-d3df-445b-b9b0-7971f7f8105b.png" 
-                              alt="Netcore Logo" 
-                              className="w-5 h-5 rounded-sm"
-                            />
+                    {/* Phone Preview */}
+                    <div className="flex justify-center">
+                      <div className="relative w-64 h-[31.25rem] bg-black rounded-[2rem] p-2">
+                        <div className="w-full h-full bg-white rounded-[1.5rem] overflow-hidden">
+                          {/* WhatsApp Header */}
+                          <div className="bg-green-600 text-white p-4 flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-white rounded-full flex items-center justify-center">
+                              <img 
+                                src="/lovable-uploads/770b7510-d3df-445b-b9b0-7971f7f8105b.png" 
+                                alt="Netcore Logo" 
+                                className="w-5 h-5 rounded-sm"
+                              />
+                            </div>
+                            <span className="font-medium">Netcore Cloud</span>
                           </div>
-                          <span className="font-medium">Netcore Cloud</span>
-                        </div>
-                        
-                        {/* Message Content */}
-                        <div className="p-4 bg-gray-50 flex-1 h-full">
-                          <div className="bg-white rounded-lg p-3 w-[12.5rem] ml-auto shadow-sm">
-                            <p className="text-sm mb-2">
-                              Check out our top deals and grab your favorites before the stock runs out!
-                            </p>
-                            
-                            <div className="flex space-x-2 mb-3">
-                              <div className="flex-1 bg-green-100 rounded-lg p-2">
-                                <div className="w-full h-16 bg-orange-200 rounded mb-2"></div>
-                                <p className="text-xs font-medium">Flat 30% OFF on our best-selling sneakers.</p>
+                          
+                          {/* Message Content */}
+                          <div className="p-4 bg-gray-50 flex-1 h-full">
+                            <div className="bg-white rounded-lg p-3 w-[12.5rem] ml-auto shadow-sm">
+                              <p className="text-sm mb-2">
+                                Check out our top deals and grab your favorites before the stock runs out!
+                              </p>
+                              
+                              <div className="flex space-x-2 mb-3">
+                                <div className="flex-1 bg-green-100 rounded-lg p-2">
+                                  <div className="w-full h-16 bg-orange-200 rounded mb-2"></div>
+                                  <p className="text-xs font-medium">Flat 30% OFF on our best-selling sneakers.</p>
+                                </div>
+                                <div className="flex-1 bg-green-100 rounded-lg p-2">
+                                  <div className="w-full h-16 bg-orange-200 rounded mb-2"></div>
+                                  <p className="text-xs font-medium">Flat 30% OFF on our best-selling sneakers.</p>
+                                </div>
                               </div>
-                              <div className="flex-1 bg-green-100 rounded-lg p-2">
-                                <div className="w-full h-16 bg-orange-200 rounded mb-2"></div>
-                                <p className="text-xs font-medium">Flat 30% OFF on our best-selling sneakers.</p>
+                              
+                              <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span>😊</span>
+                                <span>🗂️</span>
+                                <span>📎</span>
+                                <span className="bg-green-600 text-white rounded-full w-6 h-6 flex items-center justify-center">
+                                  ↓
+                                </span>
                               </div>
                             </div>
-                            
-                            <div className="flex items-center justify-between text-xs text-gray-500">
-                              <span>😊</span>
-                              <span>🗂️</span>
-                              <span>📎</span>
-                              <span className="bg-green-600 text-white rounded-full w-6 h-6 flex items-center justify-center">
-                                ↓
-                              </span>
-                            </div>
                           </div>
                         </div>
                       </div>
                     </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="space-y-4">
+                    {formData.channel === 'SMS' ? (
+                      <>
+                        <Row label="Sender header" value={formData.smsSenderHeader} />
+                        <Row label="DLT template ID" value={formData.smsDltTemplateId} />
+                      </>
+                    ) : (
+                      <Row label="Subject" value={formData.emailSubject} />
+                    )}
+                    <ChannelContentPreview content={buildCampaignContent(formData)} />
+                  </div>
+                )}
               </Card>
             </div>
           </div>
@@ -2558,7 +2770,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   <Button variant="ghost" size="sm" onClick={handleBack}>
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
-                  <DialogTitle className="text-xl font-semibold">WhatsApp campaign</DialogTitle>
+                  <DialogTitle className="text-xl font-semibold">{formData.channel} campaign</DialogTitle>
                 </div>
                 <div className="flex space-x-2">
                   <Button variant="outline">FINISH LATER</Button>
@@ -2595,49 +2807,69 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   </div>
                 </div>
 
-                <div>
-                  <Label htmlFor="businessNumber">Business number *</Label>
-                  <Select 
-                    value={formData.businessNumber} 
-                    onValueChange={(value) => updateFormData({ businessNumber: value })}
-                  >
-                    <SelectTrigger className="mt-1">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {businessNumbers.map((number) => (
-                        <SelectItem key={number.id} value={number.id}>
-                          {number.name}
-                        </SelectItem>
-                      ))}
-                      <div 
-                        className="relative flex w-full cursor-pointer select-none items-center rounded-sm py-1.5 pl-8 pr-2 text-sm outline-none hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground data-[disabled]:pointer-events-none data-[disabled]:opacity-50 border-t"
-                        onClick={() => {
-                          // TODO: Open onboarding flow to add new number
-                          console.log('Opening onboarding flow to add new business number');
-                        }}
+                {formData.channel === 'SMS' && (
+                  <SmsSetupFields
+                    senderHeader={formData.smsSenderHeader}
+                    dltTemplateId={formData.smsDltTemplateId}
+                    onSenderHeaderChange={(smsSenderHeader) => updateFormData({ smsSenderHeader })}
+                    onDltTemplateIdChange={(smsDltTemplateId) => updateFormData({ smsDltTemplateId })}
+                  />
+                )}
+
+                {formData.channel === 'Email' && (
+                  <EmailSetupFields
+                    subject={formData.emailSubject}
+                    onChange={(emailSubject) => updateFormData({ emailSubject })}
+                  />
+                )}
+
+                {formData.channel === 'WhatsApp' && (
+                  <>
+                    <div>
+                      <Label htmlFor="businessNumber">Business number *</Label>
+                      <Select 
+                        value={formData.businessNumber} 
+                        onValueChange={(value) => updateFormData({ businessNumber: value })}
                       >
-                        <Plus className="mr-2 h-4 w-4" />
-                        Add a business number
+                        <SelectTrigger className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BUSINESS_NUMBERS.map((number) => (
+                            <SelectItem key={number.id} value={number.id}>
+                              {number.name}
+                            </SelectItem>
+                          ))}
+                          <div 
+                            className="relative flex w-full cursor-pointer select-none items-center rounded-sm py-1.5 pl-8 pr-2 text-sm outline-none hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground data-[disabled]:pointer-events-none data-[disabled]:opacity-50 border-t"
+                            onClick={() => {
+                              // TODO: Open onboarding flow to add new number
+                              console.log('Opening onboarding flow to add new business number');
+                            }}
+                          >
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add a business number
+                          </div>
+                        </SelectContent>
+                      </Select>
+                      
+                      <div className="mt-2 p-3 bg-muted/30 rounded-lg">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">Quality rating:</span>
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">{selectedBusinessNumber.quality}</Badge>
+                        </div>
+                        <div className="flex items-center justify-between text-sm mt-1">
+                          <span className="text-muted-foreground">Messaging limit:</span>
+                          <span className="text-foreground">{selectedBusinessNumber.dailyMessagingLimit} Messaging limit per 24hrs.</span>
+                        </div>
+                        <div className="flex items-center justify-between text-sm mt-1">
+                          <span className="text-muted-foreground">Last updated:</span>
+                          <span className="text-foreground">{selectedBusinessNumber.lastUpdated}</span>
+                        </div>
                       </div>
-                    </SelectContent>
-                  </Select>
-                  
-                  <div className="mt-2 p-3 bg-muted/30 rounded-lg">
-                    <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">Quality rating:</span>
-                      <Badge variant="secondary" className="bg-green-100 text-green-800">HIGH</Badge>
                     </div>
-                    <div className="flex items-center justify-between text-sm mt-1">
-                      <span className="text-muted-foreground">Messaging limit:</span>
-                      <span className="text-foreground">10000 Messaging limit per 24hrs.</span>
-                    </div>
-                    <div className="flex items-center justify-between text-sm mt-1">
-                      <span className="text-muted-foreground">Last updated:</span>
-                      <span className="text-foreground">Sep 09, 2025 12:03 PM</span>
-                    </div>
-                  </div>
-                </div>
+                  </>
+                )}
 
                 <div>
                   <Label>Add tags <Info className="w-4 h-4 inline ml-1 text-muted-foreground" /></Label>
@@ -2792,7 +3024,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
                   <Button variant="ghost" size="sm" onClick={handleBack}>
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
-                  <DialogTitle className="text-xl font-semibold">WhatsApp campaign</DialogTitle>
+                  <DialogTitle className="text-xl font-semibold">{formData.channel} campaign</DialogTitle>
                 </div>
                 <div className="flex space-x-2">
                   <Button variant="outline">FINISH LATER</Button>
@@ -0,0 +1,288 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { addHours, format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ChevronDown, ChevronRight, Info, RefreshCw, RotateCcw, Users, X } from 'lucide-react';
+import { useDeadLetters } from '@/hooks/useDeadLetters';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { DeadLetterAuditEntry, DeadLetterEntry, DeadLetterStatus } from '@/services/retryDeadLetters';
+import { RetryTtlRules } from '@/services/retryTtlRules';
+
+const statusStyles: Record<DeadLetterStatus, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  requeued: 'bg-success text-success-foreground',
+  exported: 'bg-secondary text-secondary-foreground',
+  dismissed: 'bg-muted text-muted-foreground'
+};
+
+const formatDateTime = (value: string) => format(new Date(value), 'dd MMM yyyy, hh:mm a');
+
+// datetime-local input value for a new TTL an hour past the earliest the account allows
+const getDefaultTtlInput = () =>
+  format(addHours(RetryTtlRules.getAllowedRange(new Date()).min, 1), "yyyy-MM-dd'T'HH:mm");
+
+interface DeadLetterActionsProps {
+  entry: DeadLetterEntry;
+  campaignName?: string;
+  onRequeue: (ttlDateTime: string) => Promise<unknown>;
+  onExport: (segmentName: string) => Promise<unknown>;
+  onDismiss: () => Promise<unknown>;
+}
+
+function DeadLetterActions({ entry, campaignName, onRequeue, onExport, onDismiss }: DeadLetterActionsProps) {
+  const [ttlInput, setTtlInput] = useState(getDefaultTtlInput);
+  const [segmentName, setSegmentName] = useState(`${campaignName || entry.campaignId} - undelivered`);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Errors are surfaced by the hook; keep the form as-is so the operator can correct it
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsBusy(true);
+      await action();
+    } catch {
+      // Reported through useDeadLetters().error
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <div className="space-y-2">
+        <Label htmlFor={`ttl-${entry.id}`}>Re-queue until</Label>
+        <div className="flex space-x-2">
+          <Input
+            id={`ttl-${entry.id}`}
+            type="datetime-local"
+            value={ttlInput}
+            onChange={(e) => setTtlInput(e.target.value)}
+          />
+          <Button
+            size="sm"
+            disabled={isBusy || !ttlInput}
+            onClick={() => run(() => onRequeue(new Date(ttlInput).toISOString()))}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Re-queue
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`segment-${entry.id}`}>Export failed recipients as segment</Label>
+        <div className="flex space-x-2">
+          <Input
+            id={`segment-${entry.id}`}
+            value={segmentName}
+            onChange={(e) => setSegmentName(e.target.value)}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isBusy || !segmentName.trim() || entry.recipientCount === 0}
+            onClick={() => run(() => onExport(segmentName.trim()))}
+          >
+            <Users className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+      <div className="flex items-end">
+        <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => run(onDismiss)}>
+          <X className="w-4 h-4 mr-2" />
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeadLetterAuditLog({ audit }: { audit: DeadLetterAuditEntry[] | undefined }) {
+  if (!audit) {
+    return <p className="text-sm text-muted-foreground">Loading audit log...</p>;
+  }
+
+  return (
+    <ol className="space-y-1 text-sm">
+      {audit.map((item, index) => (
+        <li key={index} className="flex flex-wrap gap-x-2">
+          <span className="text-muted-foreground">{formatDateTime(item.occurredAt)}</span>
+          <span className="font-medium capitalize">{item.action}</span>
+          <span>by {item.actor}</span>
+          {item.details && <span className="text-muted-foreground">— {item.details}</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function DeadLetterQueue() {
+  const [status, setStatus] = useState<DeadLetterStatus | 'all'>('open');
+  const { entries, isLoading, error, refetch, requeue, exportSegment, dismiss, getAuditLog } = useDeadLetters(status);
+  const { campaigns } = useCampaigns();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditLogs, setAuditLogs] = useState<Record<string, DeadLetterAuditEntry[]>>({});
+
+  const campaignNames = useMemo(
+    () => new Map(campaigns.map(campaign => [campaign.id, campaign.name])),
+    [campaigns]
+  );
+
+  const loadAuditLog = async (id: string) => {
+    const audit = await getAuditLog(id).catch(() => []);
+    setAuditLogs(logs => ({ ...logs, [id]: audit }));
+  };
+
+  const toggleExpanded = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    loadAuditLog(id);
+  };
+
+  // Reload the audit log after an action so the new row shows up straight away
+  const withAudit = async (id: string, action: Promise<unknown>) => {
+    await action;
+    await loadAuditLog(id);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      {/* Page Header */}
+      <div className="sticky top-0 z-40 bg-background border-b border-border px-4 sm:px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Link to="/engage/campaigns/retries" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <h2 className="text-2xl font-semibold text-foreground">Dead-Letter Queue</h2>
+            </div>
+            <p className="text-muted-foreground">
+              Campaigns whose retries were exhausted or expired, waiting for review
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Select value={status} onValueChange={(value) => setStatus(value as DeadLetterStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="requeued">Re-queued</SelectItem>
+                <SelectItem value="exported">Exported</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 px-4 sm:px-6 py-6 space-y-6">
+        {error && (
+          <Alert className="border-destructive bg-destructive/10">
+            <Info className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="w-8 px-4 py-3" />
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Campaign</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Reason</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Final error code</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Recipients</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Dead-lettered</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                      {isLoading ? 'Loading dead-letter queue...' : 'No campaigns in the dead-letter queue'}
+                    </td>
+                  </tr>
+                )}
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const campaignName = campaignNames.get(entry.campaignId);
+
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        className="border-t border-border hover:bg-muted/25 cursor-pointer"
+                        onClick={() => toggleExpanded(entry.id)}
+                      >
+                        <td className="px-4 py-4">
+                          {isExpanded
+                            ? <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                            : <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="text-sm font-medium text-foreground">{campaignName || 'Unknown campaign'}</div>
+                          <div className="text-xs text-muted-foreground">ID - {entry.campaignId}</div>
+                        </td>
+                        <td className="px-4 py-4 text-sm text-foreground capitalize">{entry.reason}</td>
+                        <td className="px-4 py-4">
+                          {entry.errorCode
+                            ? <Badge variant="outline" className="text-xs">{entry.errorCode}</Badge>
+                            : <span className="text-sm text-muted-foreground">NA</span>}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-foreground">
+                          {entry.recipientCount > 0 ? entry.recipientCount : 'Whole campaign'}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-foreground">{formatDateTime(entry.createdAt)}</td>
+                        <td className="px-4 py-4">
+                          <Badge className={statusStyles[entry.status]}>{entry.status}</Badge>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-t border-border">
+                          <td colSpan={7} className="px-4 py-4 bg-muted/20 space-y-4">
+                            {entry.details && <p className="text-sm text-foreground">{entry.details}</p>}
+                            {entry.status === 'open' ? (
+                              <DeadLetterActions
+                                entry={entry}
+                                campaignName={campaignName}
+                                onRequeue={(ttlDateTime) => withAudit(entry.id, requeue(entry.id, ttlDateTime))}
+                                onExport={(segmentName) => withAudit(entry.id, exportSegment(entry.id, segmentName))}
+                                onDismiss={() => withAudit(entry.id, dismiss(entry.id))}
+                              />
+                            ) : (
+                              <p className="text-sm text-muted-foreground">
+                                Resolved {entry.resolvedAt ? formatDateTime(entry.resolvedAt) : ''} by {entry.resolvedBy || 'unknown'}
+                              </p>
+                            )}
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-2">Audit log</p>
+                              <DeadLetterAuditLog audit={auditLogs[entry.id]} />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
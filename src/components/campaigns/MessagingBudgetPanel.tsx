@@ -0,0 +1,53 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Progress } from '@/components/ui/progress';
+import { Gauge } from 'lucide-react';
+import { useMessagingBudget } from '@/hooks/useMessagingBudget';
+import { MessagingRateLimiter } from '@/services/messagingRateLimiter';
+
+interface MessagingBudgetPanelProps {
+  businessNumberId?: string;
+  plannedMessages?: number; // Messages the campaign being set up will send
+  className?: string;
+}
+
+export function MessagingBudgetPanel({ businessNumberId, plannedMessages, className }: MessagingBudgetPanelProps) {
+  const { budget, error } = useMessagingBudget(businessNumberId);
+  const businessNumber = MessagingRateLimiter.getBusinessNumber(businessNumberId);
+
+  if (error) {
+    return <p className={`text-sm text-destructive ${className || ''}`}>{error}</p>;
+  }
+
+  if (!budget) {
+    return <p className={`text-sm text-muted-foreground ${className || ''}`}>Loading messaging budget...</p>;
+  }
+
+  const overBudget = plannedMessages !== undefined ? Math.max(plannedMessages - budget.remaining, 0) : 0;
+
+  return (
+    <div className={`p-4 border border-border rounded-lg space-y-2 ${className || ''}`}>
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-4 h-4 text-muted-foreground" />
+          <span className="font-medium text-foreground">{businessNumber.name}</span>
+        </div>
+        <span className="text-muted-foreground">
+          <span className="font-medium text-foreground">{budget.remaining.toLocaleString()}</span>
+          {' '}of {budget.limit.toLocaleString()} messages left in the next 24hrs
+        </span>
+      </div>
+      <Progress value={(budget.remaining / budget.limit) * 100} className="h-2" />
+      <p className="text-xs text-muted-foreground">
+        Initial sends and retries share this budget.
+        {budget.remaining < budget.limit && ` Fully available again by ${format(new Date(budget.fullAt), 'dd MMM, hh:mm a')}.`}
+      </p>
+      {overBudget > 0 && (
+        <p className="text-xs text-orange-600">
+          {overBudget.toLocaleString()} of {plannedMessages.toLocaleString()} messages exceed the remaining budget, so the
+          campaign can't be sent now. Narrow the audience or schedule the send for later.
+        </p>
+      )}
+    </div>
+  );
+}
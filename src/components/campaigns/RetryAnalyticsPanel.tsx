@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Download } from 'lucide-react';
+import { CampaignRetryState } from '@/services/retryService';
+import { RetryAnalyticsBucket, RetryAnalyticsService } from '@/services/retryAnalyticsService';
+
+interface RetryAnalyticsPanelProps {
+  retryState: CampaignRetryState;
+  campaignName?: string;
+}
+
+const chartConfig = {
+  sent: { label: 'Sent', color: 'hsl(var(--muted-foreground))' },
+  recovered: { label: 'Recovered', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const bucketFormats: Record<RetryAnalyticsBucket, string> = {
+  hour: 'dd MMM, hh a',
+  day: 'dd MMM',
+  week: "'Wk of' dd MMM"
+};
+
+export function RetryAnalyticsPanel({ retryState, campaignName }: RetryAnalyticsPanelProps) {
+  const [bucket, setBucket] = useState<RetryAnalyticsBucket>('day');
+
+  const analytics = useMemo(
+    () => RetryAnalyticsService.aggregate([retryState], { bucket }),
+    [retryState, bucket]
+  );
+
+  const errorCodeData = useMemo(
+    () => Object.entries(analytics.byErrorCode).map(([errorCode, counts]) => ({ errorCode, ...counts })),
+    [analytics]
+  );
+
+  const seriesData = useMemo(
+    () => analytics.series.map(point => ({ ...point, label: format(new Date(point.bucketStart), bucketFormats[bucket]) })),
+    [analytics, bucket]
+  );
+
+  const handleExport = () => {
+    const blob = new Blob([RetryAnalyticsService.toCsv(analytics)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `retry-analytics-${(campaignName || retryState.campaignId).replace(/\s+/g, '-').toLowerCase()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (analytics.totals.attempts === 0) {
+    return <p className="text-sm text-muted-foreground">No delivery data from retries yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          <span><span className="font-medium">{analytics.totals.recovered}</span> of {analytics.totals.sent} recovered</span>
+          <span><span className="font-medium">{(analytics.totals.recoveryRate * 100).toFixed(1)}%</span> recovery rate</span>
+          <span>
+            <span className="font-medium">{analytics.currency} {analytics.totals.cost.toFixed(2)}</span> extra cost
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={bucket} onValueChange={(value) => setBucket(value as RetryAnalyticsBucket)}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hour">Hourly</SelectItem>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">Recovered by error code</p>
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={errorCodeData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="errorCode" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="sent" fill="var(--color-sent)" radius={4} />
+              <Bar dataKey="recovered" fill="var(--color-recovered)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">Recovered over time</p>
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <LineChart data={seriesData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="sent" stroke="var(--color-sent)" strokeWidth={2} dot={false} />
+              <Line dataKey="recovered" stroke="var(--color-recovered)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      </div>
+
+      {/* Breakdown by error code and attempt number */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-muted-foreground">
+            <th className="py-1 font-medium">Error code</th>
+            <th className="py-1 font-medium">Attempt</th>
+            <th className="py-1 font-medium">Sent</th>
+            <th className="py-1 font-medium">Recovered</th>
+            <th className="py-1 font-medium">Cost ({analytics.currency})</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analytics.breakdown.map(row => (
+            <tr key={`${row.errorCode}:${row.attemptNumber}`} className="border-t border-border">
+              <td className="py-1">{row.errorCode}</td>
+              <td className="py-1">{row.attemptNumber}</td>
+              <td className="py-1">{row.sent}</td>
+              <td className="py-1">{row.recovered}</td>
+              <td className="py-1">{row.cost.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
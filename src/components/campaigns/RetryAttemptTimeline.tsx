@@ -0,0 +1,94 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, PauseCircle, SkipForward } from 'lucide-react';
+import { RetryService, CampaignRetryState, RetryAttempt, RetryStats } from '@/services/retryService';
+
+interface RetryAttemptTimelineProps {
+  retryState: CampaignRetryState;
+  stats?: RetryStats;
+}
+
+const statusIcons: Record<RetryAttempt['status'], React.ReactNode> = {
+  completed: <CheckCircle className="w-4 h-4 text-success" />,
+  failed: <XCircle className="w-4 h-4 text-red-500" />,
+  pending: <Clock className="w-4 h-4 text-muted-foreground" />,
+  skipped: <SkipForward className="w-4 h-4 text-amber-500" />,
+  deferred: <PauseCircle className="w-4 h-4 text-amber-500" />
+};
+
+const formatDateTime = (value?: string) => (value ? format(new Date(value), 'dd MMM yyyy, hh:mm a') : 'NA');
+
+export function RetryAttemptTimeline({ retryState, stats }: RetryAttemptTimelineProps) {
+  const { campaignId, attempts, retryConfig } = retryState;
+
+  return (
+    <div className="space-y-4 px-4 py-4 bg-muted/20">
+      {/* Retry configuration */}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+        <span>Scheduled: {formatDateTime(retryConfig.scheduledDateTime)}</span>
+        <span>TTL: {formatDateTime(retryConfig.ttlDateTime)}</span>
+        <span>
+          Stops on: {[
+            retryConfig.stopOnConversion && `conversion${retryConfig.conversionEventName ? ` (${retryConfig.conversionEventName})` : ''}`,
+            retryConfig.stopOnManualPause && 'manual pause',
+            retryConfig.stopOnTemplateChange && 'template change'
+          ].filter(Boolean).join(', ') || 'none'}
+        </span>
+        {retryConfig.quietHours && (
+          <span>
+            Quiet hours: {retryConfig.quietHours.enabled
+              ? `${retryConfig.quietHours.startTime}–${retryConfig.quietHours.endTime}${retryConfig.timezone ? ` (${retryConfig.timezone})` : ''}`
+              : 'off'}
+          </span>
+        )}
+      </div>
+
+      {/* Recipient rollup */}
+      {stats?.recipients && (
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="text-xs">{stats.recipients.total} recipients</Badge>
+          <Badge variant="outline" className="text-xs border-success text-success">{stats.recipients.delivered} delivered</Badge>
+          <Badge variant="outline" className="text-xs">{stats.recipients.sent} awaiting status</Badge>
+          <Badge variant="outline" className="text-xs">{stats.recipients.retrying} retrying</Badge>
+          <Badge variant="outline" className="text-xs border-red-300 text-red-600">{stats.recipients.exhausted} exhausted</Badge>
+          <Badge variant="outline" className="text-xs">{stats.recipients.stopped} stopped</Badge>
+        </div>
+      )}
+
+      {/* Attempt timeline */}
+      {attempts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No retry attempts yet</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {attempts.map(attempt => {
+            const policy = attempt.errorCode ? RetryService.getRetryPolicy(attempt.errorCode, campaignId) : null;
+
+            return (
+              <li key={attempt.attemptNumber} className="ml-4">
+                <span className="absolute -left-2 flex items-center justify-center w-4 h-4 bg-background rounded-full">
+                  {statusIcons[attempt.status]}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-foreground">Attempt {attempt.attemptNumber}</p>
+                  <Badge variant="secondary" className="text-xs capitalize">{attempt.status}</Badge>
+                  {attempt.errorCode && (
+                    <Badge variant="outline" className="text-xs">
+                      {attempt.errorCode}{policy ? ` · ${policy.description}` : ''}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Scheduled {formatDateTime(attempt.scheduledAt)} · Executed {formatDateTime(attempt.executedAt)}
+                </p>
+                {attempt.reason && (
+                  <p className="text-xs text-foreground mt-1">{attempt.reason}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, ChevronDown, ChevronRight, Inbox, Info, Play, RefreshCw, Square, Zap } from 'lucide-react';
+import { useRetryDashboard } from '@/hooks/useRetryDashboard';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { CampaignRetryState } from '@/services/retryService';
+import { RetryAttemptTimeline } from './RetryAttemptTimeline';
+import { RetryAnalyticsPanel } from './RetryAnalyticsPanel';
+import { MessagingBudgetPanel } from './MessagingBudgetPanel';
+import { BUSINESS_NUMBERS } from '@/types/campaign';
+
+const formatCountdown = (milliseconds: number) => {
+  if (milliseconds <= 0) return 'Expired';
+
+  const totalMinutes = Math.floor(milliseconds / 60000);
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+const getRetryStatus = (retryState: CampaignRetryState, now: Date) => {
+  if (retryState.isExpired) return { label: 'Expired', className: 'bg-muted text-muted-foreground' };
+  if (!retryState.retryConfig.enabled) return { label: 'Disabled', className: 'bg-muted text-muted-foreground' };
+  if (!retryState.nextAttemptAt) return { label: 'Idle', className: 'bg-secondary text-secondary-foreground' };
+  if (new Date(retryState.nextAttemptAt) <= now) return { label: 'Due', className: 'bg-amber-100 text-amber-800' };
+  return { label: 'Scheduled', className: 'bg-success text-success-foreground' };
+};
+
+// Count attempts per Meta error code
+const getAttemptsByErrorCode = (retryState: CampaignRetryState) =>
+  retryState.attempts.reduce<Record<string, number>>((counts, attempt) => {
+    if (attempt.errorCode) {
+      counts[attempt.errorCode] = (counts[attempt.errorCode] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+export function RetryDashboard() {
+  const {
+    retryStates,
+    retryStatistics,
+    isRunning,
+    isLoading,
+    error,
+    refetch,
+    start,
+    stop,
+    runNow
+  } = useRetryDashboard();
+  const { campaigns } = useCampaigns();
+  const [expandedCampaignId, setExpandedCampaignId] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  // Keep TTL countdowns ticking
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const campaignNames = useMemo(
+    () => new Map(campaigns.map(campaign => [campaign.id, campaign.name])),
+    [campaigns]
+  );
+
+  const summary = useMemo(() => ({
+    inRetry: retryStates.filter(s => s.retryConfig.enabled && !s.isExpired && s.nextAttemptAt).length,
+    due: retryStates.filter(s => s.retryConfig.enabled && !s.isExpired && s.nextAttemptAt && new Date(s.nextAttemptAt) <= now).length,
+    attempts: retryStates.reduce((total, s) => total + s.attempts.length, 0),
+    expired: retryStates.filter(s => s.isExpired).length
+  }), [retryStates, now]);
+
+  const sortedStates = useMemo(
+    () => [...retryStates].sort((a, b) => (a.nextAttemptAt || '~').localeCompare(b.nextAttemptAt || '~')),
+    [retryStates]
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      {/* Page Header */}
+      <div className="sticky top-0 z-40 bg-background border-b border-border px-4 sm:px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Link to="/engage/campaigns" className="text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <h2 className="text-2xl font-semibold text-foreground">Campaign Retries</h2>
+              <Badge className={isRunning ? 'bg-success text-success-foreground' : 'bg-muted text-muted-foreground'}>
+                {isRunning ? 'Running' : 'Stopped'}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              Retry queue, attempt history and TTL countdowns for every campaign in retry
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/engage/campaigns/retries/dead-letters">
+                <Inbox className="w-4 h-4 mr-2" />
+                Dead Letters
+              </Link>
+            </Button>
+            {isRunning ? (
+              <Button variant="outline" onClick={stop}>
+                <Square className="w-4 h-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={start}>
+                <Play className="w-4 h-4 mr-2" />
+                Start
+              </Button>
+            )}
+            <Button onClick={runNow} disabled={!isRunning}>
+              <Zap className="w-4 h-4 mr-2" />
+              Run Now
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 px-4 sm:px-6 py-6 space-y-6">
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Retries are sent by the retry worker, not this page. Start, Stop and Run Now take effect at the
+            worker's next control check (every few seconds); retry states are refreshed every 15 seconds.
+          </AlertDescription>
+        </Alert>
+
+        {error && (
+          <Alert className="border-destructive bg-destructive/10">
+            <Info className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Summary */}
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          {[
+            { label: 'Campaigns in retry', value: summary.inRetry },
+            { label: 'Due now', value: summary.due },
+            { label: 'Total attempts', value: summary.attempts },
+            { label: 'Expired', value: summary.expired }
+          ].map(item => (
+            <Card key={item.label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{item.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-semibold text-foreground">{item.value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Messaging tier budget per business number (initial sends and retries) */}
+        <div className="grid gap-4 lg:grid-cols-2">
+          {BUSINESS_NUMBERS.map(number => (
+            <MessagingBudgetPanel key={number.id} businessNumberId={number.id} className="bg-card" />
+          ))}
+        </div>
+
+        {/* Retry Queue */}
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="w-8 px-4 py-3" />
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Campaign</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Status</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Attempts by error code</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Next attempt</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground">Time to expiry</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedStates.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                      {isLoading ? 'Loading retry states...' : 'No campaigns are in retry'}
+                    </td>
+                  </tr>
+                )}
+                {sortedStates.map(retryState => {
+                  const { campaignId } = retryState;
+                  const isExpanded = expandedCampaignId === campaignId;
+                  const status = getRetryStatus(retryState, now);
+                  const stats = retryStatistics[campaignId];
+                  const attemptsByErrorCode = getAttemptsByErrorCode(retryState);
+                  const timeToExpiry = retryState.retryConfig.ttlDateTime
+                    ? new Date(retryState.retryConfig.ttlDateTime).getTime() - now.getTime()
+                    : null;
+
+                  return (
+                    <React.Fragment key={campaignId}>
+                      <tr
+                        className="border-t border-border hover:bg-muted/25 cursor-pointer"
+                        onClick={() => setExpandedCampaignId(isExpanded ? null : campaignId)}
+                      >
+                        <td className="px-4 py-4">
+                          {isExpanded
+                            ? <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                            : <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="text-sm font-medium text-foreground">
+                            {campaignNames.get(campaignId) || 'Unknown campaign'}
+                          </div>
+                          <div className="text-xs text-muted-foreground">ID - {campaignId}</div>
+                        </td>
+                        <td className="px-4 py-4">
+                          <Badge className={status.className}>{status.label}</Badge>
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="flex flex-wrap gap-1">
+                            {Object.keys(attemptsByErrorCode).length === 0 ? (
+                              <span className="text-sm text-muted-foreground">{retryState.attempts.length}</span>
+                            ) : (
+                              Object.entries(attemptsByErrorCode).map(([errorCode, count]) => (
+                                <Badge key={errorCode} variant="outline" className="text-xs">
+                                  {errorCode} × {count}
+                                </Badge>
+                              ))
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 text-sm text-foreground">
+                          {retryState.nextAttemptAt ? format(new Date(retryState.nextAttemptAt), 'dd MMM yyyy, hh:mm a') : 'NA'}
+                        </td>
+                        <td className="px-4 py-4 text-sm text-foreground">
+                          {timeToExpiry === null ? 'NA' : formatCountdown(timeToExpiry)}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-t border-border">
+                          <td colSpan={6}>
+                            <RetryAttemptTimeline retryState={retryState} stats={stats} />
+                            <div className="px-4 pb-4 bg-muted/20">
+                              <RetryAnalyticsPanel retryState={retryState} campaignName={campaignNames.get(campaignId)} />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
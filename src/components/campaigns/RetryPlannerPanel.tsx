@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { DateTime } from 'luxon';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, Moon } from 'lucide-react';
+import { QuietHours } from '@/types/campaign';
+import { RetryPolicyRegistry } from '@/services/retryPolicyRegistry';
+import { RetryService } from '@/services/retryService';
+import { planRetrySchedule } from '@/services/retryPlanner';
+
+interface RetryPlannerPanelProps {
+  scheduledAt: Date;
+  ttlDateTime: Date | null;
+  timezone?: string;
+  quietHours?: QuietHours; // Campaign override (account quiet hours otherwise)
+}
+
+export function RetryPlannerPanel({ scheduledAt, ttlDateTime, timezone, quietHours }: RetryPlannerPanelProps) {
+  const schedulingWindow = RetryService.getSchedulingWindow({ timezone, quietHours });
+
+  const plans = useMemo(() => {
+    if (!ttlDateTime) return [];
+    const { quietHours: effectiveQuietHours, timezone: effectiveTimezone } = RetryService.getSchedulingWindow({ timezone, quietHours });
+    return planRetrySchedule({
+      scheduledAt,
+      ttlDateTime,
+      policies: RetryPolicyRegistry.getEffectivePolicies(),
+      quietHours: effectiveQuietHours,
+      timezone: effectiveTimezone
+    });
+  }, [scheduledAt, ttlDateTime, timezone, quietHours]);
+
+  const formatAttemptTime = (attemptAt: string) =>
+    DateTime.fromISO(attemptAt, { zone: schedulingWindow.timezone }).toFormat('dd MMM, hh:mm a');
+
+  if (!ttlDateTime) return null;
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-4">
+      <div>
+        <div className="flex items-center space-x-2">
+          <CalendarClock className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Retry plan</span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          When each failure would be retried ({schedulingWindow.timezone}). Struck-through attempts fall after the TTL and are never sent.
+        </p>
+      </div>
+
+      {plans.map(plan => (
+        <div key={plan.errorCode} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-foreground">
+              <span className="font-medium">{plan.errorCode}</span> · {plan.description}
+            </p>
+            <span className="text-xs text-muted-foreground">
+              {plan.scheduledAttempts} of {plan.attempts.length} attempts
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {plan.attempts.map(attempt => (
+              <Badge
+                key={attempt.attemptNumber}
+                variant="outline"
+                className={`text-xs ${attempt.cutOffByTtl ? 'line-through text-muted-foreground' : ''}`}
+              >
+                {attempt.movedByQuietHours && <Moon className="w-3 h-3 mr-1" />}
+                #{attempt.attemptNumber} {formatAttemptTime(attempt.attemptAt)}
+              </Badge>
+            ))}
+          </div>
+          {plan.requiresTemplateActive && (
+            <p className="text-xs text-muted-foreground">Only sent once the template is active again.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PaginationState } from '@/types/campaign';
 
-interface TablePaginationProps {
+export interface TablePaginationProps {
   paginationState: PaginationState;
   totalPages: number;
   startIndex: number;
@@ -14,6 +14,7 @@ interface TablePaginationProps {
   canGoPrevious: boolean;
   onNext: () => void;
   onPrevious: () => void;
+  canGoToPage?: (page: number) => boolean; // Keyset-paginated lists can only jump to pages already reached
 }
 
 export function TablePagination({
@@ -26,7 +27,8 @@ export function TablePagination({
   canGoNext,
   canGoPrevious,
   onNext,
-  onPrevious
+  onPrevious,
+  canGoToPage
 }: TablePaginationProps) {
   const { currentPage, itemsPerPage, totalItems } = paginationState;
 
@@ -73,6 +75,7 @@ export function TablePagination({
                   variant={page === currentPage ? "default" : "outline"}
                   size="sm"
                   onClick={() => onPageChange(page)}
+                  disabled={canGoToPage ? !canGoToPage(page) : false}
                   className="w-8"
                 >
                   {page}
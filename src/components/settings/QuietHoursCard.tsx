@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Info, Moon } from 'lucide-react';
+import { QuietHours } from '@/types/campaign';
+import { AccountSettingsService } from '@/services/accountSettingsService';
+import { useAccountSettings } from '@/hooks/useAccountSettings';
+
+export function QuietHoursCard() {
+  const { settings, isLoading, error, saveSettings } = useAccountSettings();
+  const [quietHours, setQuietHours] = useState<QuietHours>(settings.quietHours);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever saved settings are (re)loaded
+  useEffect(() => {
+    setQuietHours(settings.quietHours);
+  }, [settings]);
+
+  const updateQuietHours = (updates: Partial<QuietHours>) => {
+    setQuietHours(prev => ({ ...prev, ...updates }));
+  };
+
+  const isDirty =
+    quietHours.enabled !== settings.quietHours.enabled ||
+    quietHours.startTime !== settings.quietHours.startTime ||
+    quietHours.endTime !== settings.quietHours.endTime;
+
+  const handleSave = async () => {
+    const validation = AccountSettingsService.validateQuietHours(quietHours);
+    if (!validation.isValid) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveSettings({ ...settings, quietHours });
+      setFormErrors([]);
+    } catch (err) {
+      setFormErrors([err instanceof Error ? err.message : 'Failed to save quiet hours']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Moon className="w-5 h-5 text-primary" />
+          <CardTitle>Quiet Hours</CardTitle>
+        </div>
+        <CardDescription>
+          Retries that would go out during quiet hours are moved to the end of the window, in each campaign's timezone
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive bg-destructive/10">
+            <Info className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium">Enable Quiet Hours</p>
+            <p className="text-xs text-muted-foreground">
+              Campaigns can override these hours in their schedule
+            </p>
+          </div>
+          <Switch
+            checked={quietHours.enabled}
+            onCheckedChange={(checked) => updateQuietHours({ enabled: checked })}
+            disabled={isLoading}
+          />
+        </div>
+
+        {quietHours.enabled && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Quiet from</Label>
+              <Input
+                type="time"
+                value={quietHours.startTime}
+                onChange={(e) => updateQuietHours({ startTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Quiet until</Label>
+              <Input
+                type="time"
+                value={quietHours.endTime}
+                onChange={(e) => updateQuietHours({ endTime: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        {formErrors.length > 0 && (
+          <div>
+            {formErrors.map((formError, index) => (
+              <p key={index} className="text-xs text-red-600">
+                {formError}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Quiet Hours'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
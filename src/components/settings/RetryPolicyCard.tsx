@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RefreshCw, Plus, Pencil, Trash2, Info } from 'lucide-react';
+import { RetryPolicyOverride, DEFAULT_RETRY_POLICIES } from '@/types/campaign';
+import { RetryPolicyRegistry } from '@/services/retryPolicyRegistry';
+import { useRetryPolicies } from '@/hooks/useRetryPolicies';
+
+interface PolicyFormState {
+  id?: string;
+  scope: 'account' | 'campaign';
+  campaignId: string;
+  errorCode: string;
+  description: string;
+  retryIntervals: string; // Comma-separated hours
+  maxAttempts: string;
+  jitterPct: string;
+  backoffMultiplier: string;
+  requiresTemplateActive: boolean;
+}
+
+const emptyForm: PolicyFormState = {
+  scope: 'account',
+  campaignId: '',
+  errorCode: '',
+  description: '',
+  retryIntervals: '24',
+  maxAttempts: '',
+  jitterPct: '',
+  backoffMultiplier: '',
+  requiresTemplateActive: false
+};
+
+const toFormState = (policy: RetryPolicyOverride): PolicyFormState => ({
+  id: policy.id,
+  scope: policy.campaignId ? 'campaign' : 'account',
+  campaignId: policy.campaignId || '',
+  errorCode: policy.errorCode,
+  description: policy.description,
+  retryIntervals: policy.retryIntervals.join(', '),
+  maxAttempts: policy.maxAttempts?.toString() ?? '',
+  jitterPct: policy.jitterPct?.toString() ?? '',
+  backoffMultiplier: policy.backoffMultiplier?.toString() ?? '',
+  requiresTemplateActive: policy.requiresTemplateActive ?? false
+});
+
+const toPolicy = (form: PolicyFormState): RetryPolicyOverride => {
+  const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  return {
+    id: form.id,
+    campaignId: form.scope === 'campaign' ? form.campaignId.trim() : null,
+    errorCode: form.errorCode.trim(),
+    description: form.description,
+    retryIntervals: form.retryIntervals
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(Number),
+    maxAttempts: optionalNumber(form.maxAttempts),
+    jitterPct: optionalNumber(form.jitterPct),
+    backoffMultiplier: optionalNumber(form.backoffMultiplier),
+    requiresTemplateActive: form.requiresTemplateActive
+  };
+};
+
+const formatIntervals = (intervals: number[]) => intervals.map(hours => `${hours}h`).join(', ');
+
+export function RetryPolicyCard() {
+  const { policies, isLoading, error, refetch, savePolicy, deletePolicy } = useRetryPolicies();
+  const [form, setForm] = useState<PolicyFormState | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateForm = (updates: Partial<PolicyFormState>) => {
+    setForm(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const policy = toPolicy(form);
+    const validation = RetryPolicyRegistry.validatePolicy(policy);
+    if (!validation.isValid) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await savePolicy(policy);
+      setForm(null);
+      setFormErrors([]);
+    } catch (err) {
+      setFormErrors([err instanceof Error ? err.message : 'Failed to save retry policy']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setForm(null);
+    setFormErrors([]);
+  };
+
+  const overriddenDefaults = new Set(policies.filter(p => p.campaignId === null).map(p => p.errorCode));
+  const defaultPolicies = Object.values(DEFAULT_RETRY_POLICIES).filter(p => !overriddenDefaults.has(p.errorCode));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <RefreshCw className="w-5 h-5 text-primary" />
+            <CardTitle>Retry Policies</CardTitle>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button size="sm" onClick={() => setForm({ ...emptyForm })} disabled={!!form}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Policy
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Configure retry intervals per Meta error code for the whole account or for a single campaign
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive bg-destructive/10">
+            <Info className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Policy List */}
+        <div className="space-y-2">
+          {policies.map(policy => (
+            <div
+              key={policy.id}
+              className="flex items-center justify-between p-3 border rounded-lg bg-muted/30"
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium">{policy.errorCode}</p>
+                  <Badge variant="outline" className="text-xs">
+                    {policy.campaignId ? `Campaign ${policy.campaignId}` : 'Account'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {policy.description} · {formatIntervals(policy.retryIntervals)}
+                  {policy.maxAttempts ? ` · max ${policy.maxAttempts}` : ''}
+                  {policy.jitterPct ? ` · ±${policy.jitterPct}% jitter` : ''}
+                  {policy.backoffMultiplier && policy.backoffMultiplier > 1 ? ` · ×${policy.backoffMultiplier} backoff` : ''}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="sm" onClick={() => setForm(toFormState(policy))} disabled={!!form}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => policy.id && deletePolicy(policy.id)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {defaultPolicies.map(policy => (
+            <div
+              key={policy.errorCode}
+              className="flex items-center justify-between p-3 border rounded-lg"
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium">{policy.errorCode}</p>
+                  <Badge variant="secondary" className="text-xs">Default</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {policy.description} · {formatIntervals(policy.retryIntervals)}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setForm(toFormState({ ...policy, campaignId: null }))}
+                disabled={!!form}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Policy Editor */}
+        {form && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select
+                  value={form.scope}
+                  onValueChange={(value: 'account' | 'campaign') => updateForm({ scope: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="account">Whole account</SelectItem>
+                    <SelectItem value="campaign">Single campaign</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.scope === 'campaign' && (
+                <div className="space-y-2">
+                  <Label>Campaign ID *</Label>
+                  <Input
+                    value={form.campaignId}
+                    onChange={(e) => updateForm({ campaignId: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Meta error code *</Label>
+                <Input
+                  placeholder="131026"
+                  value={form.errorCode}
+                  onChange={(e) => updateForm({ errorCode: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Description *</Label>
+                <Input
+                  placeholder="Message undeliverable"
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Retry intervals (hours, comma-separated) *</Label>
+                <Input
+                  placeholder="12, 24, 48"
+                  value={form.retryIntervals}
+                  onChange={(e) => updateForm({ retryIntervals: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Max attempts</Label>
+                <Input
+                  type="number"
+                  placeholder="Number of intervals"
+                  value={form.maxAttempts}
+                  onChange={(e) => updateForm({ maxAttempts: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Jitter (%)</Label>
+                <Input
+                  type="number"
+                  placeholder="0"
+                  value={form.jitterPct}
+                  onChange={(e) => updateForm({ jitterPct: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Exponential backoff multiplier</Label>
+                <Input
+                  type="number"
+                  placeholder="1"
+                  value={form.backoffMultiplier}
+                  onChange={(e) => updateForm({ backoffMultiplier: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">Wait for template to be active</p>
+                <p className="text-xs text-muted-foreground">
+                  Only retry once the template is approved again
+                </p>
+              </div>
+              <Switch
+                checked={form.requiresTemplateActive}
+                onCheckedChange={(checked) => updateForm({ requiresTemplateActive: checked })}
+              />
+            </div>
+
+            {formErrors.length > 0 && (
+              <div>
+                {formErrors.map((formError, index) => (
+                  <p key={index} className="text-xs text-red-600">
+                    {formError}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={handleCancel}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Policy'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
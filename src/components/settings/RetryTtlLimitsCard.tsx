@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Info, Timer } from 'lucide-react';
+import { RetryTtlBounds } from '@/types/campaign';
+import { AccountSettingsService } from '@/services/accountSettingsService';
+import { useAccountSettings } from '@/hooks/useAccountSettings';
+
+export function RetryTtlLimitsCard() {
+  const { settings, isLoading, error, saveSettings } = useAccountSettings();
+  const [ttlBounds, setTtlBounds] = useState<RetryTtlBounds>(settings.ttlBounds);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever saved settings are (re)loaded
+  useEffect(() => {
+    setTtlBounds(settings.ttlBounds);
+  }, [settings]);
+
+  const isDirty =
+    ttlBounds.minHours !== settings.ttlBounds.minHours ||
+    ttlBounds.maxHours !== settings.ttlBounds.maxHours;
+
+  const handleSave = async () => {
+    const validation = AccountSettingsService.validateTtlBounds(ttlBounds);
+    if (!validation.isValid) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveSettings({ ...settings, ttlBounds });
+      setFormErrors([]);
+    } catch (err) {
+      setFormErrors([err instanceof Error ? err.message : 'Failed to save TTL limits']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Timer className="w-5 h-5 text-primary" />
+          <CardTitle>Retry TTL Limits</CardTitle>
+        </div>
+        <CardDescription>
+          How soon and how late after the scheduled time a campaign's retry TTL may be set
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-destructive bg-destructive/10">
+            <Info className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Minimum TTL (hours)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={ttlBounds.minHours}
+              onChange={(e) => setTtlBounds(prev => ({ ...prev, minHours: Number(e.target.value) }))}
+              disabled={isLoading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Maximum TTL (hours)</Label>
+            <Input
+              type="number"
+              max={720}
+              value={ttlBounds.maxHours}
+              onChange={(e) => setTtlBounds(prev => ({ ...prev, maxHours: Number(e.target.value) }))}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+
+        {formErrors.length > 0 && (
+          <div>
+            {formErrors.map((formError, index) => (
+              <p key={index} className="text-xs text-red-600">
+                {formError}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save TTL Limits'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { AccountSettings, AccountSettingsService } from '@/services/accountSettingsService';
+
+export function useAccountSettings() {
+  const [settings, setSettings] = useState<AccountSettings>(AccountSettingsService.getSettings());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch account settings from Supabase
+  const fetchSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await AccountSettingsService.refresh();
+      setSettings(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch account settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  // Save account settings
+  const saveSettings = async (updated: AccountSettings) => {
+    try {
+      setError(null);
+      const saved = await AccountSettingsService.saveSettings(updated);
+      setSettings(saved);
+      return saved;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save account settings');
+      throw err;
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    error,
+    refetch: fetchSettings,
+    saveSettings
+  };
+}
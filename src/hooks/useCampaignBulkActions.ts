@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { CampaignBulkAction, CampaignBulkResult, CampaignExportFormat, CampaignSelection } from '@/types/campaign';
+import { CampaignBulkService } from '@/services/campaignBulkService';
+
+export function useCampaignBulkActions() {
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<CampaignBulkAction | null>(null);
+  const [results, setResults] = useState<CampaignBulkResult[] | null>(null);
+
+  // Apply the action; the per-campaign results are kept for the summary
+  const runAction = async (action: CampaignBulkAction, selection: CampaignSelection): Promise<CampaignBulkResult[]> => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      setResults(null);
+      const actionResults = await CampaignBulkService.runAction(action, selection);
+      setLastAction(action);
+      setResults(actionResults);
+      return actionResults;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bulk action failed');
+      throw err;
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Build the export file for the selected campaigns
+  const exportCampaigns = async (selection: CampaignSelection, format: CampaignExportFormat) => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      const campaigns = await CampaignBulkService.loadSelection(selection);
+      return CampaignBulkService.buildExport(campaigns, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+      throw err;
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const clearResults = () => {
+    setResults(null);
+    setError(null);
+  };
+
+  return {
+    isRunning,
+    error,
+    lastAction,
+    results,
+    runAction,
+    exportCampaigns,
+    clearResults
+  };
+}
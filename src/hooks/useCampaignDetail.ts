@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { CampaignDetail, CampaignDetailService } from '@/services/campaignDetailService';
+
+export function useCampaignDetail(campaignId?: string) {
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the campaign with its funnel, failures and retry history
+  const fetchDetail = async () => {
+    if (!campaignId) {
+      setDetail(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setDetail(await CampaignDetailService.getCampaignDetail(campaignId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch campaign');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDetail();
+  }, [campaignId]);
+
+  return {
+    detail,
+    isLoading,
+    error,
+    refetch: fetchDetail
+  };
+}
@@ -1,22 +1,55 @@
-import { useState, useMemo } from 'react';
-import { Campaign, CampaignFilters } from '@/types/campaign';
-import { CampaignService } from '@/services/campaignService';
-
-export function useCampaignFilters(campaigns: Campaign[]) {
-  const [filters, setFilters] = useState<CampaignFilters>({
-    searchQuery: '',
-    activeTab: 'all',
-    activeChannelFilter: 'WhatsApp'
-  });
-
-  // Filter campaigns based on current filters
-  const filteredCampaigns = useMemo(() => {
-    return CampaignService.filterCampaigns(
-      campaigns, 
-      filters.searchQuery, 
-      filters.activeTab
-    );
-  }, [campaigns, filters.searchQuery, filters.activeTab]);
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  CampaignAdvancedFilters,
+  CampaignChannelFilter,
+  CampaignFilters,
+  CampaignListOptions,
+  CampaignSortBy,
+  CampaignSortOrder,
+  DEFAULT_CAMPAIGN_FILTERS
+} from '@/types/campaign';
+import { CampaignViewService } from '@/services/campaignViewService';
+
+// Wait for typing to pause before the search goes to the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+// The filters live in the URL search params too, so a filtered list can be shared or bookmarked
+export function useCampaignFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<CampaignFilters>(() => CampaignViewService.fromSearchParams(searchParams));
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState(filters.searchQuery.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(filters.searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.searchQuery]);
+
+  // Filters -> URL (replacing the history entry, so typing doesn't flood the back button)
+  useEffect(() => {
+    const next = CampaignViewService.toSearchParams(filters, searchParams);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [filters]);
+
+  // URL -> filters (back/forward navigation or a pasted link)
+  useEffect(() => {
+    const fromUrl = CampaignViewService.fromSearchParams(searchParams);
+    if (CampaignViewService.toSearchParams(fromUrl).toString() !== CampaignViewService.toSearchParams(filters).toString()) {
+      setFilters(fromUrl);
+    }
+  }, [searchParams]);
+
+  // Options for the server-side campaign list query
+  const listOptions: CampaignListOptions = useMemo(() => ({
+    ...filters.advanced,
+    searchQuery: debouncedSearchQuery,
+    activeTab: filters.activeTab,
+    channel: filters.activeChannelFilter,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder
+  }), [debouncedSearchQuery, filters.activeTab, filters.activeChannelFilter, filters.sortBy, filters.sortOrder, filters.advanced]);
 
   // Update individual filter values
   const updateSearchQuery = (searchQuery: string) => {
@@ -27,25 +60,39 @@ export function useCampaignFilters(campaigns: Campaign[]) {
     setFilters(prev => ({ ...prev, activeTab }));
   };
 
-  const updateChannelFilter = (activeChannelFilter: string) => {
+  const updateChannelFilter = (activeChannelFilter: CampaignChannelFilter) => {
     setFilters(prev => ({ ...prev, activeChannelFilter }));
   };
 
+  const updateSort = (sortBy: CampaignSortBy, sortOrder: CampaignSortOrder) => {
+    setFilters(prev => ({ ...prev, sortBy, sortOrder }));
+  };
+
+  const updateAdvancedFilters = (advanced: CampaignAdvancedFilters) => {
+    setFilters(prev => CampaignViewService.normalizeFilters({ ...prev, advanced }));
+  };
+
+  // Replace every filter (e.g. when a saved view is applied)
+  const applyFilters = (next: CampaignFilters) => {
+    setFilters(CampaignViewService.normalizeFilters(next));
+    setDebouncedSearchQuery(next.searchQuery.trim());
+  };
+
   // Reset all filters
   const resetFilters = () => {
-    setFilters({
-      searchQuery: '',
-      activeTab: 'all',
-      activeChannelFilter: ''
-    });
+    setFilters({ ...DEFAULT_CAMPAIGN_FILTERS, activeChannelFilter: '' });
   };
 
   return {
     filters,
-    filteredCampaigns,
+    listOptions,
+    isSearchPending: filters.searchQuery.trim() !== debouncedSearchQuery,
     updateSearchQuery,
     updateActiveTab,
     updateChannelFilter,
+    updateSort,
+    updateAdvancedFilters,
+    applyFilters,
     resetFilters
   };
 }
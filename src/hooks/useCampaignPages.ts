@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef } from 'react';
+import { Campaign, CampaignListOptions, CampaignPageCursor, PaginationState, StatusTab } from '@/types/campaign';
+import { CampaignService } from '@/services/campaignService';
+import { CampaignRepositoryService } from '@/services/campaignRepository';
+
+// Server-paginated campaign list: pages are fetched by keyset cursor, so only pages
+// already reached (and the one after the current page) can be jumped to
+export function useCampaignPages(
+  options: CampaignListOptions,
+  publishedCampaignId?: string | null,
+  initialItemsPerPage = 10
+) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [statusTabs, setStatusTabs] = useState<StatusTab[]>(
+    CampaignService.getStatusTabs(CampaignService.countByStatus({}))
+  );
+  const [currentPage, setCurrentPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState(initialItemsPerPage);
+  // Start cursor of each page reached so far (null for the first page)
+  const [cursors, setCursors] = useState<(CampaignPageCursor | null)[]>([null]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update the list (e.g. while the search is being typed)
+  const latestRequest = useRef(0);
+
+  const { searchQuery, activeTab, channel, sortBy, sortOrder, ...advanced } = options;
+  // Filter panel fields compared by value, so a new but equal object doesn't refetch
+  const advancedKey = JSON.stringify(advanced);
+
+  // Fetch one page, starting after the given cursor
+  const fetchPage = async (page: number, after: CampaignPageCursor | null) => {
+    const request = ++latestRequest.current;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await CampaignRepositoryService.listCampaignPage({
+        ...advanced,
+        searchQuery,
+        activeTab,
+        channel,
+        sortBy,
+        sortOrder,
+        publishedCampaignId,
+        pageSize: itemsPerPage,
+        after
+      });
+      if (request !== latestRequest.current) return;
+
+      setCampaigns(result.items);
+      setTotalItems(result.totalCount);
+      setCurrentPage(page);
+      setCursors(prev => [...prev.slice(0, page), ...(result.nextCursor ? [result.nextCursor] : [])]);
+    } catch (err) {
+      if (request !== latestRequest.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to fetch campaigns');
+    } finally {
+      if (request === latestRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Fetch status tab counts for the channel (not narrowed by the search)
+  const fetchStatusTabs = async () => {
+    try {
+      const stats = await CampaignRepositoryService.getRepository().getCampaignStats(channel);
+      setStatusTabs(CampaignService.getStatusTabs(stats));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch campaign counts');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatusTabs();
+  }, [channel]);
+
+  // Any change to the query starts again from the first page
+  useEffect(() => {
+    setCursors([null]);
+    fetchPage(1, null);
+  }, [searchQuery, activeTab, channel, sortBy, sortOrder, advancedKey, itemsPerPage, publishedCampaignId]);
+
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + itemsPerPage;
+
+  const paginationState: PaginationState = { currentPage, itemsPerPage, totalItems };
+
+  const canGoToPage = (page: number) => page >= 1 && page <= cursors.length;
+
+  const goToPage = (page: number) => {
+    if (canGoToPage(page) && page !== currentPage) {
+      fetchPage(page, cursors[page - 1]);
+    }
+  };
+
+  const changeItemsPerPage = (newItemsPerPage: number) => {
+    setItemsPerPage(newItemsPerPage); // Refetches from the first page
+  };
+
+  const nextPage = () => goToPage(currentPage + 1);
+  const previousPage = () => goToPage(currentPage - 1);
+
+  // Reload the current page and the status counts (e.g. after a campaign changes)
+  const refetch = async () => {
+    await Promise.all([fetchPage(currentPage, cursors[currentPage - 1] ?? null), fetchStatusTabs()]);
+  };
+
+  return {
+    campaigns,
+    statusTabs,
+    isLoading,
+    error,
+    refetch,
+    paginationState,
+    totalPages,
+    startIndex,
+    endIndex,
+    goToPage,
+    nextPage,
+    previousPage,
+    changeItemsPerPage,
+    canGoToPage,
+    canGoNext: currentPage < cursors.length,
+    canGoPrevious: currentPage > 1
+  };
+}
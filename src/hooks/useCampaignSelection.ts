@@ -0,0 +1,85 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CampaignListOptions, CampaignSelection } from '@/types/campaign';
+
+// Row selection for the campaign table. "Select all" covers every page of the list query,
+// with rows unticked afterwards kept as exclusions.
+export function useCampaignSelection(query: CampaignListOptions) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  // Compared by value, so a new but equal query keeps the selection
+  const queryKey = JSON.stringify(query);
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+    setExcludedIds(new Set());
+  };
+
+  // A different query lists different campaigns
+  useEffect(() => {
+    clearSelection();
+  }, [queryKey]);
+
+  const isSelected = (campaignId: string) =>
+    allMatching ? !excludedIds.has(campaignId) : selectedIds.has(campaignId);
+
+  const toggleCampaign = (campaignId: string) => {
+    const update = (prev: Set<string>) => {
+      const next = new Set(prev);
+      if (next.has(campaignId)) {
+        next.delete(campaignId);
+      } else {
+        next.add(campaignId);
+      }
+      return next;
+    };
+    if (allMatching) {
+      setExcludedIds(update);
+    } else {
+      setSelectedIds(update);
+    }
+  };
+
+  // Header checkbox: tick or untick every row on the current page
+  const setPageSelected = (campaignIds: string[], selected: boolean) => {
+    if (allMatching && !selected) {
+      clearSelection();
+      return;
+    }
+    if (allMatching) {
+      setExcludedIds(prev => new Set([...prev].filter(id => !campaignIds.includes(id))));
+      return;
+    }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      campaignIds.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const selectAllMatching = () => {
+    setAllMatching(true);
+    setExcludedIds(new Set());
+    setSelectedIds(new Set());
+  };
+
+  const selection: CampaignSelection = useMemo(
+    () => allMatching
+      ? { mode: 'all', query: JSON.parse(queryKey) as CampaignListOptions, excludedIds: [...excludedIds] }
+      : { mode: 'ids', ids: [...selectedIds] },
+    [allMatching, excludedIds, selectedIds, queryKey]
+  );
+
+  return {
+    selection,
+    isAllMatching: allMatching,
+    hasSelection: allMatching || selectedIds.size > 0,
+    isSelected,
+    toggleCampaign,
+    setPageSelected,
+    selectAllMatching,
+    clearSelection
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Campaign, CampaignFilters, StatusTab } from '@/types/campaign';
+import { Campaign, StatusTab } from '@/types/campaign';
 import { CampaignService } from '@/services/campaignService';
+import { CampaignRepositoryService } from '@/services/campaignRepository';
 
 export function useCampaigns(publishedCampaignId?: string | null) {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
@@ -12,7 +13,7 @@ export function useCampaigns(publishedCampaignId?: string | null) {
     try {
       setIsLoading(true);
       setError(null);
-      const data = await CampaignService.fetchCampaigns({ publishedCampaignId });
+      const data = await CampaignRepositoryService.listCampaigns({ publishedCampaignId });
       setCampaigns(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch campaigns');
@@ -26,19 +27,10 @@ export function useCampaigns(publishedCampaignId?: string | null) {
   }, [publishedCampaignId]);
 
   // Calculate status tabs with dynamic counts
-  const statusTabs: StatusTab[] = useMemo(() => {
-    const stats = CampaignService.getCampaignStats(campaigns);
-    
-    return [
-      { id: 'all', label: 'All', count: stats.all },
-      { id: 'drafts', label: 'Drafts', count: stats.drafts },
-      { id: 'sent', label: 'Sent', count: stats.sent },
-      { id: 'scheduled', label: 'Scheduled', count: stats.scheduled },
-      { id: 'suspended', label: 'Suspended', count: stats.suspended },
-      { id: 'running', label: 'Running', count: stats.running },
-      { id: 'failed', label: 'Failed', count: stats.failed },
-    ];
-  }, [campaigns]);
+  const statusTabs: StatusTab[] = useMemo(
+    () => CampaignService.getStatusTabs(CampaignService.getCampaignStats(campaigns)),
+    [campaigns]
+  );
 
   return {
     campaigns,
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import {
+  DeadLetterAuditEntry,
+  DeadLetterEntry,
+  DeadLetterStatus,
+  RetryDeadLetterService
+} from '@/services/retryDeadLetters';
+
+export function useDeadLetters(status: DeadLetterStatus | 'all' = 'open') {
+  const [entries, setEntries] = useState<DeadLetterEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch dead-letter entries
+  const fetchEntries = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await RetryDeadLetterService.getStore().listEntries(status === 'all' ? undefined : status);
+      setEntries(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch dead-letter queue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [status]);
+
+  // Run an operator action with the signed-in user as the audited actor, then reload
+  const runAction = async <T>(action: (actor: string) => Promise<T>): Promise<T> => {
+    try {
+      setError(null);
+      const actor = await RetryDeadLetterService.getCurrentActor();
+      const result = await action(actor);
+      await fetchEntries();
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Dead-letter action failed');
+      throw err;
+    }
+  };
+
+  const requeue = (id: string, ttlDateTime: string) =>
+    runAction(actor => RetryDeadLetterService.requeue(id, ttlDateTime, actor));
+
+  const exportSegment = (id: string, segmentName: string) =>
+    runAction(actor => RetryDeadLetterService.exportSegment(id, segmentName, actor));
+
+  const dismiss = (id: string, note?: string) =>
+    runAction(actor => RetryDeadLetterService.dismiss(id, actor, note));
+
+  // Audit log for one entry
+  const getAuditLog = (id: string): Promise<DeadLetterAuditEntry[]> =>
+    RetryDeadLetterService.getStore().listAudit(id);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    refetch: fetchEntries,
+    requeue,
+    exportSegment,
+    dismiss,
+    getAuditLog
+  };
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { MessagingBudget, MessagingRateLimiter } from '@/services/messagingRateLimiter';
+
+// How often the remaining budget is re-read (it refills continuously)
+const REFRESH_INTERVAL_MS = 60000;
+
+export function useMessagingBudget(businessNumberId?: string) {
+  const [budget, setBudget] = useState<MessagingBudget | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the business number's remaining 24h budget
+  const fetchBudget = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await MessagingRateLimiter.getBudget(businessNumberId);
+      setBudget(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch messaging budget');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBudget();
+
+    const interval = setInterval(fetchBudget, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [businessNumberId]);
+
+  return {
+    budget,
+    isLoading,
+    error,
+    refetch: fetchBudget
+  };
+}
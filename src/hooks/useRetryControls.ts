@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { CampaignService } from '@/services/campaignService';
+import { CampaignRetryState } from '@/services/retryService';
+import { RetryControlAuditEntry, RetryControlService } from '@/services/retryControls';
+import { RetryDeadLetterService } from '@/services/retryDeadLetters';
+
+// Loads lazily (e.g. once a row's action menu opens) so the campaign list doesn't fetch every row
+export function useRetryControls(campaignId: string, enabled: boolean = true) {
+  const [retryState, setRetryState] = useState<CampaignRetryState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the campaign's retry state
+  const fetchRetryState = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRetryState(await CampaignService.getRetryState(campaignId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch retry state');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      fetchRetryState();
+    }
+  }, [campaignId, enabled]);
+
+  // Run an operator action with the signed-in user as the audited actor
+  const runAction = async (action: (actor: string) => Promise<CampaignRetryState>): Promise<CampaignRetryState> => {
+    try {
+      setError(null);
+      const actor = await RetryDeadLetterService.getCurrentActor();
+      const updated = await action(actor);
+      setRetryState(updated);
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry action failed');
+      throw err;
+    }
+  };
+
+  const pause = () => runAction(actor => RetryControlService.pause(campaignId, actor));
+
+  const resume = () => runAction(actor => RetryControlService.resume(campaignId, actor));
+
+  const changeTtl = (ttlDateTime: string) =>
+    runAction(actor => RetryControlService.changeTtl(campaignId, ttlDateTime, actor));
+
+  const cancel = (reason: string) => runAction(actor => RetryControlService.cancel(campaignId, reason, actor));
+
+  // Audit trail of operator actions on the campaign's retries
+  const getAuditLog = (): Promise<RetryControlAuditEntry[]> =>
+    RetryControlService.getStore().listAudit(campaignId);
+
+  return {
+    retryState,
+    status: RetryControlService.getControlStatus(retryState),
+    isLoading,
+    error,
+    refetch: fetchRetryState,
+    pause,
+    resume,
+    changeTtl,
+    cancel,
+    getAuditLog
+  };
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { CampaignService } from '@/services/campaignService';
+import { CampaignRetryState, RetryStats } from '@/services/retryService';
+import { RetryEngineControl, RetryEngineControlService } from '@/services/retryEngineControls';
+import { RetryDeadLetterService } from '@/services/retryDeadLetters';
+
+// How often the dashboard reloads retry states (retries are sent by the retry worker)
+const REFRESH_INTERVAL_MS = 15000;
+
+export function useRetryDashboard() {
+  const [retryStates, setRetryStates] = useState<CampaignRetryState[]>([]);
+  const [retryStatistics, setRetryStatistics] = useState<{ [campaignId: string]: RetryStats }>({});
+  const [control, setControl] = useState<RetryEngineControl | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch retry states and statistics
+  const fetchRetryData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [states, statistics, engineControl] = await Promise.all([
+        CampaignService.listRetryStates(),
+        CampaignService.getRetryStatistics(),
+        RetryEngineControlService.getControl()
+      ]);
+      setRetryStates(states);
+      setRetryStatistics(statistics);
+      setControl(engineControl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch retry data');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRetryData();
+
+    const interval = setInterval(fetchRetryData, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Engine controls, applied by the retry worker at its next control check
+  const updateControl = async (
+    action: (actor: string) => Promise<RetryEngineControl>,
+    failureMessage: string
+  ) => {
+    try {
+      setError(null);
+      setControl(await action(await RetryDeadLetterService.getCurrentActor()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+    }
+  };
+
+  const start = () => updateControl(actor => RetryEngineControlService.start(actor), 'Failed to start retries');
+
+  const stop = () => updateControl(actor => RetryEngineControlService.stop(actor), 'Failed to stop retries');
+
+  const runNow = () => updateControl(actor => RetryEngineControlService.requestRun(actor), 'Failed to request a retry run');
+
+  return {
+    retryStates,
+    retryStatistics,
+    isRunning: !control?.paused,
+    runRequestedAt: control?.runRequestedAt,
+    isLoading,
+    error,
+    refetch: fetchRetryData,
+    start,
+    stop,
+    runNow
+  };
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { RetryPolicyOverride } from '@/types/campaign';
+import { RetryPolicyRegistry } from '@/services/retryPolicyRegistry';
+
+export function useRetryPolicies() {
+  const [policies, setPolicies] = useState<RetryPolicyOverride[]>(RetryPolicyRegistry.listPolicies());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch policy overrides from Supabase
+  const fetchPolicies = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await RetryPolicyRegistry.refresh();
+      setPolicies(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch retry policies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  // Create or update a policy override
+  const savePolicy = async (policy: RetryPolicyOverride) => {
+    try {
+      setError(null);
+      const saved = await RetryPolicyRegistry.savePolicy(policy);
+      setPolicies(RetryPolicyRegistry.listPolicies());
+      return saved;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save retry policy');
+      throw err;
+    }
+  };
+
+  // Delete a policy override
+  const deletePolicy = async (id: string) => {
+    try {
+      setError(null);
+      await RetryPolicyRegistry.deletePolicy(id);
+      setPolicies(RetryPolicyRegistry.listPolicies());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete retry policy');
+      throw err;
+    }
+  };
+
+  return {
+    policies,
+    isLoading,
+    error,
+    refetch: fetchPolicies,
+    savePolicy,
+    deletePolicy
+  };
+}
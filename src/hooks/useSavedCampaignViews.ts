@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { CampaignFilters, SavedCampaignView } from '@/types/campaign';
+import { CampaignViewService } from '@/services/campaignViewService';
+
+export function useSavedCampaignViews() {
+  const [views, setViews] = useState<SavedCampaignView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the signed-in user's saved views
+  const fetchViews = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setViews(await CampaignViewService.listViews());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch saved views');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchViews();
+  }, []);
+
+  const saveView = async (name: string, filters: CampaignFilters): Promise<SavedCampaignView> => {
+    try {
+      setError(null);
+      const view = await CampaignViewService.saveView(name, filters);
+      await fetchViews();
+      return view;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+      throw err;
+    }
+  };
+
+  const deleteView = async (id: string): Promise<void> => {
+    try {
+      setError(null);
+      await CampaignViewService.deleteView(id);
+      await fetchViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view');
+      throw err;
+    }
+  };
+
+  return {
+    views,
+    isLoading,
+    error,
+    refetch: fetchViews,
+    saveView,
+    deleteView
+  };
+}
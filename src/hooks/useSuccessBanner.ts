@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { SuccessBannerState } from '@/types/campaign';
+import { CampaignChannel, SuccessBannerState } from '@/types/campaign';
 
 export function useSuccessBanner() {
   const [bannerState, setBannerState] = useState<SuccessBannerState>({
@@ -19,6 +19,7 @@ export function useSuccessBanner() {
       setBannerState({
         show: true,
         campaignId,
+        channel: channel as CampaignChannel | null,
         message: 'Published. Execution handed off to Adobe; metrics will sync back to Adobe. No customer data stored on Netcore.'
       });
       
@@ -1,6 +1,8 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Campaign, StatusTab } from '@/types/campaign';
+import { Campaign, CampaignChannel, CampaignStatus, StatusTab } from '@/types/campaign';
+import { CampaignService } from '@/services/campaignService';
 import { SupabaseCampaignService } from '@/services/supabaseCampaignService';
+import { CampaignRepositoryService } from '@/services/campaignRepository';
 
 export function useSupabaseCampaigns(publishedCampaignId?: string | null) {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
@@ -26,14 +28,14 @@ export function useSupabaseCampaigns(publishedCampaignId?: string | null) {
     testConnection();
   }, []);
 
-  // Fetch campaigns from Supabase
+  // Fetch campaigns through the campaign repository
   const fetchCampaigns = async () => {
     if (isConnected === false) return; // Don't fetch if not connected
 
     try {
       setIsLoading(true);
       setError(null);
-      const data = await SupabaseCampaignService.getCampaigns({ publishedCampaignId });
+      const data = await CampaignRepositoryService.listCampaigns({ publishedCampaignId });
       setCampaigns(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch campaigns');
@@ -50,40 +52,24 @@ export function useSupabaseCampaigns(publishedCampaignId?: string | null) {
   }, [publishedCampaignId, isConnected]);
 
   // Calculate status tabs with dynamic counts
-  const statusTabs: StatusTab[] = useMemo(() => {
-    const stats = {
-      all: campaigns.length,
-      drafts: campaigns.filter(c => c.status === 'DRAFT').length,
-      sent: campaigns.filter(c => c.status === 'SENT').length,
-      scheduled: campaigns.filter(c => c.status === 'SCHEDULED').length,
-      suspended: campaigns.filter(c => c.status === 'SUSPENDED').length,
-      running: campaigns.filter(c => c.status === 'RUNNING').length,
-      failed: campaigns.filter(c => c.status === 'FAILED').length,
-    };
-    
-    return [
-      { id: 'all', label: 'All', count: stats.all },
-      { id: 'drafts', label: 'Drafts', count: stats.drafts },
-      { id: 'sent', label: 'Sent', count: stats.sent },
-      { id: 'scheduled', label: 'Scheduled', count: stats.scheduled },
-      { id: 'suspended', label: 'Suspended', count: stats.suspended },
-      { id: 'running', label: 'Running', count: stats.running },
-      { id: 'failed', label: 'Failed', count: stats.failed },
-    ];
-  }, [campaigns]);
+  const statusTabs: StatusTab[] = useMemo(
+    () => CampaignService.getStatusTabs(CampaignService.getCampaignStats(campaigns)),
+    [campaigns]
+  );
 
   // Create a new campaign
   const createCampaign = async (campaignData: {
     name: string;
-    channel: 'WhatsApp' | 'Email' | 'SMS' | 'Push';
-    status?: 'DRAFT' | 'SENT' | 'SCHEDULED' | 'SUSPENDED' | 'RUNNING' | 'FAILED';
+    channel: CampaignChannel;
+    status?: CampaignStatus;
   }) => {
     try {
       setIsLoading(true);
-      const newCampaign = await SupabaseCampaignService.createCampaign({
+      const newCampaign = await CampaignRepositoryService.getRepository().createCampaign({
         name: campaignData.name,
         channel: campaignData.channel,
         status: campaignData.status || 'DRAFT',
+        sentOn: null,
         published: 0,
         sent: 0,
         opened: 0,
@@ -17,6 +17,9 @@ import {
   Settings
 } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { RetryPolicyCard } from '@/components/settings/RetryPolicyCard';
+import { QuietHoursCard } from '@/components/settings/QuietHoursCard';
+import { RetryTtlLimitsCard } from '@/components/settings/RetryTtlLimitsCard';
 
 interface ConnectedNumber {
   id: string;
@@ -371,6 +374,15 @@ const AccountSettingsPage: React.FC = () => {
             onNumberAdded={handleNumberAdded}
             onNumberRemoved={handleNumberRemoved}
           />
+
+          {/* Retry Policies Card */}
+          <RetryPolicyCard />
+
+          {/* Quiet Hours Card */}
+          <QuietHoursCard />
+
+          {/* Retry TTL Limits Card */}
+          <RetryTtlLimitsCard />
         </div>
 
         {/* Additional Settings Section */}
@@ -0,0 +1,12 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { DeadLetterQueue } from '@/components/campaigns/DeadLetterQueue';
+
+const CampaignDeadLetters = () => {
+  return (
+    <AppLayout>
+      <DeadLetterQueue />
+    </AppLayout>
+  );
+};
+
+export default CampaignDeadLetters;
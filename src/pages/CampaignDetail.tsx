@@ -0,0 +1,15 @@
+import { useParams } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { CampaignDetailPage } from '@/components/campaigns/CampaignDetailPage';
+
+const CampaignDetail = () => {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <AppLayout>
+      <CampaignDetailPage campaignId={id} />
+    </AppLayout>
+  );
+};
+
+export default CampaignDetail;
@@ -0,0 +1,12 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { RetryDashboard } from '@/components/campaigns/RetryDashboard';
+
+const CampaignRetries = () => {
+  return (
+    <AppLayout>
+      <RetryDashboard />
+    </AppLayout>
+  );
+};
+
+export default CampaignRetries;
@@ -44,9 +44,9 @@ VITE_SUPABASE_ANON_KEY=eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJpc3MiOiJzdXBhYmFz
               </div>
               
               <div>
-                <h3 className="font-medium">4. Switch to Supabase Data</h3>
+                <h3 className="font-medium">4. Use Supabase Data</h3>
                 <p className="text-muted-foreground">
-                  Once the database is set up, you can switch the campaigns page to use Supabase data by replacing <code className="bg-muted px-1 rounded">useCampaigns</code> with <code className="bg-muted px-1 rounded">useSupabaseCampaigns</code> in the CampaignsPageNew component.
+                  The campaigns page reads from Supabase once the database is set up. Set <code className="bg-muted px-1 rounded">VITE_CAMPAIGN_REPOSITORY=fixtures</code> to show the sample campaigns instead.
                 </p>
               </div>
             </div>
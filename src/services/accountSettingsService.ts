@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { supabase, Database } from '@/lib/supabase';
+import { QuietHours, RetryTtlBounds } from '@/types/campaign';
+
+type AccountSettingsRow = Database['public']['Tables']['account_settings']['Row'];
+type AccountSettingsInsert = Database['public']['Tables']['account_settings']['Insert'];
+
+export interface AccountSettings {
+  timezone: string; // IANA timezone used when a campaign has none
+  quietHours: QuietHours;
+  ttlBounds: RetryTtlBounds; // Allowed retry TTL range after the scheduled time
+  messageCost: { currency: string; amount: number }; // Charged per delivered retry message
+}
+
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  timezone: 'Asia/Kolkata',
+  quietHours: {
+    enabled: true,
+    startTime: '21:00',
+    endTime: '09:00'
+  },
+  ttlBounds: {
+    minHours: 24,
+    maxHours: 672 // 28 days
+  },
+  messageCost: {
+    currency: 'INR',
+    amount: 0.7846 // Meta marketing rate for India
+  }
+};
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be in HH:mm format');
+
+// Zod validation schema for quiet hours (account or campaign level)
+export const quietHoursSchema = z.object({
+  enabled: z.boolean(),
+  startTime: timeOfDay,
+  endTime: timeOfDay
+})
+.refine(q => !q.enabled || q.startTime !== q.endTime, { path: ['endTime'], message: 'Quiet hours must end at a different time than they start' });
+
+// Zod validation schema for the account's retry TTL bounds
+export const ttlBoundsSchema = z.object({
+  minHours: z.number().int().min(1, 'Minimum TTL must be at least 1 hour'),
+  maxHours: z.number().int().max(720, 'Maximum TTL cannot exceed 30 days')
+})
+.refine(b => b.maxHours > b.minHours, { path: ['maxHours'], message: 'Maximum TTL must be longer than the minimum TTL' });
+
+// Cached settings of the signed-in account, refreshed from Supabase
+let accountSettings: AccountSettings = DEFAULT_ACCOUNT_SETTINGS;
+
+// The retry worker serves every account: settings per owner (user ID) and the owner of each campaign it loaded
+const ownerSettings = new Map<string, AccountSettings>();
+const campaignOwners = new Map<string, string>();
+
+export class AccountSettingsService {
+  /**
+   * Convert Supabase row to AccountSettings
+   */
+  private static mapRowToSettings(row: AccountSettingsRow): AccountSettings {
+    return {
+      timezone: row.timezone,
+      quietHours: {
+        enabled: row.quiet_hours_enabled,
+        startTime: row.quiet_hours_start,
+        endTime: row.quiet_hours_end
+      },
+      ttlBounds: {
+        minHours: row.ttl_min_hours,
+        maxHours: row.ttl_max_hours
+      },
+      messageCost: {
+        currency: row.message_cost_currency,
+        amount: Number(row.message_cost_amount)
+      }
+    };
+  }
+
+  private static mapSettingsToRow(settings: AccountSettings): AccountSettingsInsert {
+    return {
+      timezone: settings.timezone,
+      quiet_hours_enabled: settings.quietHours.enabled,
+      quiet_hours_start: settings.quietHours.startTime,
+      quiet_hours_end: settings.quietHours.endTime,
+      ttl_min_hours: settings.ttlBounds.minHours,
+      ttl_max_hours: settings.ttlBounds.maxHours,
+      message_cost_currency: settings.messageCost.currency,
+      message_cost_amount: settings.messageCost.amount,
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Validate quiet hours against the schema
+   */
+  static validateQuietHours(quietHours: unknown): { isValid: boolean; errors: string[] } {
+    const result = quietHoursSchema.safeParse(quietHours);
+
+    if (!result.success) {
+      return {
+        isValid: false,
+        errors: result.error.issues.map(issue => issue.message)
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate retry TTL bounds against the schema
+   */
+  static validateTtlBounds(ttlBounds: unknown): { isValid: boolean; errors: string[] } {
+    const result = ttlBoundsSchema.safeParse(ttlBounds);
+
+    if (!result.success) {
+      return {
+        isValid: false,
+        errors: result.error.issues.map(issue => issue.message)
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Get the cached account settings, or those of the campaign's owner once loaded by loadCampaignAccounts
+   */
+  static getSettings(campaignId?: string): AccountSettings {
+    const ownerId = campaignId ? campaignOwners.get(campaignId) : undefined;
+    const settings = (ownerId && ownerSettings.get(ownerId)) || accountSettings;
+
+    return {
+      ...settings,
+      quietHours: { ...settings.quietHours },
+      ttlBounds: { ...settings.ttlBounds },
+      messageCost: { ...settings.messageCost }
+    };
+  }
+
+  /**
+   * Get the owner (user ID) of a campaign loaded by loadCampaignAccounts
+   */
+  static getCampaignOwner(campaignId: string): string | undefined {
+    return campaignOwners.get(campaignId);
+  }
+
+  /**
+   * Replace the cached settings (used by tests and offline runs)
+   */
+  static setSettings(settings: AccountSettings): void {
+    accountSettings = {
+      ...settings,
+      quietHours: { ...settings.quietHours },
+      ttlBounds: { ...settings.ttlBounds },
+      messageCost: { ...settings.messageCost }
+    };
+  }
+
+  /**
+   * Load the owners of campaigns and their settings (defaults for owners with none saved).
+   * Used by the retry worker, whose service-role client sees every account.
+   */
+  static async loadCampaignAccounts(campaignIds: string[]): Promise<Map<string, string>> {
+    if (campaignIds.length === 0) {
+      return new Map();
+    }
+
+    const { data: campaigns, error } = await supabase
+      .from('campaigns')
+      .select('id, user_id')
+      .in('id', campaignIds);
+
+    if (error) throw error;
+
+    const owners = new Map<string, string>(
+      (campaigns || []).filter(campaign => campaign.user_id).map(campaign => [campaign.id, campaign.user_id])
+    );
+    const ownerIds = [...new Set(owners.values())];
+
+    if (ownerIds.length > 0) {
+      const { data: rows, error: settingsError } = await supabase
+        .from('account_settings')
+        .select('*')
+        .in('user_id', ownerIds);
+
+      if (settingsError) throw settingsError;
+
+      const rowsByOwner = new Map((rows || []).map((row: AccountSettingsRow) => [row.user_id, row]));
+      ownerIds.forEach(ownerId => {
+        const row = rowsByOwner.get(ownerId);
+        ownerSettings.set(ownerId, row ? this.mapRowToSettings(row) : DEFAULT_ACCOUNT_SETTINGS);
+      });
+    }
+    owners.forEach((ownerId, campaignId) => campaignOwners.set(campaignId, ownerId));
+
+    return owners;
+  }
+
+  /**
+   * Reload the signed-in account's settings from Supabase (defaults when the account has none saved)
+   */
+  static async refresh(): Promise<AccountSettings> {
+    const { data, error } = await supabase
+      .from('account_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    accountSettings = data ? this.mapRowToSettings(data) : DEFAULT_ACCOUNT_SETTINGS;
+    return this.getSettings();
+  }
+
+  /**
+   * Save the account settings
+   */
+  static async saveSettings(settings: AccountSettings): Promise<AccountSettings> {
+    const validation = this.validateQuietHours(settings.quietHours);
+    if (!validation.isValid) {
+      throw new Error(`Invalid quiet hours: ${validation.errors.join(', ')}`);
+    }
+
+    const boundsValidation = this.validateTtlBounds(settings.ttlBounds);
+    if (!boundsValidation.isValid) {
+      throw new Error(`Invalid TTL bounds: ${boundsValidation.errors.join(', ')}`);
+    }
+
+    const { data, error } = await supabase
+      .from('account_settings')
+      .upsert(this.mapSettingsToRow(settings), { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    accountSettings = this.mapRowToSettings(data);
+    return this.getSettings();
+  }
+}
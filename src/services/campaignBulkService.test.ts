@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Campaign, CampaignSelection } from '@/types/campaign';
+import { CampaignBulkService, MAX_BULK_CAMPAIGNS } from './campaignBulkService';
+import { InMemoryCampaignRepository } from './campaignRepository';
+
+const campaign = (index: number): Campaign => ({
+  id: `campaign-${String(index).padStart(4, '0')}`,
+  name: `Campaign ${index}`,
+  status: 'DRAFT',
+  sentOn: null,
+  published: 0,
+  sent: 0,
+  opened: 0,
+  clicked: 0,
+  bounce: '0%',
+  channel: 'WhatsApp',
+  createdAt: new Date(Date.UTC(2024, 0, 1) + index * 60 * 1000).toISOString()
+});
+
+const selectAll = (excludedIds: string[] = []): CampaignSelection => ({ mode: 'all', query: {}, excludedIds });
+
+describe('CampaignBulkService select all', () => {
+  it('loads every page of the list query', async () => {
+    const repository = new InMemoryCampaignRepository(Array.from({ length: 1200 }, (_, index) => campaign(index)));
+
+    const campaigns = await CampaignBulkService.loadSelection(selectAll(['campaign-0007']), repository);
+
+    expect(campaigns).toHaveLength(1199);
+    expect(new Set(campaigns.map(({ id }) => id)).size).toBe(1199);
+  });
+
+  it('rejects an action on more campaigns than the limit without changing any', async () => {
+    const repository = new InMemoryCampaignRepository(
+      Array.from({ length: MAX_BULK_CAMPAIGNS + 1 }, (_, index) => campaign(index))
+    );
+    const bulkUpdate = vi.spyOn(repository, 'bulkUpdateCampaigns');
+
+    await expect(CampaignBulkService.runAction('archive', selectAll(), repository)).rejects.toThrow(/limited to/);
+    expect(bulkUpdate).not.toHaveBeenCalled();
+
+    // Excluding one campaign brings the selection within the limit
+    await CampaignBulkService.runAction('archive', selectAll(['campaign-0000']), repository);
+    expect(bulkUpdate.mock.calls[0][1]).toHaveLength(MAX_BULK_CAMPAIGNS);
+  });
+});
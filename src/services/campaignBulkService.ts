@@ -0,0 +1,190 @@
+import { DateTime } from 'luxon';
+import {
+  Campaign,
+  CampaignBulkAction,
+  CampaignBulkResult,
+  CampaignExportFormat,
+  CampaignPageCursor,
+  CampaignSelection
+} from '@/types/campaign';
+import { buildXlsx, XlsxCell } from '@/lib/xlsx';
+import { CampaignRepository, CampaignRepositoryService } from './campaignRepository';
+import { AccountSettingsService } from './accountSettingsService';
+import { ClockService } from './clock';
+
+// Campaigns one bulk action may change (also enforced by bulk_update_campaigns)
+export const MAX_BULK_CAMPAIGNS = 1000;
+
+// Campaigns loaded per keyset page when every page of the list is selected (PostgREST returns at most 1000 rows)
+const SELECTION_PAGE_SIZE = 500;
+
+const TOO_MANY_CAMPAIGNS = `Bulk actions are limited to ${MAX_BULK_CAMPAIGNS} campaigns; narrow the selection`;
+
+const EXPORT_HEADER = [
+  'ID', 'Name', 'Channel', 'Status', 'Sent on', 'Published', 'Sent', 'Delivered', 'Opened / Read',
+  'Clicked', 'Bounce', 'Tags', 'Created by', 'Created at', 'Archived at'
+];
+
+const EXPORT_TYPES: Record<CampaignExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const toCsvValue = (value: XlsxCell) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Bulk actions on the campaigns selected in the list: duplicate, archive, delete, pause/resume and export
+ */
+export class CampaignBulkService {
+  /**
+   * Name prefix of a duplicated campaign, e.g. "Copy:4 Sep 2025 @9:31pm-"
+   */
+  static getCopyPrefix(now: Date = ClockService.now(), timezone: string = AccountSettingsService.getSettings().timezone): string {
+    const time = DateTime.fromJSDate(now).setZone(timezone);
+    return `Copy:${time.toFormat('d LLL yyyy')} @${time.toFormat('h:mma').toLowerCase()}-`;
+  }
+
+  /**
+   * Number of selected campaigns, given how many match the list query
+   */
+  static countSelected(selection: CampaignSelection, totalCount: number): number {
+    return selection.mode === 'ids' ? selection.ids.length : Math.max(totalCount - selection.excludedIds.length, 0);
+  }
+
+  /**
+   * IDs of the selected campaigns (every page of the list query when all are selected).
+   * Throws as soon as the selection is known to hold more than `maxCount` campaigns.
+   */
+  static async resolveSelection(
+    selection: CampaignSelection,
+    repository: CampaignRepository = CampaignRepositoryService.getRepository(),
+    maxCount: number = Infinity
+  ): Promise<string[]> {
+    const campaignIds = selection.mode === 'ids'
+      ? [...new Set(selection.ids)]
+      : (await this.listSelectedCampaigns(selection, repository, maxCount)).map(campaign => campaign.id);
+
+    if (campaignIds.length > maxCount) {
+      throw new Error(TOO_MANY_CAMPAIGNS);
+    }
+    return campaignIds;
+  }
+
+  /**
+   * Every campaign matching a select-all query, page by page along the list's keyset cursor
+   */
+  private static async listSelectedCampaigns(
+    selection: Extract<CampaignSelection, { mode: 'all' }>,
+    repository: CampaignRepository,
+    maxCount: number = Infinity
+  ): Promise<Campaign[]> {
+    const excluded = new Set(selection.excludedIds);
+    const campaigns: Campaign[] = [];
+    let after: CampaignPageCursor | null = null;
+
+    do {
+      const page = await repository.listCampaignPage({ ...selection.query, pageSize: SELECTION_PAGE_SIZE, after });
+      // Excluded IDs may not all match the query, so this undercounts and never rejects a valid selection
+      if (this.countSelected(selection, page.totalCount) > maxCount) {
+        throw new Error(TOO_MANY_CAMPAIGNS);
+      }
+      campaigns.push(...page.items.filter(campaign => !excluded.has(campaign.id)));
+      after = page.nextCursor;
+    } while (after);
+
+    return campaigns;
+  }
+
+  /**
+   * Apply an action to the selected campaigns in one transaction, with a result per campaign
+   */
+  static async runAction(
+    action: CampaignBulkAction,
+    selection: CampaignSelection,
+    repository: CampaignRepository = CampaignRepositoryService.getRepository()
+  ): Promise<CampaignBulkResult[]> {
+    const campaignIds = await this.resolveSelection(selection, repository, MAX_BULK_CAMPAIGNS);
+    if (campaignIds.length === 0) {
+      return [];
+    }
+    return repository.bulkUpdateCampaigns(action, campaignIds, this.getCopyPrefix());
+  }
+
+  /**
+   * Load the selected campaigns for export, in list order
+   */
+  static async loadSelection(
+    selection: CampaignSelection,
+    repository: CampaignRepository = CampaignRepositoryService.getRepository()
+  ): Promise<Campaign[]> {
+    if (selection.mode === 'all') {
+      return this.listSelectedCampaigns(selection, repository);
+    }
+
+    // Unsaved rows (e.g. a just-published placeholder) can't be loaded and are left out
+    const campaigns = await Promise.all(
+      [...new Set(selection.ids)].map(id => repository.getCampaign(id).catch(() => null))
+    );
+    return campaigns.filter((campaign): campaign is Campaign => campaign !== null);
+  }
+
+  /**
+   * Export table: a header row, then one row per campaign
+   */
+  static getExportRows(campaigns: Campaign[]): XlsxCell[][] {
+    return [
+      EXPORT_HEADER,
+      ...campaigns.map(campaign => [
+        campaign.id,
+        campaign.name,
+        campaign.channel,
+        campaign.status,
+        campaign.sentOn,
+        campaign.published,
+        campaign.sent,
+        campaign.delivered ?? null,
+        campaign.opened,
+        campaign.clicked,
+        campaign.bounce,
+        campaign.tags?.join(', '),
+        campaign.createdBy,
+        campaign.createdAt,
+        campaign.archivedAt
+      ])
+    ];
+  }
+
+  /**
+   * Export the campaigns as CSV
+   */
+  static toCsv(campaigns: Campaign[]): string {
+    return this.getExportRows(campaigns)
+      .map(row => row.map(toCsvValue).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Export the campaigns as an Excel workbook
+   */
+  static toXlsx(campaigns: Campaign[]): Uint8Array {
+    return buildXlsx(this.getExportRows(campaigns), 'Campaigns');
+  }
+
+  /**
+   * Export file for the campaigns, named after the export date
+   */
+  static buildExport(
+    campaigns: Campaign[],
+    format: CampaignExportFormat,
+    now: Date = ClockService.now()
+  ): { blob: Blob; filename: string } {
+    const content = format === 'csv' ? this.toCsv(campaigns) : this.toXlsx(campaigns);
+    return {
+      blob: new Blob([content], { type: EXPORT_TYPES[format] }),
+      filename: `campaigns-${DateTime.fromJSDate(now).toFormat('yyyy-MM-dd')}.${format}`
+    };
+  }
+}
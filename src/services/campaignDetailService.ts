@@ -0,0 +1,153 @@
+import { supabase, Database } from '@/lib/supabase';
+import { Campaign, CampaignFailureCount, CampaignFunnelStage, CampaignFunnelStageKey } from '@/types/campaign';
+import { CampaignRepository, CampaignRepositoryService } from './campaignRepository';
+import { CampaignService } from './campaignService';
+import { RetryStateStore } from './retryStateStore';
+import { CampaignRetryState, RetryService, RetryStats } from './retryService';
+
+// Code shown for failures the provider reported without an error code
+export const UNKNOWN_ERROR_CODE = 'UNKNOWN';
+
+const FUNNEL_STAGES: { key: CampaignFunnelStageKey; label: string; count: (campaign: Campaign) => number }[] = [
+  { key: 'published', label: 'Published', count: campaign => campaign.published },
+  { key: 'sent', label: 'Sent', count: campaign => campaign.sent },
+  { key: 'delivered', label: 'Delivered', count: campaign => campaign.delivered ?? 0 },
+  { key: 'read', label: 'Read', count: campaign => campaign.opened },
+  { key: 'clicked', label: 'Clicked', count: campaign => campaign.clicked },
+  { key: 'converted', label: 'Converted', count: campaign => campaign.converted ?? 0 }
+];
+
+/**
+ * Everything the campaign detail page shows for one campaign
+ */
+export interface CampaignDetail {
+  campaign: Campaign;
+  funnel: CampaignFunnelStage[];
+  failures: CampaignFailureCount[]; // Most frequent first
+  retryState: CampaignRetryState | null;
+  retryStats: RetryStats | null;
+}
+
+/**
+ * Storage backend for per-message delivery outcomes (the failure breakdown by error code)
+ */
+export interface CampaignDeliveryStore {
+  getFailureBreakdown(campaignId: string): Promise<CampaignFailureCount[]>;
+}
+
+/**
+ * In-memory delivery store (used by tests and local development)
+ */
+export class InMemoryCampaignDeliveryStore implements CampaignDeliveryStore {
+  private failures: Map<string, CampaignFailureCount[]>;
+
+  constructor(failures: Record<string, CampaignFailureCount[]> = {}) {
+    this.failures = new Map(Object.entries(failures));
+  }
+
+  async getFailureBreakdown(campaignId: string): Promise<CampaignFailureCount[]> {
+    return (this.failures.get(campaignId) || []).map(failure => ({ ...failure }));
+  }
+
+  setFailureBreakdown(campaignId: string, failures: CampaignFailureCount[]): void {
+    this.failures.set(campaignId, failures.map(failure => ({ ...failure })));
+  }
+}
+
+/**
+ * Supabase-backed delivery store (failed rows of whatsapp_message_statuses, counted by the database)
+ */
+export class SupabaseCampaignDeliveryStore implements CampaignDeliveryStore {
+  async getFailureBreakdown(campaignId: string): Promise<CampaignFailureCount[]> {
+    const args: Database['public']['Functions']['get_campaign_failure_breakdown']['Args'] = { p_campaign_id: campaignId };
+    const { data, error } = await supabase.rpc('get_campaign_failure_breakdown', args);
+
+    if (error) throw error;
+
+    const rows = (data || []) as Database['public']['Functions']['get_campaign_failure_breakdown']['Returns'];
+    return rows.map(row => ({ errorCode: row.error_code, count: Number(row.message_count) }));
+  }
+}
+
+// Sample failures for CAMPAIGN_FIXTURES (VITE_CAMPAIGN_REPOSITORY=fixtures)
+const FAILURE_FIXTURES: Record<string, CampaignFailureCount[]> = {
+  '262': [
+    { errorCode: '131049', count: 3 },
+    { errorCode: '130472', count: 2 }
+  ]
+};
+
+function createDefaultDeliveryStore(): CampaignDeliveryStore {
+  return import.meta.env.VITE_CAMPAIGN_REPOSITORY === 'fixtures'
+    ? new InMemoryCampaignDeliveryStore(FAILURE_FIXTURES)
+    : new SupabaseCampaignDeliveryStore();
+}
+
+// Delivery outcome backend (swap for InMemoryCampaignDeliveryStore in tests)
+let campaignDeliveryStore: CampaignDeliveryStore = createDefaultDeliveryStore();
+
+/**
+ * Campaign detail page data: the stored campaign, its delivery funnel, failures and retry history
+ */
+export class CampaignDetailService {
+  /**
+   * Replace the delivery outcome backend
+   */
+  static useStore(store: CampaignDeliveryStore): void {
+    campaignDeliveryStore = store;
+  }
+
+  /**
+   * Get the active delivery outcome backend
+   */
+  static getStore(): CampaignDeliveryStore {
+    return campaignDeliveryStore;
+  }
+
+  /**
+   * Published → sent → delivered → read → clicked → converted, each with its share of the stage before
+   */
+  static buildFunnel(campaign: Campaign): CampaignFunnelStage[] {
+    return FUNNEL_STAGES.map((stage, index) => {
+      const count = stage.count(campaign);
+      const previous = index > 0 ? FUNNEL_STAGES[index - 1].count(campaign) : 0;
+      return {
+        key: stage.key,
+        label: stage.label,
+        count,
+        stepRate: previous > 0 ? count / previous : null
+      };
+    });
+  }
+
+  /**
+   * Load a campaign with its funnel, failure breakdown and retry history (null when it doesn't exist)
+   */
+  static async getCampaignDetail(
+    campaignId: string,
+    repository: CampaignRepository = CampaignRepositoryService.getRepository(),
+    deliveryStore: CampaignDeliveryStore = campaignDeliveryStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore()
+  ): Promise<CampaignDetail | null> {
+    const campaign = await repository.getCampaign(campaignId);
+    if (!campaign) {
+      return null;
+    }
+
+    const [failures, retryState] = await Promise.all([
+      deliveryStore.getFailureBreakdown(campaignId),
+      retryStore.getRetryState(campaignId)
+    ]);
+    const retryStats = retryState
+      ? RetryService.getRetryStats(retryState, await retryStore.listRecipients(campaignId))
+      : null;
+
+    return {
+      campaign,
+      funnel: this.buildFunnel(campaign),
+      failures: [...failures].sort((a, b) => b.count - a.count || a.errorCode.localeCompare(b.errorCode)),
+      retryState,
+      retryStats
+    };
+  }
+}
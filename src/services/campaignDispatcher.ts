@@ -0,0 +1,206 @@
+import { RetryErrorCode } from '@/types/campaign';
+import { CampaignRetryState, RecipientDeliveryResult } from './retryService';
+
+export interface CampaignDispatchRequest {
+  campaignId: string;
+  attemptNumber: number;
+  retryState: CampaignRetryState;
+  recipients?: string[]; // Only send to these recipients (whole audience when omitted)
+}
+
+export interface CampaignDispatchResult {
+  success: boolean;
+  errorCode?: RetryErrorCode;
+  message: string;
+  recipientResults?: RecipientDeliveryResult[]; // Per-recipient outcome, when the transport reports one
+  providerResponse?: unknown; // Raw provider payload, kept for diagnosing failures
+}
+
+/**
+ * Transport used by the retry engine to (re-)send a campaign
+ */
+export interface CampaignDispatcher {
+  dispatch(request: CampaignDispatchRequest): Promise<CampaignDispatchResult>;
+}
+
+// Meta Graph API error payload (https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes)
+export interface MetaErrorPayload {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: number | string;
+    error_subcode?: number;
+    error_data?: {
+      messaging_product?: string;
+      details?: string;
+    };
+    fbtrace_id?: string;
+  };
+}
+
+/**
+ * Map a Meta error payload onto a retry error code (undefined when the payload carries no code).
+ * Whether the code is actually retried is decided by the resolved retry policy.
+ */
+export function mapMetaErrorToRetryErrorCode(payload: MetaErrorPayload | null | undefined): RetryErrorCode | undefined {
+  const code = payload?.error?.code;
+  if (code === undefined || code === null) {
+    return undefined;
+  }
+
+  return String(code);
+}
+
+export interface WhatsAppTemplateMessage {
+  to: string; // Recipient phone number in E.164 format
+  templateName: string;
+  languageCode: string;
+  components?: unknown[];
+}
+
+export interface WhatsAppCloudDispatcherConfig {
+  phoneNumberId: string;
+  accessToken: string;
+  apiVersion?: string;
+  baseUrl?: string;
+  // Builds the template messages to send for a dispatch request
+  resolveMessages: (request: CampaignDispatchRequest) => Promise<WhatsAppTemplateMessage[]>;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Dispatcher that sends template messages through the WhatsApp Cloud API
+ */
+export class WhatsAppCloudDispatcher implements CampaignDispatcher {
+  private config: WhatsAppCloudDispatcherConfig;
+
+  constructor(config: WhatsAppCloudDispatcherConfig) {
+    this.config = config;
+  }
+
+  async dispatch(request: CampaignDispatchRequest): Promise<CampaignDispatchResult> {
+    const allMessages = await this.config.resolveMessages(request);
+    const recipientFilter = request.recipients ? new Set(request.recipients) : null;
+    const messages = recipientFilter ? allMessages.filter(m => recipientFilter.has(m.to)) : allMessages;
+
+    // Nothing was sent, so the retry must not be recorded as delivered
+    if (messages.length === 0) {
+      return {
+        success: false,
+        message: 'No recipients to send to',
+        recipientResults: [],
+        providerResponse: []
+      };
+    }
+
+    const responses: { to: string; status: number; body: unknown }[] = [];
+    const recipientResults: RecipientDeliveryResult[] = [];
+    let failedCount = 0;
+    let errorCode: RetryErrorCode | undefined;
+    let errorMessage: string | undefined;
+
+    for (const message of messages) {
+      const { status, body } = await this.sendMessage(message, request.campaignId);
+      responses.push({ to: message.to, status, body });
+
+      if (status < 200 || status >= 300) {
+        failedCount++;
+        const metaError = body as MetaErrorPayload;
+        const recipientErrorCode = mapMetaErrorToRetryErrorCode(metaError);
+        errorCode = errorCode ?? recipientErrorCode;
+        errorMessage = errorMessage ?? metaError?.error?.message;
+        recipientResults.push({
+          recipientId: message.to,
+          success: false,
+          errorCode: recipientErrorCode,
+          message: metaError?.error?.message
+        });
+      } else {
+        recipientResults.push({ recipientId: message.to, success: true });
+      }
+    }
+
+    if (failedCount === 0) {
+      return {
+        success: true,
+        message: `Sent ${messages.length} messages`,
+        recipientResults,
+        providerResponse: responses
+      };
+    }
+
+    return {
+      success: false,
+      errorCode,
+      message: `${failedCount} of ${messages.length} messages failed${errorMessage ? `: ${errorMessage}` : ''}`,
+      recipientResults,
+      providerResponse: responses
+    };
+  }
+
+  /**
+   * Send a single template message, tagged with the campaign ID so its delivery statuses can be matched
+   */
+  private async sendMessage(message: WhatsAppTemplateMessage, campaignId: string): Promise<{ status: number; body: unknown }> {
+    const { phoneNumberId, accessToken, apiVersion = 'v21.0', baseUrl = 'https://graph.facebook.com' } = this.config;
+    const fetchImpl = this.config.fetchImpl ?? fetch;
+
+    try {
+      const response = await fetchImpl(`${baseUrl}/${apiVersion}/${phoneNumberId}/messages`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: message.to,
+          type: 'template',
+          biz_opaque_callback_data: campaignId,
+          template: {
+            name: message.templateName,
+            language: { code: message.languageCode },
+            components: message.components
+          }
+        })
+      });
+
+      const body = await response.json().catch(() => null);
+      return { status: response.status, body };
+    } catch (error) {
+      return { status: 0, body: { error: { message: `Network error: ${error}` } } };
+    }
+  }
+}
+
+/**
+ * Deterministic dispatcher that replays scripted outcomes (for tests)
+ *
+ * Outcomes are consumed in order, either from a shared list or per campaign ID.
+ * Once a script runs out, the fallback outcome is returned.
+ */
+export class ScriptedCampaignDispatcher implements CampaignDispatcher {
+  readonly requests: CampaignDispatchRequest[] = [];
+  private script: CampaignDispatchResult[] | Record<string, CampaignDispatchResult[]>;
+  private fallback: CampaignDispatchResult;
+
+  constructor(
+    script: CampaignDispatchResult[] | Record<string, CampaignDispatchResult[]> = [],
+    fallback: CampaignDispatchResult = { success: true, message: 'Scripted dispatch succeeded' }
+  ) {
+    this.script = Array.isArray(script)
+      ? [...script]
+      : Object.fromEntries(Object.entries(script).map(([campaignId, outcomes]) => [campaignId, [...outcomes]]));
+    this.fallback = fallback;
+  }
+
+  async dispatch(request: CampaignDispatchRequest): Promise<CampaignDispatchResult> {
+    this.requests.push(request);
+
+    const queue = Array.isArray(this.script) ? this.script : this.script[request.campaignId];
+    const outcome = queue?.shift();
+
+    return { ...(outcome ?? this.fallback) };
+  }
+}
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetryTtlConfig } from '@/types/campaign';
+import { Clock, ClockService, VirtualClock } from './clock';
+import { CampaignService } from './campaignService';
+import { InMemoryRetryStateStore } from './retryStateStore';
+import { InMemoryRetryStopEventStore, RetryStopEventService } from './retryStopEvents';
+import { InMemoryRetryControlAuditStore, RetryControlService } from './retryControls';
+import { InMemoryRetryLockProvider } from './retryLockProvider';
+import { SupabaseCampaignService } from './supabaseCampaignService';
+
+// 09:00 in Asia/Kolkata, outside the default quiet hours
+const START = '2024-03-01T03:30:00Z';
+
+const RETRY_CONFIG: RetryTtlConfig = {
+  enabled: true,
+  ttlDateTime: '2024-03-29T03:30:00Z',
+  scheduledDateTime: START,
+  stopOnConversion: true,
+  stopOnManualPause: true,
+  stopOnTemplateChange: true
+};
+
+const failure = (recipientId: string) => ({ recipientId, success: false, errorCode: '131049' });
+
+describe('CampaignService.recordRecipientFailures', () => {
+  let previousClock: Clock;
+  let store: InMemoryRetryStateStore;
+  let stopEvents: InMemoryRetryStopEventStore;
+  const controls = {
+    audit: new InMemoryRetryControlAuditStore(),
+    locks: new InMemoryRetryLockProvider()
+  };
+
+  beforeEach(async () => {
+    previousClock = ClockService.getClock();
+    ClockService.configure(new VirtualClock(START));
+    vi.spyOn(SupabaseCampaignService, 'clearRetryTtl').mockResolvedValue();
+
+    store = new InMemoryRetryStateStore();
+    stopEvents = new InMemoryRetryStopEventStore();
+    await CampaignService.setRetryConfig('campaign-1', RETRY_CONFIG, store);
+  });
+
+  afterEach(() => {
+    ClockService.configure(previousClock);
+    vi.restoreAllMocks();
+  });
+
+  const record = (...recipientIds: string[]) =>
+    CampaignService.recordRecipientFailures('campaign-1', recipientIds.map(failure), store, stopEvents);
+
+  it('queues failed recipients and schedules the campaign', async () => {
+    const queued = await record('r1');
+
+    expect(queued.map(recipient => recipient.status)).toEqual(['retrying']);
+    expect((await store.getRetryState('campaign-1')).nextAttemptAt).toBe(queued[0].nextAttemptAt);
+  });
+
+  it('leaves stopped recipients stopped when a late failure arrives', async () => {
+    await record('r1');
+    await CampaignService.stopRetryRecipients('campaign-1', 'Conversion recorded', store);
+    await CampaignService.scheduleNextRetryAttempt('campaign-1', undefined, store);
+
+    expect(await record('r1')).toEqual([]);
+
+    const [recipient] = await store.listRecipients('campaign-1');
+    expect(recipient.status).toBe('stopped');
+    expect((await store.getRetryState('campaign-1')).nextAttemptAt).toBeUndefined();
+  });
+
+  it('reopens a recipient whose accepted retry is reported failed', async () => {
+    const [queued] = await record('r1');
+    await store.saveRecipients('campaign-1', [{ ...queued, status: 'sent', attemptCount: 1, nextAttemptAt: undefined }]);
+
+    const [reopened] = await record('r1');
+
+    expect(reopened).toMatchObject({ recipientId: 'r1', status: 'retrying', attemptCount: 1 });
+    expect(reopened.nextAttemptAt).toBeDefined();
+  });
+
+  it('marks only recipients awaiting a delivery status as delivered', async () => {
+    const [r1, r2] = await record('r1', 'r2');
+    await store.saveRecipients('campaign-1', [{ ...r1, status: 'sent', attemptCount: 1, nextAttemptAt: undefined }]);
+
+    await CampaignService.recordRecipientDeliveries('campaign-1', ['r1', 'r2'], store);
+
+    const statuses = (await store.listRecipients('campaign-1')).map(recipient => [recipient.recipientId, recipient.status]);
+    expect(statuses).toEqual([['r1', 'delivered'], [r2.recipientId, 'retrying']]);
+  });
+
+  it('counts confirmed deliveries towards the attempt that sent them', async () => {
+    const [r1, r2] = await record('r1', 'r2');
+    const executedAt = '2024-03-01T15:30:00.000Z';
+    await CampaignService.updateRetryAttempt('campaign-1', {
+      attemptNumber: 1,
+      scheduledAt: executedAt,
+      executedAt,
+      status: 'completed',
+      deliveries: [{ errorCode: '131049', sent: 2, accepted: 2, delivered: 0 }]
+    }, store);
+    await store.saveRecipients('campaign-1', [r1, r2].map(recipient => (
+      { ...recipient, status: 'sent' as const, attemptCount: 1, lastAttemptAt: executedAt, nextAttemptAt: undefined }
+    )));
+
+    await CampaignService.recordRecipientDeliveries('campaign-1', ['r1'], store);
+    await CampaignService.recordRecipientDeliveries('campaign-1', ['r1'], store);
+
+    const { attempts } = await store.getRetryState('campaign-1');
+    expect(attempts[0].deliveries).toEqual([{ errorCode: '131049', sent: 2, accepted: 2, delivered: 1 }]);
+  });
+
+  it('ignores failures once retries are cancelled', async () => {
+    await record('r1');
+    await RetryControlService.cancel('campaign-1', 'Wrong audience', 'ops@example.com', controls.audit, store, controls.locks);
+
+    expect(await record('r2')).toEqual([]);
+    expect((await store.listRecipients('campaign-1')).map(recipient => recipient.recipientId)).toEqual(['r1']);
+  });
+
+  it('ignores failures once a stop condition is met', async () => {
+    await RetryStopEventService.recordTemplateChange('campaign-1', 'new_template_id', START, stopEvents);
+
+    expect(await record('r1')).toEqual([]);
+    expect(await store.listRecipients('campaign-1')).toEqual([]);
+  });
+
+  it('queues failures that arrive while paused until retries are resumed', async () => {
+    await record('r1');
+    await RetryControlService.pause('campaign-1', 'ops@example.com', controls.audit, store, controls.locks);
+
+    const queued = await record('r2');
+
+    expect(queued.map(recipient => recipient.status)).toEqual(['retrying']);
+    expect((await store.getRetryState('campaign-1')).nextAttemptAt).toBeUndefined();
+
+    const resumed = await RetryControlService.resume('campaign-1', 'ops@example.com', controls.audit, store, controls.locks);
+    const recipients = await store.listRecipients('campaign-1');
+    expect(recipients.map(recipient => [recipient.recipientId, recipient.nextAttemptAt])).toEqual([
+      ['r1', resumed.nextAttemptAt],
+      ['r2', resumed.nextAttemptAt]
+    ]);
+  });
+});
+
+describe('CampaignService.getCampaignsForRetry', () => {
+  let previousClock: Clock;
+  let store: InMemoryRetryStateStore;
+
+  beforeEach(() => {
+    previousClock = ClockService.getClock();
+    ClockService.configure(new VirtualClock(START));
+    store = new InMemoryRetryStateStore();
+  });
+
+  afterEach(() => {
+    ClockService.configure(previousClock);
+  });
+
+  const schedule = async (campaignId: string, nextAttemptAt: string, overrides: Partial<RetryTtlConfig> = {}) => {
+    await CampaignService.setRetryConfig(campaignId, { ...RETRY_CONFIG, ...overrides }, store);
+    await store.saveRetryState({ ...(await store.getRetryState(campaignId))!, nextAttemptAt });
+  };
+
+  it('returns the longest overdue campaigns up to the limit', async () => {
+    await schedule('due-last', '2024-03-01T03:00:00Z');
+    await schedule('due-first', '2024-03-01T01:00:00Z');
+    await schedule('due-second', '2024-03-01T02:00:00Z');
+    await schedule('not-due', '2024-03-01T04:00:00Z');
+    await schedule('disabled', '2024-03-01T00:00:00Z', { enabled: false });
+
+    const batch = await CampaignService.getCampaignsForRetry(store, new Date(START), 2);
+
+    expect(batch.map(({ campaignId }) => campaignId)).toEqual(['due-first', 'due-second']);
+    expect(await store.countDueRetryStates(new Date(START))).toBe(3);
+  });
+});
@@ -1,115 +1,62 @@
-import { Campaign, CampaignListOptions, RetryTtlConfig } from '@/types/campaign';
-import { RetryService, CampaignRetryState } from './retryService';
-
-// Mock campaign data - in a real app, this would come from an API
-const baseCampaigns: Campaign[] = [
-  {
-    id: '246',
-    name: 'Copy:2 Sep 2025 @1:35pm- la...',
-    status: 'DRAFT',
-    sentOn: null,
-    published: 0,
-    sent: 0,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '262',
-    name: 'Copy:4 Sep 2025 @9:31pm-cra...',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 09:31 PM (GMT +05:30)',
-    published: 219,
-    sent: 219,
-    opened: 1,
-    clicked: 1,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '261',
-    name: 'crawer event',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 09:28 PM (GMT +05:30)',
-    published: 219,
-    sent: 219,
-    opened: 1,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '260',
-    name: 'testing_verification',
-    status: 'SENT',
-    sentOn: 'Sep 04, 2025 06:23 PM (GMT +05:30)',
-    published: 1,
-    sent: 1,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  },
-  {
-    id: '257',
-    name: 'test campaign',
-    status: 'SENT',
-    sentOn: 'Sep 03, 2025 07:38 PM (GMT +05:30)',
-    published: 1,
-    sent: 1,
-    opened: 0,
-    clicked: 0,
-    bounce: 'NA',
-    channel: 'WhatsApp'
-  }
-];
+import {
+  Campaign,
+  CampaignAdvancedFilters,
+  CampaignBulkAction,
+  CampaignChannelFilter,
+  CampaignRetryStatus,
+  CampaignStatus,
+  RetryErrorCode,
+  RetryTtlConfig,
+  StatusTab
+} from '@/types/campaign';
+import {
+  RetryService,
+  CampaignRetryState,
+  RetryAttempt,
+  RetryStats,
+  RecipientRetryState,
+  RecipientDeliveryResult
+} from './retryService';
+import { RetryStateStore, SupabaseRetryStateStore } from './retryStateStore';
+import { RetryStopEventService, RetryStopEventStore } from './retryStopEvents';
+import { ClockService } from './clock';
 
-// In-memory storage for retry states (in production, this would be in a database)
-const campaignRetryStates = new Map<string, CampaignRetryState>();
+export type CampaignStats = Record<'all' | 'drafts' | 'sent' | 'scheduled' | 'suspended' | 'running' | 'failed' | 'archived', number>;
 
-export class CampaignService {
-  /**
-   * Get campaigns with optional filtering and newly published campaign
-   */
-  static getCampaigns(options: CampaignListOptions = {}): Campaign[] {
-    const { publishedCampaignId, searchQuery, activeTab } = options;
-    let campaigns = [...baseCampaigns];
-    
-    // Add newly published campaign to the top if exists
-    if (publishedCampaignId) {
-      const newCampaign: Campaign = {
-        id: publishedCampaignId,
-        name: 'New WhatsApp Campaign',
-        status: 'SENT',
-        sentOn: new Date().toLocaleString('en-US', {
-          year: 'numeric',
-          month: 'short',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          hour12: true,
-          timeZoneName: 'short'
-        }),
-        published: 1,
-        sent: 1,
-        opened: 0,
-        clicked: 0,
-        bounce: 'NA',
-        channel: 'WhatsApp'
-      };
-      
-      campaigns.unshift(newCampaign);
-    }
-    
-    return campaigns;
-  }
+// Tab listing archived campaigns (every other tab leaves them out)
+export const ARCHIVED_TAB = 'archived';
 
+// Status shown under each list tab ('all' has none)
+const TAB_STATUSES: Record<string, CampaignStatus> = {
+  drafts: 'DRAFT',
+  sent: 'SENT',
+  scheduled: 'SCHEDULED',
+  suspended: 'SUSPENDED',
+  running: 'RUNNING',
+  failed: 'FAILED'
+};
+
+// Timestamp of a stored or display datetime ("Sep 04, 2025 09:31 PM (GMT +05:30)"); NaN when unparseable
+const parseCampaignTime = (value: string | null | undefined): number =>
+  value ? Date.parse(value.replace(/\s*\(.*\)$/, '')) : NaN;
+
+// Campaigns picked per poll when the caller sets no limit (the engine passes maxConcurrentRetries)
+const DEFAULT_RETRY_BATCH_SIZE = 10;
+
+// Retry state storage backend (swap for InMemoryRetryStateStore in tests)
+let retryStateStore: RetryStateStore = new SupabaseRetryStateStore();
+
+export class CampaignService {
   /**
-   * Filter campaigns based on search query and active tab
+   * Filter campaigns based on search query, active tab and channel ('' for every channel)
    */
-  static filterCampaigns(campaigns: Campaign[], searchQuery: string, activeTab: string): Campaign[] {
-    let filtered = campaigns;
+  static filterCampaigns(
+    campaigns: Campaign[],
+    searchQuery: string,
+    activeTab: string,
+    channel: CampaignChannelFilter = ''
+  ): Campaign[] {
+    let filtered = this.filterByChannel(campaigns, channel);
     
     // Apply search filter
     if (searchQuery) {
@@ -119,68 +66,196 @@ export class CampaignService {
       );
     }
     
+    // Archived campaigns only show under their own tab
+    const showArchived = activeTab === ARCHIVED_TAB;
+    filtered = filtered.filter(campaign => !!campaign.archivedAt === showArchived);
+
     // Apply tab filter
-    if (activeTab !== 'all') {
-      switch (activeTab) {
-        case 'drafts':
-          filtered = filtered.filter(c => c.status === 'DRAFT');
-          break;
-        case 'sent':
-          filtered = filtered.filter(c => c.status === 'SENT');
-          break;
-        case 'scheduled':
-          filtered = filtered.filter(c => c.status === 'SCHEDULED');
-          break;
-        case 'suspended':
-          filtered = filtered.filter(c => c.status === 'SUSPENDED');
-          break;
-        case 'running':
-          filtered = filtered.filter(c => c.status === 'RUNNING');
-          break;
-        case 'failed':
-          filtered = filtered.filter(c => c.status === 'FAILED');
-          break;
-      }
+    const status = this.getStatusForTab(activeTab);
+    if (status) {
+      filtered = filtered.filter(c => c.status === status);
     }
     
     return filtered;
   }
 
   /**
-   * Get campaign statistics for status tabs
+   * Keep the campaigns of one channel ('' keeps them all)
+   */
+  static filterByChannel(campaigns: Campaign[], channel: CampaignChannelFilter = ''): Campaign[] {
+    return channel ? campaigns.filter(c => c.channel === channel) : campaigns;
+  }
+
+  /**
+   * Apply the filter panel (date ranges, tags, template, business number, creator, retry status).
+   * Retry statuses are looked up by campaign ID; campaigns missing from the map have none.
    */
-  static getCampaignStats(campaigns: Campaign[]) {
-    const stats = {
-      all: campaigns.length,
-      drafts: campaigns.filter(c => c.status === 'DRAFT').length,
-      sent: campaigns.filter(c => c.status === 'SENT').length,
-      scheduled: campaigns.filter(c => c.status === 'SCHEDULED').length,
-      suspended: campaigns.filter(c => c.status === 'SUSPENDED').length,
-      running: campaigns.filter(c => c.status === 'RUNNING').length,
-      failed: campaigns.filter(c => c.status === 'FAILED').length,
+  static filterByAdvanced(
+    campaigns: Campaign[],
+    filters: CampaignAdvancedFilters,
+    retryStatuses: Map<string, CampaignRetryStatus> = new Map()
+  ): Campaign[] {
+    const created = this.getDayRange(filters.createdFrom, filters.createdTo);
+    const sentOn = this.getDayRange(filters.sentFrom, filters.sentTo);
+    const inRange = (value: string | null | undefined, range: { start: string | null; end: string | null }) => {
+      if (!range.start && !range.end) return true;
+      const time = parseCampaignTime(value);
+      return !isNaN(time) &&
+        (!range.start || time >= Date.parse(range.start)) &&
+        (!range.end || time < Date.parse(range.end));
     };
-    
-    return stats;
+    const creator = filters.createdBy?.trim().toLowerCase();
+
+    return campaigns.filter(campaign =>
+      inRange(campaign.createdAt, created) &&
+      inRange(campaign.sentOn, sentOn) &&
+      (!filters.tags?.length || filters.tags.some(tag => campaign.tags?.includes(tag))) &&
+      (!filters.templateId || campaign.templateId === filters.templateId) &&
+      (!filters.businessNumberId || (campaign.content?.channel === 'WhatsApp' &&
+        campaign.content.businessNumberId === filters.businessNumberId)) &&
+      (!creator || !!campaign.createdBy?.toLowerCase().includes(creator)) &&
+      (!filters.retryStatus || (retryStatuses.get(campaign.id) ?? 'none') === filters.retryStatus)
+    );
   }
 
   /**
-   * Simulate API call delay
+   * Bounds of a calendar-day range in local time: start of the first day and start of the day after the last
    */
-  static async fetchCampaigns(options: CampaignListOptions = {}): Promise<Campaign[]> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    return this.getCampaigns(options);
+  static getDayRange(from?: string, to?: string): { start: string | null; end: string | null } {
+    const startOfDay = (day: string, offsetDays = 0) => {
+      const date = new Date(`${day}T00:00:00`);
+      date.setDate(date.getDate() + offsetDays);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    };
+    return { start: from ? startOfDay(from) : null, end: to ? startOfDay(to, 1) : null };
+  }
+
+  /**
+   * Retry status used by the list filters (mirrors the campaigns.retry_status computed column)
+   */
+  static getRetryListStatus(retryState: CampaignRetryState | null, now: Date = ClockService.now()): CampaignRetryStatus {
+    if (!retryState) {
+      return 'none';
+    }
+    if (retryState.cancelledAt) {
+      return 'cancelled';
+    }
+
+    const { retryConfig, isExpired, nextAttemptAt } = retryState;
+    if (isExpired || (!!retryConfig.ttlDateTime && RetryService.isRetryTtlExpired(retryConfig.ttlDateTime, now))) {
+      return 'expired';
+    }
+    if (retryState.pausedAt) {
+      return 'paused';
+    }
+    return retryConfig.enabled && nextAttemptAt ? 'active' : 'finished';
+  }
+
+  /**
+   * Get the campaign status a list tab shows (null for 'all' and unknown tabs)
+   */
+  static getStatusForTab(activeTab: string): CampaignStatus | null {
+    return TAB_STATUSES[activeTab] ?? null;
+  }
+
+  /**
+   * Roll per-status campaign counts up into the status tab counts
+   */
+  static countByStatus(statusCounts: Partial<Record<CampaignStatus, number>>, archived = 0): CampaignStats {
+    const count = (status: CampaignStatus) => statusCounts[status] ?? 0;
+
+    return {
+      all: Object.values(statusCounts).reduce((total, n) => total + n, 0),
+      drafts: count('DRAFT'),
+      sent: count('SENT'),
+      scheduled: count('SCHEDULED'),
+      suspended: count('SUSPENDED'),
+      running: count('RUNNING'),
+      failed: count('FAILED'),
+      archived,
+    };
+  }
+
+  /**
+   * Get campaign statistics for status tabs
+   */
+  static getCampaignStats(campaigns: Campaign[]): CampaignStats {
+    const statusCounts: Partial<Record<CampaignStatus, number>> = {};
+    let archived = 0;
+    campaigns.forEach(c => {
+      if (c.archivedAt) {
+        archived++;
+      } else {
+        statusCounts[c.status] = (statusCounts[c.status] ?? 0) + 1;
+      }
+    });
+    return this.countByStatus(statusCounts, archived);
+  }
+
+  /**
+   * Build the list's status tabs with their counts
+   */
+  static getStatusTabs(stats: CampaignStats): StatusTab[] {
+    return [
+      { id: 'all', label: 'All', count: stats.all },
+      { id: 'drafts', label: 'Drafts', count: stats.drafts },
+      { id: 'sent', label: 'Sent', count: stats.sent },
+      { id: 'scheduled', label: 'Scheduled', count: stats.scheduled },
+      { id: 'suspended', label: 'Suspended', count: stats.suspended },
+      { id: 'running', label: 'Running', count: stats.running },
+      { id: 'failed', label: 'Failed', count: stats.failed },
+      { id: ARCHIVED_TAB, label: 'Archived', count: stats.archived },
+    ];
+  }
+
+  /**
+   * Why a bulk action can't be applied to a campaign (null when it can). Mirrors bulk_update_campaigns.
+   */
+  static getBulkActionError(campaign: Campaign, action: CampaignBulkAction): string | null {
+    switch (action) {
+      case 'archive':
+        if (campaign.archivedAt) return 'Campaign is already archived';
+        return campaign.status === 'RUNNING' ? 'Running campaigns cannot be archived' : null;
+      case 'unarchive':
+        return campaign.archivedAt ? null : 'Campaign is not archived';
+      case 'delete':
+        return campaign.status === 'RUNNING' ? 'Running campaigns cannot be deleted' : null;
+      case 'pause':
+        return campaign.status === 'SCHEDULED' ? null : 'Only scheduled campaigns can be paused';
+      case 'resume':
+        return campaign.status === 'SUSPENDED' ? null : 'Only suspended campaigns can be resumed';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Replace the retry state storage backend
+   */
+  static useRetryStateStore(store: RetryStateStore): void {
+    retryStateStore = store;
+  }
+
+  /**
+   * Get the active retry state storage backend
+   */
+  static getRetryStateStore(): RetryStateStore {
+    return retryStateStore;
   }
 
   /**
    * Create or update retry configuration for a campaign
    */
-  static setRetryConfig(campaignId: string, retryConfig: RetryTtlConfig): void {
-    const existingState = campaignRetryStates.get(campaignId);
+  static async setRetryConfig(
+    campaignId: string,
+    retryConfig: RetryTtlConfig,
+    store: RetryStateStore = retryStateStore
+  ): Promise<void> {
+    const existingState = await store.getRetryState(campaignId);
     
     if (existingState) {
       // Update existing retry state
-      campaignRetryStates.set(campaignId, {
+      await store.saveRetryState({
         ...existingState,
         retryConfig,
         isExpired: retryConfig.ttlDateTime ? RetryService.isRetryTtlExpired(retryConfig.ttlDateTime) : false
@@ -188,22 +263,25 @@ export class CampaignService {
     } else {
       // Create new retry state
       const newState = RetryService.createRetryState(campaignId, retryConfig);
-      campaignRetryStates.set(campaignId, newState);
+      await store.saveRetryState(newState);
     }
   }
 
   /**
    * Get retry state for a campaign
    */
-  static getRetryState(campaignId: string): CampaignRetryState | null {
-    return campaignRetryStates.get(campaignId) || null;
+  static async getRetryState(
+    campaignId: string,
+    store: RetryStateStore = retryStateStore
+  ): Promise<CampaignRetryState | null> {
+    return store.getRetryState(campaignId);
   }
 
   /**
    * Check if campaign retries are still active (not expired)
    */
-  static isRetryActive(campaignId: string): boolean {
-    const retryState = this.getRetryState(campaignId);
+  static async isRetryActive(campaignId: string, store: RetryStateStore = retryStateStore): Promise<boolean> {
+    const retryState = await this.getRetryState(campaignId, store);
     if (!retryState || !retryState.retryConfig.enabled) {
       return false;
     }
@@ -216,33 +294,41 @@ export class CampaignService {
   }
 
   /**
-   * Get campaigns that need retry processing
+   * List the retry states of every campaign with retry configured
    */
-  static getCampaignsForRetry(): { campaignId: string; retryState: CampaignRetryState }[] {
-    const now = new Date();
-    const campaignsForRetry: { campaignId: string; retryState: CampaignRetryState }[] = [];
+  static async listRetryStates(
+    store: RetryStateStore = retryStateStore
+  ): Promise<CampaignRetryState[]> {
+    return store.listRetryStates();
+  }
 
-    campaignRetryStates.forEach((retryState, campaignId) => {
-      // Skip if retry is disabled or expired
-      if (!retryState.retryConfig.enabled || retryState.isExpired) {
-        return;
-      }
+  /**
+   * Get up to `limit` campaigns that need retry processing, longest overdue first
+   */
+  static async getCampaignsForRetry(
+    store: RetryStateStore = retryStateStore,
+    now: Date = ClockService.now(),
+    limit: number = DEFAULT_RETRY_BATCH_SIZE
+  ): Promise<{ campaignId: string; retryState: CampaignRetryState }[]> {
+    const campaignsForRetry: { campaignId: string; retryState: CampaignRetryState }[] = [];
+    const retryStates = await store.listDueRetryStates(now, limit);
 
+    for (const retryState of retryStates) {
       // Skip if TTL has expired
-      if (retryState.retryConfig.ttlDateTime && RetryService.isRetryTtlExpired(retryState.retryConfig.ttlDateTime)) {
+      if (retryState.retryConfig.ttlDateTime && RetryService.isRetryTtlExpired(retryState.retryConfig.ttlDateTime, now)) {
         // Mark as expired
-        retryState.isExpired = true;
-        return;
+        await store.saveRetryState({ ...retryState, isExpired: true });
+        continue;
       }
 
       // Check if it's time for next retry
       if (retryState.nextAttemptAt) {
         const nextAttempt = new Date(retryState.nextAttemptAt);
         if (now >= nextAttempt) {
-          campaignsForRetry.push({ campaignId, retryState });
+          campaignsForRetry.push({ campaignId: retryState.campaignId, retryState });
         }
       }
-    });
+    }
 
     return campaignsForRetry;
   }
@@ -250,24 +336,166 @@ export class CampaignService {
   /**
    * Update campaign retry state after an attempt
    */
-  static updateRetryAttempt(campaignId: string, attempt: any): void {
-    const retryState = campaignRetryStates.get(campaignId);
+  static async updateRetryAttempt(
+    campaignId: string,
+    attempt: RetryAttempt,
+    store: RetryStateStore = retryStateStore
+  ): Promise<CampaignRetryState | null> {
+    const retryState = await store.getRetryState(campaignId);
+    if (!retryState) {
+      return null;
+    }
+
+    const updatedState = RetryService.updateRetryState(retryState, attempt);
+    await store.appendRetryAttempt(campaignId, attempt);
+    await store.saveRetryState(updatedState);
+
+    return updatedState;
+  }
+
+  /**
+   * Update the next scheduled attempt for a campaign
+   */
+  static async scheduleNextRetryAttempt(
+    campaignId: string,
+    nextAttemptAt: string | undefined,
+    store: RetryStateStore = retryStateStore
+  ): Promise<void> {
+    const retryState = await store.getRetryState(campaignId);
     if (retryState) {
-      const updatedState = RetryService.updateRetryState(retryState, attempt);
-      campaignRetryStates.set(campaignId, updatedState);
+      await store.saveRetryState({ ...retryState, nextAttemptAt });
     }
   }
 
   /**
    * Get retry statistics for all campaigns
    */
-  static getRetryStatistics(): { [campaignId: string]: any } {
-    const stats: { [campaignId: string]: any } = {};
-    
-    campaignRetryStates.forEach((retryState, campaignId) => {
-      stats[campaignId] = RetryService.getRetryStats(retryState);
-    });
+  static async getRetryStatistics(
+    store: RetryStateStore = retryStateStore
+  ): Promise<{ [campaignId: string]: RetryStats }> {
+    const stats: { [campaignId: string]: RetryStats } = {};
+    const retryStates = await store.listRetryStates();
+
+    for (const retryState of retryStates) {
+      const recipients = await store.listRecipients(retryState.campaignId);
+      stats[retryState.campaignId] = RetryService.getRetryStats(retryState, recipients);
+    }
 
     return stats;
   }
+
+  /**
+   * Get a campaign's recipient retry ledger
+   */
+  static async getRetryRecipients(
+    campaignId: string,
+    store: RetryStateStore = retryStateStore
+  ): Promise<RecipientRetryState[]> {
+    return store.listRecipients(campaignId);
+  }
+
+  /**
+   * Add recipients that failed on the original send to the retry ledger and
+   * schedule the campaign for the earliest recipient retry. Recipients whose retry was
+   * accepted but then reported failed are reopened. Failures that arrive while retries
+   * are paused are queued for the resume; cancelled or stopped campaigns, and
+   * recipients already delivered or stopped, are left alone.
+   */
+  static async recordRecipientFailures(
+    campaignId: string,
+    failures: RecipientDeliveryResult[],
+    store: RetryStateStore = retryStateStore,
+    stopEvents: RetryStopEventStore = RetryStopEventService.getStore()
+  ): Promise<RecipientRetryState[]> {
+    const retryState = await store.getRetryState(campaignId);
+    if (!retryState || retryState.cancelledAt || (!retryState.retryConfig.enabled && !retryState.pausedAt)) {
+      return [];
+    }
+    if ((await RetryStopEventService.checkStopConditions(retryState, stopEvents)).shouldStop) {
+      return [];
+    }
+
+    const existing = new Map((await store.listRecipients(campaignId)).map(r => [r.recipientId, r]));
+    const entries = failures
+      .map(failure => existing.get(failure.recipientId) ?? {
+        recipientId: failure.recipientId,
+        status: 'retrying' as const,
+        attemptCount: 0
+      })
+      .filter(entry => entry.status !== 'stopped' && entry.status !== 'delivered');
+    if (entries.length === 0) {
+      return [];
+    }
+
+    // The original send doesn't count as a retry
+    const updated = RetryService.applyRecipientResults(
+      campaignId,
+      entries,
+      failures.map(failure => ({ ...failure, success: false })),
+      retryState.retryConfig,
+      ClockService.now().toISOString(),
+      false
+    );
+    await store.saveRecipients(campaignId, updated);
+
+    // Paused campaigns are rescheduled when they are resumed
+    if (!retryState.pausedAt) {
+      const ledger = await store.listRecipients(campaignId);
+      await store.saveRetryState({ ...retryState, nextAttemptAt: RetryService.getNextRecipientAttemptAt(ledger) });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Mark recipients whose retry is awaiting its delivery status as delivered and count them
+   * towards the attempts that sent them
+   */
+  static async recordRecipientDeliveries(
+    campaignId: string,
+    recipientIds: string[],
+    store: RetryStateStore = retryStateStore
+  ): Promise<RecipientRetryState[]> {
+    const ids = new Set(recipientIds);
+    const delivered = (await store.listRecipients(campaignId))
+      .filter(r => r.status === 'sent' && ids.has(r.recipientId))
+      .map(r => ({ ...r, status: 'delivered' as const }));
+
+    await store.saveRecipients(campaignId, delivered);
+
+    // Count each delivery towards the attempt that sent it, under the error code that attempt retried
+    const retryState = delivered.length > 0 ? await store.getRetryState(campaignId) : null;
+    const counts = new Map<string, { attemptNumber: number; errorCode: RetryErrorCode; count: number }>();
+    delivered.forEach(recipient => {
+      const attempt = retryState?.attempts.find(a => a.executedAt === recipient.lastAttemptAt);
+      if (!attempt) return;
+
+      const errorCode = recipient.errorCode || 'unknown';
+      const key = `${attempt.attemptNumber}:${errorCode}`;
+      const entry = counts.get(key) || { attemptNumber: attempt.attemptNumber, errorCode, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+    for (const { attemptNumber, errorCode, count } of counts.values()) {
+      await store.recordAttemptDeliveries(campaignId, attemptNumber, errorCode, count);
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Mark every recipient still retrying as stopped
+   */
+  static async stopRetryRecipients(
+    campaignId: string,
+    reason: string,
+    store: RetryStateStore = retryStateStore
+  ): Promise<void> {
+    const recipients = await store.listRecipients(campaignId);
+    const stopped = recipients
+      .filter(r => r.status === 'retrying')
+      .map(r => ({ ...r, status: 'stopped' as const, nextAttemptAt: undefined, lastError: reason }));
+
+    await store.saveRecipients(campaignId, stopped);
+  }
 }
@@ -0,0 +1,294 @@
+import { supabase, Database } from '@/lib/supabase';
+import {
+  CampaignAdvancedFilters,
+  CampaignChannel,
+  CampaignFilters,
+  CampaignRetryFilter,
+  CampaignSortBy,
+  CampaignSortOrder,
+  DEFAULT_CAMPAIGN_FILTERS,
+  SavedCampaignView
+} from '@/types/campaign';
+
+type SavedViewRow = Database['public']['Tables']['campaign_saved_views']['Row'];
+type SavedViewInsert = Database['public']['Tables']['campaign_saved_views']['Insert'];
+
+export const MAX_VIEW_NAME_LENGTH = 60;
+
+const CHANNELS: CampaignChannel[] = ['WhatsApp', 'SMS', 'Email', 'Push'];
+const SORT_BY: CampaignSortBy[] = ['name', 'date', 'status'];
+const SORT_ORDERS: CampaignSortOrder[] = ['asc', 'desc'];
+const RETRY_FILTERS: CampaignRetryFilter[] = ['active', 'expired'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// URL search params for the list filters ("all" stands for every channel, since no param means the default)
+const PARAMS = {
+  searchQuery: 'q',
+  activeTab: 'tab',
+  channel: 'channel',
+  sort: 'sort',
+  createdFrom: 'created_from',
+  createdTo: 'created_to',
+  sentFrom: 'sent_from',
+  sentTo: 'sent_to',
+  tags: 'tags',
+  templateId: 'template',
+  businessNumberId: 'number',
+  createdBy: 'creator',
+  retryStatus: 'retries'
+} as const;
+const ALL_CHANNELS_PARAM = 'all';
+
+/**
+ * Storage backend for a user's saved campaign list views
+ */
+export interface CampaignViewStore {
+  listViews(): Promise<SavedCampaignView[]>;
+  saveView(name: string, filters: CampaignFilters): Promise<SavedCampaignView>;
+  deleteView(id: string): Promise<void>;
+}
+
+/**
+ * In-memory saved view store (used by tests and local development)
+ */
+export class InMemoryCampaignViewStore implements CampaignViewStore {
+  private views: SavedCampaignView[] = [];
+
+  async listViews(): Promise<SavedCampaignView[]> {
+    return [...this.views]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(view => ({ ...view, filters: structuredClone(view.filters) }));
+  }
+
+  async saveView(name: string, filters: CampaignFilters): Promise<SavedCampaignView> {
+    const now = new Date().toISOString();
+    const existing = this.views.find(view => view.name === name);
+    const view: SavedCampaignView = existing
+      ? { ...existing, filters: structuredClone(filters), updatedAt: now }
+      : { id: crypto.randomUUID(), name, filters: structuredClone(filters), createdAt: now, updatedAt: now };
+
+    this.views = [...this.views.filter(v => v.id !== view.id), view];
+    return { ...view, filters: structuredClone(view.filters) };
+  }
+
+  async deleteView(id: string): Promise<void> {
+    this.views = this.views.filter(view => view.id !== id);
+  }
+}
+
+/**
+ * Supabase-backed saved view store (campaign_saved_views, one set per user under RLS)
+ */
+export class SupabaseCampaignViewStore implements CampaignViewStore {
+  private static mapRowToView(row: SavedViewRow): SavedCampaignView {
+    return {
+      id: row.id,
+      name: row.name,
+      filters: CampaignViewService.normalizeFilters(row.filters as Partial<CampaignFilters>),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  async listViews(): Promise<SavedCampaignView[]> {
+    const { data, error } = await supabase
+      .from('campaign_saved_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return data?.map(SupabaseCampaignViewStore.mapRowToView) || [];
+  }
+
+  async saveView(name: string, filters: CampaignFilters): Promise<SavedCampaignView> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // Saving under an existing name replaces that view
+    const row: SavedViewInsert = {
+      user_id: user.id,
+      name,
+      filters: filters as unknown as Record<string, unknown>,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = await supabase
+      .from('campaign_saved_views')
+      .upsert(row, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return SupabaseCampaignViewStore.mapRowToView(data);
+  }
+
+  async deleteView(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_saved_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+// Saved view backend (swap for InMemoryCampaignViewStore in tests)
+let campaignViewStore: CampaignViewStore = new SupabaseCampaignViewStore();
+
+/**
+ * Campaign list views: the filters encoded in the URL (so views can be shared) and saved by name
+ */
+export class CampaignViewService {
+  /**
+   * Replace the saved view backend
+   */
+  static useStore(store: CampaignViewStore): void {
+    campaignViewStore = store;
+  }
+
+  /**
+   * Get the active saved view backend
+   */
+  static getStore(): CampaignViewStore {
+    return campaignViewStore;
+  }
+
+  /**
+   * Fill in missing fields and drop invalid values (e.g. from an older saved view)
+   */
+  static normalizeFilters(filters: Partial<CampaignFilters> = {}): CampaignFilters {
+    const channel = filters.activeChannelFilter;
+    const advanced = filters.advanced ?? {};
+    const day = (value?: string) => (value && DAY_PATTERN.test(value) ? value : undefined);
+    const text = (value?: string) => value?.trim() || undefined;
+
+    const normalized: CampaignAdvancedFilters = {
+      createdFrom: day(advanced.createdFrom),
+      createdTo: day(advanced.createdTo),
+      sentFrom: day(advanced.sentFrom),
+      sentTo: day(advanced.sentTo),
+      tags: advanced.tags?.map(tag => tag.trim()).filter(Boolean),
+      templateId: text(advanced.templateId),
+      businessNumberId: text(advanced.businessNumberId),
+      createdBy: text(advanced.createdBy),
+      retryStatus: RETRY_FILTERS.includes(advanced.retryStatus) ? advanced.retryStatus : undefined
+    };
+    if (!normalized.tags?.length) {
+      delete normalized.tags;
+    }
+    (Object.keys(normalized) as (keyof CampaignAdvancedFilters)[]).forEach(key => {
+      if (normalized[key] === undefined) delete normalized[key];
+    });
+
+    return {
+      searchQuery: filters.searchQuery ?? DEFAULT_CAMPAIGN_FILTERS.searchQuery,
+      activeTab: filters.activeTab || DEFAULT_CAMPAIGN_FILTERS.activeTab,
+      activeChannelFilter: channel === '' || CHANNELS.includes(channel) ? channel : DEFAULT_CAMPAIGN_FILTERS.activeChannelFilter,
+      sortBy: SORT_BY.includes(filters.sortBy) ? filters.sortBy : DEFAULT_CAMPAIGN_FILTERS.sortBy,
+      sortOrder: SORT_ORDERS.includes(filters.sortOrder) ? filters.sortOrder : DEFAULT_CAMPAIGN_FILTERS.sortOrder,
+      advanced: normalized
+    };
+  }
+
+  /**
+   * Number of filter panel fields in use (shown on the Filter button)
+   */
+  static countAdvancedFilters(advanced: CampaignAdvancedFilters): number {
+    const { createdFrom, createdTo, sentFrom, sentTo, ...rest } = advanced;
+    return [createdFrom || createdTo, sentFrom || sentTo, ...Object.values(rest)]
+      .filter(value => (Array.isArray(value) ? value.length > 0 : !!value)).length;
+  }
+
+  /**
+   * Read the list filters from URL search params (defaults for anything missing or invalid)
+   */
+  static fromSearchParams(params: URLSearchParams): CampaignFilters {
+    const get = (key: string) => params.get(key) ?? undefined;
+    const channel = get(PARAMS.channel);
+    const [sortBy, sortOrder] = (get(PARAMS.sort) ?? '').split(':') as [CampaignSortBy, CampaignSortOrder];
+
+    return this.normalizeFilters({
+      searchQuery: get(PARAMS.searchQuery),
+      activeTab: get(PARAMS.activeTab),
+      activeChannelFilter: channel === ALL_CHANNELS_PARAM ? '' : channel as CampaignChannel | undefined,
+      sortBy,
+      sortOrder,
+      advanced: {
+        createdFrom: get(PARAMS.createdFrom),
+        createdTo: get(PARAMS.createdTo),
+        sentFrom: get(PARAMS.sentFrom),
+        sentTo: get(PARAMS.sentTo),
+        tags: get(PARAMS.tags)?.split(','),
+        templateId: get(PARAMS.templateId),
+        businessNumberId: get(PARAMS.businessNumberId),
+        createdBy: get(PARAMS.createdBy),
+        retryStatus: get(PARAMS.retryStatus) as CampaignRetryFilter | undefined
+      }
+    });
+  }
+
+  /**
+   * Write the list filters into URL search params. Other params (e.g. the publish banner's) are
+   * kept, and values equal to the defaults are left out so the URL stays short.
+   */
+  static toSearchParams(filters: CampaignFilters, current: URLSearchParams = new URLSearchParams()): URLSearchParams {
+    const params = new URLSearchParams(current);
+    Object.values(PARAMS).forEach(key => params.delete(key));
+    const set = (key: string, value: string | undefined, defaultValue?: string) => {
+      if (value && value !== defaultValue) params.set(key, value);
+    };
+
+    const defaults = DEFAULT_CAMPAIGN_FILTERS;
+    const { advanced } = filters;
+    set(PARAMS.searchQuery, filters.searchQuery.trim());
+    set(PARAMS.activeTab, filters.activeTab, defaults.activeTab);
+    set(PARAMS.channel, filters.activeChannelFilter || ALL_CHANNELS_PARAM, defaults.activeChannelFilter);
+    set(PARAMS.sort, `${filters.sortBy}:${filters.sortOrder}`, `${defaults.sortBy}:${defaults.sortOrder}`);
+    set(PARAMS.createdFrom, advanced.createdFrom);
+    set(PARAMS.createdTo, advanced.createdTo);
+    set(PARAMS.sentFrom, advanced.sentFrom);
+    set(PARAMS.sentTo, advanced.sentTo);
+    set(PARAMS.tags, advanced.tags?.join(','));
+    set(PARAMS.templateId, advanced.templateId);
+    set(PARAMS.businessNumberId, advanced.businessNumberId);
+    set(PARAMS.createdBy, advanced.createdBy);
+    set(PARAMS.retryStatus, advanced.retryStatus);
+    return params;
+  }
+
+  /**
+   * List the signed-in user's saved views, by name
+   */
+  static async listViews(store: CampaignViewStore = campaignViewStore): Promise<SavedCampaignView[]> {
+    return store.listViews();
+  }
+
+  /**
+   * Save the filters under a name, replacing the user's view of the same name
+   */
+  static async saveView(
+    name: string,
+    filters: CampaignFilters,
+    store: CampaignViewStore = campaignViewStore
+  ): Promise<SavedCampaignView> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('View name is required');
+    }
+    if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+      throw new Error(`View name cannot be longer than ${MAX_VIEW_NAME_LENGTH} characters`);
+    }
+    return store.saveView(trimmed, this.normalizeFilters(filters));
+  }
+
+  /**
+   * Delete one of the user's saved views
+   */
+  static async deleteView(id: string, store: CampaignViewStore = campaignViewStore): Promise<void> {
+    return store.deleteView(id);
+  }
+}
@@ -0,0 +1,129 @@
+import { CampaignContent, SmsCampaignContent } from '@/types/campaign';
+
+// DLT-registered sender IDs: 6 letters for promotional/service headers, 6 digits for numeric headers
+const SMS_SENDER_HEADER_PATTERN = /^([A-Z]{6}|\d{6})$/;
+// DLT content template IDs are 19-digit numbers
+const SMS_DLT_TEMPLATE_ID_PATTERN = /^\d{19}$/;
+// Concatenated SMS longer than this is rejected by most operators
+export const MAX_SMS_SEGMENTS = 6;
+export const MAX_EMAIL_SUBJECT_LENGTH = 150;
+
+// GSM 03.38 basic character set; anything outside it forces UCS-2 encoding
+const GSM_7_CHARACTERS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Extension characters take two GSM-7 slots (escape + character)
+const GSM_7_EXTENDED_CHARACTERS = '^{}\\[~]|€\f';
+
+export interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+}
+
+export class ChannelContentRules {
+  /**
+   * Length and segment count of an SMS body
+   */
+  static countSmsSegments(body: string): SmsSegmentInfo {
+    const characters = Array.from(body);
+    const isGsm = characters.every(char => GSM_7_CHARACTERS.includes(char) || GSM_7_EXTENDED_CHARACTERS.includes(char));
+
+    if (isGsm) {
+      const length = characters.reduce((total, char) => total + (GSM_7_EXTENDED_CHARACTERS.includes(char) ? 2 : 1), 0);
+      return { encoding: 'GSM-7', length, segments: length <= 160 ? 1 : Math.ceil(length / 153) };
+    }
+
+    // UCS-2 counts UTF-16 code units, so emoji take two
+    const length = body.length;
+    return { encoding: 'UCS-2', length, segments: length <= 70 ? 1 : Math.ceil(length / 67) };
+  }
+
+  /**
+   * Validate the channel's setup step (sender details)
+   */
+  static validateSetup(content: CampaignContent): string[] {
+    const errors: string[] = [];
+
+    switch (content.channel) {
+      case 'WhatsApp':
+        if (!content.businessNumberId) {
+          errors.push('Business number is required');
+        }
+        break;
+      case 'SMS':
+        if (!content.senderHeader) {
+          errors.push('Sender header is required');
+        } else if (!SMS_SENDER_HEADER_PATTERN.test(content.senderHeader)) {
+          errors.push('Sender header must be 6 capital letters or 6 digits');
+        }
+        if (!content.dltTemplateId) {
+          errors.push('DLT template ID is required');
+        } else if (!SMS_DLT_TEMPLATE_ID_PATTERN.test(content.dltTemplateId)) {
+          errors.push('DLT template ID must be a 19-digit number');
+        }
+        break;
+      case 'Email':
+        if (!content.subject.trim()) {
+          errors.push('Subject is required');
+        } else if (content.subject.length > MAX_EMAIL_SUBJECT_LENGTH) {
+          errors.push(`Subject cannot be longer than ${MAX_EMAIL_SUBJECT_LENGTH} characters`);
+        }
+        break;
+      case 'Push':
+        break;
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the channel's content step (template or message body)
+   */
+  static validateContent(content: CampaignContent): string[] {
+    const errors: string[] = [];
+
+    switch (content.channel) {
+      case 'WhatsApp':
+        if (!content.templateId) {
+          errors.push('Template selection is required');
+        }
+        break;
+      case 'SMS':
+        errors.push(...this.validateSmsBody(content));
+        break;
+      case 'Email':
+        if (!content.htmlBody.trim()) {
+          errors.push('Email body is required');
+        }
+        break;
+      case 'Push':
+        if (!content.title.trim()) {
+          errors.push('Notification title is required');
+        }
+        if (!content.body.trim()) {
+          errors.push('Notification body is required');
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  /**
+   * All errors for the campaign's content (used before publishing)
+   */
+  static validate(content: CampaignContent): string[] {
+    return [...this.validateSetup(content), ...this.validateContent(content)];
+  }
+
+  private static validateSmsBody(content: SmsCampaignContent): string[] {
+    if (!content.body.trim()) {
+      return ['Message text is required'];
+    }
+    const { segments } = this.countSmsSegments(content.body);
+    return segments > MAX_SMS_SEGMENTS
+      ? [`Message cannot be longer than ${MAX_SMS_SEGMENTS} SMS segments (currently ${segments})`]
+      : [];
+  }
+}
@@ -0,0 +1,156 @@
+export type ClockTimer = ReturnType<typeof setTimeout> | number;
+
+// Timer callbacks may return the work they start so virtual time can wait for it
+export type ClockCallback = () => void | Promise<unknown>;
+
+/**
+ * Source of the current time and of timers for the retry services and engine
+ */
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: ClockCallback, ms: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+  setInterval(callback: ClockCallback, ms: number): ClockTimer;
+  clearInterval(timer: ClockTimer): void;
+}
+
+/**
+ * Wall-clock time and real timers
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+
+  setTimeout(callback: ClockCallback, ms: number): ClockTimer {
+    return setTimeout(callback, ms);
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    clearTimeout(timer as ReturnType<typeof setTimeout>);
+  }
+
+  setInterval(callback: ClockCallback, ms: number): ClockTimer {
+    return setInterval(callback, ms);
+  }
+
+  clearInterval(timer: ClockTimer): void {
+    clearInterval(timer as ReturnType<typeof setInterval>);
+  }
+}
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number; // Epoch milliseconds
+  intervalMs?: number; // Set for intervals
+  callback: ClockCallback;
+}
+
+/**
+ * Manually advanced time (for tests and simulations). Timers only fire from advance()/advanceTo(),
+ * in due order, and each one's returned promise is awaited before time moves on.
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextTimerId = 1;
+
+  constructor(start: Date | string = new Date()) {
+    this.currentTime = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  setTimeout(callback: ClockCallback, ms: number): ClockTimer {
+    return this.schedule(callback, ms);
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers.delete(timer as number);
+  }
+
+  setInterval(callback: ClockCallback, ms: number): ClockTimer {
+    return this.schedule(callback, ms, Math.max(ms, 1));
+  }
+
+  clearInterval(timer: ClockTimer): void {
+    this.timers.delete(timer as number);
+  }
+
+  /**
+   * Move time forward by `ms`, firing every timer that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    await this.advanceTo(this.currentTime + ms);
+  }
+
+  /**
+   * Move time forward to `target`, firing every timer that falls due on the way
+   */
+  async advanceTo(target: Date | string | number): Promise<void> {
+    const targetTime = new Date(target).getTime();
+
+    for (let timer = this.getNextDueTimer(targetTime); timer; timer = this.getNextDueTimer(targetTime)) {
+      this.currentTime = Math.max(this.currentTime, timer.dueAt);
+      if (timer.intervalMs !== undefined) {
+        timer.dueAt += timer.intervalMs;
+      } else {
+        this.timers.delete(timer.id);
+      }
+      await timer.callback();
+    }
+
+    this.currentTime = Math.max(this.currentTime, targetTime);
+  }
+
+  /**
+   * Number of timers and intervals still scheduled
+   */
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  private schedule(callback: ClockCallback, ms: number, intervalMs?: number): number {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { id, dueAt: this.currentTime + Math.max(ms, 0), intervalMs, callback });
+    return id;
+  }
+
+  private getNextDueTimer(targetTime: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    this.timers.forEach(timer => {
+      if (timer.dueAt <= targetTime && (!next || timer.dueAt < next.dueAt)) {
+        next = timer;
+      }
+    });
+    return next;
+  }
+}
+
+// Clock used by the retry services (swap for a VirtualClock in tests)
+let clock: Clock = new SystemClock();
+
+export class ClockService {
+  /**
+   * Replace the clock used by the retry services
+   */
+  static configure(next: Clock): void {
+    clock = next;
+  }
+
+  /**
+   * Get the active clock
+   */
+  static getClock(): Clock {
+    return clock;
+  }
+
+  /**
+   * Current time according to the active clock
+   */
+  static now(): Date {
+    return clock.now();
+  }
+}
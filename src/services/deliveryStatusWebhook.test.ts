@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { RetryTtlConfig } from '@/types/campaign';
+import { CampaignService } from './campaignService';
+import { Clock, ClockService, VirtualClock } from './clock';
+import {
+  DeliveryStatusWebhookService,
+  InMemoryDeliveryStatusStore,
+  SIGNATURE_HEADER,
+  SupabaseDeliveryStatusStore,
+  WhatsAppStatusWebhookPayload
+} from './deliveryStatusWebhook';
+import { InMemoryRetryStateStore } from './retryStateStore';
+import { InMemoryRetryStopEventStore } from './retryStopEvents';
+
+const APP_SECRET = 'app-secret';
+
+const failedStatusPayload = (campaignId: string) => JSON.stringify({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: '102290129340398',
+    changes: [{
+      field: 'messages',
+      value: {
+        statuses: [{
+          id: 'wamid.failed-1',
+          status: 'failed',
+          timestamp: '1710000120',
+          recipient_id: '919800000003',
+          biz_opaque_callback_data: campaignId,
+          errors: [{ code: 131049, message: 'Not delivered' }]
+        }]
+      }
+    }]
+  }]
+});
+
+const deliver = async (rawBody: string) => DeliveryStatusWebhookService.handleRequest(
+  { method: 'POST', headers: { [SIGNATURE_HEADER]: await DeliveryStatusWebhookService.signPayload(rawBody, APP_SECRET) }, rawBody },
+  { appSecret: APP_SECRET },
+  new SupabaseDeliveryStatusStore(),
+  new InMemoryRetryStateStore(),
+  new InMemoryRetryStopEventStore()
+);
+
+describe('DeliveryStatusWebhookService with the Supabase store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('acknowledges and ignores callback data that is not a campaign ID', async () => {
+    const rpc = vi.spyOn(supabase, 'rpc');
+
+    const response = await deliver(failedStatusPayload('not-a-campaign'));
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ processed: 0, unmatched: 1, unknownCampaignIds: ['not-a-campaign'], queuedForRetry: [] });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges and ignores statuses for campaigns that do not exist', async () => {
+    vi.spyOn(SupabaseDeliveryStatusStore.prototype, 'getReachedStages').mockResolvedValue([]);
+    vi.spyOn(supabase, 'rpc').mockResolvedValue({ data: null, error: null } as never);
+
+    const response = await deliver(failedStatusPayload('6f1c2d3e-4b5a-4c6d-8e7f-901a2b3c4d5e'));
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      processed: 0,
+      unmatched: 1,
+      unknownCampaignIds: ['6f1c2d3e-4b5a-4c6d-8e7f-901a2b3c4d5e'],
+      queuedForRetry: []
+    });
+  });
+});
+
+describe('DeliveryStatusWebhookService retry queueing', () => {
+  let previousClock: Clock;
+  let store: InMemoryDeliveryStatusStore;
+  let retryStore: InMemoryRetryStateStore;
+  let stopEvents: InMemoryRetryStopEventStore;
+
+  beforeEach(async () => {
+    previousClock = ClockService.getClock();
+    // 09:00 in Asia/Kolkata, outside the default quiet hours
+    ClockService.configure(new VirtualClock('2024-03-01T03:30:00Z'));
+    store = new InMemoryDeliveryStatusStore();
+    retryStore = new InMemoryRetryStateStore();
+    stopEvents = new InMemoryRetryStopEventStore();
+
+    const retryConfig: RetryTtlConfig = {
+      enabled: true,
+      ttlDateTime: '2024-03-29T03:30:00Z',
+      scheduledDateTime: '2024-03-01T03:30:00Z',
+      stopOnConversion: true,
+      stopOnManualPause: true,
+      stopOnTemplateChange: true
+    };
+    await CampaignService.setRetryConfig('campaign-1', retryConfig, retryStore);
+  });
+
+  afterEach(() => {
+    ClockService.configure(previousClock);
+    vi.restoreAllMocks();
+  });
+
+  const handle = () => DeliveryStatusWebhookService.handleStatusWebhook(
+    JSON.parse(failedStatusPayload('campaign-1')) as WhatsAppStatusWebhookPayload,
+    store,
+    retryStore,
+    stopEvents
+  );
+
+  it('queues a failure again when Meta redelivers a webhook whose first delivery failed to queue it', async () => {
+    vi.spyOn(retryStore, 'saveRecipients').mockRejectedValueOnce(new Error('campaign_retry_recipients is unavailable'));
+
+    await expect(handle()).rejects.toThrow('campaign_retry_recipients is unavailable');
+    const result = await handle();
+
+    expect(result).toMatchObject({ processed: 1, duplicates: 0 });
+    expect(result.queuedForRetry).toEqual([{ campaignId: 'campaign-1', recipientId: '+919800000003', errorCode: '131049' }]);
+    expect((await retryStore.listRecipients('campaign-1')).map(recipient => recipient.status)).toEqual(['retrying']);
+  });
+
+  it('does not queue a redelivered failure twice', async () => {
+    await handle();
+    const [queued] = await retryStore.listRecipients('campaign-1');
+
+    const result = await handle();
+
+    expect(result).toMatchObject({ processed: 0, duplicates: 1, queuedForRetry: [] });
+    expect(await retryStore.listRecipients('campaign-1')).toEqual([queued]);
+  });
+});
@@ -0,0 +1,431 @@
+import { supabase, Database } from '@/lib/supabase';
+import { RetryErrorCode } from '@/types/campaign';
+import { CampaignService } from './campaignService';
+import { RetryService } from './retryService';
+import { RetryStateStore } from './retryStateStore';
+import { RetryStopEventService, RetryStopEventStore } from './retryStopEvents';
+
+type ApplyMessageStatusArgs = Database['public']['Functions']['apply_message_status']['Args'];
+
+export type WhatsAppMessageStatusValue = 'sent' | 'delivered' | 'read' | 'failed';
+
+// Meta `messages` webhook status entry (https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components#statuses-object)
+export interface WhatsAppMessageStatus {
+  id: string; // wamid of the message
+  status: WhatsAppMessageStatusValue;
+  timestamp: string; // Unix seconds
+  recipient_id: string; // Phone number without the leading +
+  biz_opaque_callback_data?: string; // Campaign ID set when the message was sent
+  errors?: {
+    code: number | string;
+    title?: string;
+    message?: string;
+    error_data?: { details?: string };
+  }[];
+}
+
+// Meta `messages` webhook payload carrying delivery statuses
+export interface WhatsAppStatusWebhookPayload {
+  object: string;
+  entry: {
+    id: string;
+    changes: {
+      field: string;
+      value: {
+        messaging_product?: string;
+        metadata?: { display_phone_number?: string; phone_number_id?: string };
+        statuses?: WhatsAppMessageStatus[];
+      };
+    }[];
+  }[];
+}
+
+export interface MessageStatusUpdate {
+  messageId: string;
+  campaignId: string;
+  recipientId: string; // Phone number (E.164)
+  status: WhatsAppMessageStatusValue;
+  occurredAt: string; // ISO 8601 datetime
+  errorCode?: RetryErrorCode;
+  errorMessage?: string;
+}
+
+// Delivery stages counted once per message
+export type DeliveryStage = WhatsAppMessageStatusValue;
+
+export interface CampaignDeliveryCounters {
+  sent: number;
+  delivered: number;
+  read: number; // Shown as "opened"
+  failed: number;
+}
+
+export interface DeliveryStatusWebhookResult {
+  processed: number; // Statuses that advanced a message
+  duplicates: number; // Statuses already applied (Meta redelivers webhooks)
+  unmatched: number; // Statuses without a campaign ID, or naming a campaign that doesn't exist
+  unknownCampaignIds: string[]; // Campaign IDs named by statuses that matched no campaign
+  queuedForRetry: { campaignId: string; recipientId: string; errorCode: RetryErrorCode }[];
+}
+
+export interface WebhookRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>; // Lower-case header names
+  query?: Record<string, string | undefined>;
+  rawBody?: string | Uint8Array; // Exact bytes Meta signed
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+export interface WebhookSecrets {
+  appSecret: string; // Meta app secret used for X-Hub-Signature-256
+  verifyToken?: string; // Token configured for the subscription handshake
+}
+
+export const SIGNATURE_HEADER = 'x-hub-signature-256';
+
+const STAGE_ORDER: Record<Exclude<DeliveryStage, 'failed'>, DeliveryStage[]> = {
+  sent: ['sent'],
+  delivered: ['sent', 'delivered'],
+  read: ['sent', 'delivered', 'read']
+};
+
+/**
+ * Stages a status newly reaches for a message that already reached `reached`.
+ * A later status implies the earlier ones, since Meta may skip or reorder them.
+ */
+export function getNewDeliveryStages(status: WhatsAppMessageStatusValue, reached: Set<DeliveryStage>): DeliveryStage[] {
+  const stages = status === 'failed' ? ['failed' as const] : STAGE_ORDER[status] ?? [];
+  return stages.filter(stage => !reached.has(stage));
+}
+
+/**
+ * Per-message delivery progress and the campaign counters derived from it
+ */
+export interface DeliveryStatusStore {
+  // Returns the stages the message already reached (null when the status can't belong to a campaign)
+  getReachedStages(update: MessageStatusUpdate): Promise<DeliveryStage[] | null>;
+  // Returns the stages the message newly reached (empty for repeated statuses, null for unknown campaigns)
+  applyStatus(update: MessageStatusUpdate): Promise<DeliveryStage[] | null>;
+}
+
+/**
+ * In-memory delivery status store (used by tests and the offline replay tool)
+ */
+export class InMemoryDeliveryStatusStore implements DeliveryStatusStore {
+  private messages = new Map<string, Set<DeliveryStage>>();
+  private counters = new Map<string, CampaignDeliveryCounters>();
+
+  async getReachedStages(update: MessageStatusUpdate): Promise<DeliveryStage[]> {
+    return Array.from(this.messages.get(update.messageId) || []);
+  }
+
+  async applyStatus(update: MessageStatusUpdate): Promise<DeliveryStage[]> {
+    const reached = this.messages.get(update.messageId) || new Set<DeliveryStage>();
+    const stages = getNewDeliveryStages(update.status, reached);
+
+    stages.forEach(stage => reached.add(stage));
+    this.messages.set(update.messageId, reached);
+
+    const counters = this.getCounters(update.campaignId);
+    stages.forEach(stage => counters[stage]++);
+    this.counters.set(update.campaignId, counters);
+
+    return stages;
+  }
+
+  /**
+   * Get a campaign's delivery counters
+   */
+  getCounters(campaignId: string): CampaignDeliveryCounters {
+    return { ...(this.counters.get(campaignId) || { sent: 0, delivered: 0, read: 0, failed: 0 }) };
+  }
+
+  /**
+   * Get every campaign's delivery counters, keyed by campaign ID
+   */
+  getAllCounters(): Record<string, CampaignDeliveryCounters> {
+    return Object.fromEntries(Array.from(this.counters.keys(), campaignId => [campaignId, this.getCounters(campaignId)]));
+  }
+
+  /**
+   * Remove all messages and counters
+   */
+  clear(): void {
+    this.messages.clear();
+    this.counters.clear();
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a callback's campaign ID can name a Supabase campaign
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Supabase-backed store (whatsapp_message_statuses; campaign counters updated atomically through RPC)
+ */
+export class SupabaseDeliveryStatusStore implements DeliveryStatusStore {
+  async getReachedStages(update: MessageStatusUpdate): Promise<DeliveryStage[] | null> {
+    // Callback data is free text set by whoever sent the message
+    if (!isUuid(update.campaignId)) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('whatsapp_message_statuses')
+      .select('sent_at, delivered_at, read_at, failed_at')
+      .eq('message_id', update.messageId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return [];
+
+    const reached: [DeliveryStage, string | null][] = [
+      ['sent', data.sent_at],
+      ['delivered', data.delivered_at],
+      ['read', data.read_at],
+      ['failed', data.failed_at]
+    ];
+    return reached.filter(([, at]) => at !== null).map(([stage]) => stage);
+  }
+
+  async applyStatus(update: MessageStatusUpdate): Promise<DeliveryStage[] | null> {
+    if (!isUuid(update.campaignId)) {
+      return null;
+    }
+
+    const args: ApplyMessageStatusArgs = {
+      p_message_id: update.messageId,
+      p_campaign_id: update.campaignId,
+      p_recipient_id: update.recipientId,
+      p_status: update.status,
+      p_error_code: update.errorCode ?? null,
+      p_occurred_at: update.occurredAt
+    };
+    const { data, error } = await supabase.rpc('apply_message_status', args);
+
+    if (error) throw error;
+
+    return data as DeliveryStage[] | null;
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of a request body (Web Crypto, so it runs in the browser, Node and edge runtimes)
+ */
+async function hmacSha256Hex(secret: string, body: string | Uint8Array): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, typeof body === 'string' ? encoder.encode(body) : body);
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const headerValue = (headers: WebhookRequest['headers'], name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Delivery status storage backend (swap for InMemoryDeliveryStatusStore in tests)
+let deliveryStatusStore: DeliveryStatusStore = new SupabaseDeliveryStatusStore();
+
+export class DeliveryStatusWebhookService {
+  /**
+   * Replace the delivery status storage backend
+   */
+  static useStore(store: DeliveryStatusStore): void {
+    deliveryStatusStore = store;
+  }
+
+  /**
+   * Get the active delivery status storage backend
+   */
+  static getStore(): DeliveryStatusStore {
+    return deliveryStatusStore;
+  }
+
+  /**
+   * Compute the X-Hub-Signature-256 header value for a body (used by the replay tool)
+   */
+  static async signPayload(rawBody: string | Uint8Array, appSecret: string): Promise<string> {
+    return `sha256=${await hmacSha256Hex(appSecret, rawBody)}`;
+  }
+
+  /**
+   * Check an X-Hub-Signature-256 header against the raw request body
+   */
+  static async verifySignature(
+    rawBody: string | Uint8Array,
+    signatureHeader: string | null | undefined,
+    appSecret: string
+  ): Promise<boolean> {
+    if (!signatureHeader?.startsWith('sha256=') || !appSecret) {
+      return false;
+    }
+    return timingSafeEqual(signatureHeader, await this.signPayload(rawBody, appSecret));
+  }
+
+  /**
+   * Flatten a webhook payload into status updates; statuses without a campaign ID are skipped
+   */
+  static parseStatuses(payload: WhatsAppStatusWebhookPayload): { updates: MessageStatusUpdate[]; unmatched: number } {
+    const updates: MessageStatusUpdate[] = [];
+    let unmatched = 0;
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+
+        for (const status of change.value.statuses || []) {
+          if (!status.biz_opaque_callback_data) {
+            unmatched++;
+            continue;
+          }
+
+          const [error] = status.errors || [];
+          updates.push({
+            messageId: status.id,
+            campaignId: status.biz_opaque_callback_data,
+            recipientId: status.recipient_id.startsWith('+') ? status.recipient_id : `+${status.recipient_id}`,
+            status: status.status,
+            occurredAt: new Date(Number(status.timestamp) * 1000).toISOString(),
+            errorCode: error ? String(error.code) : undefined,
+            errorMessage: error?.error_data?.details || error?.message || error?.title
+          });
+        }
+      }
+    }
+
+    return { updates, unmatched };
+  }
+
+  /**
+   * Apply a webhook's statuses to the campaign counters, add failed messages with a
+   * retryable error code to the campaign's retry ledger and mark retries delivered. `loadPolicies` loads the
+   * retry policies of the campaigns' owners first (the service-role receiver sees every account).
+   * Statuses for unknown campaigns are counted as unmatched, so Meta doesn't redeliver them.
+   * The ledger is updated before the status is recorded: when that throws, Meta's
+   * redelivery of the webhook is still treated as new rather than as a duplicate.
+   */
+  static async handleStatusWebhook(
+    payload: WhatsAppStatusWebhookPayload,
+    store: DeliveryStatusStore = deliveryStatusStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    stopEvents: RetryStopEventStore = RetryStopEventService.getStore(),
+    loadPolicies?: (campaignIds: string[]) => Promise<void>
+  ): Promise<DeliveryStatusWebhookResult> {
+    const { updates, unmatched } = this.parseStatuses(payload);
+    const result: DeliveryStatusWebhookResult = { processed: 0, duplicates: 0, unmatched, unknownCampaignIds: [], queuedForRetry: [] };
+
+    const failedCampaignIds = updates.filter(update => update.status === 'failed').map(update => update.campaignId);
+    if (loadPolicies && failedCampaignIds.length > 0) {
+      await loadPolicies([...new Set(failedCampaignIds)]);
+    }
+
+    const recordUnknownCampaign = (campaignId: string) => {
+      result.unmatched++;
+      if (!result.unknownCampaignIds.includes(campaignId)) {
+        result.unknownCampaignIds.push(campaignId);
+      }
+    };
+
+    for (const update of updates) {
+      const reached = await store.getReachedStages(update);
+      if (!reached) {
+        recordUnknownCampaign(update.campaignId);
+        continue;
+      }
+
+      const { campaignId, recipientId, errorCode, errorMessage } = update;
+      const newStages = getNewDeliveryStages(update.status, new Set(reached));
+      const queued = newStages.includes('failed') && errorCode && RetryService.getRetryPolicy(errorCode, campaignId)
+        ? await CampaignService.recordRecipientFailures(
+          campaignId,
+          [{ recipientId, success: false, errorCode, message: errorMessage }],
+          retryStore,
+          stopEvents
+        )
+        : [];
+      if (newStages.includes('delivered')) {
+        await CampaignService.recordRecipientDeliveries(campaignId, [recipientId], retryStore);
+      }
+
+      const stages = await store.applyStatus(update);
+      if (!stages) {
+        recordUnknownCampaign(campaignId);
+        continue;
+      }
+      if (stages.length === 0) {
+        result.duplicates++;
+        continue;
+      }
+      result.processed++;
+
+      if (errorCode && queued.length > 0) {
+        result.queuedForRetry.push({ campaignId, recipientId, errorCode });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Handle a webhook HTTP request: the GET subscription handshake, or a signed POST of statuses
+   */
+  static async handleRequest(
+    request: WebhookRequest,
+    secrets: WebhookSecrets,
+    store: DeliveryStatusStore = deliveryStatusStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    stopEvents: RetryStopEventStore = RetryStopEventService.getStore(),
+    loadPolicies?: (campaignIds: string[]) => Promise<void>
+  ): Promise<WebhookResponse> {
+    if (request.method === 'GET') {
+      const { query = {} } = request;
+      const verified = query['hub.mode'] === 'subscribe' &&
+        !!secrets.verifyToken &&
+        query['hub.verify_token'] === secrets.verifyToken;
+      return verified ? { status: 200, body: query['hub.challenge'] ?? '' } : { status: 403, body: 'Forbidden' };
+    }
+
+    if (request.method !== 'POST') {
+      return { status: 405, body: 'Method not allowed' };
+    }
+
+    const rawBody = request.rawBody ?? '';
+    if (!(await this.verifySignature(rawBody, headerValue(request.headers, SIGNATURE_HEADER), secrets.appSecret))) {
+      return { status: 401, body: 'Invalid signature' };
+    }
+
+    let payload: WhatsAppStatusWebhookPayload;
+    try {
+      payload = JSON.parse(typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody));
+    } catch {
+      return { status: 400, body: 'Invalid JSON' };
+    }
+
+    const result = await this.handleStatusWebhook(payload, store, retryStore, stopEvents, loadPolicies);
+    return { status: 200, body: JSON.stringify(result) };
+  }
+}
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Clock, ClockService, VirtualClock } from './clock';
+import { InMemoryMessagingBucketStore, MessagingRateLimiter } from './messagingRateLimiter';
+
+describe('MessagingRateLimiter', () => {
+  let previousClock: Clock;
+  let store: InMemoryMessagingBucketStore;
+
+  beforeEach(() => {
+    previousClock = ClockService.getClock();
+    ClockService.configure(new VirtualClock('2024-03-01T09:00:00Z'));
+    store = new InMemoryMessagingBucketStore();
+  });
+
+  afterEach(() => {
+    ClockService.configure(previousClock);
+  });
+
+  it("keeps each account's budget for a business number separate", async () => {
+    const spent = await MessagingRateLimiter.reserve('netcore', 10000, store, 'user-a');
+    const other = await MessagingRateLimiter.reserve('netcore', 10, store, 'user-b');
+    const again = await MessagingRateLimiter.reserve('netcore', 10, store, 'user-a');
+
+    expect(spent.granted).toBe(10000);
+    expect(other.granted).toBe(10);
+    expect(again.granted).toBe(0);
+    expect(again.retryAt).toBeDefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { supabase, Database } from '@/lib/supabase';
+import { BUSINESS_NUMBERS, BusinessNumber, DEFAULT_BUSINESS_NUMBER_ID } from '@/types/campaign';
+import { ClockService } from './clock';
+
+type TakeTokensArgs = Database['public']['Functions']['take_messaging_tokens']['Args'];
+
+// Meta messaging tiers are measured over a rolling 24 hours
+export const MESSAGING_TIER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface TokenGrant {
+  granted: number; // Tokens taken (at most the number requested)
+  remaining: number; // Tokens left after the grant
+  capacity: number; // Bucket size: the number's messaging tier
+}
+
+export interface MessagingBudget {
+  businessNumberId: string;
+  limit: number; // Messages per 24 hours for the number's tier
+  remaining: number;
+  fullAt: string; // ISO 8601 datetime at which the bucket is full again
+}
+
+export interface MessagingReservation extends MessagingBudget {
+  requested: number;
+  granted: number;
+  retryAt?: string; // ISO 8601 datetime at which the ungranted messages fit the budget
+}
+
+/**
+ * Token buckets shared by everything that sends messages (initial sends and retries), one per
+ * account and business number. A bucket holds one tier's worth of tokens and refills continuously
+ * over the tier window. `ownerId` is the campaign owner (the signed-in user when omitted).
+ */
+export interface MessagingBucketStore {
+  take(businessNumber: BusinessNumber, requested: number, ownerId?: string): Promise<TokenGrant>;
+}
+
+/**
+ * In-process token buckets (for engines sharing one process, tests and local development)
+ */
+export class InMemoryMessagingBucketStore implements MessagingBucketStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  async take(businessNumber: BusinessNumber, requested: number, ownerId?: string): Promise<TokenGrant> {
+    const key = ownerId ? `${ownerId}:${businessNumber.id}` : businessNumber.id;
+    const capacity = businessNumber.dailyMessagingLimit;
+    const now = ClockService.now().getTime();
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / MESSAGING_TIER_WINDOW_MS);
+    const granted = Math.min(Math.max(requested, 0), Math.floor(tokens));
+
+    this.buckets.set(key, { tokens: tokens - granted, updatedAt: now });
+    return { granted, remaining: tokens - granted, capacity };
+  }
+
+  /**
+   * Reset every bucket to full
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+}
+
+/**
+ * Supabase-backed token buckets (messaging_rate_buckets, refilled and taken atomically through RPC).
+ * The capacity comes from the owner's business_numbers row, never from the caller.
+ */
+export class SupabaseMessagingBucketStore implements MessagingBucketStore {
+  async take(businessNumber: BusinessNumber, requested: number, ownerId?: string): Promise<TokenGrant> {
+    const args: TakeTokensArgs = {
+      p_business_number_id: businessNumber.id,
+      p_requested: requested,
+      p_owner_id: ownerId ?? null
+    };
+    const { data, error } = await supabase.rpc('take_messaging_tokens', args);
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      granted: row?.granted ?? 0,
+      remaining: row?.remaining ?? 0,
+      capacity: row?.capacity ?? businessNumber.dailyMessagingLimit
+    };
+  }
+}
+
+// Token bucket backend (swap for InMemoryMessagingBucketStore in tests)
+let bucketStore: MessagingBucketStore = new SupabaseMessagingBucketStore();
+
+export class MessagingRateLimiter {
+  /**
+   * Replace the token bucket backend
+   */
+  static useStore(store: MessagingBucketStore): void {
+    bucketStore = store;
+  }
+
+  /**
+   * Get the active token bucket backend
+   */
+  static getStore(): MessagingBucketStore {
+    return bucketStore;
+  }
+
+  /**
+   * Get a business number (the account's default number when the ID is unknown or omitted)
+   */
+  static getBusinessNumber(businessNumberId?: string): BusinessNumber {
+    return BUSINESS_NUMBERS.find(number => number.id === businessNumberId)
+      ?? BUSINESS_NUMBERS.find(number => number.id === DEFAULT_BUSINESS_NUMBER_ID);
+  }
+
+  /**
+   * Get the remaining 24h budget of a business number without using any of it
+   */
+  static async getBudget(
+    businessNumberId?: string,
+    store: MessagingBucketStore = bucketStore,
+    ownerId?: string
+  ): Promise<MessagingBudget> {
+    const { limit, remaining, fullAt } = await this.reserve(businessNumberId, 0, store, ownerId);
+    return { businessNumberId: this.getBusinessNumber(businessNumberId).id, limit, remaining, fullAt };
+  }
+
+  /**
+   * Take up to `messages` from a business number's budget. When the budget runs short,
+   * `retryAt` is when the rest will fit; the caller defers that part of the work.
+   * Workers pass the campaign owner (`ownerId`); the browser always uses its own account.
+   */
+  static async reserve(
+    businessNumberId: string | undefined,
+    messages: number,
+    store: MessagingBucketStore = bucketStore,
+    ownerId?: string
+  ): Promise<MessagingReservation> {
+    const businessNumber = this.getBusinessNumber(businessNumberId);
+    const { granted, remaining, capacity: limit } = await store.take(businessNumber, messages, ownerId);
+
+    const now = ClockService.now().getTime();
+    const refillMsPerToken = MESSAGING_TIER_WINDOW_MS / limit;
+    const shortfall = Math.min(messages - granted, limit) - remaining;
+
+    return {
+      businessNumberId: businessNumber.id,
+      limit,
+      remaining: Math.floor(remaining),
+      fullAt: new Date(now + Math.ceil((limit - remaining) * refillMsPerToken)).toISOString(),
+      requested: messages,
+      granted,
+      retryAt: granted < messages
+        ? new Date(now + Math.ceil(Math.max(shortfall, 1) * refillMsPerToken)).toISOString()
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { DateTime } from 'luxon';
+import { RetryErrorCode } from '@/types/campaign';
+import { AccountSettingsService } from './accountSettingsService';
+import { CampaignService } from './campaignService';
+import { CampaignRetryState } from './retryService';
+
+export type RetryAnalyticsBucket = 'hour' | 'day' | 'week';
+
+export interface RetryRecoveryCounts {
+  sent: number; // Retry messages sent
+  recovered: number; // Retry messages delivered
+  cost: number; // Extra spend on delivered retry messages
+}
+
+export interface RetryRecoveryBreakdown extends RetryRecoveryCounts {
+  errorCode: RetryErrorCode;
+  attemptNumber: number;
+}
+
+export interface RetryAnalyticsPoint extends RetryRecoveryCounts {
+  bucketStart: string; // ISO 8601 datetime
+}
+
+export interface RetryAnalytics {
+  currency: string;
+  totals: RetryRecoveryCounts & { attempts: number; recoveryRate: number };
+  byErrorCode: Record<string, RetryRecoveryCounts>;
+  byAttemptNumber: Record<number, RetryRecoveryCounts>;
+  breakdown: RetryRecoveryBreakdown[]; // Per error code and attempt number
+  series: RetryAnalyticsPoint[]; // Time-bucketed by execution time
+}
+
+export interface RetryAnalyticsOptions {
+  bucket?: RetryAnalyticsBucket;
+  timezone?: string; // Bucket boundaries (account timezone by default)
+  messageCost?: { currency: string; amount: number }; // Account rate by default
+}
+
+const emptyCounts = (): RetryRecoveryCounts => ({ sent: 0, recovered: 0, cost: 0 });
+
+const addCounts = (counts: RetryRecoveryCounts, sent: number, recovered: number, cost: number) => {
+  counts.sent += sent;
+  counts.recovered += recovered;
+  counts.cost += cost;
+};
+
+// Quote values containing separators so the CSV opens cleanly in spreadsheets
+const toCsvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class RetryAnalyticsService {
+  /**
+   * Aggregate recovered deliveries and cost over the attempts of one or more campaigns
+   */
+  static aggregate(retryStates: CampaignRetryState[], options: RetryAnalyticsOptions = {}): RetryAnalytics {
+    const accountSettings = AccountSettingsService.getSettings();
+    const { bucket = 'day', timezone = accountSettings.timezone, messageCost = accountSettings.messageCost } = options;
+
+    const totals = { ...emptyCounts(), attempts: 0, recoveryRate: 0 };
+    const byErrorCode: Record<string, RetryRecoveryCounts> = {};
+    const byAttemptNumber: Record<number, RetryRecoveryCounts> = {};
+    const breakdown = new Map<string, RetryRecoveryBreakdown>();
+    const series = new Map<string, RetryAnalyticsPoint>();
+
+    retryStates.forEach(retryState => {
+      retryState.attempts.forEach(attempt => {
+        if (!attempt.deliveries || attempt.deliveries.length === 0) return;
+
+        totals.attempts++;
+        const bucketStart = DateTime.fromISO(attempt.executedAt || attempt.scheduledAt, { zone: timezone })
+          .startOf(bucket)
+          .toUTC()
+          .toISO();
+
+        attempt.deliveries.forEach(({ errorCode, sent, delivered }) => {
+          const cost = delivered * messageCost.amount;
+
+          addCounts(totals, sent, delivered, cost);
+          byErrorCode[errorCode] = byErrorCode[errorCode] || emptyCounts();
+          addCounts(byErrorCode[errorCode], sent, delivered, cost);
+
+          byAttemptNumber[attempt.attemptNumber] = byAttemptNumber[attempt.attemptNumber] || emptyCounts();
+          addCounts(byAttemptNumber[attempt.attemptNumber], sent, delivered, cost);
+
+          const breakdownKey = `${errorCode}:${attempt.attemptNumber}`;
+          if (!breakdown.has(breakdownKey)) {
+            breakdown.set(breakdownKey, { errorCode, attemptNumber: attempt.attemptNumber, ...emptyCounts() });
+          }
+          addCounts(breakdown.get(breakdownKey), sent, delivered, cost);
+
+          if (!series.has(bucketStart)) {
+            series.set(bucketStart, { bucketStart, ...emptyCounts() });
+          }
+          addCounts(series.get(bucketStart), sent, delivered, cost);
+        });
+      });
+    });
+
+    totals.recoveryRate = totals.sent > 0 ? totals.recovered / totals.sent : 0;
+
+    return {
+      currency: messageCost.currency,
+      totals,
+      byErrorCode,
+      byAttemptNumber,
+      breakdown: Array.from(breakdown.values())
+        .sort((a, b) => a.errorCode.localeCompare(b.errorCode) || a.attemptNumber - b.attemptNumber),
+      series: Array.from(series.values()).sort((a, b) => a.bucketStart.localeCompare(b.bucketStart))
+    };
+  }
+
+  /**
+   * Load a campaign's retry state and aggregate its attempts (null when it has none)
+   */
+  static async getCampaignAnalytics(
+    campaignId: string,
+    options: RetryAnalyticsOptions = {}
+  ): Promise<RetryAnalytics | null> {
+    const retryState = await CampaignService.getRetryState(campaignId);
+    return retryState ? this.aggregate([retryState], options) : null;
+  }
+
+  /**
+   * Export the per error code / attempt number breakdown as CSV
+   */
+  static toCsv(analytics: RetryAnalytics): string {
+    const header = ['Error code', 'Attempt', 'Sent', 'Recovered', 'Recovery rate', `Cost (${analytics.currency})`];
+    const rows = analytics.breakdown.map(row => [
+      row.errorCode,
+      row.attemptNumber,
+      row.sent,
+      row.recovered,
+      row.sent > 0 ? (row.recovered / row.sent).toFixed(4) : '0',
+      row.cost.toFixed(2)
+    ]);
+
+    return [header, ...rows]
+      .map(row => row.map(toCsvValue).join(','))
+      .join('\n');
+  }
+}
@@ -0,0 +1,335 @@
+import { supabase, Database } from '@/lib/supabase';
+import { CampaignService } from './campaignService';
+import { CampaignRetryState, RetryService } from './retryService';
+import { RetryStateStore } from './retryStateStore';
+import { RetryTtlRules, RetryTtlValidationError } from './retryTtlRules';
+import { RetryLockProvider, RetryLockService, getCampaignLockKey } from './retryLockProvider';
+import { SupabaseCampaignService } from './supabaseCampaignService';
+import { ClockService } from './clock';
+
+type RetryAuditRow = Database['public']['Tables']['campaign_retry_audit']['Row'];
+type RetryAuditInsert = Database['public']['Tables']['campaign_retry_audit']['Insert'];
+
+export type RetryControlAction = 'paused' | 'resumed' | 'ttl_changed' | 'cancelled';
+
+// Where a campaign's retries stand from an operator's point of view
+export type RetryControlStatus = 'active' | 'paused' | 'cancelled' | 'finished';
+
+export interface RetryControlAuditEntry {
+  campaignId: string;
+  action: RetryControlAction;
+  actor: string; // Operator email
+  details?: string;
+  occurredAt: string; // ISO 8601 datetime
+}
+
+/**
+ * Storage backend for the audit trail of operator retry controls
+ */
+export interface RetryControlAuditStore {
+  recordAudit(audit: RetryControlAuditEntry): Promise<void>;
+  listAudit(campaignId: string): Promise<RetryControlAuditEntry[]>;
+}
+
+/**
+ * In-memory retry control audit store (used by tests and local development)
+ */
+export class InMemoryRetryControlAuditStore implements RetryControlAuditStore {
+  private audit: RetryControlAuditEntry[] = [];
+
+  async recordAudit(audit: RetryControlAuditEntry): Promise<void> {
+    this.audit.push({ ...audit });
+  }
+
+  async listAudit(campaignId: string): Promise<RetryControlAuditEntry[]> {
+    return this.audit.filter(audit => audit.campaignId === campaignId).map(audit => ({ ...audit }));
+  }
+
+  /**
+   * Remove all audit entries
+   */
+  clear(): void {
+    this.audit = [];
+  }
+}
+
+/**
+ * Supabase-backed retry control audit store (campaign_retry_audit)
+ */
+export class SupabaseRetryControlAuditStore implements RetryControlAuditStore {
+  private static mapRowToAudit(row: RetryAuditRow): RetryControlAuditEntry {
+    return {
+      campaignId: row.campaign_id,
+      action: row.action,
+      actor: row.actor,
+      details: row.details ?? undefined,
+      occurredAt: row.occurred_at
+    };
+  }
+
+  async recordAudit(audit: RetryControlAuditEntry): Promise<void> {
+    const row: RetryAuditInsert = {
+      campaign_id: audit.campaignId,
+      action: audit.action,
+      actor: audit.actor,
+      details: audit.details ?? null,
+      occurred_at: audit.occurredAt
+    };
+
+    const { error } = await supabase
+      .from('campaign_retry_audit')
+      .insert(row);
+
+    if (error) throw error;
+  }
+
+  async listAudit(campaignId: string): Promise<RetryControlAuditEntry[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_audit')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data?.map(SupabaseRetryControlAuditStore.mapRowToAudit) || [];
+  }
+}
+
+// Long enough for a control action's reads and writes; released as soon as it finishes
+const CONTROL_LOCK_TTL_MS = 30 * 1000;
+
+// Retry control audit backend (swap for InMemoryRetryControlAuditStore in tests)
+let retryControlAuditStore: RetryControlAuditStore = new SupabaseRetryControlAuditStore();
+
+/**
+ * Operator controls for a single campaign's retries. Every action takes the campaign's
+ * retry lock, so it never interleaves with an attempt the engine is executing, and the
+ * engine picks up the new state on its next cycle.
+ */
+export class RetryControlService {
+  /**
+   * Replace the retry control audit backend
+   */
+  static useStore(store: RetryControlAuditStore): void {
+    retryControlAuditStore = store;
+  }
+
+  /**
+   * Get the active retry control audit backend
+   */
+  static getStore(): RetryControlAuditStore {
+    return retryControlAuditStore;
+  }
+
+  /**
+   * Derive the operator-facing status of a campaign's retries
+   */
+  static getControlStatus(retryState: CampaignRetryState | null, now: Date = ClockService.now()): RetryControlStatus {
+    if (!retryState) {
+      return 'finished';
+    }
+    if (retryState.cancelledAt) {
+      return 'cancelled';
+    }
+    if (retryState.pausedAt) {
+      return 'paused';
+    }
+
+    const { retryConfig, isExpired, nextAttemptAt } = retryState;
+    const expired = isExpired || (!!retryConfig.ttlDateTime && RetryService.isRetryTtlExpired(retryConfig.ttlDateTime, now));
+    return retryConfig.enabled && !expired && !!nextAttemptAt ? 'active' : 'finished';
+  }
+
+  /**
+   * Pause a campaign's pending retries; nothing is sent until they are resumed
+   */
+  static async pause(
+    campaignId: string,
+    actor: string,
+    store: RetryControlAuditStore = retryControlAuditStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    locks: RetryLockProvider = RetryLockService.getProvider()
+  ): Promise<CampaignRetryState> {
+    return this.withCampaignLock(campaignId, actor, locks, async () => {
+      const retryState = await this.getRetryStateInStatus(campaignId, 'active', 'pause', retryStore);
+      const now = ClockService.now().toISOString();
+
+      const paused: CampaignRetryState = {
+        ...retryState,
+        retryConfig: { ...retryState.retryConfig, enabled: false },
+        nextAttemptAt: undefined,
+        pausedAt: now
+      };
+      await retryStore.saveRetryState(paused);
+      await store.recordAudit({
+        campaignId,
+        action: 'paused',
+        actor,
+        details: `Next attempt was due at ${retryState.nextAttemptAt}`,
+        occurredAt: now
+      });
+
+      return paused;
+    });
+  }
+
+  /**
+   * Resume paused retries; the next attempt is recomputed from the current time
+   */
+  static async resume(
+    campaignId: string,
+    actor: string,
+    store: RetryControlAuditStore = retryControlAuditStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    locks: RetryLockProvider = RetryLockService.getProvider()
+  ): Promise<CampaignRetryState> {
+    return this.withCampaignLock(campaignId, actor, locks, async () => {
+      const retryState = await this.getRetryStateInStatus(campaignId, 'paused', 'resume', retryStore);
+      const now = ClockService.now();
+
+      if (retryState.retryConfig.ttlDateTime && RetryService.isRetryTtlExpired(retryState.retryConfig.ttlDateTime, now)) {
+        throw new Error('Retry TTL expired while retries were paused; extend the TTL before resuming');
+      }
+
+      const retryConfig = { ...retryState.retryConfig, enabled: true };
+      const nextAttemptAt = RetryService.adjustForQuietHours(now, retryConfig, campaignId).toISOString();
+
+      // Recipients still retrying are all due at the resumed attempt
+      const recipients = await retryStore.listRecipients(campaignId);
+      const retrying = recipients.filter(recipient => recipient.status === 'retrying');
+      if (retrying.length > 0) {
+        await retryStore.saveRecipients(campaignId, retrying.map(recipient => ({ ...recipient, nextAttemptAt })));
+      }
+
+      const resumed: CampaignRetryState = {
+        ...retryState,
+        retryConfig,
+        isExpired: false,
+        nextAttemptAt: recipients.length > 0 && retrying.length === 0 ? undefined : nextAttemptAt,
+        pausedAt: undefined
+      };
+      await retryStore.saveRetryState(resumed);
+      await store.recordAudit({
+        campaignId,
+        action: 'resumed',
+        actor,
+        details: resumed.nextAttemptAt ? `Next attempt at ${resumed.nextAttemptAt}` : 'No recipients left to retry',
+        occurredAt: now.toISOString()
+      });
+
+      return resumed;
+    });
+  }
+
+  /**
+   * Extend or shorten the retry TTL within the account's TTL bounds (active or paused retries)
+   */
+  static async changeTtl(
+    campaignId: string,
+    ttlDateTime: string,
+    actor: string,
+    store: RetryControlAuditStore = retryControlAuditStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    locks: RetryLockProvider = RetryLockService.getProvider()
+  ): Promise<CampaignRetryState> {
+    return this.withCampaignLock(campaignId, actor, locks, async () => {
+      const retryState = await this.getRetryStateInStatus(campaignId, ['active', 'paused'], 'change the TTL of', retryStore);
+      const now = ClockService.now();
+
+      // Bounds are measured from the original send, as in the campaign wizard
+      const validation = RetryTtlRules.validate(ttlDateTime, retryState.retryConfig.scheduledDateTime || now, undefined, now);
+      if (!validation.isValid) {
+        throw new RetryTtlValidationError(validation.errors);
+      }
+
+      const updated: CampaignRetryState = {
+        ...retryState,
+        retryConfig: { ...retryState.retryConfig, ttlDateTime },
+        isExpired: false
+      };
+      await retryStore.saveRetryState(updated);
+      await SupabaseCampaignService.restoreRetryTtl(campaignId, ttlDateTime);
+      await store.recordAudit({
+        campaignId,
+        action: 'ttl_changed',
+        actor,
+        details: `TTL changed from ${retryState.retryConfig.ttlDateTime ?? 'none'} to ${ttlDateTime}`,
+        occurredAt: now.toISOString()
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Cancel a campaign's retries for good; recipients still retrying are stopped
+   */
+  static async cancel(
+    campaignId: string,
+    reason: string,
+    actor: string,
+    store: RetryControlAuditStore = retryControlAuditStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore(),
+    locks: RetryLockProvider = RetryLockService.getProvider()
+  ): Promise<CampaignRetryState> {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to cancel retries');
+    }
+
+    return this.withCampaignLock(campaignId, actor, locks, async () => {
+      const retryState = await this.getRetryStateInStatus(campaignId, ['active', 'paused'], 'cancel', retryStore);
+      const now = ClockService.now().toISOString();
+
+      const cancelled: CampaignRetryState = {
+        ...retryState,
+        retryConfig: { ...retryState.retryConfig, enabled: false },
+        nextAttemptAt: undefined,
+        pausedAt: undefined,
+        cancelledAt: now,
+        cancelReason: reason.trim()
+      };
+      await retryStore.saveRetryState(cancelled);
+      await CampaignService.stopRetryRecipients(campaignId, `Retries cancelled: ${reason.trim()}`, retryStore);
+      await SupabaseCampaignService.clearRetryTtl([campaignId]);
+      await store.recordAudit({ campaignId, action: 'cancelled', actor, details: reason.trim(), occurredAt: now });
+
+      return cancelled;
+    });
+  }
+
+  private static async getRetryStateInStatus(
+    campaignId: string,
+    allowed: RetryControlStatus | RetryControlStatus[],
+    verb: string,
+    retryStore: RetryStateStore
+  ): Promise<CampaignRetryState> {
+    const retryState = await retryStore.getRetryState(campaignId);
+    const status = this.getControlStatus(retryState);
+
+    if (!([] as RetryControlStatus[]).concat(allowed).includes(status)) {
+      throw new Error(`Cannot ${verb} retries for campaign ${campaignId}: retries are ${status}`);
+    }
+    return retryState;
+  }
+
+  private static async withCampaignLock<T>(
+    campaignId: string,
+    actor: string,
+    locks: RetryLockProvider,
+    action: () => Promise<T>
+  ): Promise<T> {
+    const lockKey = getCampaignLockKey(campaignId);
+    const ownerId = `operator:${actor}:${crypto.randomUUID()}`;
+
+    if (!(await locks.acquire(lockKey, ownerId, CONTROL_LOCK_TTL_MS))) {
+      throw new Error('A retry attempt for this campaign is running right now; try again in a moment');
+    }
+
+    try {
+      return await action();
+    } finally {
+      await locks.release(lockKey, ownerId).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,494 @@
+import { supabase, Database } from '@/lib/supabase';
+import { RetryErrorCode } from '@/types/campaign';
+import { CampaignService } from './campaignService';
+import { RetryService, RecipientRetryState } from './retryService';
+import { RetryStateStore } from './retryStateStore';
+import { RetryTtlRules, RetryTtlValidationError } from './retryTtlRules';
+import { SupabaseCampaignService } from './supabaseCampaignService';
+import { ClockService } from './clock';
+
+type DeadLetterRow = Database['public']['Tables']['retry_dead_letters']['Row'];
+type DeadLetterInsert = Database['public']['Tables']['retry_dead_letters']['Insert'];
+type DeadLetterAuditRow = Database['public']['Tables']['retry_dead_letter_audit']['Row'];
+type DeadLetterAuditInsert = Database['public']['Tables']['retry_dead_letter_audit']['Insert'];
+
+export type DeadLetterReason = 'exhausted' | 'expired';
+export type DeadLetterStatus = 'open' | 'requeued' | 'exported' | 'dismissed';
+export type DeadLetterAction = 'created' | 'requeued' | 'exported' | 'dismissed';
+
+export interface DeadLetterEntry {
+  id: string;
+  campaignId: string;
+  reason: DeadLetterReason;
+  errorCode?: RetryErrorCode; // Final Meta error code
+  details?: string;
+  recipientCount: number; // Recipients still undelivered (0 for campaign-level retries)
+  status: DeadLetterStatus;
+  createdAt: string; // ISO 8601 datetime
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export interface DeadLetterAuditEntry {
+  deadLetterId: string;
+  campaignId: string;
+  action: DeadLetterAction;
+  actor: string; // Operator email, or the engine for entries it created
+  details?: string;
+  occurredAt: string; // ISO 8601 datetime
+}
+
+export interface RecipientSegment {
+  id: string;
+  name: string;
+  sourceCampaignId: string | null;
+  recipientIds: string[];
+}
+
+/**
+ * Storage backend for dead-lettered campaigns, their audit log and exported segments
+ */
+export interface DeadLetterStore {
+  addEntry(entry: Omit<DeadLetterEntry, 'id'>): Promise<DeadLetterEntry>;
+  getEntry(id: string): Promise<DeadLetterEntry | null>;
+  listEntries(status?: DeadLetterStatus): Promise<DeadLetterEntry[]>;
+  updateEntry(entry: DeadLetterEntry): Promise<void>;
+  recordAudit(audit: DeadLetterAuditEntry): Promise<void>;
+  listAudit(deadLetterId: string): Promise<DeadLetterAuditEntry[]>;
+  createSegment(segment: Omit<RecipientSegment, 'id'>): Promise<RecipientSegment>;
+}
+
+/**
+ * In-memory dead-letter store (used by tests and local development)
+ */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private entries = new Map<string, DeadLetterEntry>();
+  private audit: DeadLetterAuditEntry[] = [];
+  private segments: RecipientSegment[] = [];
+
+  async addEntry(entry: Omit<DeadLetterEntry, 'id'>): Promise<DeadLetterEntry> {
+    const created = { ...entry, id: crypto.randomUUID() };
+    this.entries.set(created.id, created);
+    return { ...created };
+  }
+
+  async getEntry(id: string): Promise<DeadLetterEntry | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async listEntries(status?: DeadLetterStatus): Promise<DeadLetterEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => !status || entry.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(entry => ({ ...entry }));
+  }
+
+  async updateEntry(entry: DeadLetterEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async recordAudit(audit: DeadLetterAuditEntry): Promise<void> {
+    this.audit.push({ ...audit });
+  }
+
+  async listAudit(deadLetterId: string): Promise<DeadLetterAuditEntry[]> {
+    return this.audit.filter(audit => audit.deadLetterId === deadLetterId).map(audit => ({ ...audit }));
+  }
+
+  async createSegment(segment: Omit<RecipientSegment, 'id'>): Promise<RecipientSegment> {
+    const created = { ...segment, id: crypto.randomUUID(), recipientIds: [...segment.recipientIds] };
+    this.segments.push(created);
+    return { ...created };
+  }
+
+  /**
+   * Get the segments created so far
+   */
+  getSegments(): RecipientSegment[] {
+    return this.segments.map(segment => ({ ...segment }));
+  }
+}
+
+/**
+ * Supabase-backed dead-letter store (retry_dead_letters, retry_dead_letter_audit, recipient_segments)
+ */
+export class SupabaseDeadLetterStore implements DeadLetterStore {
+  private static mapRowToEntry(row: DeadLetterRow): DeadLetterEntry {
+    return {
+      id: row.id,
+      campaignId: row.campaign_id,
+      reason: row.reason,
+      errorCode: row.error_code ?? undefined,
+      details: row.details ?? undefined,
+      recipientCount: row.recipient_count,
+      status: row.status,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at ?? undefined,
+      resolvedBy: row.resolved_by ?? undefined
+    };
+  }
+
+  private static mapEntryToRow(entry: Omit<DeadLetterEntry, 'id'>): DeadLetterInsert {
+    return {
+      campaign_id: entry.campaignId,
+      reason: entry.reason,
+      error_code: entry.errorCode ?? null,
+      details: entry.details ?? null,
+      recipient_count: entry.recipientCount,
+      status: entry.status,
+      resolved_at: entry.resolvedAt ?? null,
+      resolved_by: entry.resolvedBy ?? null,
+      created_at: entry.createdAt
+    };
+  }
+
+  private static mapRowToAudit(row: DeadLetterAuditRow): DeadLetterAuditEntry {
+    return {
+      deadLetterId: row.dead_letter_id,
+      campaignId: row.campaign_id,
+      action: row.action,
+      actor: row.actor,
+      details: row.details ?? undefined,
+      occurredAt: row.occurred_at
+    };
+  }
+
+  async addEntry(entry: Omit<DeadLetterEntry, 'id'>): Promise<DeadLetterEntry> {
+    const { data, error } = await supabase
+      .from('retry_dead_letters')
+      .insert(SupabaseDeadLetterStore.mapEntryToRow(entry))
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return SupabaseDeadLetterStore.mapRowToEntry(data);
+  }
+
+  async getEntry(id: string): Promise<DeadLetterEntry | null> {
+    const { data, error } = await supabase
+      .from('retry_dead_letters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? SupabaseDeadLetterStore.mapRowToEntry(data) : null;
+  }
+
+  async listEntries(status?: DeadLetterStatus): Promise<DeadLetterEntry[]> {
+    let query = supabase
+      .from('retry_dead_letters')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data?.map(SupabaseDeadLetterStore.mapRowToEntry) || [];
+  }
+
+  async updateEntry(entry: DeadLetterEntry): Promise<void> {
+    const { error } = await supabase
+      .from('retry_dead_letters')
+      .update(SupabaseDeadLetterStore.mapEntryToRow(entry))
+      .eq('id', entry.id);
+
+    if (error) throw error;
+  }
+
+  async recordAudit(audit: DeadLetterAuditEntry): Promise<void> {
+    const row: DeadLetterAuditInsert = {
+      dead_letter_id: audit.deadLetterId,
+      campaign_id: audit.campaignId,
+      action: audit.action,
+      actor: audit.actor,
+      details: audit.details ?? null,
+      occurred_at: audit.occurredAt
+    };
+
+    const { error } = await supabase
+      .from('retry_dead_letter_audit')
+      .insert(row);
+
+    if (error) throw error;
+  }
+
+  async listAudit(deadLetterId: string): Promise<DeadLetterAuditEntry[]> {
+    const { data, error } = await supabase
+      .from('retry_dead_letter_audit')
+      .select('*')
+      .eq('dead_letter_id', deadLetterId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data?.map(SupabaseDeadLetterStore.mapRowToAudit) || [];
+  }
+
+  async createSegment(segment: Omit<RecipientSegment, 'id'>): Promise<RecipientSegment> {
+    const { data, error } = await supabase
+      .from('recipient_segments')
+      .insert({
+        name: segment.name,
+        source_campaign_id: segment.sourceCampaignId,
+        recipient_ids: segment.recipientIds
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return {
+      id: data.id,
+      name: data.name,
+      sourceCampaignId: data.source_campaign_id,
+      recipientIds: data.recipient_ids
+    };
+  }
+}
+
+// Actor recorded for entries the retry engine creates
+export const RETRY_ENGINE_ACTOR = 'retry-engine';
+
+// Recipients that never got the message (exported and re-queued)
+const isUndelivered = (recipient: RecipientRetryState) =>
+  recipient.status === 'retrying' || recipient.status === 'exhausted';
+
+// Dead-letter storage backend (swap for InMemoryDeadLetterStore in tests)
+let deadLetterStore: DeadLetterStore = new SupabaseDeadLetterStore();
+
+export class RetryDeadLetterService {
+  /**
+   * Replace the dead-letter storage backend
+   */
+  static useStore(store: DeadLetterStore): void {
+    deadLetterStore = store;
+  }
+
+  /**
+   * Get the active dead-letter storage backend
+   */
+  static getStore(): DeadLetterStore {
+    return deadLetterStore;
+  }
+
+  /**
+   * Get the signed-in operator recorded in the audit log
+   */
+  static async getCurrentActor(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.email || user?.id || 'unknown';
+  }
+
+  /**
+   * Move a campaign into the dead-letter queue and stop its retries.
+   * Returns the existing entry when the campaign already has an open one.
+   */
+  static async deadLetter(
+    campaignId: string,
+    failure: { reason: DeadLetterReason; errorCode?: RetryErrorCode; details?: string },
+    actor: string = RETRY_ENGINE_ACTOR,
+    store: DeadLetterStore = deadLetterStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore()
+  ): Promise<DeadLetterEntry> {
+    const openEntries = await store.listEntries('open');
+    const existing = openEntries.find(entry => entry.campaignId === campaignId);
+    if (existing) {
+      return existing;
+    }
+
+    const recipients = await retryStore.listRecipients(campaignId);
+    const entry = await store.addEntry({
+      campaignId,
+      reason: failure.reason,
+      errorCode: failure.errorCode,
+      details: failure.details,
+      recipientCount: recipients.filter(isUndelivered).length,
+      status: 'open',
+      createdAt: ClockService.now().toISOString()
+    });
+
+    // Dead-lettered campaigns are not polled again until re-queued
+    const retryState = await retryStore.getRetryState(campaignId);
+    if (retryState) {
+      await retryStore.saveRetryState({
+        ...retryState,
+        retryConfig: { ...retryState.retryConfig, enabled: false },
+        nextAttemptAt: undefined
+      });
+    }
+
+    await store.recordAudit({
+      deadLetterId: entry.id,
+      campaignId,
+      action: 'created',
+      actor,
+      details: failure.details,
+      occurredAt: entry.createdAt
+    });
+
+    return entry;
+  }
+
+  /**
+   * Dead-letter every campaign whose retry TTL ran out while it was still retrying
+   */
+  static async sweepExpired(
+    store: DeadLetterStore = deadLetterStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore()
+  ): Promise<DeadLetterEntry[]> {
+    const retryStates = await retryStore.listExpiredRetryStates(ClockService.now());
+    // Only campaigns with a retry still pending; stopped and delivered campaigns are left alone
+    const expired = retryStates.filter(retryState =>
+      retryState.attempts[retryState.attempts.length - 1]?.status !== 'completed'
+    );
+
+    const entries: DeadLetterEntry[] = [];
+    for (const retryState of expired) {
+      entries.push(await this.deadLetter(
+        retryState.campaignId,
+        {
+          reason: 'expired',
+          errorCode: RetryService.getLastErrorCode(retryState.attempts),
+          details: `Retry TTL expired at ${retryState.retryConfig.ttlDateTime}`
+        },
+        RETRY_ENGINE_ACTOR,
+        store,
+        retryStore
+      ));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Re-queue a dead-lettered campaign with a new TTL; undelivered recipients restart their policies
+   */
+  static async requeue(
+    id: string,
+    ttlDateTime: string,
+    actor: string,
+    store: DeadLetterStore = deadLetterStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore()
+  ): Promise<DeadLetterEntry> {
+    const entry = await this.getOpenEntry(id, store);
+    const now = ClockService.now();
+
+    const validation = RetryTtlRules.validate(ttlDateTime, now);
+    if (!validation.isValid) {
+      throw new RetryTtlValidationError(validation.errors);
+    }
+
+    const retryState = await retryStore.getRetryState(entry.campaignId);
+    if (!retryState) {
+      throw new Error(`Campaign ${entry.campaignId} has no retry state to re-queue`);
+    }
+
+    const retryConfig = { ...retryState.retryConfig, enabled: true, ttlDateTime };
+    const nextAttemptAt = RetryService.adjustForQuietHours(now, retryConfig, entry.campaignId).toISOString();
+
+    await retryStore.saveRetryState({
+      ...retryState,
+      retryConfig,
+      isExpired: false,
+      nextAttemptAt,
+      requeuedAt: now.toISOString()
+    });
+
+    const recipients = await retryStore.listRecipients(entry.campaignId);
+    const undelivered = recipients.filter(isUndelivered);
+    if (undelivered.length > 0) {
+      await retryStore.saveRecipients(
+        entry.campaignId,
+        undelivered.map(recipient => ({ ...recipient, status: 'retrying', attemptCount: 0, nextAttemptAt }))
+      );
+    }
+
+    await SupabaseCampaignService.restoreRetryTtl(entry.campaignId, ttlDateTime);
+
+    return this.resolve(entry, 'requeued', actor, `Re-queued until ${ttlDateTime}`, store);
+  }
+
+  /**
+   * Export the campaign's undelivered recipients as a new segment
+   */
+  static async exportSegment(
+    id: string,
+    segmentName: string,
+    actor: string,
+    store: DeadLetterStore = deadLetterStore,
+    retryStore: RetryStateStore = CampaignService.getRetryStateStore()
+  ): Promise<RecipientSegment> {
+    const entry = await this.getOpenEntry(id, store);
+    const recipients = await retryStore.listRecipients(entry.campaignId);
+    const recipientIds = recipients.filter(isUndelivered).map(recipient => recipient.recipientId);
+
+    if (recipientIds.length === 0) {
+      throw new Error('This campaign has no undelivered recipients to export');
+    }
+
+    const segment = await store.createSegment({
+      name: segmentName,
+      sourceCampaignId: entry.campaignId,
+      recipientIds
+    });
+
+    await this.resolve(entry, 'exported', actor, `Exported ${recipientIds.length} recipients to segment "${segmentName}"`, store);
+    return segment;
+  }
+
+  /**
+   * Dismiss an entry without further action
+   */
+  static async dismiss(
+    id: string,
+    actor: string,
+    note?: string,
+    store: DeadLetterStore = deadLetterStore
+  ): Promise<DeadLetterEntry> {
+    const entry = await this.getOpenEntry(id, store);
+    return this.resolve(entry, 'dismissed', actor, note, store);
+  }
+
+  private static async getOpenEntry(id: string, store: DeadLetterStore): Promise<DeadLetterEntry> {
+    const entry = await store.getEntry(id);
+    if (!entry) {
+      throw new Error(`Dead-letter entry ${id} not found`);
+    }
+    if (entry.status !== 'open') {
+      throw new Error(`Dead-letter entry ${id} is already ${entry.status}`);
+    }
+    return entry;
+  }
+
+  private static async resolve(
+    entry: DeadLetterEntry,
+    status: Exclude<DeadLetterStatus, 'open'>,
+    actor: string,
+    details: string | undefined,
+    store: DeadLetterStore
+  ): Promise<DeadLetterEntry> {
+    const resolvedAt = ClockService.now().toISOString();
+    const resolved: DeadLetterEntry = { ...entry, status, resolvedAt, resolvedBy: actor };
+
+    await store.updateEntry(resolved);
+    await store.recordAudit({
+      deadLetterId: entry.id,
+      campaignId: entry.campaignId,
+      action: status,
+      actor,
+      details,
+      occurredAt: resolvedAt
+    });
+
+    return resolved;
+  }
+}
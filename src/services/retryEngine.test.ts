@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetryTtlConfig } from '@/types/campaign';
+import { Clock, ClockService, VirtualClock } from './clock';
+import { CampaignService } from './campaignService';
+import { InMemoryRetryStateStore } from './retryStateStore';
+import {
+  CampaignDispatcher,
+  CampaignDispatchRequest,
+  CampaignDispatchResult,
+  ScriptedCampaignDispatcher,
+  WhatsAppCloudDispatcher
+} from './campaignDispatcher';
+import { RetryEngine, RetryEngineConfig } from './retryEngine';
+import { InMemoryRetryStopEventStore } from './retryStopEvents';
+import { InMemoryTemplateStatusStore } from './templateRegistryService';
+import { InMemoryRetryLockProvider, getCampaignLockKey } from './retryLockProvider';
+import { InMemoryDeadLetterStore } from './retryDeadLetters';
+import { InMemoryMessagingBucketStore } from './messagingRateLimiter';
+import { InMemoryRetryEngineControlStore, RetryEngineControlService } from './retryEngineControls';
+
+const START = '2024-03-01T09:00:00Z';
+const TTL = '2024-03-29T09:00:00Z';
+
+// Polling is driven by triggerRetryProcessing, so the interval never fires on its own
+const ENGINE_CONFIG: RetryEngineConfig = {
+  maxConcurrentRetries: 10,
+  retryCheckIntervalMs: 365 * 24 * 60 * 60 * 1000,
+  enableLogging: false,
+  refreshRetryPolicies: false
+};
+
+const RETRY_CONFIG: RetryTtlConfig = {
+  enabled: true,
+  ttlDateTime: TTL,
+  scheduledDateTime: START,
+  stopOnConversion: true,
+  stopOnManualPause: true,
+  stopOnTemplateChange: true
+};
+
+describe('RetryEngine with concurrent instances', () => {
+  let clock: VirtualClock;
+  let previousClock: Clock;
+  let store: InMemoryRetryStateStore;
+  let dispatcher: ScriptedCampaignDispatcher;
+  let stopEvents: InMemoryRetryStopEventStore;
+  let engines: RetryEngine[];
+
+  beforeEach(() => {
+    previousClock = ClockService.getClock();
+    clock = new VirtualClock(START);
+    ClockService.configure(clock);
+
+    store = new InMemoryRetryStateStore();
+    dispatcher = new ScriptedCampaignDispatcher([
+      { success: false, errorCode: '131049', message: 'Not delivered' },
+      { success: false, errorCode: '131049', message: 'Not delivered' }
+    ]);
+
+    // Shared by both engines, as the Supabase-backed stores are across processes
+    const locks = new InMemoryRetryLockProvider();
+    const deadLetters = new InMemoryDeadLetterStore();
+    stopEvents = new InMemoryRetryStopEventStore();
+    const templates = new InMemoryTemplateStatusStore();
+    const rateLimits = new InMemoryMessagingBucketStore();
+
+    engines = ['engine-a', 'engine-b'].map(instanceId => new RetryEngine(
+      { dispatcher, store, locks, deadLetters, stopEvents, templates, rateLimits },
+      { ...ENGINE_CONFIG, instanceId }
+    ));
+    engines.forEach(engine => engine.start());
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.stop());
+    ClockService.configure(previousClock);
+  });
+
+  const runWave = () => Promise.all(engines.map(engine => engine.triggerRetryProcessing()));
+
+  it('dispatches each campaign wave once', async () => {
+    await CampaignService.setRetryConfig('campaign-1', RETRY_CONFIG, store);
+    await CampaignService.scheduleNextRetryAttempt('campaign-1', START, store);
+
+    for (let wave = 1; wave <= 3; wave++) {
+      const results = (await runWave()).flat();
+
+      expect(dispatcher.requests).toHaveLength(wave);
+      expect(results.filter(result => !result.locked && result.message !== 'Retry is no longer due')).toHaveLength(1);
+
+      const { nextAttemptAt } = await store.getRetryState('campaign-1');
+      if (nextAttemptAt) {
+        await clock.advanceTo(nextAttemptAt);
+      }
+    }
+
+    const { attempts } = await store.getRetryState('campaign-1');
+    const attemptNumbers = attempts.map(attempt => attempt.attemptNumber);
+    expect(attemptNumbers).toEqual([1, 2, 3]);
+    expect(dispatcher.requests.map(request => request.attemptNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('sends each recipient wave once', async () => {
+    await CampaignService.setRetryConfig('campaign-2', RETRY_CONFIG, store);
+    await CampaignService.recordRecipientFailures(
+      'campaign-2',
+      ['r1', 'r2', 'r3'].map(recipientId => ({ recipientId, success: false, errorCode: '131049' })),
+      store,
+      stopEvents
+    );
+    await clock.advanceTo((await store.getRetryState('campaign-2')).nextAttemptAt);
+
+    await runWave();
+
+    expect(dispatcher.requests).toHaveLength(1);
+    expect(dispatcher.requests[0].recipients).toEqual(['r1', 'r2', 'r3']);
+
+    const { attempts } = await store.getRetryState('campaign-2');
+    expect(new Set(attempts.map(attempt => attempt.attemptNumber)).size).toBe(attempts.length);
+  });
+});
+
+describe('RetryEngine campaign retries', () => {
+  let clock: VirtualClock;
+  let previousClock: Clock;
+  let store: InMemoryRetryStateStore;
+  let engine: RetryEngine | null;
+
+  beforeEach(() => {
+    previousClock = ClockService.getClock();
+    clock = new VirtualClock(START);
+    ClockService.configure(clock);
+    store = new InMemoryRetryStateStore();
+    engine = null;
+  });
+
+  afterEach(() => {
+    engine?.stop();
+    ClockService.configure(previousClock);
+  });
+
+  // Poll every minute, as the worker does by default
+  const startEngine = (dispatcher: CampaignDispatcher) => {
+    engine = new RetryEngine(
+      {
+        dispatcher,
+        store,
+        locks: new InMemoryRetryLockProvider(),
+        deadLetters: new InMemoryDeadLetterStore(),
+        stopEvents: new InMemoryRetryStopEventStore(),
+        templates: new InMemoryTemplateStatusStore(),
+        rateLimits: new InMemoryMessagingBucketStore()
+      },
+      { ...ENGINE_CONFIG, retryCheckIntervalMs: 60 * 1000 }
+    );
+    engine.start();
+  };
+
+  const scheduleRetry = async (campaignId: string) => {
+    await CampaignService.setRetryConfig(campaignId, RETRY_CONFIG, store);
+    await CampaignService.scheduleNextRetryAttempt(campaignId, START, store);
+  };
+
+  it('stops retrying once a retry succeeds', async () => {
+    const dispatcher = new ScriptedCampaignDispatcher();
+    startEngine(dispatcher);
+    await scheduleRetry('campaign-1');
+
+    await clock.advance(24 * 60 * 60 * 1000);
+
+    expect(dispatcher.requests).toHaveLength(1);
+    const retryState = await store.getRetryState('campaign-1');
+    expect(retryState.nextAttemptAt).toBeUndefined();
+    expect(retryState.attempts.map(attempt => attempt.status)).toEqual(['completed']);
+  });
+
+  it('stops retrying after a failure without an error code', async () => {
+    const dispatcher = new ScriptedCampaignDispatcher([], { success: false, message: 'Rejected' });
+    startEngine(dispatcher);
+    await scheduleRetry('campaign-1');
+
+    await clock.advance(24 * 60 * 60 * 1000);
+
+    expect(dispatcher.requests).toHaveLength(1);
+    expect((await store.getRetryState('campaign-1')).nextAttemptAt).toBeUndefined();
+  });
+
+  it('records a retry with no recipients to send to as failed', async () => {
+    const fetchImpl = vi.fn<typeof fetch>();
+    startEngine(new WhatsAppCloudDispatcher({
+      phoneNumberId: 'phone-number-id',
+      accessToken: 'access-token',
+      resolveMessages: async () => [],
+      fetchImpl
+    }));
+    await scheduleRetry('campaign-1');
+
+    await clock.advance(24 * 60 * 60 * 1000);
+
+    const retryState = await store.getRetryState('campaign-1');
+    expect(fetchImpl).not.toHaveBeenCalled();
+    expect(retryState.attempts.map(attempt => [attempt.status, attempt.deliveries])).toEqual([['failed', []]]);
+    expect(retryState.nextAttemptAt).toBeUndefined();
+  });
+
+  it('sends nothing while retries are stopped from the dashboard', async () => {
+    const controls = new InMemoryRetryEngineControlStore();
+    store = new InMemoryRetryStateStore(controls);
+    const dispatcher = new ScriptedCampaignDispatcher();
+    startEngine(dispatcher);
+    await scheduleRetry('campaign-1');
+    await RetryEngineControlService.stop('ops@example.com', controls);
+
+    await clock.advance(24 * 60 * 60 * 1000);
+
+    expect(dispatcher.requests).toHaveLength(0);
+    expect(await store.countDueRetryStates(clock.now())).toBe(0);
+    await expect(RetryEngineControlService.requestRun('ops@example.com', controls)).rejects.toThrow(/stopped/);
+
+    await RetryEngineControlService.start('ops@example.com', controls);
+    await clock.advance(60 * 1000);
+
+    expect(dispatcher.requests).toHaveLength(1);
+  });
+
+  it('keeps the campaign lock while a dispatch outlasts its lease', async () => {
+    let finishDispatch: (result: CampaignDispatchResult) => void = () => undefined;
+    const requests: CampaignDispatchRequest[] = [];
+    const locks = new InMemoryRetryLockProvider();
+    engine = new RetryEngine(
+      {
+        dispatcher: {
+          dispatch: request => {
+            requests.push(request);
+            return new Promise(resolve => { finishDispatch = resolve; });
+          }
+        },
+        store,
+        locks,
+        deadLetters: new InMemoryDeadLetterStore(),
+        stopEvents: new InMemoryRetryStopEventStore(),
+        templates: new InMemoryTemplateStatusStore(),
+        rateLimits: new InMemoryMessagingBucketStore()
+      },
+      { ...ENGINE_CONFIG, instanceId: 'engine-a', lockTtlMs: 60 * 1000 }
+    );
+    engine.start();
+    await scheduleRetry('campaign-1');
+    await clock.advanceTo((await store.getRetryState('campaign-1')).nextAttemptAt);
+
+    const cycle = engine.triggerRetryProcessing();
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+    // Five lease lengths into the dispatch, another instance still cannot take the campaign
+    await clock.advance(5 * 60 * 1000);
+    expect(locks.getOwner(getCampaignLockKey('campaign-1'))).toBe('engine-a');
+    expect(await locks.acquire(getCampaignLockKey('campaign-1'), 'engine-b', 60 * 1000)).toBe(false);
+
+    finishDispatch({ success: true, message: 'Delivered' });
+    await cycle;
+
+    expect(locks.getOwner(getCampaignLockKey('campaign-1'))).toBeNull();
+    expect(clock.getPendingTimerCount()).toBe(1); // Only the polling interval
+  });
+
+  it('spaces failed retries by the policy intervals and stops at maxAttempts', async () => {
+    const dispatcher = new ScriptedCampaignDispatcher([], { success: false, errorCode: '131049', message: 'Not delivered' });
+    startEngine(dispatcher);
+    await scheduleRetry('campaign-1');
+
+    await clock.advanceTo(TTL);
+
+    // 131049: retries 12h, 24h and 48h apart, three at most
+    const { attempts, nextAttemptAt } = await store.getRetryState('campaign-1');
+    expect(dispatcher.requests).toHaveLength(3);
+    expect(attempts).toHaveLength(3);
+    expect(nextAttemptAt).toBeUndefined();
+
+    const executedAt = attempts.map(attempt => new Date(attempt.executedAt).getTime());
+    const gapsInHours = executedAt.slice(1).map((time, index) => (time - executedAt[index]) / (60 * 60 * 1000));
+    expect(gapsInHours[0]).toBeGreaterThanOrEqual(12);
+    expect(gapsInHours[1]).toBeGreaterThanOrEqual(24);
+  });
+});
@@ -1,11 +1,48 @@
-import { RetryService, CampaignRetryState, RetryAttempt } from './retryService';
+import {
+  RetryService,
+  CampaignRetryState,
+  RetryAttempt,
+  RetryStats,
+  RecipientRetryState,
+  RecipientDeliveryResult
+} from './retryService';
 import { CampaignService } from './campaignService';
-import { RetryErrorCode, DEFAULT_RETRY_POLICIES } from '@/types/campaign';
+import { RetryStateStore } from './retryStateStore';
+import { CampaignDispatcher } from './campaignDispatcher';
+import { RetryErrorCode, RetryPolicy } from '@/types/campaign';
+import { RetryPolicyRegistry } from './retryPolicyRegistry';
+import { RetryStopEventService, RetryStopEventStore } from './retryStopEvents';
+import { TemplateRegistryService, TemplateStatusStore } from './templateRegistryService';
+import { RetryLockProvider, RetryLockService, RETRY_LEADER_LOCK_KEY, getCampaignLockKey } from './retryLockProvider';
+import { DeadLetterStore, RetryDeadLetterService, RETRY_ENGINE_ACTOR } from './retryDeadLetters';
+import { SupabaseCampaignService } from './supabaseCampaignService';
+import { ConsoleRetryLogSink, RetryEngineEventPayload, RetryEngineEvents, RetryLogSink } from './retryEngineEvents';
+import { RetryMetricsCollector, RetryMetricsSnapshot } from './retryMetrics';
+import { MessagingBucketStore, MessagingRateLimiter } from './messagingRateLimiter';
+import { AccountSettingsService } from './accountSettingsService';
+import { Clock, ClockService, ClockTimer } from './clock';
 
 export interface RetryEngineConfig {
   maxConcurrentRetries: number;
   retryCheckIntervalMs: number;
-  enableLogging: boolean;
+  enableLogging: boolean; // Write engine events to the console
+  refreshRetryPolicies?: boolean; // Load the owners' policy overrides and account settings from Supabase every cycle (default true)
+  leaderMode?: boolean; // Only the engine holding the leader lease polls (default false)
+  lockTtlMs?: number; // Lease length for campaign and leader locks (default 5 minutes)
+  instanceId?: string; // Lock owner ID (generated when omitted)
+}
+
+export interface RetryEngineDependencies {
+  dispatcher: CampaignDispatcher;
+  store?: RetryStateStore;
+  stopEvents?: RetryStopEventStore;
+  templates?: TemplateStatusStore;
+  locks?: RetryLockProvider;
+  deadLetters?: DeadLetterStore;
+  rateLimits?: MessagingBucketStore;
+  events?: RetryEngineEvents;
+  logSinks?: RetryLogSink[]; // Added to the console sink when logging is enabled
+  metrics?: RetryMetricsCollector;
 }
 
 export interface RetryExecutionResult {
@@ -14,19 +51,71 @@ export interface RetryExecutionResult {
   errorCode?: RetryErrorCode;
   message: string;
   nextRetryAt?: string;
+  skipped?: boolean; // A stop condition fired before the attempt was sent
+  deferred?: boolean; // Waiting for the campaign's template to be re-approved
+  rateLimited?: boolean; // The business number's 24h messaging budget is spent
+  recipientsAttempted?: number; // Recipients included in the retry wave
+  recipientsFailed?: number;
+  locked?: boolean; // Another engine instance holds the campaign's lock
+  providerResponse?: unknown; // Raw response from the dispatch transport
 }
 
+const DEFAULT_LOCK_TTL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_RETRY_ENGINE_CONFIG: RetryEngineConfig = {
+  maxConcurrentRetries: 10,
+  retryCheckIntervalMs: 60000, // 1 minute
+  enableLogging: true
+};
+
 export class RetryEngine {
   private config: RetryEngineConfig;
+  private store: RetryStateStore;
+  private dispatcher: CampaignDispatcher;
+  private stopEvents: RetryStopEventStore;
+  private templates: TemplateStatusStore;
+  private locks: RetryLockProvider;
+  private deadLetters: DeadLetterStore;
+  private rateLimits: MessagingBucketStore;
+  private events: RetryEngineEvents;
+  private metrics: RetryMetricsCollector;
+  private instanceId: string;
   private isRunning: boolean = false;
-  private retryInterval: NodeJS.Timeout | null = null;
-
-  constructor(config: RetryEngineConfig = {
-    maxConcurrentRetries: 10,
-    retryCheckIntervalMs: 60000, // 1 minute
-    enableLogging: true
-  }) {
+  private retryInterval: { clock: Clock; timer: ClockTimer } | null = null;
+  private inFlightCycles = new Set<Promise<RetryExecutionResult[]>>();
+
+  constructor(
+    {
+      dispatcher,
+      store = CampaignService.getRetryStateStore(),
+      stopEvents = RetryStopEventService.getStore(),
+      templates = TemplateRegistryService.getStore(),
+      locks = RetryLockService.getProvider(),
+      deadLetters = RetryDeadLetterService.getStore(),
+      rateLimits = MessagingRateLimiter.getStore(),
+      events = new RetryEngineEvents(),
+      logSinks = [],
+      metrics = new RetryMetricsCollector()
+    }: RetryEngineDependencies,
+    config: RetryEngineConfig = DEFAULT_RETRY_ENGINE_CONFIG
+  ) {
     this.config = config;
+    this.store = store;
+    this.dispatcher = dispatcher;
+    this.stopEvents = stopEvents;
+    this.templates = templates;
+    this.locks = locks;
+    this.deadLetters = deadLetters;
+    this.rateLimits = rateLimits;
+    this.events = events;
+    this.metrics = metrics;
+    this.instanceId = config.instanceId ?? crypto.randomUUID();
+
+    if (config.enableLogging) {
+      events.addSink(new ConsoleRetryLogSink());
+    }
+    logSinks.forEach(sink => events.addSink(sink));
+    metrics.attach(events);
   }
 
   /**
@@ -34,16 +123,23 @@ export class RetryEngine {
    */
   start(): void {
     if (this.isRunning) {
-      this.log('Retry engine is already running');
+      this.emit({ type: 'engine.warning', message: 'Retry engine is already running' });
       return;
     }
 
     this.isRunning = true;
-    this.log('Starting retry engine');
+    this.emit({
+      type: 'engine.started',
+      intervalMs: this.config.retryCheckIntervalMs,
+      leaderMode: !!this.config.leaderMode
+    });
     
-    this.retryInterval = setInterval(() => {
-      this.processRetries();
-    }, this.config.retryCheckIntervalMs);
+    // Cleared on the clock it was set on, even if ClockService is reconfigured meanwhile
+    const clock = this.clock;
+    this.retryInterval = {
+      clock,
+      timer: clock.setInterval(() => this.runCycle(), this.config.retryCheckIntervalMs)
+    };
   }
 
   /**
@@ -51,54 +147,262 @@ export class RetryEngine {
    */
   stop(): void {
     if (!this.isRunning) {
-      this.log('Retry engine is not running');
+      this.emit({ type: 'engine.warning', message: 'Retry engine is not running' });
       return;
     }
 
     this.isRunning = false;
-    this.log('Stopping retry engine');
+    this.emit({ type: 'engine.stopped' });
     
     if (this.retryInterval) {
-      clearInterval(this.retryInterval);
+      this.retryInterval.clock.clearInterval(this.retryInterval.timer);
       this.retryInterval = null;
     }
+
+    // Hand leadership over to another instance straight away
+    if (this.config.leaderMode) {
+      this.locks.release(RETRY_LEADER_LOCK_KEY, this.instanceId).catch(error => {
+        this.emit({ type: 'engine.warning', message: 'Failed to release leader lock', error: String(error) });
+      });
+    }
+  }
+
+  /**
+   * Wait for in-flight retry cycles to finish (call after stop); resolves false on timeout
+   */
+  async drain(timeoutMs?: number): Promise<boolean> {
+    if (this.inFlightCycles.size === 0) {
+      return true;
+    }
+
+    const settled = Promise.allSettled(Array.from(this.inFlightCycles)).then(() => true);
+    if (timeoutMs === undefined) {
+      return settled;
+    }
+
+    const clock = this.clock;
+    let timer: ClockTimer | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timer = clock.setTimeout(() => resolve(false), timeoutMs);
+    });
+    const drained = await Promise.race([settled, timedOut]);
+    clock.clearTimeout(timer);
+
+    if (!drained) {
+      this.emit({
+        type: 'engine.warning',
+        message: `Timed out after ${timeoutMs}ms draining ${this.inFlightCycles.size} in-flight retry cycle(s)`
+      });
+    }
+    return drained;
+  }
+
+  /**
+   * Run one retry cycle, tracked so that drain() can wait for it
+   */
+  private runCycle(): Promise<RetryExecutionResult[]> {
+    const cycle = this.processRetries();
+    this.inFlightCycles.add(cycle);
+    const untrack = () => {
+      this.inFlightCycles.delete(cycle);
+    };
+    cycle.then(untrack, untrack);
+    return cycle;
   }
 
   /**
    * Process pending retries
    */
-  private async processRetries(): Promise<void> {
+  private async processRetries(): Promise<RetryExecutionResult[]> {
     try {
-      const campaignsForRetry = CampaignService.getCampaignsForRetry();
-      
-      if (campaignsForRetry.length === 0) {
-        return;
+      // In single-leader mode only the lease holder polls; the lease is renewed every cycle
+      if (this.config.leaderMode) {
+        const isLeader = await this.locks.acquire(
+          RETRY_LEADER_LOCK_KEY,
+          this.instanceId,
+          Math.max(this.getLockTtlMs(), this.config.retryCheckIntervalMs * 2)
+        );
+        if (!isLeader) {
+          this.emit({ type: 'engine.warning', message: 'Another retry engine instance is the leader, skipping cycle' });
+          return [];
+        }
       }
 
-      this.log(`Processing ${campaignsForRetry.length} campaigns for retry`);
+      // Campaigns whose TTL ran out with a retry still pending go to the dead-letter queue
+      await this.sweepExpiredRetries().catch(error => {
+        this.emit({ type: 'engine.error', message: 'Failed to dead-letter expired retries', error: String(error) });
+      });
+
+      // Only the longest-overdue campaigns, up to the concurrency limit, are loaded
+      const now = this.clock.now();
+      const batch = await CampaignService.getCampaignsForRetry(this.store, now, this.config.maxConcurrentRetries);
 
-      // Limit concurrent retries
-      const batchSize = Math.min(campaignsForRetry.length, this.config.maxConcurrentRetries);
-      const batch = campaignsForRetry.slice(0, batchSize);
+      this.emit({
+        type: 'batch.picked',
+        queueDepth: await this.store.countDueRetryStates(now),
+        campaignIds: batch.map(({ campaignId }) => campaignId)
+      });
+
+      if (batch.length === 0) {
+        return [];
+      }
 
-      const retryPromises = batch.map(({ campaignId, retryState }) => 
-        this.executeCampaignRetry(campaignId, retryState)
+      // Load the policies and quiet hours of the campaigns' owners, picking up changes made in
+      // Account Settings without a restart. Retrying by the wrong account's rules is worse than waiting.
+      if (this.config.refreshRetryPolicies !== false) {
+        try {
+          await RetryPolicyRegistry.loadCampaignPolicies(batch.map(({ campaignId }) => campaignId));
+        } catch (error) {
+          this.emit({ type: 'engine.error', message: 'Failed to load retry policies and account settings, skipping cycle', error: String(error) });
+          return [];
+        }
+      }
+
+      const retryPromises = batch.map(({ campaignId }) => 
+        this.executeWithLock(campaignId)
       );
 
       const results = await Promise.allSettled(retryPromises);
+      const executionResults: RetryExecutionResult[] = [];
       
       results.forEach((result, index) => {
         const { campaignId } = batch[index];
         if (result.status === 'rejected') {
-          this.log(`Retry execution failed for campaign ${campaignId}: ${result.reason}`);
+          this.emit({ type: 'engine.error', message: 'Retry execution failed', campaignId, error: String(result.reason) });
+        } else {
+          executionResults.push(result.value);
         }
       });
 
+      return executionResults;
+
     } catch (error) {
-      this.log(`Error in retry processing: ${error}`);
+      this.emit({ type: 'engine.error', message: 'Error in retry processing', error: String(error) });
+      return [];
     }
   }
 
+  /**
+   * Take the campaign's lock, re-check that its retry is still due and execute it
+   */
+  private async executeWithLock(campaignId: string): Promise<RetryExecutionResult> {
+    const lockKey = getCampaignLockKey(campaignId);
+    const acquired = await this.locks.acquire(lockKey, this.instanceId, this.getLockTtlMs());
+
+    if (!acquired) {
+      const message = 'Campaign retry is being executed by another engine instance';
+      this.emit({ type: 'attempt.skipped', campaignId, outcome: 'locked', reason: message });
+      return {
+        campaignId,
+        success: false,
+        locked: true,
+        message
+      };
+    }
+
+    // A dispatch can outlast the lease; keep renewing it until the retry is recorded
+    const stopRenewing = this.keepLeaseAlive(lockKey, campaignId);
+
+    try {
+      // Another instance may have executed the retry between polling and locking
+      const retryState = await this.store.getRetryState(campaignId);
+      if (!retryState || !RetryEngine.isRetryDue(retryState, this.clock.now())) {
+        this.emit({ type: 'attempt.skipped', campaignId, outcome: 'not_due', reason: 'Retry is no longer due' });
+        return {
+          campaignId,
+          success: false,
+          message: 'Retry is no longer due'
+        };
+      }
+
+      return await this.executeCampaignRetry(campaignId, retryState);
+    } finally {
+      stopRenewing();
+      await this.locks.release(lockKey, this.instanceId).catch(error => {
+        this.emit({ type: 'engine.warning', message: 'Failed to release campaign lock', campaignId, error: String(error) });
+      });
+    }
+  }
+
+  /**
+   * Renew a campaign lease every third of its TTL until the returned function is called
+   */
+  private keepLeaseAlive(lockKey: string, campaignId: string): () => void {
+    const clock = this.clock;
+    const ttlMs = this.getLockTtlMs();
+    const timer = clock.setInterval(() => {
+      this.locks.acquire(lockKey, this.instanceId, ttlMs).then(renewed => {
+        if (!renewed) {
+          this.emit({ type: 'engine.warning', message: 'Campaign lock was taken over during dispatch', campaignId });
+        }
+      }).catch(error => {
+        this.emit({ type: 'engine.warning', message: 'Failed to renew campaign lock', campaignId, error: String(error) });
+      });
+    }, Math.max(1, Math.floor(ttlMs / 3)));
+
+    return () => clock.clearInterval(timer);
+  }
+
+  /**
+   * Check whether a retry state is still waiting to be executed
+   */
+  private static isRetryDue(retryState: CampaignRetryState, now: Date): boolean {
+    return retryState.retryConfig.enabled &&
+      !retryState.isExpired &&
+      !!retryState.nextAttemptAt &&
+      new Date(retryState.nextAttemptAt) <= now;
+  }
+
+  /**
+   * Dead-letter expired retries and clear their TTL on the campaigns table
+   */
+  private async sweepExpiredRetries(): Promise<void> {
+    const entries = await RetryDeadLetterService.sweepExpired(this.deadLetters, this.store);
+    if (entries.length === 0) {
+      return;
+    }
+
+    entries.forEach(entry => {
+      this.emit({ type: 'retry.expired', campaignId: entry.campaignId, deadLetterId: entry.id });
+    });
+    await SupabaseCampaignService.clearRetryTtl(entries.map(entry => entry.campaignId)).catch(error => {
+      this.emit({ type: 'engine.warning', message: 'Failed to clear retry TTL for expired campaigns', error: String(error) });
+    });
+  }
+
+  /**
+   * Record an attempt that was put off without sending and schedule the next one
+   */
+  private async recordDeferral(
+    campaignId: string,
+    retryState: CampaignRetryState,
+    attemptNumber: number,
+    reason: string,
+    nextAttemptAt: string | undefined
+  ): Promise<void> {
+    const now = this.clock.now().toISOString();
+    await CampaignService.updateRetryAttempt(campaignId, {
+      attemptNumber,
+      scheduledAt: retryState.nextAttemptAt || now,
+      executedAt: now,
+      status: 'deferred',
+      reason
+    }, this.store);
+    await CampaignService.scheduleNextRetryAttempt(campaignId, nextAttemptAt, this.store);
+  }
+
+  /**
+   * The retry services' clock: the engine schedules, times out and stamps attempts by the
+   * same clock that RetryService and CampaignService check TTLs and due times against
+   */
+  private get clock(): Clock {
+    return ClockService.getClock();
+  }
+
+  private getLockTtlMs(): number {
+    return this.config.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+  }
+
   /**
    * Execute retry for a specific campaign
    */
@@ -107,28 +411,140 @@ export class RetryEngine {
     retryState: CampaignRetryState
   ): Promise<RetryExecutionResult> {
     try {
-      this.log(`Executing retry for campaign ${campaignId}`);
+      const attemptNumber = retryState.attempts.length + 1;
+      const recipients = await this.store.listRecipients(campaignId);
+      const dueRecipients = RetryService.getDueRecipients(recipients, this.clock.now());
+
+      // Stop flags (conversion, manual pause, template change) are checked before every attempt
+      const stopCheck = await RetryStopEventService.checkStopConditions(retryState, this.stopEvents);
+      if (stopCheck.shouldStop) {
+        const now = this.clock.now().toISOString();
+        await CampaignService.updateRetryAttempt(campaignId, {
+          attemptNumber,
+          scheduledAt: retryState.nextAttemptAt || now,
+          executedAt: now,
+          status: 'skipped',
+          reason: stopCheck.reason
+        }, this.store);
+        await CampaignService.scheduleNextRetryAttempt(campaignId, undefined, this.store);
+        if (recipients.length > 0) {
+          await CampaignService.stopRetryRecipients(campaignId, stopCheck.reason, this.store);
+        }
+
+        this.emit({ type: 'attempt.skipped', campaignId, outcome: 'stopped', reason: stopCheck.reason });
+
+        return {
+          campaignId,
+          success: false,
+          skipped: true,
+          message: `Retry stopped: ${stopCheck.reason}`
+        };
+      }
+
+      // Retries waiting on a paused template (132015) don't use up a policy attempt
+      const deferral = await RetryService.checkTemplateDeferral(
+        campaignId,
+        retryState,
+        this.templates,
+        dueRecipients.map(r => r.errorCode).filter(Boolean)
+      );
+      if (deferral.shouldDefer) {
+        await this.recordDeferral(campaignId, retryState, attemptNumber, deferral.reason, deferral.nextAttemptAt ?? undefined);
+        this.emit({ type: 'attempt.skipped', campaignId, outcome: 'deferred', reason: deferral.reason });
+
+        return {
+          campaignId,
+          success: false,
+          deferred: true,
+          message: deferral.reason,
+          nextRetryAt: deferral.nextAttemptAt ?? undefined
+        };
+      }
+
+      // Retries share the business number's 24h messaging budget with initial sends
+      const messages = recipients.length > 0 ? dueRecipients.length : 1;
+      const reservation = messages > 0
+        ? await MessagingRateLimiter.reserve(
+          retryState.retryConfig.businessNumberId,
+          messages,
+          this.rateLimits,
+          AccountSettingsService.getCampaignOwner(campaignId)
+        )
+        : null;
+      const budgetRetryAt = reservation?.retryAt
+        ? RetryService.adjustForQuietHours(new Date(reservation.retryAt), retryState.retryConfig, campaignId).toISOString()
+        : undefined;
+
+      if (reservation && reservation.granted === 0) {
+        const reason = `Messaging limit of ${reservation.limit} per 24 hours reached for business number ${reservation.businessNumberId}`;
+        await this.recordDeferral(campaignId, retryState, attemptNumber, reason, budgetRetryAt);
+        if (recipients.length > 0) {
+          await this.store.saveRecipients(campaignId, dueRecipients.map(r => ({ ...r, nextAttemptAt: budgetRetryAt })));
+        }
+        this.emit({ type: 'attempt.skipped', campaignId, outcome: 'rate_limited', reason });
+
+        return {
+          campaignId,
+          success: false,
+          rateLimited: true,
+          message: reason,
+          nextRetryAt: budgetRetryAt
+        };
+      }
+
+      // Campaigns tracked per recipient only re-send to the recipients that are due
+      if (recipients.length > 0) {
+        // Recipients over the remaining budget wait for it to refill
+        const sendNow = dueRecipients.slice(0, reservation ? reservation.granted : dueRecipients.length);
+        const overBudget = dueRecipients.slice(sendNow.length).map(r => ({ ...r, nextAttemptAt: budgetRetryAt }));
+        if (overBudget.length > 0) {
+          await this.store.saveRecipients(campaignId, overBudget);
+        }
+
+        const overBudgetById = new Map(overBudget.map(r => [r.recipientId, r]));
+        const ledger = recipients.map(r => overBudgetById.get(r.recipientId) ?? r);
+        return this.executeRecipientRetryWave(campaignId, retryState, attemptNumber, ledger, sendNow);
+      }
 
-      // Simulate campaign execution (in real implementation, this would call the actual campaign service)
-      const executionResult = await this.simulateCampaignExecution(campaignId);
+      // Dispatch latency is wall-clock time, whatever clock schedules the retries
+      const dispatchStartedAt = Date.now();
+      const executionResult = await this.dispatcher.dispatch({ campaignId, attemptNumber, retryState });
+      const durationMs = Date.now() - dispatchStartedAt;
+      const retriedErrorCode = RetryService.getLastErrorCode(retryState.attempts);
       
       const attempt: RetryAttempt = {
-        attemptNumber: retryState.attempts.length + 1,
-        scheduledAt: new Date().toISOString(),
-        executedAt: new Date().toISOString(),
+        attemptNumber,
+        scheduledAt: this.clock.now().toISOString(),
+        executedAt: this.clock.now().toISOString(),
         status: executionResult.success ? 'completed' : 'failed',
-        errorCode: executionResult.errorCode
+        errorCode: executionResult.errorCode,
+        // Without per-recipient results the number of messages sent is unknown, so none are counted
+        deliveries: executionResult.recipientResults
+          ? RetryService.summarizeDeliveries(executionResult.recipientResults, () => retriedErrorCode)
+          : []
       };
 
-      // Update retry state
-      CampaignService.updateRetryAttempt(campaignId, attempt);
+      // Update retry state; the next retry is worked out from the state including this attempt
+      const updatedState = await CampaignService.updateRetryAttempt(campaignId, attempt, this.store);
+      this.emit({
+        type: 'attempt.executed',
+        campaignId,
+        attemptNumber,
+        success: executionResult.success,
+        errorCode: executionResult.errorCode,
+        deliveries: attempt.deliveries,
+        durationMs
+      });
 
       if (executionResult.success) {
-        this.log(`Campaign ${campaignId} executed successfully on retry attempt ${attempt.attemptNumber}`);
+        // Delivered: nothing left to retry
+        await CampaignService.scheduleNextRetryAttempt(campaignId, undefined, this.store);
+
         return {
           campaignId,
           success: true,
-          message: `Campaign executed successfully on attempt ${attempt.attemptNumber}`
+          message: `Campaign executed successfully on attempt ${attempt.attemptNumber}`,
+          providerResponse: executionResult.providerResponse
         };
       }
 
@@ -137,45 +553,62 @@ export class RetryEngine {
         const retryDecision = await RetryService.processRetryAttempt(
           campaignId,
           executionResult.errorCode,
-          retryState
+          updatedState ?? retryState,
+          this.templates
         );
 
         if (retryDecision.shouldRetry && retryDecision.nextAttemptAt) {
           // Update next attempt time
-          const updatedState = CampaignService.getRetryState(campaignId);
-          if (updatedState) {
-            updatedState.nextAttemptAt = retryDecision.nextAttemptAt;
-          }
+          await CampaignService.scheduleNextRetryAttempt(campaignId, retryDecision.nextAttemptAt, this.store);
 
-          this.log(`Campaign ${campaignId} scheduled for next retry at ${retryDecision.nextAttemptAt}`);
+          this.emit({ type: 'retry.scheduled', campaignId, nextAttemptAt: retryDecision.nextAttemptAt });
           
           return {
             campaignId,
             success: false,
             errorCode: executionResult.errorCode,
             message: retryDecision.reason,
-            nextRetryAt: retryDecision.nextAttemptAt
+            nextRetryAt: retryDecision.nextAttemptAt,
+            providerResponse: executionResult.providerResponse
           };
         } else {
-          this.log(`Campaign ${campaignId} retry exhausted: ${retryDecision.reason}`);
+          await CampaignService.scheduleNextRetryAttempt(campaignId, undefined, this.store);
+          await RetryDeadLetterService.deadLetter(
+            campaignId,
+            { reason: 'exhausted', errorCode: executionResult.errorCode, details: retryDecision.reason },
+            RETRY_ENGINE_ACTOR,
+            this.deadLetters,
+            this.store
+          );
+          this.emit({
+            type: 'retry.exhausted',
+            campaignId,
+            errorCode: executionResult.errorCode,
+            reason: retryDecision.reason
+          });
           
           return {
             campaignId,
             success: false,
             errorCode: executionResult.errorCode,
-            message: `Retry exhausted: ${retryDecision.reason}`
+            message: `Retry exhausted: ${retryDecision.reason}`,
+            providerResponse: executionResult.providerResponse
           };
         }
       }
 
+      // Without an error code there is no policy to retry by
+      await CampaignService.scheduleNextRetryAttempt(campaignId, undefined, this.store);
+
       return {
         campaignId,
         success: false,
-        message: 'Campaign execution failed with unknown error'
+        message: `Campaign execution failed with non-retryable error: ${executionResult.message}`,
+        providerResponse: executionResult.providerResponse
       };
 
     } catch (error) {
-      this.log(`Error executing retry for campaign ${campaignId}: ${error}`);
+      this.emit({ type: 'engine.error', message: 'Error executing retry', campaignId, error: String(error) });
       
       return {
         campaignId,
@@ -186,140 +619,179 @@ export class RetryEngine {
   }
 
   /**
-   * Simulate campaign execution (replace with actual implementation)
+   * Send a retry wave to the due recipients of a campaign and update their ledger entries
    */
-  private async simulateCampaignExecution(campaignId: string): Promise<{
-    success: boolean;
-    errorCode?: RetryErrorCode;
-    message: string;
-  }> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 100));
+  private async executeRecipientRetryWave(
+    campaignId: string,
+    retryState: CampaignRetryState,
+    attemptNumber: number,
+    recipients: RecipientRetryState[],
+    dueRecipients: RecipientRetryState[]
+  ): Promise<RetryExecutionResult> {
+    if (dueRecipients.length === 0) {
+      const nextAttemptAt = RetryService.getNextRecipientAttemptAt(recipients);
+      await CampaignService.scheduleNextRetryAttempt(campaignId, nextAttemptAt, this.store);
+      if (nextAttemptAt) {
+        this.emit({ type: 'retry.scheduled', campaignId, nextAttemptAt });
+      }
 
-    // Simulate different outcomes based on campaign ID for testing
-    const random = Math.random();
-    
-    if (random < 0.3) {
-      // 30% success rate
-      return {
-        success: true,
-        message: 'Campaign executed successfully'
-      };
-    } else if (random < 0.5) {
-      // 20% frequency cap error
-      return {
-        success: false,
-        errorCode: '131049',
-        message: 'Frequency cap exceeded'
-      };
-    } else if (random < 0.7) {
-      // 20% experiment group error
       return {
+        campaignId,
         success: false,
-        errorCode: '130472',
-        message: 'User in experiment group'
+        message: 'No recipients due for retry',
+        nextRetryAt: nextAttemptAt
       };
-    } else {
-      // 30% template paused error
-      return {
-        success: false,
-        errorCode: '132015',
-        message: 'Template is paused'
+    }
+
+    const recipientIds = dueRecipients.map(r => r.recipientId);
+    const dispatchStartedAt = Date.now();
+    const executionResult = await this.dispatcher.dispatch({
+      campaignId,
+      attemptNumber,
+      retryState,
+      recipients: recipientIds
+    });
+    const durationMs = Date.now() - dispatchStartedAt;
+
+    // Transports that don't report per-recipient outcomes apply the overall result to the whole wave
+    const results: RecipientDeliveryResult[] = executionResult.recipientResults ?? recipientIds.map(recipientId => ({
+      recipientId,
+      success: executionResult.success,
+      errorCode: executionResult.errorCode,
+      message: executionResult.message
+    }));
+
+    const executedAt = this.clock.now().toISOString();
+    const updatedRecipients = RetryService.applyRecipientResults(
+      campaignId,
+      dueRecipients,
+      results,
+      retryState.retryConfig,
+      executedAt
+    );
+    await this.store.saveRecipients(campaignId, updatedRecipients);
+
+    const failed = results.filter(r => !r.success);
+    const dueById = new Map(dueRecipients.map(r => [r.recipientId, r]));
+    const deliveries = RetryService.summarizeDeliveries(results, recipientId => dueById.get(recipientId)?.errorCode);
+    await CampaignService.updateRetryAttempt(campaignId, {
+      attemptNumber,
+      scheduledAt: retryState.nextAttemptAt || executedAt,
+      executedAt,
+      status: failed.length === 0 ? 'completed' : 'failed',
+      errorCode: failed.find(r => r.errorCode)?.errorCode,
+      reason: `${failed.length} of ${results.length} recipients failed`,
+      deliveries
+    }, this.store);
+    this.emit({
+      type: 'attempt.executed',
+      campaignId,
+      attemptNumber,
+      success: failed.length === 0,
+      errorCode: failed.find(r => r.errorCode)?.errorCode,
+      deliveries,
+      durationMs,
+      recipientsAttempted: results.length
+    });
+
+    const updatedById = new Map(updatedRecipients.map(r => [r.recipientId, r]));
+    const ledger = recipients.map(r => updatedById.get(r.recipientId) ?? r);
+    const nextAttemptAt = RetryService.getNextRecipientAttemptAt(ledger);
+    await CampaignService.scheduleNextRetryAttempt(campaignId, nextAttemptAt, this.store);
+
+    // No wave left to send but some recipients never got the message
+    const exhausted = ledger.filter(r => r.status === 'exhausted');
+    if (!nextAttemptAt && exhausted.length > 0) {
+      const failure = {
+        reason: 'exhausted' as const,
+        errorCode: exhausted.find(r => r.errorCode)?.errorCode,
+        details: `${exhausted.length} recipients exhausted their retry policy`
       };
+      await RetryDeadLetterService.deadLetter(campaignId, failure, RETRY_ENGINE_ACTOR, this.deadLetters, this.store);
+      this.emit({ type: 'retry.exhausted', campaignId, errorCode: failure.errorCode, reason: failure.details });
+    } else if (nextAttemptAt) {
+      this.emit({ type: 'retry.scheduled', campaignId, nextAttemptAt });
     }
+
+    return {
+      campaignId,
+      success: failed.length === 0,
+      errorCode: failed.find(r => r.errorCode)?.errorCode,
+      message: `${results.length - failed.length} of ${results.length} recipients delivered`,
+      nextRetryAt: nextAttemptAt,
+      recipientsAttempted: results.length,
+      recipientsFailed: failed.length,
+      providerResponse: executionResult.providerResponse
+    };
+  }
+
+  /**
+   * Get the engine's event emitter (subscribe listeners or add log sinks)
+   */
+  getEvents(): RetryEngineEvents {
+    return this.events;
+  }
+
+  /**
+   * Get the engine's metrics collector (snapshot or Prometheus export)
+   */
+  getMetrics(): RetryMetricsCollector {
+    return this.metrics;
+  }
+
+  /**
+   * Check whether the engine is currently running
+   */
+  isActive(): boolean {
+    return this.isRunning;
   }
 
   /**
    * Get retry engine status
    */
-  getStatus(): {
+  async getStatus(): Promise<{
+    instanceId: string;
     isRunning: boolean;
     config: RetryEngineConfig;
     pendingRetries: number;
-    retryStatistics: { [campaignId: string]: any };
-  } {
-    const pendingRetries = CampaignService.getCampaignsForRetry().length;
-    const retryStatistics = CampaignService.getRetryStatistics();
+    retryStatistics: { [campaignId: string]: RetryStats };
+    metrics: RetryMetricsSnapshot;
+  }> {
+    const pendingRetries = await this.store.countDueRetryStates(this.clock.now());
+    const retryStatistics = await CampaignService.getRetryStatistics(this.store);
 
     return {
+      instanceId: this.instanceId,
       isRunning: this.isRunning,
       config: this.config,
       pendingRetries,
-      retryStatistics
+      retryStatistics,
+      metrics: this.metrics.getSnapshot()
     };
   }
 
   /**
    * Manually trigger retry processing (for testing)
    */
-  async triggerRetryProcessing(): Promise<void> {
+  async triggerRetryProcessing(): Promise<RetryExecutionResult[]> {
     if (!this.isRunning) {
       throw new Error('Retry engine is not running');
     }
     
-    await this.processRetries();
+    return this.runCycle();
   }
 
   /**
    * Get error-specific retry policy information
    */
-  static getRetryPolicyInfo(): typeof DEFAULT_RETRY_POLICIES {
-    return DEFAULT_RETRY_POLICIES;
+  static getRetryPolicyInfo(campaignId?: string): Record<string, RetryPolicy> {
+    return RetryPolicyRegistry.getEffectivePolicies(campaignId);
   }
 
   /**
-   * Validate retry configuration
+   * Stamp an event with this instance and the current time and emit it
    */
-  static validateRetryConfig(ttlDateTime: string, scheduledDateTime: string): {
-    isValid: boolean;
-    errors: string[];
-  } {
-    const errors: string[] = [];
-    const ttl = new Date(ttlDateTime);
-    const scheduled = new Date(scheduledDateTime);
-    const now = new Date();
-
-    // Check if dates are valid
-    if (isNaN(ttl.getTime())) {
-      errors.push('Invalid TTL datetime');
-    }
-
-    if (isNaN(scheduled.getTime())) {
-      errors.push('Invalid scheduled datetime');
-    }
-
-    if (errors.length > 0) {
-      return { isValid: false, errors };
-    }
-
-    // Check TTL constraints
-    if (ttl <= scheduled) {
-      errors.push('TTL must be after scheduled time');
-    }
-
-    const maxTtl = new Date(scheduled);
-    maxTtl.setDate(maxTtl.getDate() + 7);
-    
-    if (ttl > maxTtl) {
-      errors.push('TTL cannot be more than 7 days after scheduled time');
-    }
-
-    if (ttl <= now) {
-      errors.push('TTL must be in the future');
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  }
-
-  /**
-   * Log messages if logging is enabled
-   */
-  private log(message: string): void {
-    if (this.config.enableLogging) {
-      console.log(`[RetryEngine] ${new Date().toISOString()}: ${message}`);
-    }
+  private emit(event: RetryEngineEventPayload): void {
+    this.events.emit({ ...event, instanceId: this.instanceId, timestamp: this.clock.now().toISOString() });
   }
 }
@@ -0,0 +1,195 @@
+import { supabase, Database } from '@/lib/supabase';
+import { ClockService } from './clock';
+
+type RetryEngineControlRow = Database['public']['Tables']['retry_engine_controls']['Row'];
+type RetryEngineControlInsert = Database['public']['Tables']['retry_engine_controls']['Insert'];
+
+/**
+ * An account's Start / Stop / Run Now state. The browser only writes it; the retry worker
+ * leaves stopped accounts' retries out of its due-states query and runs a cycle when it
+ * sees a newer run request.
+ */
+export interface RetryEngineControl {
+  ownerId: string; // Account (user ID) the control belongs to
+  paused: boolean; // Stopped: none of the account's retries are sent until started again
+  runRequestedAt?: string; // ISO 8601 datetime of the latest Run Now
+  updatedBy?: string; // Operator email
+  updatedAt: string; // ISO 8601 datetime
+}
+
+export type RetryEngineControlUpdate = Partial<Pick<RetryEngineControl, 'paused' | 'runRequestedAt'>> & {
+  updatedBy: string;
+};
+
+/**
+ * Storage backend for retry engine controls. `getControl` and `saveControl` act on the
+ * signed-in account's row; `listControls` returns every row the caller can see (all of
+ * them for the worker's service role).
+ */
+export interface RetryEngineControlStore {
+  getControl(): Promise<RetryEngineControl | null>;
+  saveControl(update: RetryEngineControlUpdate): Promise<RetryEngineControl>;
+  listControls(): Promise<RetryEngineControl[]>;
+}
+
+// Owner of the in-memory store's single account
+export const LOCAL_RETRY_OWNER_ID = 'local';
+
+/**
+ * In-memory retry engine controls for a single local account (tests, offline workers)
+ */
+export class InMemoryRetryEngineControlStore implements RetryEngineControlStore {
+  private control: RetryEngineControl | null = null;
+
+  async getControl(): Promise<RetryEngineControl | null> {
+    return this.control ? { ...this.control } : null;
+  }
+
+  async saveControl(update: RetryEngineControlUpdate): Promise<RetryEngineControl> {
+    this.control = {
+      ownerId: LOCAL_RETRY_OWNER_ID,
+      paused: false,
+      ...this.control,
+      ...update,
+      updatedAt: ClockService.now().toISOString()
+    };
+    return { ...this.control };
+  }
+
+  async listControls(): Promise<RetryEngineControl[]> {
+    return this.control ? [{ ...this.control }] : [];
+  }
+
+  /**
+   * Remove the stored control
+   */
+  clear(): void {
+    this.control = null;
+  }
+}
+
+/**
+ * Supabase-backed retry engine controls (retry_engine_controls, one row per user)
+ */
+export class SupabaseRetryEngineControlStore implements RetryEngineControlStore {
+  private static mapRowToControl(row: RetryEngineControlRow): RetryEngineControl {
+    return {
+      ownerId: row.user_id,
+      paused: row.paused,
+      runRequestedAt: row.run_requested_at ?? undefined,
+      updatedBy: row.updated_by ?? undefined,
+      updatedAt: row.updated_at
+    };
+  }
+
+  async getControl(): Promise<RetryEngineControl | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('retry_engine_controls')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? SupabaseRetryEngineControlStore.mapRowToControl(data) : null;
+  }
+
+  async saveControl(update: RetryEngineControlUpdate): Promise<RetryEngineControl> {
+    // user_id defaults to the signed-in user
+    const row: RetryEngineControlInsert = {
+      updated_by: update.updatedBy,
+      ...(update.paused !== undefined && { paused: update.paused }),
+      ...(update.runRequestedAt !== undefined && { run_requested_at: update.runRequestedAt })
+    };
+
+    const { data, error } = await supabase
+      .from('retry_engine_controls')
+      .upsert(row, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return SupabaseRetryEngineControlStore.mapRowToControl(data);
+  }
+
+  async listControls(): Promise<RetryEngineControl[]> {
+    const { data, error } = await supabase
+      .from('retry_engine_controls')
+      .select('*');
+
+    if (error) throw error;
+
+    return data?.map(SupabaseRetryEngineControlStore.mapRowToControl) || [];
+  }
+}
+
+// Retry engine control backend (swap for InMemoryRetryEngineControlStore in tests)
+let retryEngineControlStore: RetryEngineControlStore = new SupabaseRetryEngineControlStore();
+
+/**
+ * The retry dashboard's Start, Stop and Run Now. The retry worker sends the retries, so these
+ * only record what the operator asked for; the worker acts on it within its control interval.
+ */
+export class RetryEngineControlService {
+  /**
+   * Replace the retry engine control backend
+   */
+  static useStore(store: RetryEngineControlStore): void {
+    retryEngineControlStore = store;
+  }
+
+  /**
+   * Get the active retry engine control backend
+   */
+  static getStore(): RetryEngineControlStore {
+    return retryEngineControlStore;
+  }
+
+  /**
+   * Get the signed-in account's control (running, with no run requested, when it has none)
+   */
+  static async getControl(store: RetryEngineControlStore = retryEngineControlStore): Promise<RetryEngineControl | null> {
+    return store.getControl();
+  }
+
+  /**
+   * Let the worker send the account's retries again
+   */
+  static start(actor: string, store: RetryEngineControlStore = retryEngineControlStore): Promise<RetryEngineControl> {
+    return store.saveControl({ paused: false, updatedBy: actor });
+  }
+
+  /**
+   * Stop the worker sending the account's retries; attempts already running finish
+   */
+  static stop(actor: string, store: RetryEngineControlStore = retryEngineControlStore): Promise<RetryEngineControl> {
+    return store.saveControl({ paused: true, updatedBy: actor });
+  }
+
+  /**
+   * Ask the worker to run a retry cycle now instead of at its next poll
+   */
+  static async requestRun(actor: string, store: RetryEngineControlStore = retryEngineControlStore): Promise<RetryEngineControl> {
+    const control = await store.getControl();
+    if (control?.paused) {
+      throw new Error('Retries are stopped; start them before running a cycle');
+    }
+    return store.saveControl({ runRequestedAt: ClockService.now().toISOString(), updatedBy: actor });
+  }
+
+  /**
+   * Time (ms since the epoch) of the latest run request of an account that isn't stopped, or null when there is none
+   */
+  static getLatestRunRequest(controls: RetryEngineControl[]): number | null {
+    const requestedAt = controls
+      .filter(control => !control.paused && control.runRequestedAt)
+      .map(control => new Date(control.runRequestedAt).getTime());
+    return requestedAt.length > 0 ? Math.max(...requestedAt) : null;
+  }
+}
@@ -0,0 +1,167 @@
+import { supabase, Database } from '@/lib/supabase';
+import { RetryErrorCode } from '@/types/campaign';
+import { RetryAttemptDelivery } from './retryService';
+
+type RetryEngineEventInsert = Database['public']['Tables']['retry_engine_events']['Insert'];
+
+interface RetryEngineEventBase {
+  instanceId: string; // Engine instance that emitted the event
+  timestamp: string; // ISO 8601 datetime
+}
+
+export type RetryEngineEvent = RetryEngineEventBase & (
+  | { type: 'engine.started'; intervalMs: number; leaderMode: boolean }
+  | { type: 'engine.stopped' }
+  | { type: 'engine.warning'; message: string; campaignId?: string; error?: string }
+  | { type: 'engine.error'; message: string; campaignId?: string; error: string }
+  | { type: 'batch.picked'; queueDepth: number; campaignIds: string[] }
+  | {
+      type: 'attempt.executed';
+      campaignId: string;
+      attemptNumber: number;
+      success: boolean;
+      errorCode?: RetryErrorCode; // Error returned by this attempt
+      deliveries: RetryAttemptDelivery[]; // Per retried error code
+      durationMs: number; // Dispatch latency
+      recipientsAttempted?: number;
+    }
+  | { type: 'attempt.skipped'; campaignId: string; outcome: 'stopped' | 'deferred' | 'rate_limited' | 'locked' | 'not_due'; reason: string }
+  | { type: 'retry.scheduled'; campaignId: string; nextAttemptAt: string }
+  | { type: 'retry.exhausted'; campaignId: string; errorCode?: RetryErrorCode; reason: string }
+  | { type: 'retry.expired'; campaignId: string; deadLetterId: string }
+);
+
+export type RetryEngineEventType = RetryEngineEvent['type'];
+
+// Event fields supplied by the engine (instance ID and timestamp are stamped on emit)
+type WithoutBase<E> = E extends RetryEngineEvent ? Omit<E, keyof RetryEngineEventBase> : never;
+export type RetryEngineEventPayload = WithoutBase<RetryEngineEvent>;
+
+export type RetryEngineEventListener<E extends RetryEngineEvent = RetryEngineEvent> = (event: E) => void;
+
+/**
+ * Destination for engine events (console, Supabase, test spy)
+ */
+export interface RetryLogSink {
+  write(event: RetryEngineEvent): void | Promise<void>;
+}
+
+/**
+ * Writes one structured line per event to the console
+ */
+export class ConsoleRetryLogSink implements RetryLogSink {
+  write(event: RetryEngineEvent): void {
+    const line = `[RetryEngine] ${JSON.stringify(event)}`;
+    if (event.type === 'engine.error') {
+      console.error(line);
+    } else if (event.type === 'engine.warning') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Keeps events in memory (used as a spy in tests)
+ */
+export class InMemoryRetryLogSink implements RetryLogSink {
+  readonly events: RetryEngineEvent[] = [];
+
+  write(event: RetryEngineEvent): void {
+    this.events.push(event);
+  }
+
+  /**
+   * Get the recorded events of one type
+   */
+  ofType<T extends RetryEngineEventType>(type: T): Extract<RetryEngineEvent, { type: T }>[] {
+    return this.events.filter((event): event is Extract<RetryEngineEvent, { type: T }> => event.type === type);
+  }
+
+  /**
+   * Remove all recorded events
+   */
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+/**
+ * Appends events to retry_engine_events
+ */
+export class SupabaseRetryLogSink implements RetryLogSink {
+  async write(event: RetryEngineEvent): Promise<void> {
+    const { instanceId, timestamp, type, ...payload } = event;
+    const row: RetryEngineEventInsert = {
+      instance_id: instanceId,
+      event_type: type,
+      campaign_id: 'campaignId' in event ? event.campaignId ?? null : null,
+      payload,
+      occurred_at: timestamp
+    };
+
+    const { error } = await supabase
+      .from('retry_engine_events')
+      .insert(row);
+
+    if (error) throw error;
+  }
+}
+
+export class RetryEngineEvents {
+  private listeners = new Map<RetryEngineEventType | '*', Set<RetryEngineEventListener>>();
+
+  /**
+   * Subscribe to one event type; returns an unsubscribe function
+   */
+  on<T extends RetryEngineEventType>(
+    type: T,
+    listener: RetryEngineEventListener<Extract<RetryEngineEvent, { type: T }>>
+  ): () => void {
+    return this.subscribe(type, listener as RetryEngineEventListener);
+  }
+
+  /**
+   * Subscribe to every event; returns an unsubscribe function
+   */
+  onAny(listener: RetryEngineEventListener): () => void {
+    return this.subscribe('*', listener);
+  }
+
+  /**
+   * Forward every event to a log sink; sink failures never reach the engine
+   */
+  addSink(sink: RetryLogSink): () => void {
+    return this.onAny(event => {
+      Promise.resolve()
+        .then(() => sink.write(event))
+        .catch(error => console.error(`[RetryEngine] Log sink failed for ${event.type}: ${error}`));
+    });
+  }
+
+  /**
+   * Deliver an event to its listeners
+   */
+  emit(event: RetryEngineEvent): void {
+    [this.listeners.get(event.type), this.listeners.get('*')].forEach(listeners => {
+      listeners?.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`[RetryEngine] Listener failed for ${event.type}: ${error}`);
+        }
+      });
+    });
+  }
+
+  private subscribe(type: RetryEngineEventType | '*', listener: RetryEngineEventListener): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type).add(listener);
+    return () => {
+      this.listeners.get(type)?.delete(listener);
+    };
+  }
+}
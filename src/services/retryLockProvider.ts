@@ -0,0 +1,105 @@
+import { supabase, Database } from '@/lib/supabase';
+import { ClockService } from './clock';
+
+type AcquireLockArgs = Database['public']['Functions']['acquire_retry_lock']['Args'];
+type ReleaseLockArgs = Database['public']['Functions']['release_retry_lock']['Args'];
+
+/**
+ * Lease-based locks shared by every RetryEngine instance.
+ * A lease is held until it is released or its TTL runs out; acquiring a lease
+ * the owner already holds renews it.
+ */
+export interface RetryLockProvider {
+  acquire(key: string, ownerId: string, ttlMs: number): Promise<boolean>;
+  release(key: string, ownerId: string): Promise<void>;
+}
+
+/**
+ * In-process lock provider (for engines sharing one process, tests and local development)
+ */
+export class InMemoryRetryLockProvider implements RetryLockProvider {
+  private leases = new Map<string, { ownerId: string; expiresAt: number }>();
+
+  async acquire(key: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const now = ClockService.now().getTime();
+    const lease = this.leases.get(key);
+
+    if (lease && lease.ownerId !== ownerId && lease.expiresAt > now) {
+      return false;
+    }
+
+    this.leases.set(key, { ownerId, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async release(key: string, ownerId: string): Promise<void> {
+    if (this.leases.get(key)?.ownerId === ownerId) {
+      this.leases.delete(key);
+    }
+  }
+
+  /**
+   * Get the current owner of a lease (null when free or expired)
+   */
+  getOwner(key: string): string | null {
+    const lease = this.leases.get(key);
+    return lease && lease.expiresAt > ClockService.now().getTime() ? lease.ownerId : null;
+  }
+
+  /**
+   * Drop all leases
+   */
+  clear(): void {
+    this.leases.clear();
+  }
+}
+
+/**
+ * Supabase-backed lock provider (retry_locks table, acquired atomically through RPC)
+ */
+export class SupabaseRetryLockProvider implements RetryLockProvider {
+  async acquire(key: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const args: AcquireLockArgs = { p_lock_key: key, p_owner_id: ownerId, p_ttl_ms: ttlMs };
+    const { data, error } = await supabase.rpc('acquire_retry_lock', args);
+
+    if (error) throw error;
+
+    return data === true;
+  }
+
+  async release(key: string, ownerId: string): Promise<void> {
+    const args: ReleaseLockArgs = { p_lock_key: key, p_owner_id: ownerId };
+    const { error } = await supabase.rpc('release_retry_lock', args);
+
+    if (error) throw error;
+  }
+}
+
+// Lock key held by the engine that is allowed to poll in single-leader mode
+export const RETRY_LEADER_LOCK_KEY = 'retry-engine:leader';
+
+/**
+ * Lock key for a single campaign's retry execution
+ */
+export function getCampaignLockKey(campaignId: string): string {
+  return `retry-engine:campaign:${campaignId}`;
+}
+
+// Lock backend (swap for InMemoryRetryLockProvider in tests)
+let retryLockProvider: RetryLockProvider = new SupabaseRetryLockProvider();
+
+export class RetryLockService {
+  /**
+   * Replace the lock backend
+   */
+  static useProvider(provider: RetryLockProvider): void {
+    retryLockProvider = provider;
+  }
+
+  /**
+   * Get the active lock backend
+   */
+  static getProvider(): RetryLockProvider {
+    return retryLockProvider;
+  }
+}
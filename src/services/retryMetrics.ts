@@ -0,0 +1,157 @@
+import { RetryEngineEvent, RetryEngineEvents } from './retryEngineEvents';
+
+export interface RetryDeliveryRatio {
+  sent: number; // Retry messages sent
+  accepted: number; // Accepted by the provider; deliveries are only confirmed later, by webhook
+  acceptanceRatio: number; // accepted / sent
+}
+
+export interface RetryLatencyHistogram {
+  buckets: { le: number; count: number }[]; // Cumulative counts per upper bound (seconds)
+  count: number;
+  sumSeconds: number;
+}
+
+export interface RetryMetricsSnapshot {
+  queueDepth: number; // Campaigns due at the last poll
+  attemptLatency: RetryLatencyHistogram;
+  byErrorCode: Record<string, RetryDeliveryRatio>;
+  attempts: Record<'executed' | 'stopped' | 'deferred' | 'rate_limited' | 'locked' | 'not_due', number>;
+  exhausted: number;
+  expired: number;
+}
+
+// Histogram upper bounds for dispatch latency, in seconds
+export const RETRY_LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const METRIC_PREFIX = 'retry_engine';
+
+// Prometheus label values escape backslashes, quotes and newlines
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+export class RetryMetricsCollector {
+  private queueDepth = 0;
+  private latencyCounts = RETRY_LATENCY_BUCKETS.map(() => 0);
+  private latencyCount = 0;
+  private latencySumSeconds = 0;
+  private deliveries = new Map<string, { sent: number; accepted: number }>();
+  private attempts: RetryMetricsSnapshot['attempts'] = { executed: 0, stopped: 0, deferred: 0, rate_limited: 0, locked: 0, not_due: 0 };
+  private exhausted = 0;
+  private expired = 0;
+
+  /**
+   * Collect metrics from an engine's events; returns a function that stops collecting
+   */
+  attach(events: RetryEngineEvents): () => void {
+    return events.onAny(event => this.record(event));
+  }
+
+  /**
+   * Update the metrics from one engine event
+   */
+  record(event: RetryEngineEvent): void {
+    switch (event.type) {
+      case 'batch.picked':
+        this.queueDepth = event.queueDepth;
+        break;
+      case 'attempt.executed': {
+        const seconds = event.durationMs / 1000;
+        this.attempts.executed++;
+        this.latencyCount++;
+        this.latencySumSeconds += seconds;
+        RETRY_LATENCY_BUCKETS.forEach((le, index) => {
+          if (seconds <= le) this.latencyCounts[index]++;
+        });
+        event.deliveries.forEach(({ errorCode, sent, accepted }) => {
+          const counts = this.deliveries.get(errorCode) || { sent: 0, accepted: 0 };
+          counts.sent += sent;
+          counts.accepted += accepted;
+          this.deliveries.set(errorCode, counts);
+        });
+        break;
+      }
+      case 'attempt.skipped':
+        this.attempts[event.outcome]++;
+        break;
+      case 'retry.exhausted':
+        this.exhausted++;
+        break;
+      case 'retry.expired':
+        this.expired++;
+        break;
+    }
+  }
+
+  /**
+   * Get the current metric values
+   */
+  getSnapshot(): RetryMetricsSnapshot {
+    const byErrorCode: Record<string, RetryDeliveryRatio> = {};
+    this.deliveries.forEach(({ sent, accepted }, errorCode) => {
+      byErrorCode[errorCode] = { sent, accepted, acceptanceRatio: sent > 0 ? accepted / sent : 0 };
+    });
+
+    return {
+      queueDepth: this.queueDepth,
+      attemptLatency: {
+        buckets: RETRY_LATENCY_BUCKETS.map((le, index) => ({ le, count: this.latencyCounts[index] })),
+        count: this.latencyCount,
+        sumSeconds: this.latencySumSeconds
+      },
+      byErrorCode,
+      attempts: { ...this.attempts },
+      exhausted: this.exhausted,
+      expired: this.expired
+    };
+  }
+
+  /**
+   * Export the metrics in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const snapshot = this.getSnapshot();
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`, `# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+    };
+
+    metric('queue_depth', 'gauge', 'Campaigns due for retry at the last poll');
+    lines.push(`${METRIC_PREFIX}_queue_depth ${snapshot.queueDepth}`);
+
+    metric('attempt_latency_seconds', 'histogram', 'Retry dispatch latency');
+    snapshot.attemptLatency.buckets.forEach(({ le, count }) => {
+      lines.push(`${METRIC_PREFIX}_attempt_latency_seconds_bucket{le="${le}"} ${count}`);
+    });
+    lines.push(
+      `${METRIC_PREFIX}_attempt_latency_seconds_bucket{le="+Inf"} ${snapshot.attemptLatency.count}`,
+      `${METRIC_PREFIX}_attempt_latency_seconds_sum ${snapshot.attemptLatency.sumSeconds}`,
+      `${METRIC_PREFIX}_attempt_latency_seconds_count ${snapshot.attemptLatency.count}`
+    );
+
+    metric('attempts_total', 'counter', 'Retry attempts by outcome');
+    Object.entries(snapshot.attempts).forEach(([outcome, count]) => {
+      lines.push(`${METRIC_PREFIX}_attempts_total{outcome="${outcome}"} ${count}`);
+    });
+
+    const errorCodes = Object.entries(snapshot.byErrorCode);
+    metric('messages_sent_total', 'counter', 'Retry messages sent by retried error code');
+    errorCodes.forEach(([errorCode, { sent }]) => {
+      lines.push(`${METRIC_PREFIX}_messages_sent_total{error_code="${escapeLabel(errorCode)}"} ${sent}`);
+    });
+    metric('messages_accepted_total', 'counter', 'Retry messages accepted by the provider by retried error code');
+    errorCodes.forEach(([errorCode, { accepted }]) => {
+      lines.push(`${METRIC_PREFIX}_messages_accepted_total{error_code="${escapeLabel(errorCode)}"} ${accepted}`);
+    });
+    metric('acceptance_ratio', 'gauge', 'Accepted / sent retry messages by retried error code');
+    errorCodes.forEach(([errorCode, { acceptanceRatio }]) => {
+      lines.push(`${METRIC_PREFIX}_acceptance_ratio{error_code="${escapeLabel(errorCode)}"} ${acceptanceRatio}`);
+    });
+
+    metric('exhausted_total', 'counter', 'Campaigns whose retry policy ran out');
+    lines.push(`${METRIC_PREFIX}_exhausted_total ${snapshot.exhausted}`);
+    metric('expired_total', 'counter', 'Campaigns whose retry TTL expired with a retry pending');
+    lines.push(`${METRIC_PREFIX}_expired_total ${snapshot.expired}`);
+
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { QuietHours, RetryPolicy } from '@/types/campaign';
+import { planRetrySchedule } from './retryPlanner';
+
+const QUIET_HOURS: QuietHours = { enabled: true, startTime: '21:00', endTime: '09:00' };
+const NO_QUIET_HOURS: QuietHours = { ...QUIET_HOURS, enabled: false };
+
+const policy = (errorCode: string, retryIntervals: number[]): RetryPolicy => ({
+  errorCode,
+  description: `Retry ${errorCode}`,
+  retryIntervals
+});
+
+describe('planRetrySchedule', () => {
+  it('moves attempts that fall in the quiet hours to the end of the window', () => {
+    // 09:00 in Asia/Kolkata
+    const [midday, evening] = planRetrySchedule({
+      scheduledAt: '2024-03-01T03:30:00Z',
+      ttlDateTime: '2024-03-29T03:30:00Z',
+      policies: { '130472': policy('130472', [2]), '131049': policy('131049', [12]) },
+      quietHours: QUIET_HOURS,
+      timezone: 'Asia/Kolkata'
+    });
+
+    // Due at 21:00, sent at 09:00 the next morning
+    expect(evening.attempts).toEqual([{
+      attemptNumber: 1,
+      attemptAt: '2024-03-02T03:30:00.000Z',
+      delayHours: 12,
+      movedByQuietHours: true,
+      cutOffByTtl: false
+    }]);
+    expect(midday.attempts[0]).toMatchObject({ attemptAt: '2024-03-01T05:30:00.000Z', movedByQuietHours: false });
+  });
+
+  it('cuts off the attempts that would land after the TTL', () => {
+    const plan = (ttlDateTime: string) => planRetrySchedule({
+      scheduledAt: '2024-03-01T00:00:00Z',
+      ttlDateTime,
+      policies: { '131049': policy('131049', [12, 24, 48]) },
+      quietHours: NO_QUIET_HOURS,
+      timezone: 'UTC'
+    })[0];
+
+    const cutOff = plan('2024-03-03T00:00:00Z');
+    expect(cutOff.attempts.map(attempt => [attempt.attemptAt, attempt.cutOffByTtl])).toEqual([
+      ['2024-03-01T12:00:00.000Z', false],
+      ['2024-03-02T12:00:00.000Z', false],
+      ['2024-03-04T12:00:00.000Z', true]
+    ]);
+    expect(cutOff).toMatchObject({ scheduledAttempts: 2, cutOffAttempts: 1 });
+
+    // An attempt due exactly at the TTL is still sent
+    expect(plan('2024-03-04T12:00:00Z')).toMatchObject({ scheduledAttempts: 3, cutOffAttempts: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import { QuietHours, RetryErrorCode, RetryPolicy } from '@/types/campaign';
+import { RetryService } from './retryService';
+
+export interface RetryPlanInput {
+  scheduledAt: string | Date; // Original send time
+  ttlDateTime: string | Date;
+  policies: Record<string, RetryPolicy>; // Effective policies per error code
+  quietHours: QuietHours;
+  timezone: string;
+  random?: () => number; // Jitter source; defaults to the midpoint (no jitter)
+}
+
+export interface PlannedRetryAttempt {
+  attemptNumber: number;
+  attemptAt: string; // ISO 8601 datetime, after quiet hours
+  delayHours: number; // Hours after the previous send
+  movedByQuietHours: boolean;
+  cutOffByTtl: boolean; // Would land after the TTL, so it is never sent
+}
+
+export interface RetryPlan {
+  errorCode: RetryErrorCode;
+  description: string;
+  requiresTemplateActive: boolean;
+  attempts: PlannedRetryAttempt[];
+  scheduledAttempts: number; // Attempts that run before the TTL
+  cutOffAttempts: number;
+}
+
+/**
+ * Project the full retry calendar a campaign would get for each error code.
+ * Pure: the result depends only on the input, so it can be checked without timers.
+ */
+export function planRetrySchedule(input: RetryPlanInput): RetryPlan[] {
+  const { policies, quietHours, timezone, random = () => 0.5 } = input;
+  const scheduledAt = new Date(input.scheduledAt);
+  const ttl = new Date(input.ttlDateTime);
+
+  return Object.values(policies).map(policy => {
+    const attempts: PlannedRetryAttempt[] = [];
+    let lastAttemptAt = scheduledAt;
+    let projection = RetryService.projectRetryAttempt(policy, 0, lastAttemptAt, { quietHours, timezone }, random);
+
+    while (projection) {
+      attempts.push({
+        attemptNumber: attempts.length + 1,
+        attemptAt: projection.attemptAt.toISOString(),
+        delayHours: projection.delayHours,
+        movedByQuietHours: projection.movedByQuietHours,
+        // Once one attempt is cut off the engine stops, so every later attempt is too
+        cutOffByTtl: projection.attemptAt > ttl || attempts.some(attempt => attempt.cutOffByTtl)
+      });
+
+      lastAttemptAt = projection.attemptAt;
+      projection = RetryService.projectRetryAttempt(policy, attempts.length, lastAttemptAt, { quietHours, timezone }, random);
+    }
+
+    const cutOffAttempts = attempts.filter(attempt => attempt.cutOffByTtl).length;
+
+    return {
+      errorCode: policy.errorCode,
+      description: policy.description,
+      requiresTemplateActive: !!policy.requiresTemplateActive,
+      attempts,
+      scheduledAttempts: attempts.length - cutOffAttempts,
+      cutOffAttempts
+    };
+  });
+}
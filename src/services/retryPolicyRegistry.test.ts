@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows visible to the retry worker's service-role client, per table
+const tables: Record<string, Record<string, unknown>[]> = {};
+let failingTable: string | null = null;
+
+vi.mock('@/lib/supabase', () => {
+  const query = (table: string) => {
+    let rows = tables[table] || [];
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      in: (column: string, values: unknown[]) => {
+        rows = rows.filter(row => values.includes(row[column]));
+        return builder;
+      },
+      then: (resolve: (result: unknown) => unknown) => resolve(
+        failingTable === table
+          ? { data: null, error: new Error(`${table} is unavailable`) }
+          : { data: rows, error: null }
+      )
+    };
+    return builder;
+  };
+  return { supabase: { from: query } };
+});
+
+const { RetryPolicyRegistry } = await import('./retryPolicyRegistry');
+const { AccountSettingsService, DEFAULT_ACCOUNT_SETTINGS } = await import('./accountSettingsService');
+
+const policyRow = (userId: string, retryIntervals: number[]) => ({
+  id: `${userId}-131049`,
+  user_id: userId,
+  campaign_id: null,
+  error_code: '131049',
+  description: `${userId} frequency cap`,
+  retry_intervals: retryIntervals,
+  max_attempts: null,
+  jitter_pct: null,
+  backoff_multiplier: null,
+  requires_template_active: false
+});
+
+describe('RetryPolicyRegistry across accounts', () => {
+  beforeEach(() => {
+    failingTable = null;
+    tables.campaigns = [
+      { id: 'campaign-a', user_id: 'user-a' },
+      { id: 'campaign-b', user_id: 'user-b' },
+      { id: 'campaign-c', user_id: 'user-c' }
+    ];
+    tables.retry_policies = [policyRow('user-a', [1]), policyRow('user-b', [2, 4])];
+    tables.account_settings = [{
+      user_id: 'user-b',
+      timezone: 'Europe/London',
+      quiet_hours_enabled: false,
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '08:00',
+      ttl_min_hours: 24,
+      ttl_max_hours: 672,
+      message_cost_currency: 'GBP',
+      message_cost_amount: 0.05
+    }];
+  });
+
+  it("resolves each campaign's account override from its own owner", async () => {
+    await RetryPolicyRegistry.loadCampaignPolicies(['campaign-a', 'campaign-b', 'campaign-c']);
+
+    expect(RetryPolicyRegistry.resolve('131049', 'campaign-a').retryIntervals).toEqual([1]);
+    expect(RetryPolicyRegistry.resolve('131049', 'campaign-b').retryIntervals).toEqual([2, 4]);
+    // No override of its own: the built-in default, not another account's
+    expect(RetryPolicyRegistry.resolve('131049', 'campaign-c').retryIntervals).toEqual([12, 24, 48]);
+  });
+
+  it("uses each campaign's owner settings", async () => {
+    await RetryPolicyRegistry.loadCampaignPolicies(['campaign-a', 'campaign-b']);
+
+    expect(AccountSettingsService.getSettings('campaign-a')).toEqual(DEFAULT_ACCOUNT_SETTINGS);
+    expect(AccountSettingsService.getSettings('campaign-b').timezone).toBe('Europe/London');
+  });
+
+  it('fails when the lookup fails', async () => {
+    failingTable = 'retry_policies';
+
+    await expect(RetryPolicyRegistry.loadCampaignPolicies(['campaign-a'])).rejects.toThrow('retry_policies is unavailable');
+  });
+});
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { supabase, Database } from '@/lib/supabase';
+import { RetryErrorCode, RetryPolicy, RetryPolicyOverride, DEFAULT_RETRY_POLICIES } from '@/types/campaign';
+import { AccountSettingsService } from './accountSettingsService';
+
+type RetryPolicyRow = Database['public']['Tables']['retry_policies']['Row'];
+type RetryPolicyInsert = Database['public']['Tables']['retry_policies']['Insert'];
+
+// Zod validation schema for account- and campaign-level policy overrides
+export const retryPolicySchema = z.object({
+  id: z.string().optional(),
+  campaignId: z.string().min(1).nullable(),
+  errorCode: z.string().regex(/^\d{3,6}$/, 'Error code must be a numeric Meta error code'),
+  description: z.string().trim().min(1, 'Description is required'),
+  retryIntervals: z
+    .array(
+      z.number()
+        .positive('Retry intervals must be greater than 0 hours')
+        .max(672, 'Retry intervals cannot be longer than 28 days')
+    )
+    .min(1, 'At least one retry interval is required'),
+  maxAttempts: z.number().int().min(1, 'Max attempts must be at least 1').max(20, 'Max attempts cannot exceed 20').optional(),
+  jitterPct: z.number().min(0, 'Jitter cannot be negative').max(50, 'Jitter cannot exceed 50%').optional(),
+  backoffMultiplier: z.number().min(1, 'Backoff multiplier must be at least 1').max(10, 'Backoff multiplier cannot exceed 10').optional(),
+  requiresTemplateActive: z.boolean().optional(),
+});
+
+// Cached overrides of the signed-in account, refreshed from Supabase
+let policyOverrides: RetryPolicyOverride[] = [];
+
+// Overrides per owner (user ID), loaded by the retry worker for the campaigns it processes
+const ownerPolicyOverrides = new Map<string, RetryPolicyOverride[]>();
+
+export class RetryPolicyRegistry {
+  /**
+   * Convert Supabase row to RetryPolicyOverride
+   */
+  private static mapRowToPolicy(row: RetryPolicyRow): RetryPolicyOverride {
+    return {
+      id: row.id,
+      campaignId: row.campaign_id,
+      errorCode: row.error_code,
+      description: row.description,
+      retryIntervals: row.retry_intervals.map(Number),
+      maxAttempts: row.max_attempts ?? undefined,
+      jitterPct: row.jitter_pct ?? undefined,
+      backoffMultiplier: row.backoff_multiplier ?? undefined,
+      requiresTemplateActive: row.requires_template_active
+    };
+  }
+
+  private static mapPolicyToRow(policy: RetryPolicyOverride): RetryPolicyInsert {
+    return {
+      campaign_id: policy.campaignId,
+      error_code: policy.errorCode,
+      description: policy.description,
+      retry_intervals: policy.retryIntervals,
+      max_attempts: policy.maxAttempts ?? null,
+      jitter_pct: policy.jitterPct ?? null,
+      backoff_multiplier: policy.backoffMultiplier ?? null,
+      requires_template_active: policy.requiresTemplateActive ?? false,
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Validate a policy override against the schema
+   */
+  static validatePolicy(policy: unknown): {
+    isValid: boolean;
+    errors: string[];
+    policy?: RetryPolicyOverride;
+  } {
+    const result = retryPolicySchema.safeParse(policy);
+
+    if (!result.success) {
+      return {
+        isValid: false,
+        errors: result.error.issues.map(issue => issue.message)
+      };
+    }
+
+    return { isValid: true, errors: [], policy: result.data as RetryPolicyOverride };
+  }
+
+  /**
+   * Replace the cached overrides (used by tests and offline runs)
+   */
+  static setPolicies(overrides: RetryPolicyOverride[]): void {
+    policyOverrides = [...overrides];
+  }
+
+  /**
+   * Get the cached overrides
+   */
+  static listPolicies(): RetryPolicyOverride[] {
+    return [...policyOverrides];
+  }
+
+  /**
+   * Load the overrides of the accounts owning some campaigns, along with their account settings.
+   * Used by the retry worker, whose service-role client sees every account's overrides.
+   */
+  static async loadCampaignPolicies(campaignIds: string[]): Promise<void> {
+    const owners = await AccountSettingsService.loadCampaignAccounts(campaignIds);
+    const ownerIds = [...new Set(owners.values())];
+    if (ownerIds.length === 0) {
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('retry_policies')
+      .select('*')
+      .in('user_id', ownerIds)
+      .order('error_code', { ascending: true });
+
+    if (error) throw error;
+
+    ownerIds.forEach(ownerId => ownerPolicyOverrides.set(ownerId, []));
+    (data || []).forEach((row: RetryPolicyRow) => {
+      ownerPolicyOverrides.get(row.user_id)?.push(this.mapRowToPolicy(row));
+    });
+  }
+
+  /**
+   * Reload the signed-in account's overrides from Supabase
+   */
+  static async refresh(): Promise<RetryPolicyOverride[]> {
+    const { data, error } = await supabase
+      .from('retry_policies')
+      .select('*')
+      .order('error_code', { ascending: true });
+
+    if (error) throw error;
+
+    policyOverrides = data?.map(this.mapRowToPolicy) || [];
+    return this.listPolicies();
+  }
+
+  /**
+   * Create or update a policy override
+   */
+  static async savePolicy(policy: RetryPolicyOverride): Promise<RetryPolicyOverride> {
+    const validation = this.validatePolicy(policy);
+    if (!validation.isValid) {
+      throw new Error(`Invalid retry policy: ${validation.errors.join(', ')}`);
+    }
+
+    const row = this.mapPolicyToRow(validation.policy);
+    const query = policy.id
+      ? supabase.from('retry_policies').update(row).eq('id', policy.id)
+      : supabase.from('retry_policies').insert(row);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+
+    const saved = this.mapRowToPolicy(data);
+    policyOverrides = [...policyOverrides.filter(p => p.id !== saved.id), saved];
+    return saved;
+  }
+
+  /**
+   * Delete a policy override
+   */
+  static async deletePolicy(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('retry_policies')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    policyOverrides = policyOverrides.filter(p => p.id !== id);
+  }
+
+  /**
+   * Resolve the effective policy: campaign override, then account override, then built-in default
+   */
+  static resolve(errorCode: RetryErrorCode, campaignId?: string): RetryPolicy | null {
+    const overrides = this.getOverrides(campaignId);
+    const campaignPolicy = campaignId
+      ? overrides.find(p => p.campaignId === campaignId && p.errorCode === errorCode)
+      : undefined;
+    const accountPolicy = overrides.find(p => p.campaignId === null && p.errorCode === errorCode);
+
+    return campaignPolicy || accountPolicy || DEFAULT_RETRY_POLICIES[errorCode] || null;
+  }
+
+  /**
+   * Get every effective policy (defaults merged with overrides) keyed by error code
+   */
+  static getEffectivePolicies(campaignId?: string): Record<string, RetryPolicy> {
+    const errorCodes = new Set<string>([
+      ...Object.keys(DEFAULT_RETRY_POLICIES),
+      ...this.getOverrides(campaignId)
+        .filter(p => p.campaignId === null || p.campaignId === campaignId)
+        .map(p => p.errorCode)
+    ]);
+
+    const policies: Record<string, RetryPolicy> = {};
+    errorCodes.forEach(errorCode => {
+      policies[errorCode] = this.resolve(errorCode, campaignId);
+    });
+
+    return policies;
+  }
+
+  /**
+   * Overrides that apply to a campaign: its owner's once loaded by loadCampaignPolicies, else the signed-in account's
+   */
+  private static getOverrides(campaignId?: string): RetryPolicyOverride[] {
+    const ownerId = campaignId ? AccountSettingsService.getCampaignOwner(campaignId) : undefined;
+    return (ownerId && ownerPolicyOverrides.get(ownerId)) || policyOverrides;
+  }
+}
@@ -1,11 +1,26 @@
-import { RetryTtlConfig, RetryErrorCode, DEFAULT_RETRY_POLICIES, RetryPolicy } from '@/types/campaign';
+import { DateTime } from 'luxon';
+import { RetryTtlConfig, RetryErrorCode, RetryPolicy, QuietHours } from '@/types/campaign';
+import { AccountSettingsService } from './accountSettingsService';
+import { RetryPolicyRegistry } from './retryPolicyRegistry';
+import { RetryTtlRules, RetryTtlError } from './retryTtlRules';
+import { TemplateRegistryService, TemplateStatusStore, TEMPLATE_RECHECK_INTERVAL_HOURS } from './templateRegistryService';
+import { ClockService } from './clock';
 
 export interface RetryAttempt {
   attemptNumber: number;
   scheduledAt: string; // ISO 8601 datetime
   errorCode?: RetryErrorCode;
-  status: 'pending' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'completed' | 'failed' | 'skipped' | 'deferred';
   executedAt?: string; // ISO 8601 datetime
+  reason?: string; // Why the attempt was skipped or deferred
+  deliveries?: RetryAttemptDelivery[]; // Messages sent by this attempt, per error code being retried
+}
+
+export interface RetryAttemptDelivery {
+  errorCode: RetryErrorCode; // Error code the messages are being retried for
+  sent: number;
+  accepted: number; // Accepted by the provider when sent
+  delivered: number; // Confirmed by a delivered or read status since
 }
 
 export interface CampaignRetryState {
@@ -15,66 +30,85 @@ export interface CampaignRetryState {
   lastAttemptAt?: string; // ISO 8601 datetime
   nextAttemptAt?: string; // ISO 8601 datetime
   isExpired: boolean;
+  requeuedAt?: string; // ISO 8601 datetime; set when re-queued from the dead-letter queue
+  pausedAt?: string; // ISO 8601 datetime; set while an operator has retries paused
+  cancelledAt?: string; // ISO 8601 datetime; set once an operator cancelled retries
+  cancelReason?: string;
+}
+
+// 'sent': the provider accepted the retry and its delivery status hasn't arrived yet
+export type RecipientRetryStatus = 'retrying' | 'sent' | 'delivered' | 'exhausted' | 'stopped';
+
+// Per-contact entry in a campaign's retry ledger
+export interface RecipientRetryState {
+  recipientId: string; // Contact phone number (E.164)
+  status: RecipientRetryStatus;
+  errorCode?: RetryErrorCode;
+  attemptCount: number; // Retries sent to this recipient
+  lastAttemptAt?: string; // ISO 8601 datetime
+  nextAttemptAt?: string; // ISO 8601 datetime
+  lastError?: string;
+}
+
+export interface RecipientDeliveryResult {
+  recipientId: string;
+  success: boolean;
+  errorCode?: RetryErrorCode;
+  message?: string;
+}
+
+export interface RecipientRetryRollup {
+  total: number;
+  retrying: number;
+  sent: number; // Awaiting a delivery status
+  delivered: number;
+  exhausted: number;
+  stopped: number;
+  byErrorCode: Record<string, number>; // Recipients still retrying or exhausted, per error code
+}
+
+export interface RetryStats {
+  totalAttempts: number;
+  successfulAttempts: number;
+  failedAttempts: number;
+  pendingAttempts: number;
+  deferredAttempts: number;
+  isExpired: boolean;
+  timeToExpiry?: number; // milliseconds
+  recipients?: RecipientRetryRollup; // Only for campaigns tracked per recipient
 }
 
 export class RetryService {
   /**
    * Check if retry TTL has expired
    */
-  static isRetryTtlExpired(ttlDateTime: string): boolean {
+  static isRetryTtlExpired(ttlDateTime: string, now: Date = ClockService.now()): boolean {
     const ttl = new Date(ttlDateTime);
-    const now = new Date();
     return now > ttl;
   }
 
   /**
-   * Validate unified TTL constraints
+   * Get the delay (in hours) before the given attempt, or null when the policy has no attempts left
    */
-  static validateUnifiedTtl(ttlDateTime: string, scheduledDateTime: string): {
-    isValid: boolean;
-    errors: string[];
-  } {
-    const errors: string[] = [];
-    const ttl = new Date(ttlDateTime);
-    const scheduled = new Date(scheduledDateTime);
-    const now = new Date();
-
-    // Check if dates are valid
-    if (isNaN(ttl.getTime())) {
-      errors.push('Invalid TTL datetime');
-    }
-
-    if (isNaN(scheduled.getTime())) {
-      errors.push('Invalid scheduled datetime');
-    }
-
-    if (errors.length > 0) {
-      return { isValid: false, errors };
-    }
+  static getRetryDelayHours(
+    policy: RetryPolicy,
+    currentAttempt: number,
+    random: () => number = Math.random
+  ): number | null {
+    const { retryIntervals, maxAttempts = retryIntervals.length, jitterPct = 0, backoffMultiplier = 1 } = policy;
 
-    // Check TTL constraints - must be at least 24 hours after scheduled time
-    const minTtl = new Date(scheduled);
-    minTtl.setDate(minTtl.getDate() + 1); // 24 hours minimum
-    
-    if (ttl < minTtl) {
-      errors.push('TTL must be at least 24 hours after scheduled time');
+    if (currentAttempt >= maxAttempts || retryIntervals.length === 0) {
+      return null;
     }
 
-    const maxTtl = new Date(scheduled);
-    maxTtl.setDate(maxTtl.getDate() + 28); // 28 days maximum
-    
-    if (ttl > maxTtl) {
-      errors.push('TTL cannot be more than 28 days after scheduled time');
-    }
+    // Past the configured intervals, keep growing the last one by the backoff multiplier
+    const lastIndex = retryIntervals.length - 1;
+    const baseDelay = currentAttempt <= lastIndex
+      ? retryIntervals[currentAttempt]
+      : retryIntervals[lastIndex] * Math.pow(backoffMultiplier, currentAttempt - lastIndex);
 
-    if (ttl <= now) {
-      errors.push('TTL must be in the future');
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+    const jitter = jitterPct > 0 ? baseDelay * (jitterPct / 100) * (random() * 2 - 1) : 0;
+    return baseDelay + jitter;
   }
 
   /**
@@ -84,55 +118,248 @@ export class RetryService {
     errorCode: RetryErrorCode,
     currentAttempt: number,
     lastAttemptAt: string,
-    ttlDateTime: string
+    ttlDateTime: string,
+    campaignId?: string,
+    retryConfig?: RetryTtlConfig,
+    now: Date = ClockService.now()
   ): { nextAttemptAt: string | null; shouldRetry: boolean } {
     // Check if TTL has expired
-    if (this.isRetryTtlExpired(ttlDateTime)) {
+    if (this.isRetryTtlExpired(ttlDateTime, now)) {
       return { nextAttemptAt: null, shouldRetry: false };
     }
 
-    const policy = DEFAULT_RETRY_POLICIES[errorCode];
+    const policy = this.getRetryPolicy(errorCode, campaignId);
     if (!policy) {
       return { nextAttemptAt: null, shouldRetry: false };
     }
 
-    // Check if we have more retry intervals available
-    if (currentAttempt >= policy.retryIntervals.length) {
+    // Check if the policy allows another attempt
+    const projection = this.projectRetryAttempt(
+      policy,
+      currentAttempt,
+      new Date(lastAttemptAt),
+      this.getSchedulingWindow(retryConfig, campaignId)
+    );
+    if (!projection) {
       return { nextAttemptAt: null, shouldRetry: false };
     }
 
-    const retryDelayHours = policy.retryIntervals[currentAttempt];
-    const lastAttempt = new Date(lastAttemptAt);
-    const nextAttempt = new Date(lastAttempt);
-    nextAttempt.setHours(nextAttempt.getHours() + retryDelayHours);
-
-    // Ensure next attempt is before TTL
+    // Ensure next attempt (after moving it out of quiet hours) is before TTL
     const ttl = new Date(ttlDateTime);
-    if (nextAttempt > ttl) {
+    if (projection.attemptAt > ttl) {
       return { nextAttemptAt: null, shouldRetry: false };
     }
 
     return {
-      nextAttemptAt: nextAttempt.toISOString(),
+      nextAttemptAt: projection.attemptAt.toISOString(),
       shouldRetry: true
     };
   }
 
   /**
-   * Get retry policy for specific error code
+   * Project when a policy's next attempt would run, out of quiet hours (no clock or TTL checks)
+   */
+  static projectRetryAttempt(
+    policy: RetryPolicy,
+    currentAttempt: number,
+    lastAttemptAt: Date,
+    window: { quietHours: QuietHours; timezone: string },
+    random: () => number = Math.random
+  ): { attemptAt: Date; delayHours: number; movedByQuietHours: boolean } | null {
+    const delayHours = this.getRetryDelayHours(policy, currentAttempt, random);
+    if (delayHours === null) {
+      return null;
+    }
+
+    const dueAt = new Date(lastAttemptAt.getTime() + delayHours * 60 * 60 * 1000);
+    const attemptAt = this.applyQuietHours(dueAt, window.quietHours, window.timezone);
+
+    return {
+      attemptAt,
+      delayHours,
+      movedByQuietHours: attemptAt.getTime() !== dueAt.getTime()
+    };
+  }
+
+  /**
+   * Resolve the quiet hours and timezone that apply to a campaign (campaign override, then its owner's account)
+   */
+  static getSchedulingWindow(
+    retryConfig?: Pick<RetryTtlConfig, 'timezone' | 'quietHours'>,
+    campaignId?: string
+  ): { quietHours: QuietHours; timezone: string } {
+    const accountSettings = AccountSettingsService.getSettings(campaignId);
+
+    return {
+      quietHours: retryConfig?.quietHours ?? accountSettings.quietHours,
+      timezone: retryConfig?.timezone || accountSettings.timezone
+    };
+  }
+
+  /**
+   * Move a time that falls inside the quiet hours to the end of the window
+   */
+  static applyQuietHours(dateTime: Date, quietHours: QuietHours, timezone: string): Date {
+    if (!quietHours.enabled || quietHours.startTime === quietHours.endTime) {
+      return dateTime;
+    }
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const local = DateTime.fromJSDate(dateTime, { zone: timezone });
+    if (!local.isValid) {
+      return dateTime;
+    }
+
+    const start = toMinutes(quietHours.startTime);
+    const end = toMinutes(quietHours.endTime);
+    const current = local.hour * 60 + local.minute;
+
+    // Windows like 21:00–09:00 span midnight
+    const isQuiet = start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+
+    if (!isQuiet) {
+      return dateTime;
+    }
+
+    let windowEnd = local.set({ hour: Math.floor(end / 60), minute: end % 60, second: 0, millisecond: 0 });
+    if (windowEnd <= local) {
+      windowEnd = windowEnd.plus({ days: 1 });
+    }
+
+    return windowEnd.toJSDate();
+  }
+
+  /**
+   * Move a scheduled retry out of the campaign's quiet hours
    */
-  static getRetryPolicy(errorCode: RetryErrorCode): RetryPolicy | null {
-    return DEFAULT_RETRY_POLICIES[errorCode] || null;
+  static adjustForQuietHours(dateTime: Date, retryConfig?: RetryTtlConfig, campaignId?: string): Date {
+    const { quietHours, timezone } = this.getSchedulingWindow(retryConfig, campaignId);
+    return this.applyQuietHours(dateTime, quietHours, timezone);
+  }
+
+  /**
+   * Get retry policy for specific error code (campaign and account overrides take precedence)
+   */
+  static getRetryPolicy(errorCode: RetryErrorCode, campaignId?: string): RetryPolicy | null {
+    return RetryPolicyRegistry.resolve(errorCode, campaignId);
   }
 
   /**
    * Check if template is active (for error code 132015)
    */
-  static async isTemplateActive(templateId: string): Promise<boolean> {
-    // This would integrate with the actual template service
-    // For now, return true as a placeholder
-    console.log(`Checking if template ${templateId} is active`);
-    return true;
+  static async isTemplateActive(
+    templateId: string,
+    templates: TemplateStatusStore = TemplateRegistryService.getStore()
+  ): Promise<boolean> {
+    const status = await TemplateRegistryService.getTemplateStatus(templateId, templates);
+    return TemplateRegistryService.isActiveStatus(status);
+  }
+
+  /**
+   * Check if the template assigned to a campaign is active (campaigns without a template are never blocked)
+   */
+  static async isCampaignTemplateActive(
+    campaignId: string,
+    templates: TemplateStatusStore = TemplateRegistryService.getStore()
+  ): Promise<boolean> {
+    const template = await TemplateRegistryService.getCampaignTemplate(campaignId, templates);
+    return template ? this.isTemplateActive(template.templateId, templates) : true;
+  }
+
+  /**
+   * Count the attempts that used up a policy slot (skipped and deferred attempts don't,
+   * nor do attempts from before the campaign was last re-queued)
+   */
+  static countAttemptSlots(attempts: RetryAttempt[], requeuedAt?: string): number {
+    return attempts.filter(a =>
+      a.status !== 'skipped' &&
+      a.status !== 'deferred' &&
+      (!requeuedAt || new Date(a.executedAt || a.scheduledAt) >= new Date(requeuedAt))
+    ).length;
+  }
+
+  /**
+   * Get the error code of the most recent failed attempt
+   */
+  static getLastErrorCode(attempts: RetryAttempt[]): RetryErrorCode | undefined {
+    return [...attempts].reverse().find(a => a.status === 'failed' && a.errorCode)?.errorCode;
+  }
+
+  /**
+   * Count the messages an attempt sent and the provider accepted, per error code being retried.
+   * Deliveries are only known once their statuses arrive (CampaignService.recordRecipientDeliveries).
+   */
+  static summarizeDeliveries(
+    results: RecipientDeliveryResult[],
+    getRetriedErrorCode: (recipientId: string) => RetryErrorCode | undefined
+  ): RetryAttemptDelivery[] {
+    const deliveries = new Map<RetryErrorCode, RetryAttemptDelivery>();
+
+    results.forEach(result => {
+      const errorCode = getRetriedErrorCode(result.recipientId) || 'unknown';
+      const delivery = deliveries.get(errorCode) || { errorCode, sent: 0, accepted: 0, delivered: 0 };
+      delivery.sent++;
+      if (result.success) delivery.accepted++;
+      deliveries.set(errorCode, delivery);
+    });
+
+    return Array.from(deliveries.values());
+  }
+
+  /**
+   * Work out when to check a paused template again, or null when that would be past the TTL
+   */
+  static getTemplateRecheckAt(
+    retryConfig: RetryTtlConfig,
+    now: Date = ClockService.now(),
+    campaignId?: string
+  ): string | null {
+    if (!retryConfig.ttlDateTime) {
+      return null;
+    }
+
+    const recheckAt = this.adjustForQuietHours(
+      new Date(now.getTime() + TEMPLATE_RECHECK_INTERVAL_HOURS * 60 * 60 * 1000),
+      retryConfig,
+      campaignId
+    );
+    return recheckAt > new Date(retryConfig.ttlDateTime) ? null : recheckAt.toISOString();
+  }
+
+  /**
+   * Check whether a due retry has to keep waiting for its template to be re-approved.
+   * Waiting counts against the TTL but not against the policy's attempts.
+   */
+  static async checkTemplateDeferral(
+    campaignId: string,
+    retryState: CampaignRetryState,
+    templates: TemplateStatusStore = TemplateRegistryService.getStore(),
+    recipientErrorCodes: RetryErrorCode[] = []
+  ): Promise<{ shouldDefer: boolean; nextAttemptAt: string | null; reason?: string }> {
+    const errorCodes = [this.getLastErrorCode(retryState.attempts), ...recipientErrorCodes].filter(Boolean);
+    const requiresTemplateActive = errorCodes.some(
+      errorCode => this.getRetryPolicy(errorCode, campaignId)?.requiresTemplateActive
+    );
+
+    if (!requiresTemplateActive || await this.isCampaignTemplateActive(campaignId, templates)) {
+      return { shouldDefer: false, nextAttemptAt: null };
+    }
+
+    const nextAttemptAt = this.getTemplateRecheckAt(retryState.retryConfig, ClockService.now(), campaignId);
+
+    return {
+      shouldDefer: true,
+      nextAttemptAt,
+      reason: nextAttemptAt
+        ? `Template is still paused, retry deferred until ${nextAttemptAt}`
+        : 'Template is still paused and the retry TTL expires before it can be rechecked'
+    };
   }
 
   /**
@@ -141,13 +368,14 @@ export class RetryService {
   static async processRetryAttempt(
     campaignId: string,
     errorCode: RetryErrorCode,
-    retryState: CampaignRetryState
+    retryState: CampaignRetryState,
+    templates: TemplateStatusStore = TemplateRegistryService.getStore()
   ): Promise<{
     shouldRetry: boolean;
     nextAttemptAt: string | null;
     reason: string;
   }> {
-    const { retryConfig, attempts } = retryState;
+    const { retryConfig, attempts, requeuedAt } = retryState;
 
     // Check if retry is enabled
     if (!retryConfig.enabled) {
@@ -167,7 +395,7 @@ export class RetryService {
       };
     }
 
-    const policy = this.getRetryPolicy(errorCode);
+    const policy = this.getRetryPolicy(errorCode, campaignId);
     if (!policy) {
       return {
         shouldRetry: false,
@@ -176,26 +404,38 @@ export class RetryService {
       };
     }
 
-    // Special handling for template paused error (132015)
-    if (errorCode === '132015' && policy.requiresTemplateActive) {
-      const isActive = await this.isTemplateActive(campaignId);
-      if (!isActive) {
+    const currentAttempt = this.countAttemptSlots(attempts, requeuedAt);
+
+    // Special handling for template paused error (132015): wait for the template
+    // to be re-approved without using up one of the policy's attempts
+    if (policy.requiresTemplateActive && !(await this.isCampaignTemplateActive(campaignId, templates))) {
+      if (this.getRetryDelayHours(policy, currentAttempt) === null) {
         return {
           shouldRetry: false,
           nextAttemptAt: null,
-          reason: 'Template is still paused, retry blocked'
+          reason: 'No more retry attempts available or TTL expired'
         };
       }
+
+      const recheckAt = this.getTemplateRecheckAt(retryConfig, ClockService.now(), campaignId);
+      return {
+        shouldRetry: recheckAt !== null,
+        nextAttemptAt: recheckAt,
+        reason: recheckAt
+          ? `Template is still paused, retry deferred until ${recheckAt}`
+          : 'Template is still paused and the retry TTL expires before it can be rechecked'
+      };
     }
 
-    const currentAttempt = attempts.length;
-    const lastAttemptAt = retryState.lastAttemptAt || new Date().toISOString();
+    const lastAttemptAt = retryState.lastAttemptAt || ClockService.now().toISOString();
 
     const { nextAttemptAt, shouldRetry } = this.calculateNextRetryAttempt(
       errorCode,
       currentAttempt,
       lastAttemptAt,
-      retryConfig.ttlDateTime
+      retryConfig.ttlDateTime,
+      campaignId,
+      retryConfig
     );
 
     return {
@@ -234,7 +474,7 @@ export class RetryService {
     return {
       ...retryState,
       attempts: updatedAttempts,
-      lastAttemptAt: attempt.executedAt || new Date().toISOString(),
+      lastAttemptAt: attempt.executedAt || ClockService.now().toISOString(),
       isExpired: retryState.retryConfig.ttlDateTime 
         ? this.isRetryTtlExpired(retryState.retryConfig.ttlDateTime) 
         : false
@@ -244,49 +484,138 @@ export class RetryService {
   /**
    * Get retry statistics for monitoring
    */
-  static getRetryStats(retryState: CampaignRetryState): {
-    totalAttempts: number;
-    successfulAttempts: number;
-    failedAttempts: number;
-    pendingAttempts: number;
-    isExpired: boolean;
-    timeToExpiry?: number; // milliseconds
-  } {
+  static getRetryStats(retryState: CampaignRetryState, recipients: RecipientRetryState[] = []): RetryStats {
     const { attempts, retryConfig, isExpired } = retryState;
     
-    const stats = {
+    const stats: RetryStats = {
       totalAttempts: attempts.length,
       successfulAttempts: attempts.filter(a => a.status === 'completed').length,
       failedAttempts: attempts.filter(a => a.status === 'failed').length,
       pendingAttempts: attempts.filter(a => a.status === 'pending').length,
+      deferredAttempts: attempts.filter(a => a.status === 'deferred').length,
       isExpired,
-      timeToExpiry: undefined as number | undefined
+      timeToExpiry: undefined
     };
 
     if (retryConfig.ttlDateTime && !isExpired) {
       const ttl = new Date(retryConfig.ttlDateTime);
-      const now = new Date();
+      const now = ClockService.now();
       stats.timeToExpiry = ttl.getTime() - now.getTime();
     }
 
+    if (recipients.length > 0) {
+      stats.recipients = this.getRecipientRollup(recipients);
+    }
+
     return stats;
   }
 
+  /**
+   * Roll up a campaign's recipient ledger by status and error code
+   */
+  static getRecipientRollup(recipients: RecipientRetryState[]): RecipientRetryRollup {
+    const rollup: RecipientRetryRollup = {
+      total: recipients.length,
+      retrying: 0,
+      sent: 0,
+      delivered: 0,
+      exhausted: 0,
+      stopped: 0,
+      byErrorCode: {}
+    };
+
+    recipients.forEach(recipient => {
+      rollup[recipient.status]++;
+
+      if (recipient.errorCode && (recipient.status === 'retrying' || recipient.status === 'exhausted')) {
+        rollup.byErrorCode[recipient.errorCode] = (rollup.byErrorCode[recipient.errorCode] || 0) + 1;
+      }
+    });
+
+    return rollup;
+  }
+
+  /**
+   * Get the recipients whose next retry is due
+   */
+  static getDueRecipients(recipients: RecipientRetryState[], now: Date = ClockService.now()): RecipientRetryState[] {
+    return recipients.filter(
+      r => r.status === 'retrying' && (!r.nextAttemptAt || new Date(r.nextAttemptAt) <= now)
+    );
+  }
+
+  /**
+   * Get the earliest next attempt across recipients that are still retrying
+   */
+  static getNextRecipientAttemptAt(recipients: RecipientRetryState[]): string | undefined {
+    return recipients
+      .filter(r => r.status === 'retrying' && r.nextAttemptAt)
+      .map(r => r.nextAttemptAt as string)
+      .sort()[0];
+  }
+
+  /**
+   * Apply delivery results to the ledger entries of the recipients that were sent to.
+   * Accepted messages wait for their delivery status as 'sent'; failed recipients are
+   * rescheduled from their own policy and attempt count.
+   */
+  static applyRecipientResults(
+    campaignId: string,
+    recipients: RecipientRetryState[],
+    results: RecipientDeliveryResult[],
+    retryConfig: RetryTtlConfig,
+    executedAt: string = ClockService.now().toISOString(),
+    countAttempt: boolean = true
+  ): RecipientRetryState[] {
+    const resultsById = new Map(results.map(result => [result.recipientId, result]));
+
+    return recipients.map(recipient => {
+      const result = resultsById.get(recipient.recipientId);
+      if (!result) {
+        return recipient;
+      }
+
+      const attemptCount = countAttempt ? recipient.attemptCount + 1 : recipient.attemptCount;
+
+      if (result.success) {
+        return { ...recipient, status: 'sent', attemptCount, lastAttemptAt: executedAt, nextAttemptAt: undefined };
+      }
+
+      const next = result.errorCode && retryConfig.ttlDateTime
+        ? this.calculateNextRetryAttempt(result.errorCode, attemptCount, executedAt, retryConfig.ttlDateTime, campaignId, retryConfig)
+        : { nextAttemptAt: null, shouldRetry: false };
+
+      return {
+        ...recipient,
+        status: next.shouldRetry ? 'retrying' : 'exhausted',
+        errorCode: result.errorCode ?? recipient.errorCode,
+        attemptCount,
+        lastAttemptAt: executedAt,
+        nextAttemptAt: next.nextAttemptAt ?? undefined,
+        lastError: result.message
+      };
+    });
+  }
+
   /**
    * Create unified TTL configuration for both retry engine and Meta API
    */
   static createUnifiedTtlConfig(
     campaignId: string,
     scheduledAt: string,
-    retryTtl: string
+    retryTtl: string,
+    conversionEventName?: string,
+    timezone?: string,
+    quietHours?: QuietHours,
+    businessNumberId?: string
   ): {
     retryEngineConfig: RetryTtlConfig;
     metaApiTtl: string;
     isValid: boolean;
-    errors: string[];
+    errors: RetryTtlError[];
   } {
-    // Validate the unified TTL
-    const validation = this.validateUnifiedTtl(retryTtl, scheduledAt);
+    // Validate the unified TTL against the account's TTL rules
+    const validation = RetryTtlRules.validate(retryTtl, scheduledAt);
     
     if (!validation.isValid) {
       return {
@@ -296,7 +625,11 @@ export class RetryService {
           scheduledDateTime: scheduledAt,
           stopOnConversion: true,
           stopOnManualPause: true,
-          stopOnTemplateChange: true
+          stopOnTemplateChange: true,
+          conversionEventName,
+          timezone,
+          quietHours,
+          businessNumberId
         },
         metaApiTtl: retryTtl,
         isValid: false,
@@ -311,7 +644,11 @@ export class RetryService {
       scheduledDateTime: scheduledAt,
       stopOnConversion: true,
       stopOnManualPause: true,
-      stopOnTemplateChange: true
+      stopOnTemplateChange: true,
+      conversionEventName,
+      timezone,
+      quietHours,
+      businessNumberId
     };
 
     return {
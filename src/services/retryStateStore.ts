@@ -0,0 +1,432 @@
+import { supabase, Database } from '@/lib/supabase';
+import { RetryErrorCode } from '@/types/campaign';
+import { CampaignRetryState, RetryAttempt, RecipientRetryState } from './retryService';
+import { RetryEngineControlStore } from './retryEngineControls';
+
+type RetryStateRow = Database['public']['Tables']['campaign_retry_states']['Row'];
+type RetryStateInsert = Database['public']['Tables']['campaign_retry_states']['Insert'];
+type RetryAttemptRow = Database['public']['Tables']['campaign_retry_attempts']['Row'];
+type RetryAttemptInsert = Database['public']['Tables']['campaign_retry_attempts']['Insert'];
+type RetryRecipientRow = Database['public']['Tables']['campaign_retry_recipients']['Row'];
+type RetryRecipientInsert = Database['public']['Tables']['campaign_retry_recipients']['Insert'];
+type RecordAttemptDeliveriesArgs = Database['public']['Functions']['record_retry_attempt_deliveries']['Args'];
+
+// Campaign IDs per attempts query, keeping the `in` filter well inside URL length limits
+const ATTEMPTS_QUERY_CHUNK_SIZE = 100;
+
+/**
+ * Storage backend for campaign retry states, their attempt history and recipient ledger.
+ * `saveRetryState` persists the state itself; attempts are only ever appended, apart from
+ * `recordAttemptDeliveries` adding the deliveries their statuses confirm later;
+ * `saveRecipients` upserts ledger entries by recipient ID.
+ * `listDueRetryStates` returns enabled, unexpired states whose next attempt is due by `now`,
+ * soonest first, leaving out accounts whose retries are stopped, and `listExpiredRetryStates` the pending ones that are or ran past their TTL;
+ * both let the engine poll without loading every campaign.
+ */
+export interface RetryStateStore {
+  getRetryState(campaignId: string): Promise<CampaignRetryState | null>;
+  listRetryStates(): Promise<CampaignRetryState[]>;
+  listDueRetryStates(now: Date, limit: number): Promise<CampaignRetryState[]>;
+  countDueRetryStates(now: Date): Promise<number>;
+  listExpiredRetryStates(now: Date): Promise<CampaignRetryState[]>;
+  saveRetryState(retryState: CampaignRetryState): Promise<void>;
+  appendRetryAttempt(campaignId: string, attempt: RetryAttempt): Promise<void>;
+  recordAttemptDeliveries(campaignId: string, attemptNumber: number, errorCode: RetryErrorCode, count: number): Promise<void>;
+  listRecipients(campaignId: string): Promise<RecipientRetryState[]>;
+  saveRecipients(campaignId: string, recipients: RecipientRetryState[]): Promise<void>;
+}
+
+/**
+ * In-memory retry state store (used by tests and local development)
+ */
+export class InMemoryRetryStateStore implements RetryStateStore {
+  private states = new Map<string, Omit<CampaignRetryState, 'attempts'>>();
+  private attempts = new Map<string, RetryAttempt[]>();
+  private recipients = new Map<string, Map<string, RecipientRetryState>>();
+  private controls?: RetryEngineControlStore;
+
+  // Every campaign belongs to the controls' single local account; none are due while it is stopped
+  constructor(controls?: RetryEngineControlStore) {
+    this.controls = controls;
+  }
+
+  async getRetryState(campaignId: string): Promise<CampaignRetryState | null> {
+    const state = this.states.get(campaignId);
+    if (!state) {
+      return null;
+    }
+
+    return {
+      ...state,
+      retryConfig: { ...state.retryConfig },
+      attempts: [...(this.attempts.get(campaignId) || [])]
+    };
+  }
+
+  async listRetryStates(): Promise<CampaignRetryState[]> {
+    const states = await Promise.all(
+      Array.from(this.states.keys()).map(campaignId => this.getRetryState(campaignId))
+    );
+    return states.filter((state): state is CampaignRetryState => state !== null);
+  }
+
+  async listDueRetryStates(now: Date, limit: number): Promise<CampaignRetryState[]> {
+    if (await this.isStopped()) {
+      return [];
+    }
+    return (await this.listRetryStates())
+      .filter(state => InMemoryRetryStateStore.isDue(state, now))
+      .sort((a, b) => new Date(a.nextAttemptAt!).getTime() - new Date(b.nextAttemptAt!).getTime())
+      .slice(0, limit);
+  }
+
+  async countDueRetryStates(now: Date): Promise<number> {
+    if (await this.isStopped()) {
+      return 0;
+    }
+    return (await this.listRetryStates()).filter(state => InMemoryRetryStateStore.isDue(state, now)).length;
+  }
+
+  async listExpiredRetryStates(now: Date): Promise<CampaignRetryState[]> {
+    return (await this.listRetryStates()).filter(state =>
+      state.retryConfig.enabled &&
+      !!state.nextAttemptAt &&
+      (state.isExpired || (!!state.retryConfig.ttlDateTime && new Date(state.retryConfig.ttlDateTime) < now))
+    );
+  }
+
+  async saveRetryState(retryState: CampaignRetryState): Promise<void> {
+    const { attempts, ...state } = retryState;
+    this.states.set(retryState.campaignId, { ...state, retryConfig: { ...state.retryConfig } });
+
+    if (!this.attempts.has(retryState.campaignId)) {
+      this.attempts.set(retryState.campaignId, []);
+    }
+  }
+
+  async appendRetryAttempt(campaignId: string, attempt: RetryAttempt): Promise<void> {
+    const attempts = this.attempts.get(campaignId) || [];
+    this.attempts.set(campaignId, [...attempts, { ...attempt }]);
+  }
+
+  async recordAttemptDeliveries(campaignId: string, attemptNumber: number, errorCode: RetryErrorCode, count: number): Promise<void> {
+    const attempts = this.attempts.get(campaignId) || [];
+    this.attempts.set(campaignId, attempts.map(attempt => attempt.attemptNumber !== attemptNumber ? attempt : {
+      ...attempt,
+      deliveries: attempt.deliveries?.map(delivery =>
+        delivery.errorCode === errorCode ? { ...delivery, delivered: delivery.delivered + count } : delivery
+      )
+    }));
+  }
+
+  async listRecipients(campaignId: string): Promise<RecipientRetryState[]> {
+    return Array.from(this.recipients.get(campaignId)?.values() || []).map(recipient => ({ ...recipient }));
+  }
+
+  async saveRecipients(campaignId: string, recipients: RecipientRetryState[]): Promise<void> {
+    const ledger = this.recipients.get(campaignId) || new Map<string, RecipientRetryState>();
+    recipients.forEach(recipient => ledger.set(recipient.recipientId, { ...recipient }));
+    this.recipients.set(campaignId, ledger);
+  }
+
+  private async isStopped(): Promise<boolean> {
+    return (await this.controls?.getControl())?.paused ?? false;
+  }
+
+  private static isDue(state: CampaignRetryState, now: Date): boolean {
+    return state.retryConfig.enabled &&
+      !state.isExpired &&
+      !!state.nextAttemptAt &&
+      new Date(state.nextAttemptAt) <= now;
+  }
+
+  /**
+   * Remove all stored states, attempts and recipients
+   */
+  clear(): void {
+    this.states.clear();
+    this.attempts.clear();
+    this.recipients.clear();
+  }
+}
+
+/**
+ * Supabase-backed retry state store (campaign_retry_states / campaign_retry_attempts)
+ */
+export class SupabaseRetryStateStore implements RetryStateStore {
+  /**
+   * Convert Supabase rows to CampaignRetryState
+   */
+  private static mapRowToRetryState(row: RetryStateRow, attemptRows: RetryAttemptRow[]): CampaignRetryState {
+    return {
+      campaignId: row.campaign_id,
+      retryConfig: {
+        enabled: row.enabled,
+        ttlDateTime: row.retry_ttl ?? undefined,
+        scheduledDateTime: row.scheduled_at ?? undefined,
+        stopOnConversion: row.stop_on_conversion,
+        stopOnManualPause: row.stop_on_manual_pause,
+        stopOnTemplateChange: row.stop_on_template_change,
+        conversionEventName: row.conversion_event_name ?? undefined,
+        timezone: row.timezone ?? undefined,
+        quietHours: row.quiet_hours_enabled === null || row.quiet_hours_enabled === undefined
+          ? undefined
+          : {
+            enabled: row.quiet_hours_enabled,
+            startTime: row.quiet_hours_start,
+            endTime: row.quiet_hours_end
+          },
+        businessNumberId: row.business_number_id ?? undefined
+      },
+      attempts: attemptRows
+        .sort((a, b) => a.attempt_number - b.attempt_number)
+        .map(SupabaseRetryStateStore.mapRowToAttempt),
+      lastAttemptAt: row.last_attempt_at ?? undefined,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      isExpired: row.is_expired,
+      requeuedAt: row.requeued_at ?? undefined,
+      pausedAt: row.paused_at ?? undefined,
+      cancelledAt: row.cancelled_at ?? undefined,
+      cancelReason: row.cancel_reason ?? undefined
+    };
+  }
+
+  private static mapRowToAttempt(row: RetryAttemptRow): RetryAttempt {
+    return {
+      attemptNumber: row.attempt_number,
+      scheduledAt: row.scheduled_at,
+      executedAt: row.executed_at ?? undefined,
+      status: row.status,
+      errorCode: row.error_code ?? undefined,
+      reason: row.reason ?? undefined,
+      deliveries: row.deliveries?.map(delivery => ({
+        errorCode: delivery.error_code,
+        sent: delivery.sent,
+        accepted: delivery.accepted ?? 0,
+        delivered: delivery.delivered
+      }))
+    };
+  }
+
+  private static mapRowToRecipient(row: RetryRecipientRow): RecipientRetryState {
+    return {
+      recipientId: row.recipient_id,
+      status: row.status,
+      errorCode: row.error_code ?? undefined,
+      attemptCount: row.attempt_count,
+      lastAttemptAt: row.last_attempt_at ?? undefined,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      lastError: row.last_error ?? undefined
+    };
+  }
+
+  private static mapRetryStateToRow(retryState: CampaignRetryState): RetryStateInsert {
+    const { retryConfig } = retryState;
+
+    return {
+      campaign_id: retryState.campaignId,
+      enabled: retryConfig.enabled,
+      retry_ttl: retryConfig.ttlDateTime ?? null,
+      scheduled_at: retryConfig.scheduledDateTime ?? null,
+      stop_on_conversion: retryConfig.stopOnConversion,
+      stop_on_manual_pause: retryConfig.stopOnManualPause,
+      stop_on_template_change: retryConfig.stopOnTemplateChange,
+      conversion_event_name: retryConfig.conversionEventName ?? null,
+      timezone: retryConfig.timezone ?? null,
+      quiet_hours_enabled: retryConfig.quietHours?.enabled ?? null,
+      quiet_hours_start: retryConfig.quietHours?.startTime ?? null,
+      quiet_hours_end: retryConfig.quietHours?.endTime ?? null,
+      business_number_id: retryConfig.businessNumberId ?? null,
+      last_attempt_at: retryState.lastAttemptAt ?? null,
+      next_attempt_at: retryState.nextAttemptAt ?? null,
+      is_expired: retryState.isExpired,
+      requeued_at: retryState.requeuedAt ?? null,
+      paused_at: retryState.pausedAt ?? null,
+      cancelled_at: retryState.cancelledAt ?? null,
+      cancel_reason: retryState.cancelReason ?? null,
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  async getRetryState(campaignId: string): Promise<CampaignRetryState | null> {
+    const { data, error } = await supabase
+      .from('campaign_retry_states')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return SupabaseRetryStateStore.mapRowToRetryState(data, await SupabaseRetryStateStore.loadAttempts(campaignId));
+  }
+
+  async listRetryStates(): Promise<CampaignRetryState[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_states')
+      .select('*');
+
+    if (error) throw error;
+    if (!data || data.length === 0) return [];
+
+    const attemptRows: RetryAttemptRow[] = [];
+    for (let start = 0; start < data.length; start += ATTEMPTS_QUERY_CHUNK_SIZE) {
+      const { data: chunkRows, error: attemptsError } = await supabase
+        .from('campaign_retry_attempts')
+        .select('*')
+        .in('campaign_id', data.slice(start, start + ATTEMPTS_QUERY_CHUNK_SIZE).map((row: RetryStateRow) => row.campaign_id));
+
+      if (attemptsError) throw attemptsError;
+      attemptRows.push(...(chunkRows || []));
+    }
+
+    return data.map((row: RetryStateRow) =>
+      SupabaseRetryStateStore.mapRowToRetryState(
+        row,
+        attemptRows.filter((attempt: RetryAttemptRow) => attempt.campaign_id === row.campaign_id)
+      )
+    );
+  }
+
+  async listDueRetryStates(now: Date, limit: number): Promise<CampaignRetryState[]> {
+    // Served by idx_campaign_retry_states_next_attempt_at
+    const { data, error } = await supabase
+      .from('campaign_retry_states')
+      .select('*')
+      .eq('enabled', true)
+      .eq('is_expired', false)
+      .lte('next_attempt_at', now.toISOString())
+      .eq('retries_stopped', false)
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return SupabaseRetryStateStore.withAttempts(data || []);
+  }
+
+  async countDueRetryStates(now: Date): Promise<number> {
+    const { count, error } = await supabase
+      .from('campaign_retry_states')
+      .select('campaign_id', { count: 'exact', head: true })
+      .eq('enabled', true)
+      .eq('is_expired', false)
+      .lte('next_attempt_at', now.toISOString())
+      .eq('retries_stopped', false);
+
+    if (error) throw error;
+
+    return count ?? 0;
+  }
+
+  async listExpiredRetryStates(now: Date): Promise<CampaignRetryState[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_states')
+      .select('*')
+      .eq('enabled', true)
+      .not('next_attempt_at', 'is', null)
+      .or(`is_expired.eq.true,retry_ttl.lt.${now.toISOString()}`);
+
+    if (error) throw error;
+
+    return SupabaseRetryStateStore.withAttempts(data || []);
+  }
+
+  /**
+   * Load each state's attempts with its own query
+   */
+  private static async withAttempts(rows: RetryStateRow[]): Promise<CampaignRetryState[]> {
+    return Promise.all(rows.map(async row =>
+      SupabaseRetryStateStore.mapRowToRetryState(row, await SupabaseRetryStateStore.loadAttempts(row.campaign_id))
+    ));
+  }
+
+  private static async loadAttempts(campaignId: string): Promise<RetryAttemptRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_attempts')
+      .select('*')
+      .eq('campaign_id', campaignId);
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  async saveRetryState(retryState: CampaignRetryState): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_retry_states')
+      .upsert(SupabaseRetryStateStore.mapRetryStateToRow(retryState), { onConflict: 'campaign_id' });
+
+    if (error) throw error;
+  }
+
+  async appendRetryAttempt(campaignId: string, attempt: RetryAttempt): Promise<void> {
+    const row: RetryAttemptInsert = {
+      campaign_id: campaignId,
+      attempt_number: attempt.attemptNumber,
+      scheduled_at: attempt.scheduledAt,
+      executed_at: attempt.executedAt ?? null,
+      status: attempt.status,
+      error_code: attempt.errorCode ?? null,
+      reason: attempt.reason ?? null,
+      deliveries: attempt.deliveries?.map(delivery => ({
+        error_code: delivery.errorCode,
+        sent: delivery.sent,
+        accepted: delivery.accepted,
+        delivered: delivery.delivered
+      })) ?? null
+    };
+
+    const { error } = await supabase
+      .from('campaign_retry_attempts')
+      .insert(row);
+
+    if (error) throw error;
+  }
+
+  async recordAttemptDeliveries(campaignId: string, attemptNumber: number, errorCode: RetryErrorCode, count: number): Promise<void> {
+    // Incremented in one statement, so statuses arriving together are all counted
+    const args: RecordAttemptDeliveriesArgs = {
+      p_campaign_id: campaignId,
+      p_attempt_number: attemptNumber,
+      p_error_code: errorCode,
+      p_count: count
+    };
+    const { error } = await supabase.rpc('record_retry_attempt_deliveries', args);
+
+    if (error) throw error;
+  }
+
+  async listRecipients(campaignId: string): Promise<RecipientRetryState[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_recipients')
+      .select('*')
+      .eq('campaign_id', campaignId);
+
+    if (error) throw error;
+
+    return data?.map(SupabaseRetryStateStore.mapRowToRecipient) || [];
+  }
+
+  async saveRecipients(campaignId: string, recipients: RecipientRetryState[]): Promise<void> {
+    if (recipients.length === 0) return;
+
+    const rows: RetryRecipientInsert[] = recipients.map(recipient => ({
+      campaign_id: campaignId,
+      recipient_id: recipient.recipientId,
+      status: recipient.status,
+      error_code: recipient.errorCode ?? null,
+      attempt_count: recipient.attemptCount,
+      last_attempt_at: recipient.lastAttemptAt ?? null,
+      next_attempt_at: recipient.nextAttemptAt ?? null,
+      last_error: recipient.lastError ?? null,
+      updated_at: new Date().toISOString()
+    }));
+
+    const { error } = await supabase
+      .from('campaign_retry_recipients')
+      .upsert(rows, { onConflict: 'campaign_id,recipient_id' });
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,197 @@
+import { supabase, Database } from '@/lib/supabase';
+import { CampaignRetryState } from './retryService';
+import { ClockService } from './clock';
+
+type RetryEventRow = Database['public']['Tables']['campaign_retry_events']['Row'];
+type RetryEventInsert = Database['public']['Tables']['campaign_retry_events']['Insert'];
+
+export type RetryStopEventType = 'conversion' | 'manual_pause' | 'template_change';
+
+export interface RetryStopEvent {
+  campaignId: string;
+  type: RetryStopEventType;
+  occurredAt: string; // ISO 8601 datetime
+  eventName?: string; // Conversion event name (matched against the campaign's conversion goal)
+  templateId?: string; // New template for template changes
+  details?: string;
+}
+
+/**
+ * Storage backend for events that can stop a campaign's retries
+ */
+export interface RetryStopEventStore {
+  recordEvent(event: RetryStopEvent): Promise<void>;
+  listEvents(campaignId: string): Promise<RetryStopEvent[]>;
+}
+
+/**
+ * In-memory stop event store (used by tests and local development)
+ */
+export class InMemoryRetryStopEventStore implements RetryStopEventStore {
+  private events = new Map<string, RetryStopEvent[]>();
+
+  async recordEvent(event: RetryStopEvent): Promise<void> {
+    const events = this.events.get(event.campaignId) || [];
+    this.events.set(event.campaignId, [...events, { ...event }]);
+  }
+
+  async listEvents(campaignId: string): Promise<RetryStopEvent[]> {
+    return [...(this.events.get(campaignId) || [])];
+  }
+
+  /**
+   * Remove all recorded events
+   */
+  clear(): void {
+    this.events.clear();
+  }
+}
+
+/**
+ * Supabase-backed stop event store (campaign_retry_events)
+ */
+export class SupabaseRetryStopEventStore implements RetryStopEventStore {
+  private static mapRowToEvent(row: RetryEventRow): RetryStopEvent {
+    return {
+      campaignId: row.campaign_id,
+      type: row.event_type,
+      occurredAt: row.occurred_at,
+      eventName: row.event_name ?? undefined,
+      templateId: row.template_id ?? undefined,
+      details: row.details ?? undefined
+    };
+  }
+
+  async recordEvent(event: RetryStopEvent): Promise<void> {
+    const row: RetryEventInsert = {
+      campaign_id: event.campaignId,
+      event_type: event.type,
+      occurred_at: event.occurredAt,
+      event_name: event.eventName ?? null,
+      template_id: event.templateId ?? null,
+      details: event.details ?? null
+    };
+
+    const { error } = await supabase
+      .from('campaign_retry_events')
+      .insert(row);
+
+    if (error) throw error;
+  }
+
+  async listEvents(campaignId: string): Promise<RetryStopEvent[]> {
+    const { data, error } = await supabase
+      .from('campaign_retry_events')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data?.map(SupabaseRetryStopEventStore.mapRowToEvent) || [];
+  }
+}
+
+// Stop event storage backend (swap for InMemoryRetryStopEventStore in tests)
+let stopEventStore: RetryStopEventStore = new SupabaseRetryStopEventStore();
+
+export class RetryStopEventService {
+  /**
+   * Replace the stop event storage backend
+   */
+  static useStore(store: RetryStopEventStore): void {
+    stopEventStore = store;
+  }
+
+  /**
+   * Get the active stop event storage backend
+   */
+  static getStore(): RetryStopEventStore {
+    return stopEventStore;
+  }
+
+  /**
+   * Record a conversion event for a campaign's audience
+   */
+  static async recordConversion(
+    campaignId: string,
+    eventName: string,
+    occurredAt: string = ClockService.now().toISOString(),
+    store: RetryStopEventStore = stopEventStore
+  ): Promise<void> {
+    await store.recordEvent({ campaignId, type: 'conversion', eventName, occurredAt });
+  }
+
+  /**
+   * Record that an operator manually paused a campaign
+   */
+  static async recordManualPause(
+    campaignId: string,
+    details?: string,
+    occurredAt: string = ClockService.now().toISOString(),
+    store: RetryStopEventStore = stopEventStore
+  ): Promise<void> {
+    await store.recordEvent({ campaignId, type: 'manual_pause', details, occurredAt });
+  }
+
+  /**
+   * Record that a campaign's template was changed
+   */
+  static async recordTemplateChange(
+    campaignId: string,
+    templateId?: string,
+    occurredAt: string = ClockService.now().toISOString(),
+    store: RetryStopEventStore = stopEventStore
+  ): Promise<void> {
+    await store.recordEvent({ campaignId, type: 'template_change', templateId, occurredAt });
+  }
+
+  /**
+   * Evaluate the campaign's stop flags against its recorded events
+   */
+  static evaluateStopConditions(
+    retryState: CampaignRetryState,
+    events: RetryStopEvent[]
+  ): { shouldStop: boolean; reason?: string } {
+    const { retryConfig } = retryState;
+    const since = retryConfig.scheduledDateTime ? new Date(retryConfig.scheduledDateTime) : null;
+    const relevantEvents = events.filter(event => !since || new Date(event.occurredAt) >= since);
+
+    if (retryConfig.stopOnManualPause) {
+      const pause = relevantEvents.find(event => event.type === 'manual_pause');
+      if (pause) {
+        return { shouldStop: true, reason: `Campaign was manually paused at ${pause.occurredAt}` };
+      }
+    }
+
+    if (retryConfig.stopOnTemplateChange) {
+      const change = relevantEvents.find(event => event.type === 'template_change');
+      if (change) {
+        return { shouldStop: true, reason: `Campaign template was changed at ${change.occurredAt}` };
+      }
+    }
+
+    // Conversions only count when they match the campaign's conversion goal
+    if (retryConfig.stopOnConversion && retryConfig.conversionEventName) {
+      const conversion = relevantEvents.find(
+        event => event.type === 'conversion' && event.eventName === retryConfig.conversionEventName
+      );
+      if (conversion) {
+        return { shouldStop: true, reason: `Conversion goal "${conversion.eventName}" reached at ${conversion.occurredAt}` };
+      }
+    }
+
+    return { shouldStop: false };
+  }
+
+  /**
+   * Load a campaign's events and evaluate its stop conditions
+   */
+  static async checkStopConditions(
+    retryState: CampaignRetryState,
+    store: RetryStopEventStore = stopEventStore
+  ): Promise<{ shouldStop: boolean; reason?: string }> {
+    const events = await store.listEvents(retryState.campaignId);
+    return this.evaluateStopConditions(retryState, events);
+  }
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DateTime } from 'luxon';
+import { RetryTimeHarness } from './retryTimeHarness';
+import { RetryPolicyRegistry } from './retryPolicyRegistry';
+import { SupabaseCampaignService } from './supabaseCampaignService';
+
+// 09:00 in Asia/Kolkata, the default account timezone (quiet hours 21:00–09:00)
+const START = '2024-03-01T03:30:00Z';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const at = (offsetMs: number) => new Date(new Date(START).getTime() + offsetMs).toISOString();
+
+const NOT_DELIVERED = { success: false, errorCode: '130472', message: 'Not delivered' } as const;
+
+describe('RetryTimeHarness', () => {
+  let harness: RetryTimeHarness;
+
+  beforeEach(() => {
+    vi.spyOn(SupabaseCampaignService, 'clearRetryTtl').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    RetryPolicyRegistry.setPolicies([]);
+    vi.restoreAllMocks();
+  });
+
+  it('runs a campaign through its full 28-day retry life', async () => {
+    // 24h growing by 1.5x: retries around days 1, 2.5, 4.75, 8.1, 13.2 and 20.8
+    RetryPolicyRegistry.setPolicies([{
+      campaignId: 'campaign-1',
+      errorCode: '130472',
+      description: 'Long-lived experiment group',
+      retryIntervals: [24],
+      maxAttempts: 20,
+      backoffMultiplier: 1.5
+    }]);
+    harness = new RetryTimeHarness({ start: START, fallback: NOT_DELIVERED });
+    const ttl = at(28 * DAY_MS);
+    await harness.failInitialSend({ campaignId: 'campaign-1', errorCode: '130472', ttlDateTime: ttl });
+    harness.start();
+
+    const settledAt = await harness.runUntilSettled();
+
+    const { attempts, nextAttemptAt } = await harness.store.getRetryState('campaign-1');
+    expect(harness.dispatcher.requests).toHaveLength(6);
+    expect(attempts.map(attempt => attempt.attemptNumber)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(nextAttemptAt).toBeUndefined();
+    expect(settledAt.getTime()).toBeLessThan(new Date(ttl).getTime());
+
+    const executedAt = attempts.map(attempt => new Date(attempt.executedAt).getTime());
+    expect(executedAt[5] - new Date(START).getTime()).toBeGreaterThan(20 * DAY_MS);
+    executedAt.forEach(time => {
+      expect(time).toBeLessThanOrEqual(new Date(ttl).getTime());
+      const localHour = DateTime.fromMillis(time, { zone: 'Asia/Kolkata' }).hour;
+      expect(localHour >= 9 && localHour < 21).toBe(true);
+    });
+  });
+
+  it('sends a retry that falls due exactly at the TTL', async () => {
+    harness = new RetryTimeHarness({ start: START, fallback: NOT_DELIVERED });
+    const ttl = at(DAY_MS);
+    const retryState = await harness.failInitialSend({ campaignId: 'campaign-1', errorCode: '130472', ttlDateTime: ttl });
+    harness.start();
+
+    expect(retryState.nextAttemptAt).toBe(ttl);
+
+    await harness.advanceTo(ttl);
+
+    expect(harness.dispatcher.requests).toHaveLength(1);
+    // It failed again with no time left for another retry
+    const entries = await harness.deadLetters.listEntries();
+    expect(entries.map(entry => entry.reason)).toEqual(['exhausted']);
+  });
+
+  it('never schedules a retry that would fall due after the TTL', async () => {
+    harness = new RetryTimeHarness({ start: START, fallback: NOT_DELIVERED });
+    const retryState = await harness.failInitialSend({
+      campaignId: 'campaign-1',
+      errorCode: '130472',
+      ttlDateTime: at(DAY_MS - 60 * 1000)
+    });
+    harness.start();
+
+    await harness.advance(2 * DAY_MS);
+
+    expect(retryState.nextAttemptAt).toBeUndefined();
+    expect(harness.dispatcher.requests).toHaveLength(0);
+  });
+
+  it('dead-letters a retry whose TTL passed before it could be sent', async () => {
+    harness = new RetryTimeHarness({ start: START, fallback: NOT_DELIVERED });
+    const ttl = at(DAY_MS);
+    await harness.failInitialSend({ campaignId: 'campaign-1', errorCode: '130472', ttlDateTime: ttl });
+
+    // The engine was down from the original send until a minute past the TTL
+    await harness.advanceTo(at(DAY_MS + 60 * 1000));
+    harness.start();
+    await harness.engine.triggerRetryProcessing();
+
+    expect(harness.dispatcher.requests).toHaveLength(0);
+    const entries = await harness.deadLetters.listEntries();
+    expect(entries.map(entry => [entry.campaignId, entry.reason])).toEqual([['campaign-1', 'expired']]);
+    expect(SupabaseCampaignService.clearRetryTtl).toHaveBeenCalledWith(['campaign-1']);
+  });
+});
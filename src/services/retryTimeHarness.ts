@@ -0,0 +1,177 @@
+import { RetryErrorCode, RetryTtlConfig } from '@/types/campaign';
+import { Clock, ClockService, VirtualClock } from './clock';
+import { CampaignService } from './campaignService';
+import { CampaignRetryState, RetryService } from './retryService';
+import { InMemoryRetryStateStore } from './retryStateStore';
+import { CampaignDispatchResult, ScriptedCampaignDispatcher } from './campaignDispatcher';
+import { RetryEngine, RetryEngineConfig } from './retryEngine';
+import { InMemoryRetryStopEventStore } from './retryStopEvents';
+import { InMemoryTemplateStatusStore } from './templateRegistryService';
+import { InMemoryRetryLockProvider } from './retryLockProvider';
+import { InMemoryDeadLetterStore } from './retryDeadLetters';
+import { InMemoryMessagingBucketStore } from './messagingRateLimiter';
+import { InMemoryRetryLogSink } from './retryEngineEvents';
+
+export interface RetryTimeHarnessOptions {
+  start?: Date | string; // Virtual time at creation (default: now)
+  dispatch?: CampaignDispatchResult[] | Record<string, CampaignDispatchResult[]>; // Scripted retry outcomes
+  fallback?: CampaignDispatchResult; // Outcome once the script runs out (default: success)
+  config?: Partial<RetryEngineConfig>;
+}
+
+export interface FailedInitialSend {
+  campaignId: string;
+  errorCode: RetryErrorCode; // Error returned by the original send
+  ttlDateTime: string; // ISO 8601 datetime
+  scheduledAt?: string; // Original send time (default: current virtual time)
+  recipients?: string[]; // Failed recipients; the campaign is retried as a whole when omitted
+  retryConfig?: Partial<RetryTtlConfig>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs a retry engine on virtual time with in-memory stores, so multi-day retry
+ * sequences and TTL edge cases can be fast-forwarded in tests:
+ *
+ *   const harness = new RetryTimeHarness({ start: '2024-03-01T09:00:00Z' });
+ *   await harness.failInitialSend({ campaignId, errorCode: '131049', ttlDateTime: '2024-03-29T09:00:00Z' });
+ *   harness.start();
+ *   await harness.advance(28 * 24 * 60 * 60 * 1000);
+ *   harness.dispose();
+ */
+export class RetryTimeHarness {
+  readonly clock: VirtualClock;
+  readonly store = new InMemoryRetryStateStore();
+  readonly stopEvents = new InMemoryRetryStopEventStore();
+  readonly templates = new InMemoryTemplateStatusStore();
+  readonly deadLetters = new InMemoryDeadLetterStore();
+  readonly rateLimits = new InMemoryMessagingBucketStore();
+  readonly log = new InMemoryRetryLogSink();
+  readonly dispatcher: ScriptedCampaignDispatcher;
+  readonly engine: RetryEngine;
+  private config: RetryEngineConfig;
+  private previousClock: Clock;
+
+  constructor({ start, dispatch, fallback, config }: RetryTimeHarnessOptions = {}) {
+    this.clock = new VirtualClock(start);
+    this.previousClock = ClockService.getClock();
+    ClockService.configure(this.clock);
+
+    this.config = {
+      maxConcurrentRetries: 10,
+      retryCheckIntervalMs: 60 * 1000,
+      enableLogging: false,
+      refreshRetryPolicies: false,
+      ...config
+    };
+    this.dispatcher = new ScriptedCampaignDispatcher(dispatch, fallback);
+    this.engine = new RetryEngine(
+      {
+        dispatcher: this.dispatcher,
+        store: this.store,
+        stopEvents: this.stopEvents,
+        templates: this.templates,
+        locks: new InMemoryRetryLockProvider(),
+        deadLetters: this.deadLetters,
+        rateLimits: this.rateLimits,
+        logSinks: [this.log]
+      },
+      this.config
+    );
+  }
+
+  /**
+   * Put a campaign into the retry engine as if its original send had just failed
+   */
+  async failInitialSend({
+    campaignId,
+    errorCode,
+    ttlDateTime,
+    scheduledAt = this.clock.now().toISOString(),
+    recipients,
+    retryConfig
+  }: FailedInitialSend): Promise<CampaignRetryState> {
+    const config: RetryTtlConfig = {
+      enabled: true,
+      ttlDateTime,
+      scheduledDateTime: scheduledAt,
+      stopOnConversion: true,
+      stopOnManualPause: true,
+      stopOnTemplateChange: true,
+      ...retryConfig
+    };
+    await CampaignService.setRetryConfig(campaignId, config, this.store);
+
+    if (recipients) {
+      await CampaignService.recordRecipientFailures(
+        campaignId,
+        recipients.map(recipientId => ({ recipientId, success: false, errorCode })),
+        this.store,
+        this.stopEvents
+      );
+    } else {
+      // The original send isn't a retry attempt; the first retry is projected from it
+      const { nextAttemptAt } = RetryService.calculateNextRetryAttempt(
+        errorCode, 0, scheduledAt, ttlDateTime, campaignId, config, this.clock.now()
+      );
+      await CampaignService.scheduleNextRetryAttempt(campaignId, nextAttemptAt ?? undefined, this.store);
+    }
+
+    const retryState = await this.store.getRetryState(campaignId);
+    if (!retryState) {
+      throw new Error(`No retry state was saved for campaign ${campaignId}`);
+    }
+    return retryState;
+  }
+
+  /**
+   * Start the engine's polling interval on virtual time
+   */
+  start(): void {
+    this.engine.start();
+  }
+
+  /**
+   * Fast-forward virtual time, running every engine cycle that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    await this.clock.advance(ms);
+  }
+
+  /**
+   * Fast-forward virtual time to a datetime
+   */
+  async advanceTo(dateTime: Date | string): Promise<void> {
+    await this.clock.advanceTo(dateTime);
+  }
+
+  /**
+   * Fast-forward until no campaign has a retry pending (or `maxMs` has passed);
+   * returns the virtual time at which it stopped
+   */
+  async runUntilSettled(maxMs: number = 30 * DAY_MS): Promise<Date> {
+    const deadline = this.clock.now().getTime() + maxMs;
+    const stepMs = this.config.retryCheckIntervalMs;
+
+    while (this.clock.now().getTime() < deadline && await this.hasPendingRetries()) {
+      await this.clock.advanceTo(Math.min(this.clock.now().getTime() + stepMs, deadline));
+    }
+    return this.clock.now();
+  }
+
+  /**
+   * Stop the engine and restore the clock that was active before the harness
+   */
+  dispose(): void {
+    if (this.engine.isActive()) {
+      this.engine.stop();
+    }
+    ClockService.configure(this.previousClock);
+  }
+
+  private async hasPendingRetries(): Promise<boolean> {
+    const retryStates = await this.store.listRetryStates();
+    return retryStates.some(state => state.retryConfig.enabled && !state.isExpired && !!state.nextAttemptAt);
+  }
+}
@@ -0,0 +1,167 @@
+import { RetryTtlBounds } from '@/types/campaign';
+import { AccountSettingsService } from './accountSettingsService';
+import { ClockService } from './clock';
+
+export type RetryTtlErrorCode =
+  | 'TTL_REQUIRED'
+  | 'TTL_INVALID'
+  | 'SCHEDULED_AT_INVALID'
+  | 'TTL_BELOW_MINIMUM'
+  | 'TTL_ABOVE_MAXIMUM'
+  | 'TTL_IN_PAST';
+
+export interface RetryTtlError {
+  code: RetryTtlErrorCode;
+  params?: Record<string, number | string>;
+}
+
+export interface RetryTtlValidation {
+  isValid: boolean;
+  errors: RetryTtlError[];
+}
+
+export type RetryTtlLocale = 'en' | 'hi';
+
+type MessageFormatter = (params: Record<string, number | string>) => string;
+
+// Human-readable duration for a bound ("24 hours", "28 days")
+const formatDuration = (hours: number | string, unit: { hour: string; hours: string; day: string; days: string }) => {
+  const value = Number(hours);
+  if (value % 24 === 0) {
+    const days = value / 24;
+    return `${days} ${days === 1 ? unit.day : unit.days}`;
+  }
+  return `${value} ${value === 1 ? unit.hour : unit.hours}`;
+};
+
+const EN_UNITS = { hour: 'hour', hours: 'hours', day: 'day', days: 'days' };
+const HI_UNITS = { hour: 'घंटा', hours: 'घंटे', day: 'दिन', days: 'दिन' };
+
+// Localized messages for each rule
+export const RETRY_TTL_ERROR_MESSAGES: Record<RetryTtlLocale, Record<RetryTtlErrorCode, MessageFormatter>> = {
+  en: {
+    TTL_REQUIRED: () => 'Retry TTL date is required when retry logic is enabled',
+    TTL_INVALID: () => 'Invalid TTL datetime',
+    SCHEDULED_AT_INVALID: () => 'Invalid scheduled datetime',
+    TTL_BELOW_MINIMUM: ({ minHours }) => `TTL must be at least ${formatDuration(minHours, EN_UNITS)} after the scheduled time`,
+    TTL_ABOVE_MAXIMUM: ({ maxHours }) => `TTL cannot be more than ${formatDuration(maxHours, EN_UNITS)} after the scheduled time`,
+    TTL_IN_PAST: () => 'TTL must be in the future'
+  },
+  hi: {
+    TTL_REQUIRED: () => 'रीट्राई चालू होने पर TTL तारीख ज़रूरी है',
+    TTL_INVALID: () => 'TTL की तारीख और समय अमान्य है',
+    SCHEDULED_AT_INVALID: () => 'शेड्यूल की तारीख और समय अमान्य है',
+    TTL_BELOW_MINIMUM: ({ minHours }) => `TTL शेड्यूल समय के कम से कम ${formatDuration(minHours, HI_UNITS)} बाद होना चाहिए`,
+    TTL_ABOVE_MAXIMUM: ({ maxHours }) => `TTL शेड्यूल समय के ${formatDuration(maxHours, HI_UNITS)} से ज़्यादा बाद नहीं हो सकता`,
+    TTL_IN_PAST: () => 'TTL भविष्य में होना चाहिए'
+  }
+};
+
+/**
+ * Thrown when a TTL write fails validation
+ */
+export class RetryTtlValidationError extends Error {
+  readonly errors: RetryTtlError[];
+
+  constructor(errors: RetryTtlError[]) {
+    super(`Invalid TTL configuration: ${RetryTtlRules.formatErrors(errors, 'en').join(', ')}`);
+    this.name = 'RetryTtlValidationError';
+    this.errors = errors;
+  }
+}
+
+export class RetryTtlRules {
+  /**
+   * Get the TTL bounds from account settings
+   */
+  static getBounds(): RetryTtlBounds {
+    return AccountSettingsService.getSettings().ttlBounds;
+  }
+
+  /**
+   * Get the earliest and latest allowed TTL for a scheduled time
+   */
+  static getAllowedRange(
+    scheduledDateTime: string | Date,
+    bounds: RetryTtlBounds = this.getBounds()
+  ): { min: Date; max: Date } {
+    const scheduled = new Date(scheduledDateTime).getTime();
+    return {
+      min: new Date(scheduled + bounds.minHours * 60 * 60 * 1000),
+      max: new Date(scheduled + bounds.maxHours * 60 * 60 * 1000)
+    };
+  }
+
+  /**
+   * Validate a TTL against the scheduled time and the account bounds
+   */
+  static validate(
+    ttlDateTime: string | Date | null | undefined,
+    scheduledDateTime: string | Date,
+    bounds: RetryTtlBounds = this.getBounds(),
+    now: Date = ClockService.now()
+  ): RetryTtlValidation {
+    if (!ttlDateTime) {
+      return { isValid: false, errors: [{ code: 'TTL_REQUIRED' }] };
+    }
+
+    const errors: RetryTtlError[] = [];
+    const ttl = new Date(ttlDateTime);
+    const scheduled = new Date(scheduledDateTime);
+
+    // Check if dates are valid
+    if (isNaN(ttl.getTime())) {
+      errors.push({ code: 'TTL_INVALID' });
+    }
+
+    if (isNaN(scheduled.getTime())) {
+      errors.push({ code: 'SCHEDULED_AT_INVALID' });
+    }
+
+    if (errors.length > 0) {
+      return { isValid: false, errors };
+    }
+
+    const { min, max } = this.getAllowedRange(scheduled, bounds);
+
+    if (ttl < min) {
+      errors.push({ code: 'TTL_BELOW_MINIMUM', params: { minHours: bounds.minHours } });
+    }
+
+    if (ttl > max) {
+      errors.push({ code: 'TTL_ABOVE_MAXIMUM', params: { maxHours: bounds.maxHours } });
+    }
+
+    if (ttl <= now) {
+      errors.push({ code: 'TTL_IN_PAST' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Resolve a supported locale from a language tag (browser language when omitted)
+   */
+  static resolveLocale(language?: string): RetryTtlLocale {
+    const tag = language ?? (typeof navigator !== 'undefined' ? navigator.language : 'en');
+    const base = tag.toLowerCase().split('-')[0];
+    return base in RETRY_TTL_ERROR_MESSAGES ? (base as RetryTtlLocale) : 'en';
+  }
+
+  /**
+   * Get the localized message for a rule error
+   */
+  static formatError(error: RetryTtlError, locale: RetryTtlLocale = this.resolveLocale()): string {
+    return RETRY_TTL_ERROR_MESSAGES[locale][error.code](error.params || {});
+  }
+
+  /**
+   * Get localized messages for a list of rule errors
+   */
+  static formatErrors(errors: RetryTtlError[], locale: RetryTtlLocale = this.resolveLocale()): string[] {
+    return errors.map(error => this.formatError(error, locale));
+  }
+}
@@ -0,0 +1,318 @@
+import { supabase } from '@/lib/supabase';
+import { TemplateStatus } from '@/types/campaign';
+import { CampaignService } from './campaignService';
+import { RetryStopEventService } from './retryStopEvents';
+import { RetryService } from './retryService';
+import { ClockService } from './clock';
+
+export interface CampaignTemplate {
+  campaignId: string;
+  templateId: string;
+  status: TemplateStatus;
+}
+
+/**
+ * Storage backend for the template assigned to each campaign and its status
+ */
+export interface TemplateStatusStore {
+  getCampaignTemplate(campaignId: string): Promise<CampaignTemplate | null>;
+  assignTemplate(campaignId: string, templateId: string, status: TemplateStatus): Promise<void>;
+  getTemplateStatus(templateId: string): Promise<TemplateStatus | null>;
+  // Updates every campaign using the template and returns their IDs
+  setTemplateStatus(templateId: string, status: TemplateStatus): Promise<string[]>;
+  listTemplateIds(): Promise<string[]>;
+}
+
+/**
+ * In-memory template status store (used by tests and local development)
+ */
+export class InMemoryTemplateStatusStore implements TemplateStatusStore {
+  private campaignTemplates = new Map<string, CampaignTemplate>();
+
+  async getCampaignTemplate(campaignId: string): Promise<CampaignTemplate | null> {
+    const template = this.campaignTemplates.get(campaignId);
+    return template ? { ...template } : null;
+  }
+
+  async assignTemplate(campaignId: string, templateId: string, status: TemplateStatus): Promise<void> {
+    this.campaignTemplates.set(campaignId, { campaignId, templateId, status });
+  }
+
+  async getTemplateStatus(templateId: string): Promise<TemplateStatus | null> {
+    const template = Array.from(this.campaignTemplates.values()).find(t => t.templateId === templateId);
+    return template?.status ?? null;
+  }
+
+  async setTemplateStatus(templateId: string, status: TemplateStatus): Promise<string[]> {
+    const campaignIds: string[] = [];
+
+    this.campaignTemplates.forEach(template => {
+      if (template.templateId === templateId) {
+        template.status = status;
+        campaignIds.push(template.campaignId);
+      }
+    });
+
+    return campaignIds;
+  }
+
+  async listTemplateIds(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.campaignTemplates.values()).map(t => t.templateId)));
+  }
+}
+
+/**
+ * Supabase-backed template status store (template_id / template_status on campaigns)
+ */
+export class SupabaseTemplateStatusStore implements TemplateStatusStore {
+  async getCampaignTemplate(campaignId: string): Promise<CampaignTemplate | null> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('id, template_id, template_status')
+      .eq('id', campaignId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.template_id) return null;
+
+    return {
+      campaignId: data.id,
+      templateId: data.template_id,
+      status: data.template_status ?? 'APPROVED'
+    };
+  }
+
+  async assignTemplate(campaignId: string, templateId: string, status: TemplateStatus): Promise<void> {
+    const { error } = await supabase
+      .from('campaigns')
+      .update({
+        template_id: templateId,
+        template_status: status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', campaignId);
+
+    if (error) throw error;
+  }
+
+  async getTemplateStatus(templateId: string): Promise<TemplateStatus | null> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('template_status')
+      .eq('template_id', templateId)
+      .limit(1);
+
+    if (error) throw error;
+
+    return data?.[0]?.template_status ?? null;
+  }
+
+  async setTemplateStatus(templateId: string, status: TemplateStatus): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update({
+        template_status: status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('template_id', templateId)
+      .select('id');
+
+    if (error) throw error;
+
+    return data?.map((row: { id: string }) => row.id) || [];
+  }
+
+  async listTemplateIds(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('template_id')
+      .not('template_id', 'is', null);
+
+    if (error) throw error;
+
+    return Array.from(new Set(data?.map((row: { template_id: string }) => row.template_id) || []));
+  }
+}
+
+// Meta `message_template_status_update` webhook payload
+export interface TemplateStatusWebhookPayload {
+  object: string;
+  entry: {
+    id: string;
+    time?: number;
+    changes: {
+      field: string;
+      value: {
+        event: string;
+        message_template_id: number | string;
+        message_template_name?: string;
+        message_template_language?: string;
+        reason?: string | null;
+      };
+    }[];
+  }[];
+}
+
+const TEMPLATE_STATUSES: TemplateStatus[] = ['APPROVED', 'PENDING', 'REJECTED', 'PAUSED', 'DISABLED'];
+
+// How long to wait before checking a paused template again
+export const TEMPLATE_RECHECK_INTERVAL_HOURS = 1;
+
+// Template storage backend (swap for InMemoryTemplateStatusStore in tests)
+let templateStatusStore: TemplateStatusStore = new SupabaseTemplateStatusStore();
+
+export class TemplateRegistryService {
+  /**
+   * Replace the template status storage backend
+   */
+  static useStore(store: TemplateStatusStore): void {
+    templateStatusStore = store;
+  }
+
+  /**
+   * Get the active template status storage backend
+   */
+  static getStore(): TemplateStatusStore {
+    return templateStatusStore;
+  }
+
+  /**
+   * Check whether a template status allows sending
+   */
+  static isActiveStatus(status: TemplateStatus | null): boolean {
+    // Templates we have no status for are not blocked
+    return status === null || status === 'APPROVED';
+  }
+
+  /**
+   * Assign a template to a campaign (replacing a previous template counts as a template change)
+   */
+  static async assignTemplate(
+    campaignId: string,
+    templateId: string,
+    status: TemplateStatus = 'APPROVED',
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<void> {
+    const previous = await store.getCampaignTemplate(campaignId);
+    await store.assignTemplate(campaignId, templateId, status);
+
+    if (previous && previous.templateId !== templateId) {
+      await RetryStopEventService.recordTemplateChange(campaignId, templateId);
+    }
+  }
+
+  /**
+   * Get the template assigned to a campaign
+   */
+  static async getCampaignTemplate(
+    campaignId: string,
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<CampaignTemplate | null> {
+    return store.getCampaignTemplate(campaignId);
+  }
+
+  /**
+   * Get the current status of a template
+   */
+  static async getTemplateStatus(
+    templateId: string,
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<TemplateStatus | null> {
+    return store.getTemplateStatus(templateId);
+  }
+
+  /**
+   * Record a template status change. When a template turns active again,
+   * campaigns waiting on it are pulled forward so their retries run on the next cycle
+   * (or once their quiet hours end).
+   */
+  static async updateTemplateStatus(
+    templateId: string,
+    status: TemplateStatus,
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<string[]> {
+    const campaignIds = await store.setTemplateStatus(templateId, status);
+
+    if (this.isActiveStatus(status)) {
+      const now = ClockService.now();
+
+      for (const campaignId of campaignIds) {
+        const retryState = await CampaignService.getRetryState(campaignId);
+        const resumeAt = retryState && RetryService.adjustForQuietHours(now, retryState.retryConfig, campaignId);
+        if (retryState?.nextAttemptAt && new Date(retryState.nextAttemptAt) > resumeAt) {
+          await CampaignService.scheduleNextRetryAttempt(campaignId, resumeAt.toISOString());
+        }
+      }
+    }
+
+    return campaignIds;
+  }
+
+  /**
+   * Handle a Meta template status webhook (APPROVED/PAUSED/DISABLED, ...)
+   */
+  static async handleStatusWebhook(
+    payload: TemplateStatusWebhookPayload,
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<{ templateId: string; status: TemplateStatus }[]> {
+    const updates: { templateId: string; status: TemplateStatus }[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'message_template_status_update') continue;
+
+        const status = change.value.event?.toUpperCase() as TemplateStatus;
+        if (!TEMPLATE_STATUSES.includes(status)) continue;
+
+        const templateId = String(change.value.message_template_id);
+        await this.updateTemplateStatus(templateId, status, store);
+        updates.push({ templateId, status });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Poll the status of every known template (e.g. from the Graph API) and record changes
+   */
+  static async pollTemplateStatuses(
+    fetchStatus: (templateId: string) => Promise<TemplateStatus | null>,
+    store: TemplateStatusStore = templateStatusStore
+  ): Promise<{ templateId: string; status: TemplateStatus }[]> {
+    const updates: { templateId: string; status: TemplateStatus }[] = [];
+    const templateIds = await store.listTemplateIds();
+
+    for (const templateId of templateIds) {
+      const [latest, current] = await Promise.all([fetchStatus(templateId), store.getTemplateStatus(templateId)]);
+      if (latest && latest !== current) {
+        await this.updateTemplateStatus(templateId, latest, store);
+        updates.push({ templateId, status: latest });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Fetch a template's status from the WhatsApp Business Management API
+   */
+  static async fetchTemplateStatusFromGraph(
+    templateId: string,
+    accessToken: string,
+    apiVersion: string = 'v21.0'
+  ): Promise<TemplateStatus | null> {
+    const response = await fetch(
+      `https://graph.facebook.com/${apiVersion}/${templateId}?fields=status`,
+      { headers: { 'Authorization': `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const body = await response.json();
+    const status = String(body?.status || '').toUpperCase() as TemplateStatus;
+    return TEMPLATE_STATUSES.includes(status) ? status : null;
+  }
+}
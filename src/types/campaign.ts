@@ -2,6 +2,8 @@
 
 export type CampaignStatus = 'DRAFT' | 'SENT' | 'SCHEDULED' | 'SUSPENDED' | 'RUNNING' | 'FAILED';
 export type CampaignChannel = 'WhatsApp' | 'Email' | 'SMS' | 'Push';
+export type CampaignChannelFilter = CampaignChannel | ''; // '' shows every channel
+export type TemplateStatus = 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED';
 
 export interface Campaign {
   id: string;
@@ -13,24 +15,106 @@ export interface Campaign {
   opened: number;
   clicked: number;
   bounce: string;
+  delivered?: number; // Counters from WhatsApp delivery status webhooks
+  failed?: number;
   channel: CampaignChannel;
   createdAt?: string;
   updatedAt?: string;
   // Unified Retry TTL configuration
   scheduledAt?: string; // ISO 8601 datetime string for scheduled campaigns
   retryTtl?: string | null; // Unified TTL (ISO 8601) - used for both retry engine and Meta API
+  // WhatsApp template used by the campaign
+  templateId?: string | null;
+  templateStatus?: TemplateStatus | null;
+  // Channel-specific setup and message content
+  content?: CampaignContent | null;
+  tags?: string[]; // Tags entered in the wizard's setup step
+  createdBy?: string | null; // Email of the user who created the campaign
+  config?: FinalPreviewData | null; // Wizard configuration frozen at publish
+  converted?: number; // Recipients who reached the conversion goal
+  conversionRevenue?: number; // Revenue attributed to the conversion goal (account currency)
+  archivedAt?: string | null; // Archived campaigns only show under the Archived tab
 }
 
+export interface WhatsAppCampaignContent {
+  channel: 'WhatsApp';
+  businessNumberId: string;
+  templateId: string;
+}
+
+export interface SmsCampaignContent {
+  channel: 'SMS';
+  senderHeader: string; // 6-character DLT-registered header, e.g. "HDFCBK"
+  dltTemplateId: string; // DLT content template ID the body is registered under
+  body: string;
+}
+
+export interface EmailCampaignContent {
+  channel: 'Email';
+  subject: string;
+  htmlBody: string;
+}
+
+export interface PushCampaignContent {
+  channel: 'Push';
+  title: string;
+  body: string;
+}
+
+export type CampaignContent =
+  | WhatsAppCampaignContent
+  | SmsCampaignContent
+  | EmailCampaignContent
+  | PushCampaignContent;
+
 export interface StatusTab {
   id: string;
   label: string;
   count: number;
 }
 
+// Retry state of a campaign as used by the list filters
+export type CampaignRetryStatus = 'none' | 'active' | 'paused' | 'cancelled' | 'expired' | 'finished';
+export type CampaignRetryFilter = '' | 'active' | 'expired';
+
+// Filter panel fields; dates are calendar days ("yyyy-MM-dd"), both ends inclusive
+export interface CampaignAdvancedFilters {
+  createdFrom?: string;
+  createdTo?: string;
+  sentFrom?: string;
+  sentTo?: string;
+  tags?: string[]; // Campaigns with any of the tags
+  templateId?: string;
+  businessNumberId?: string;
+  createdBy?: string; // Substring of the creator's email
+  retryStatus?: CampaignRetryFilter;
+}
+
 export interface CampaignFilters {
   searchQuery: string;
   activeTab: string;
-  activeChannelFilter: string;
+  activeChannelFilter: CampaignChannelFilter;
+  sortBy: CampaignSortBy;
+  sortOrder: CampaignSortOrder;
+  advanced: CampaignAdvancedFilters;
+}
+
+export const DEFAULT_CAMPAIGN_FILTERS: CampaignFilters = {
+  searchQuery: '',
+  activeTab: 'all',
+  activeChannelFilter: 'WhatsApp',
+  sortBy: 'date',
+  sortOrder: 'desc',
+  advanced: {}
+};
+
+// Named set of list filters saved by a user
+export interface SavedCampaignView {
+  id: string;
+  name: string;
+  filters: CampaignFilters;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface PaginationState {
@@ -43,40 +127,151 @@ export interface CampaignTableProps {
   publishedCampaignId?: string | null;
   searchQuery?: string;
   activeTab?: string;
+  channel?: CampaignChannelFilter;
 }
 
 export interface CampaignRowProps {
   campaign: Campaign;
   isHighlighted?: boolean;
+  isSelected?: boolean;
   onSelect?: (campaignId: string) => void;
 }
 
+export type CampaignSortBy = 'name' | 'date' | 'status';
+export type CampaignSortOrder = 'asc' | 'desc';
+
 // Campaign data preparation utilities
-export interface CampaignListOptions {
+export interface CampaignListOptions extends CampaignAdvancedFilters {
   publishedCampaignId?: string | null;
   searchQuery?: string;
   activeTab?: string;
-  sortBy?: 'name' | 'date' | 'status';
-  sortOrder?: 'asc' | 'desc';
+  channel?: CampaignChannelFilter;
+  sortBy?: CampaignSortBy;
+  sortOrder?: CampaignSortOrder;
+}
+
+// Keyset position: the sort column value and ID of the last campaign on the previous page
+export interface CampaignPageCursor {
+  value: string;
+  id: string;
+}
+
+export interface CampaignPageQuery extends CampaignListOptions {
+  pageSize: number;
+  after?: CampaignPageCursor | null; // Start of the page; null for the first page
+}
+
+export interface CampaignPage {
+  items: Campaign[];
+  totalCount: number; // Exact count of campaigns matching the search and status filters
+  nextCursor: CampaignPageCursor | null; // null on the last page
+}
+
+// Wizard schedule step
+export type SamplingMethod = 'RANDOM_SAMPLE' | 'HEPF';
+export type SendMode = 'OPTIMIZE' | 'SPECIFIC_TIME' | 'SEND_AT_END';
+
+export interface ScheduleConfig {
+  frequencyCapEnabled: boolean;
+  mode: SendMode;
+  startAt?: string;        // ISO 8601
+  endAt?: string;          // ISO 8601
+  sendAtEndAt?: string;    // ISO 8601 (optional; derive from endAt if absent when mode=SEND_AT_END)
+  specificTimeAt?: string; // ISO 8601 (when mode=SPECIFIC_TIME)
+  controlGroupPct?: number; // 0–100
+  timezone: string;        // IANA, e.g. "Asia/Kolkata"
+}
+
+// Campaign configuration as shown on the wizard's final preview (stored with the campaign at publish)
+export interface FinalPreviewData {
+  name: string;
+  tags: string[];
+  reachableContacts: number;
+  includeSegments: { id: string; name: string }[];
+  excludeSegments: { id: string; name: string }[];
+  deduplicationEnabled: boolean;
+  samplingMethod: SamplingMethod;
+  templateName: string;
+  schedule: ScheduleConfig;
+  conversionGoalEnabled: boolean;
+  conversionGoal?: string;
+  revenueParameter?: number | null;
+}
+
+// Campaign detail page
+export type CampaignFunnelStageKey = 'published' | 'sent' | 'delivered' | 'read' | 'clicked' | 'converted';
+
+export interface CampaignFunnelStage {
+  key: CampaignFunnelStageKey;
+  label: string;
+  count: number;
+  stepRate: number | null; // Share of the previous stage (0–1); null for the first stage or an empty previous stage
+}
+
+export interface CampaignFailureCount {
+  errorCode: string; // 'UNKNOWN' when the provider gave no code
+  count: number;
+}
+
+// Bulk actions on selected campaigns
+export type CampaignBulkAction = 'duplicate' | 'archive' | 'unarchive' | 'delete' | 'pause' | 'resume';
+export type CampaignExportFormat = 'csv' | 'xlsx';
+
+// Selected rows: the IDs picked, or every campaign matching the list query except those deselected
+export type CampaignSelection =
+  | { mode: 'ids'; ids: string[] }
+  | { mode: 'all'; query: CampaignListOptions; excludedIds: string[] };
+
+// Outcome of a bulk action for one campaign
+export interface CampaignBulkResult {
+  campaignId: string;
+  ok: boolean;
+  error?: string; // Why the campaign was skipped
+  newCampaignId?: string; // ID of the copy (duplicate)
 }
 
 // Success banner state
 export interface SuccessBannerState {
   show: boolean;
   campaignId: string | null;
+  channel?: CampaignChannel | null; // Channel of the published campaign
   message?: string;
 }
 
 // Retry TTL and error-specific retry policies
-export type RetryErrorCode = '131049' | '130472' | '132015';
+export type BuiltInRetryErrorCode = '131049' | '130472' | '132015';
+// Any other Meta error code (e.g. 131026, 131047) can be given a policy at runtime
+export type RetryErrorCode = BuiltInRetryErrorCode | (string & {});
 
 export interface RetryPolicy {
   errorCode: RetryErrorCode;
   description: string;
   retryIntervals: number[]; // Hours between retries
+  maxAttempts?: number; // Defaults to retryIntervals.length
+  jitterPct?: number; // Random +/- spread applied to each interval (0–50)
+  backoffMultiplier?: number; // Growth applied to the last interval once retryIntervals run out
   requiresTemplateActive?: boolean; // For 132015
 }
 
+// Retry policy override stored for the account (campaignId null) or a single campaign
+export interface RetryPolicyOverride extends RetryPolicy {
+  id?: string;
+  campaignId: string | null;
+}
+
+// Local time window in which no retries may be sent (may span midnight, e.g. 21:00–09:00)
+export interface QuietHours {
+  enabled: boolean;
+  startTime: string; // HH:mm, sending stops
+  endTime: string; // HH:mm, sending resumes
+}
+
+// Allowed distance between a campaign's scheduled time and its retry TTL (account setting)
+export interface RetryTtlBounds {
+  minHours: number;
+  maxHours: number;
+}
+
 export interface RetryTtlConfig {
   enabled: boolean;
   ttlDateTime?: string; // ISO 8601 datetime string
@@ -84,10 +279,23 @@ export interface RetryTtlConfig {
   stopOnConversion: boolean;
   stopOnManualPause: boolean;
   stopOnTemplateChange: boolean;
+  conversionEventName?: string; // Conversion goal event that stops retries when stopOnConversion is set
+  timezone?: string; // IANA timezone from the campaign schedule (account timezone when omitted)
+  quietHours?: QuietHours; // Campaign override of the account quiet hours
+  businessNumberId?: string; // WhatsApp business number the campaign sends from (default number when omitted)
+}
+
+// WhatsApp business number and its Meta messaging tier
+export interface BusinessNumber {
+  id: string;
+  name: string;
+  quality: 'HIGH' | 'MEDIUM' | 'LOW';
+  dailyMessagingLimit: number; // Unique recipients per rolling 24 hours
+  lastUpdated: string;
 }
 
 // Default retry policies for different error codes
-export const DEFAULT_RETRY_POLICIES: Record<RetryErrorCode, RetryPolicy> = {
+export const DEFAULT_RETRY_POLICIES: Record<BuiltInRetryErrorCode, RetryPolicy> = {
   '131049': {
     errorCode: '131049',
     description: 'Frequency cap / healthy ecosystem',
@@ -105,3 +313,16 @@ export const DEFAULT_RETRY_POLICIES: Record<RetryErrorCode, RetryPolicy> = {
     requiresTemplateActive: true,
   },
 };
+
+// Business numbers connected to the account
+export const BUSINESS_NUMBERS: BusinessNumber[] = [
+  {
+    id: 'netcore',
+    name: 'Netcore Solutions Support (+91 2249757637)',
+    quality: 'HIGH',
+    dailyMessagingLimit: 10000,
+    lastUpdated: 'Sep 09, 2025 12:03 PM'
+  }
+];
+
+export const DEFAULT_BUSINESS_NUMBER_ID = BUSINESS_NUMBERS[0].id;
@@ -0,0 +1,315 @@
+import { readFile } from 'node:fs/promises';
+import { OfflineRetrySeed, RetryWorker, parseDuration } from './retryWorker';
+import { WEBHOOK_PATH, WebhookServer } from './webhookServer';
+import { replayWebhookFixtures } from './webhookReplay';
+
+const USAGE = `Usage: retry-worker <command> [options]
+
+Commands:
+  start                      Run the retry engine
+  webhook                    Receive WhatsApp delivery status webhooks on ${WEBHOOK_PATH}
+  replay <file...>           Replay signed fixture webhooks (in-process unless --url is given)
+
+Options (start):
+  --interval <duration>      Time between retry cycles (default 60s)
+  --max-concurrent <n>       Campaigns retried per cycle (default 10)
+  --leader                   Only poll while holding the leader lease
+  --control-interval <duration>  Time between checks for the dashboard's Run Now (default 5s)
+  --drain-timeout <duration> How long to wait for in-flight attempts on shutdown (default 30s)
+  --offline                  Use in-memory stand-ins for Supabase and a scripted dispatcher
+  --seed <file>              JSON seed for offline mode (retryStates, recipients, dispatch)
+
+Options (webhook):
+  --port <n>                 Port to listen on (default 8787)
+  --offline                  Use in-memory stores instead of Supabase
+  --seed <file>              JSON seed for offline mode (retryStates, recipients)
+
+Options (replay):
+  --url <url>                POST to a running receiver, e.g. http://localhost:8787${WEBHOOK_PATH}
+  --seed <file>              JSON seed for in-process replays (retryStates, recipients)
+
+Environment (Supabase mode):
+  SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+  WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN, WHATSAPP_TEMPLATE_LANGUAGE (default en)
+
+Environment (webhook, replay):
+  WHATSAPP_APP_SECRET        Meta app secret for X-Hub-Signature-256 (replay defaults to a local secret)
+  WHATSAPP_VERIFY_TOKEN      Token for the subscription handshake`;
+
+// Used by in-process replays when WHATSAPP_APP_SECRET isn't set
+const LOCAL_REPLAY_SECRET = 'local-replay-secret';
+
+interface CliOptions {
+  intervalMs: number;
+  maxConcurrentRetries: number;
+  leaderMode: boolean;
+  controlIntervalMs: number;
+  drainTimeoutMs: number;
+  offline: boolean;
+  seedFile?: string;
+}
+
+interface WebhookCliOptions {
+  port: number;
+  offline: boolean;
+  seedFile?: string;
+}
+
+interface ReplayCliOptions {
+  files: string[];
+  url?: string;
+  seedFile?: string;
+}
+
+/**
+ * Value following a flag
+ */
+function optionValue(args: string[], flag: string, index: number): string {
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`${flag} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * Read a JSON seed file
+ */
+async function readSeed(seedFile: string | undefined): Promise<OfflineRetrySeed | undefined> {
+  return seedFile ? JSON.parse(await readFile(seedFile, 'utf8')) : undefined;
+}
+
+/**
+ * Parse the arguments that follow the `start` command
+ */
+function parseOptions(args: string[]): CliOptions {
+  const options: CliOptions = {
+    intervalMs: parseDuration('60s'),
+    maxConcurrentRetries: 10,
+    leaderMode: false,
+    controlIntervalMs: parseDuration('5s'),
+    drainTimeoutMs: parseDuration('30s'),
+    offline: false
+  };
+
+  const valueOf = (flag: string, index: number) => optionValue(args, flag, index);
+
+  for (let index = 0; index < args.length; index++) {
+    const flag = args[index];
+    switch (flag) {
+      case '--interval':
+        options.intervalMs = parseDuration(valueOf(flag, index++));
+        break;
+      case '--max-concurrent':
+        options.maxConcurrentRetries = Number(valueOf(flag, index++));
+        if (!Number.isInteger(options.maxConcurrentRetries) || options.maxConcurrentRetries < 1) {
+          throw new Error('--max-concurrent must be a positive integer');
+        }
+        break;
+      case '--leader':
+        options.leaderMode = true;
+        break;
+      case '--control-interval':
+        options.controlIntervalMs = parseDuration(valueOf(flag, index++));
+        break;
+      case '--drain-timeout':
+        options.drainTimeoutMs = parseDuration(valueOf(flag, index++));
+        break;
+      case '--offline':
+        options.offline = true;
+        break;
+      case '--seed':
+        options.seedFile = valueOf(flag, index++);
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (options.seedFile && !options.offline) {
+    throw new Error('--seed is only supported with --offline');
+  }
+  if (options.intervalMs <= 0) {
+    throw new Error('--interval must be greater than zero');
+  }
+  if (options.controlIntervalMs <= 0) {
+    throw new Error('--control-interval must be greater than zero');
+  }
+
+  return options;
+}
+
+/**
+ * Start the worker and stop it gracefully on SIGTERM / SIGINT
+ */
+async function start(options: CliOptions): Promise<void> {
+  const seed = await readSeed(options.seedFile);
+
+  const worker = await RetryWorker.create({
+    intervalMs: options.intervalMs,
+    maxConcurrentRetries: options.maxConcurrentRetries,
+    leaderMode: options.leaderMode,
+    controlIntervalMs: options.controlIntervalMs,
+    offline: options.offline,
+    seed
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.log(`[RetryWorker] ${signal} received, draining in-flight attempts`);
+
+    const drained = await worker.shutdown(options.drainTimeoutMs);
+    console.log(`[RetryWorker] ${drained ? 'Drained, exiting' : 'Drain timed out, exiting'}`);
+    process.exit(drained ? 0 : 1);
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+
+  console.log(
+    `[RetryWorker] Started in ${options.offline ? 'offline' : 'Supabase'} mode, polling every ${options.intervalMs}ms`
+  );
+  await worker.start();
+}
+
+/**
+ * Parse the arguments that follow the `webhook` command
+ */
+function parseWebhookOptions(args: string[]): WebhookCliOptions {
+  const options: WebhookCliOptions = { port: 8787, offline: false };
+
+  for (let index = 0; index < args.length; index++) {
+    const flag = args[index];
+    switch (flag) {
+      case '--port':
+        options.port = Number(optionValue(args, flag, index++));
+        if (!Number.isInteger(options.port) || options.port < 0) {
+          throw new Error('--port must be a port number');
+        }
+        break;
+      case '--offline':
+        options.offline = true;
+        break;
+      case '--seed':
+        options.seedFile = optionValue(args, flag, index++);
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (options.seedFile && !options.offline) {
+    throw new Error('--seed is only supported with --offline');
+  }
+
+  return options;
+}
+
+/**
+ * Parse the arguments that follow the `replay` command
+ */
+function parseReplayOptions(args: string[]): ReplayCliOptions {
+  const options: ReplayCliOptions = { files: [] };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    switch (arg) {
+      case '--url':
+        options.url = optionValue(args, arg, index++);
+        break;
+      case '--seed':
+        options.seedFile = optionValue(args, arg, index++);
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        options.files.push(arg);
+    }
+  }
+
+  if (options.files.length === 0) {
+    throw new Error('replay needs at least one fixture file');
+  }
+  if (options.seedFile && options.url) {
+    throw new Error('--seed is only supported for in-process replays');
+  }
+
+  return options;
+}
+
+/**
+ * Run the webhook receiver until SIGTERM / SIGINT
+ */
+async function webhook(options: WebhookCliOptions): Promise<void> {
+  const server = await WebhookServer.create({ offline: options.offline, seed: await readSeed(options.seedFile) });
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    console.log(`[WebhookServer] ${signal} received, closing`);
+    await server.close();
+    process.exit(0);
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+
+  await server.listen(options.port);
+  console.log(
+    `[WebhookServer] Listening on http://localhost:${options.port}${WEBHOOK_PATH} in ${options.offline ? 'offline' : 'Supabase'} mode`
+  );
+}
+
+/**
+ * Replay fixture webhooks and print each response (plus counters and retry ledgers when in-process)
+ */
+async function replay(options: ReplayCliOptions): Promise<void> {
+  const appSecret = process.env.WHATSAPP_APP_SECRET || (options.url ? undefined : LOCAL_REPLAY_SECRET);
+  if (!appSecret) {
+    throw new Error('Missing environment variable WHATSAPP_APP_SECRET (must match the receiver)');
+  }
+
+  const { responses, store, retryStore } = await replayWebhookFixtures({
+    files: options.files,
+    appSecret,
+    url: options.url,
+    seed: await readSeed(options.seedFile)
+  });
+
+  responses.forEach(({ file, status, body }) => console.log(`[Replay] ${file} -> ${status} ${body}`));
+
+  if (store && retryStore) {
+    for (const [campaignId, counters] of Object.entries(store.getAllCounters())) {
+      const recipients = await retryStore.listRecipients(campaignId);
+      console.log(`[Replay] ${campaignId} counters ${JSON.stringify(counters)}`);
+      console.log(`[Replay] ${campaignId} retry ledger ${JSON.stringify(recipients.map(recipient => recipient.recipientId))}`);
+    }
+  }
+
+  if (responses.some(({ status }) => status !== 200)) {
+    process.exitCode = 1;
+  }
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+
+  if (command === 'start') {
+    await start(parseOptions(args));
+  } else if (command === 'webhook') {
+    await webhook(parseWebhookOptions(args));
+  } else if (command === 'replay') {
+    await replay(parseReplayOptions(args));
+  } else if (command === undefined || command === 'help' || command === '--help') {
+    console.log(USAGE);
+  } else {
+    throw new Error(`Unknown command ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`[RetryWorker] ${error instanceof Error ? error.message : error}`);
+  console.error(USAGE);
+  process.exit(1);
+});
@@ -0,0 +1,290 @@
+import { createClient } from '@supabase/supabase-js';
+import { configureSupabaseClient, supabase } from '@/lib/supabase';
+import { FinalPreviewData } from '@/types/campaign';
+import { CampaignRetryState, RecipientRetryState } from '@/services/retryService';
+import { InMemoryRetryStateStore, RetryStateStore, SupabaseRetryStateStore } from '@/services/retryStateStore';
+import {
+  CampaignDispatcher,
+  CampaignDispatchResult,
+  ScriptedCampaignDispatcher,
+  WhatsAppCloudDispatcher
+} from '@/services/campaignDispatcher';
+import { RetryEngine, RetryExecutionResult } from '@/services/retryEngine';
+import { InMemoryRetryStopEventStore } from '@/services/retryStopEvents';
+import { InMemoryTemplateStatusStore } from '@/services/templateRegistryService';
+import { InMemoryRetryLockProvider } from '@/services/retryLockProvider';
+import { InMemoryDeadLetterStore } from '@/services/retryDeadLetters';
+import { InMemoryMessagingBucketStore } from '@/services/messagingRateLimiter';
+import { SupabaseRetryLogSink } from '@/services/retryEngineEvents';
+import {
+  InMemoryRetryEngineControlStore,
+  RetryEngineControlService,
+  RetryEngineControlStore,
+  SupabaseRetryEngineControlStore
+} from '@/services/retryEngineControls';
+import { Clock, ClockService, ClockTimer } from '@/services/clock';
+
+export interface RetryWorkerOptions {
+  intervalMs: number;
+  maxConcurrentRetries?: number;
+  leaderMode?: boolean; // Only one of several workers polls at a time
+  controlIntervalMs?: number; // Time between reads of the dashboard's Run Now requests (default 5s)
+  offline?: boolean; // In-memory stand-ins for Supabase and a scripted dispatcher
+  seed?: OfflineRetrySeed; // Offline mode only
+  enableLogging?: boolean; // Default true
+  env?: Record<string, string | undefined>; // Defaults to process.env
+}
+
+/**
+ * Data loaded into the offline stand-in. Datetimes are ISO 8601 or relative to
+ * the time the seed is loaded ("+2h", "-30m").
+ */
+export interface OfflineRetrySeed {
+  retryStates?: CampaignRetryState[];
+  recipients?: Record<string, RecipientRetryState[]>; // Retry ledger per campaign ID
+  dispatch?: CampaignDispatchResult[] | Record<string, CampaignDispatchResult[]>; // Scripted outcomes
+}
+
+// Local Supabase CLI stack; offline workers point the client here so no call leaves the machine
+const LOCAL_SUPABASE_URL = 'http://127.0.0.1:54321';
+
+const DEFAULT_CONTROL_INTERVAL_MS = 5000;
+
+const DURATION_UNITS_MS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+/**
+ * Parse a duration such as "60s", "5m", "1h" or "500ms" (plain numbers are milliseconds)
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 500ms, 60s, 5m or 1h)`);
+  }
+  return Math.round(Number(match[1]) * DURATION_UNITS_MS[match[2] ?? 'ms']);
+}
+
+/**
+ * Resolve a seed datetime, either ISO 8601 or an offset from `now` such as "+2h"
+ */
+function resolveSeedTime(value: string | undefined, now: number): string | undefined {
+  if (!value || !/^[+-]/.test(value)) {
+    return value;
+  }
+  const offsetMs = parseDuration(value.slice(1));
+  return new Date(value.startsWith('-') ? now - offsetMs : now + offsetMs).toISOString();
+}
+
+/**
+ * Write the seed's retry states, attempts and recipient ledgers to a store
+ */
+export async function loadOfflineSeed(seed: OfflineRetrySeed, store: RetryStateStore): Promise<void> {
+  const now = Date.now();
+
+  for (const retryState of seed.retryStates || []) {
+    const { campaignId, retryConfig, attempts = [] } = retryState;
+    await store.saveRetryState({
+      ...retryState,
+      retryConfig: {
+        ...retryConfig,
+        ttlDateTime: resolveSeedTime(retryConfig.ttlDateTime, now),
+        scheduledDateTime: resolveSeedTime(retryConfig.scheduledDateTime, now)
+      },
+      attempts: [],
+      lastAttemptAt: resolveSeedTime(retryState.lastAttemptAt, now),
+      nextAttemptAt: resolveSeedTime(retryState.nextAttemptAt, now),
+      isExpired: retryState.isExpired ?? false
+    });
+    for (const attempt of attempts) {
+      await store.appendRetryAttempt(campaignId, {
+        ...attempt,
+        scheduledAt: resolveSeedTime(attempt.scheduledAt, now),
+        executedAt: resolveSeedTime(attempt.executedAt, now)
+      });
+    }
+  }
+
+  for (const [campaignId, recipients] of Object.entries(seed.recipients || {})) {
+    await store.saveRecipients(campaignId, recipients.map(recipient => ({
+      ...recipient,
+      lastAttemptAt: resolveSeedTime(recipient.lastAttemptAt, now),
+      nextAttemptAt: resolveSeedTime(recipient.nextAttemptAt, now)
+    })));
+  }
+}
+
+/**
+ * Read a required environment variable
+ */
+function requireEnv(env: Record<string, string | undefined>, name: string): string {
+  const value = env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+/**
+ * WhatsApp dispatcher that re-sends a campaign's template to the recipients still retrying in its ledger.
+ * A retry with no such recipients (e.g. a campaign-level retry without a ledger) fails instead of completing.
+ */
+function createWhatsAppDispatcher(env: Record<string, string | undefined>, store: RetryStateStore): CampaignDispatcher {
+  const languageCode = env.WHATSAPP_TEMPLATE_LANGUAGE || 'en';
+
+  return new WhatsAppCloudDispatcher({
+    phoneNumberId: requireEnv(env, 'WHATSAPP_PHONE_NUMBER_ID'),
+    accessToken: requireEnv(env, 'WHATSAPP_ACCESS_TOKEN'),
+    resolveMessages: async ({ campaignId, recipients: requested }) => {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('config')
+        .eq('id', campaignId)
+        .single();
+
+      if (error) throw error;
+
+      // Meta template name, as frozen with the campaign's configuration at publish
+      const templateName = (data?.config as FinalPreviewData | null)?.templateName;
+      if (!templateName) {
+        throw new Error(`Campaign ${campaignId} has no template name`);
+      }
+
+      // Delivered and exhausted recipients are never re-sent
+      const retrying = (await store.listRecipients(campaignId))
+        .filter(recipient => recipient.status === 'retrying')
+        .map(recipient => recipient.recipientId);
+      const requestedIds = requested ? new Set(requested) : null;
+
+      return retrying
+        .filter(recipientId => !requestedIds || requestedIds.has(recipientId))
+        .map(recipientId => ({ to: recipientId, templateName, languageCode }));
+    }
+  });
+}
+
+/**
+ * Runs the retry engine outside the browser, against Supabase with a service-role key
+ * or against in-memory stand-ins (offline mode). Stopped accounts are left out by the
+ * store's due-states query; the worker polls the controls for Run Now requests.
+ */
+export class RetryWorker {
+  readonly engine: RetryEngine;
+  readonly store: RetryStateStore;
+  readonly dispatcher: CampaignDispatcher;
+  readonly controls: RetryEngineControlStore;
+  private readonly controlIntervalMs: number;
+  private controlInterval: { clock: Clock; timer: ClockTimer } | null = null;
+  private lastRunRequestAt: number | null = null;
+
+  private constructor(
+    engine: RetryEngine,
+    store: RetryStateStore,
+    dispatcher: CampaignDispatcher,
+    controls: RetryEngineControlStore,
+    controlIntervalMs: number
+  ) {
+    this.engine = engine;
+    this.store = store;
+    this.dispatcher = dispatcher;
+    this.controls = controls;
+    this.controlIntervalMs = controlIntervalMs;
+  }
+
+  /**
+   * Point the shared Supabase client at the worker's project and build the engine
+   */
+  static async create(options: RetryWorkerOptions): Promise<RetryWorker> {
+    const env = options.env ?? process.env;
+    const controlIntervalMs = options.controlIntervalMs ?? DEFAULT_CONTROL_INTERVAL_MS;
+    const config = {
+      maxConcurrentRetries: options.maxConcurrentRetries ?? 10,
+      retryCheckIntervalMs: options.intervalMs,
+      enableLogging: options.enableLogging ?? true,
+      leaderMode: options.leaderMode,
+      refreshRetryPolicies: !options.offline
+    };
+
+    if (options.offline) {
+      configureSupabaseClient(createClient(env.SUPABASE_URL || LOCAL_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY || 'offline', {
+        auth: { autoRefreshToken: false, persistSession: false, detectSessionInUrl: false }
+      }));
+
+      const controls = new InMemoryRetryEngineControlStore();
+      const store = new InMemoryRetryStateStore(controls);
+      if (options.seed) {
+        await loadOfflineSeed(options.seed, store);
+      }
+
+      const dispatcher = new ScriptedCampaignDispatcher(options.seed?.dispatch);
+      const engine = new RetryEngine({
+        dispatcher,
+        store,
+        stopEvents: new InMemoryRetryStopEventStore(),
+        templates: new InMemoryTemplateStatusStore(),
+        locks: new InMemoryRetryLockProvider(),
+        deadLetters: new InMemoryDeadLetterStore(),
+        rateLimits: new InMemoryMessagingBucketStore()
+      }, config);
+      return new RetryWorker(engine, store, dispatcher, controls, controlIntervalMs);
+    }
+
+    configureSupabaseClient(createClient(requireEnv(env, 'SUPABASE_URL'), requireEnv(env, 'SUPABASE_SERVICE_ROLE_KEY'), {
+      auth: { autoRefreshToken: false, persistSession: false, detectSessionInUrl: false }
+    }));
+
+    const store = new SupabaseRetryStateStore();
+    const dispatcher = createWhatsAppDispatcher(env, store);
+
+    return new RetryWorker(
+      new RetryEngine({ dispatcher, store, logSinks: [new SupabaseRetryLogSink()] }, config),
+      store,
+      dispatcher,
+      new SupabaseRetryEngineControlStore(),
+      controlIntervalMs
+    );
+  }
+
+  /**
+   * Start polling and run the first cycle straight away
+   */
+  async start(): Promise<RetryExecutionResult[]> {
+    // Run requests made before the worker started are covered by the first cycle
+    this.lastRunRequestAt = RetryEngineControlService.getLatestRunRequest(await this.controls.listControls());
+    this.engine.start();
+    const clock = ClockService.getClock();
+    this.controlInterval = { clock, timer: clock.setInterval(() => this.checkRunRequests(), this.controlIntervalMs) };
+    return this.engine.triggerRetryProcessing();
+  }
+
+  /**
+   * Stop polling and wait for in-flight attempts; resolves false when the drain timed out
+   */
+  async shutdown(drainTimeoutMs?: number): Promise<boolean> {
+    if (this.controlInterval) {
+      this.controlInterval.clock.clearInterval(this.controlInterval.timer);
+      this.controlInterval = null;
+    }
+    if (this.engine.isActive()) {
+      this.engine.stop();
+    }
+    return this.engine.drain(drainTimeoutMs);
+  }
+
+  /**
+   * Run a retry cycle when an account has asked for one since the last check
+   */
+  async checkRunRequests(): Promise<RetryExecutionResult[]> {
+    let latest: number | null;
+    try {
+      latest = RetryEngineControlService.getLatestRunRequest(await this.controls.listControls());
+    } catch (error) {
+      console.error(`[RetryWorker] Failed to read retry engine controls: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+
+    if (latest === null || (this.lastRunRequestAt !== null && latest <= this.lastRunRequestAt)) {
+      return [];
+    }
+    this.lastRunRequestAt = latest;
+    return this.engine.triggerRetryProcessing();
+  }
+}
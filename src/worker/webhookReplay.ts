@@ -0,0 +1,63 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { InMemoryRetryStateStore } from '@/services/retryStateStore';
+import { InMemoryRetryStopEventStore } from '@/services/retryStopEvents';
+import { DeliveryStatusWebhookService, InMemoryDeliveryStatusStore, SIGNATURE_HEADER } from '@/services/deliveryStatusWebhook';
+import { OfflineRetrySeed, loadOfflineSeed } from './retryWorker';
+
+export interface WebhookReplayOptions {
+  files: string[]; // Fixture payloads, replayed in order
+  appSecret: string; // Signs each payload the way Meta does
+  url?: string; // POST to a running receiver instead of processing in-process
+  seed?: OfflineRetrySeed; // In-process only: retry ledger the statuses are applied to
+}
+
+export interface WebhookReplayResponse {
+  file: string;
+  status: number;
+  body: string;
+}
+
+/**
+ * Replay fixture webhook payloads, signed with the app secret, either against a running
+ * receiver or in-process against in-memory stores. In-process replays return the stores
+ * so the resulting counters and retry ledger can be inspected.
+ */
+export async function replayWebhookFixtures({ files, appSecret, url, seed }: WebhookReplayOptions): Promise<{
+  responses: WebhookReplayResponse[];
+  store?: InMemoryDeliveryStatusStore;
+  retryStore?: InMemoryRetryStateStore;
+}> {
+  const responses: WebhookReplayResponse[] = [];
+  const store = url ? undefined : new InMemoryDeliveryStatusStore();
+  const retryStore = url ? undefined : new InMemoryRetryStateStore();
+
+  if (retryStore && seed) {
+    await loadOfflineSeed(seed, retryStore);
+  }
+
+  for (const file of files) {
+    const rawBody = await readFile(file, 'utf8');
+    const signature = await DeliveryStatusWebhookService.signPayload(rawBody, appSecret);
+
+    if (url) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: signature },
+        body: rawBody
+      });
+      responses.push({ file: basename(file), status: response.status, body: await response.text() });
+    } else {
+      const response = await DeliveryStatusWebhookService.handleRequest(
+        { method: 'POST', headers: { [SIGNATURE_HEADER]: signature }, rawBody },
+        { appSecret },
+        store,
+        retryStore,
+        new InMemoryRetryStopEventStore()
+      );
+      responses.push({ file: basename(file), ...response });
+    }
+  }
+
+  return { responses, store, retryStore };
+}
@@ -0,0 +1,147 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { configureSupabaseClient } from '@/lib/supabase';
+import { InMemoryRetryStateStore, RetryStateStore, SupabaseRetryStateStore } from '@/services/retryStateStore';
+import { InMemoryRetryStopEventStore, RetryStopEventStore, SupabaseRetryStopEventStore } from '@/services/retryStopEvents';
+import { RetryPolicyRegistry } from '@/services/retryPolicyRegistry';
+import {
+  DeliveryStatusStore,
+  DeliveryStatusWebhookService,
+  InMemoryDeliveryStatusStore,
+  SupabaseDeliveryStatusStore,
+  WebhookSecrets,
+  isUuid
+} from '@/services/deliveryStatusWebhook';
+import { OfflineRetrySeed, loadOfflineSeed } from './retryWorker';
+
+export const WEBHOOK_PATH = '/webhooks/whatsapp';
+
+export interface WebhookServerOptions {
+  offline?: boolean; // In-memory stores instead of Supabase
+  seed?: OfflineRetrySeed; // Offline mode only
+  env?: Record<string, string | undefined>; // Defaults to process.env
+}
+
+/**
+ * Read a request body as the exact bytes that were signed
+ */
+function readRawBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * HTTP receiver for Meta delivery status webhooks, backed by Supabase with a
+ * service-role key or by in-memory stores (offline mode)
+ */
+export class WebhookServer {
+  readonly server: Server;
+  readonly store: DeliveryStatusStore;
+  readonly retryStore: RetryStateStore;
+  readonly stopEvents: RetryStopEventStore;
+  private loadPolicies?: (campaignIds: string[]) => Promise<void>;
+
+  private constructor(
+    secrets: WebhookSecrets,
+    store: DeliveryStatusStore,
+    retryStore: RetryStateStore,
+    stopEvents: RetryStopEventStore,
+    loadPolicies?: (campaignIds: string[]) => Promise<void>
+  ) {
+    this.store = store;
+    this.retryStore = retryStore;
+    this.stopEvents = stopEvents;
+    this.loadPolicies = loadPolicies;
+    this.server = createServer(async (request, response) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      if (url.pathname !== WEBHOOK_PATH) {
+        response.writeHead(404).end('Not found');
+        return;
+      }
+
+      try {
+        const result = await DeliveryStatusWebhookService.handleRequest(
+          {
+            method: request.method ?? 'GET',
+            headers: request.headers,
+            query: Object.fromEntries(url.searchParams),
+            rawBody: request.method === 'POST' ? await readRawBody(request) : undefined
+          },
+          secrets,
+          this.store,
+          this.retryStore,
+          this.stopEvents,
+          this.loadPolicies
+        );
+        console.log(`[WebhookServer] ${request.method} ${url.pathname} -> ${result.status} ${result.status === 200 ? result.body : ''}`);
+        response.writeHead(result.status, { 'Content-Type': 'text/plain' }).end(result.body);
+      } catch (error) {
+        // Meta retries non-2xx deliveries, so a failed write is picked up again later
+        console.error(`[WebhookServer] Failed to process webhook: ${error instanceof Error ? error.message : error}`);
+        response.writeHead(500).end('Internal error');
+      }
+    });
+  }
+
+  /**
+   * Point the shared Supabase client at the worker's project and build the stores
+   */
+  static async create(options: WebhookServerOptions): Promise<WebhookServer> {
+    const env = options.env ?? process.env;
+    const appSecret = env.WHATSAPP_APP_SECRET;
+    if (!appSecret) {
+      throw new Error('Missing environment variable WHATSAPP_APP_SECRET');
+    }
+    const secrets: WebhookSecrets = { appSecret, verifyToken: env.WHATSAPP_VERIFY_TOKEN };
+
+    if (options.offline) {
+      const retryStore = new InMemoryRetryStateStore();
+      if (options.seed) {
+        await loadOfflineSeed(options.seed, retryStore);
+      }
+      return new WebhookServer(secrets, new InMemoryDeliveryStatusStore(), retryStore, new InMemoryRetryStopEventStore());
+    }
+
+    const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = env;
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing environment variable SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    }
+    configureSupabaseClient(createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { autoRefreshToken: false, persistSession: false, detectSessionInUrl: false }
+    }));
+
+    // The owners' policy overrides decide which failure codes are retryable; a failed lookup
+    // answers 500 so Meta redelivers the statuses instead of them being judged by the defaults.
+    // IDs that aren't UUIDs can't name a campaign and are ignored by the store.
+    return new WebhookServer(
+      secrets,
+      new SupabaseDeliveryStatusStore(),
+      new SupabaseRetryStateStore(),
+      new SupabaseRetryStopEventStore(),
+      campaignIds => RetryPolicyRegistry.loadCampaignPolicies(campaignIds.filter(isUuid))
+    );
+  }
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, () => resolve());
+    });
+  }
+
+  /**
+   * Stop accepting connections and wait for open requests to finish
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+}
@@ -13,12 +13,29 @@ CREATE TABLE IF NOT EXISTS public.campaigns (
     opened INTEGER DEFAULT 0,
     clicked INTEGER DEFAULT 0,
     bounce TEXT DEFAULT 'NA',
-    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Delivery counters kept up to date by the WhatsApp status webhook
+    delivered INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
     -- Unified Retry TTL field (used for both retry engine and Meta API)
     retry_ttl TIMESTAMPTZ, -- Unified TTL - when retry attempts should stop
-    scheduled_at TIMESTAMPTZ -- When the campaign was originally scheduled
+    scheduled_at TIMESTAMPTZ, -- When the campaign was originally scheduled
+    -- WhatsApp template used by the campaign (status kept in sync from Meta webhooks)
+    template_id TEXT,
+    template_status TEXT CHECK (template_status IN ('APPROVED', 'PENDING', 'REJECTED', 'PAUSED', 'DISABLED')),
+    -- Channel-specific setup and content (WhatsApp template, SMS DLT details, email subject and body)
+    content JSONB,
+    tags TEXT[] NOT NULL DEFAULT '{}', -- Tags entered in the wizard's setup step
+    created_by TEXT, -- Email of the creating user (campaign list creator filter)
+    config JSONB, -- Wizard configuration frozen at publish (FinalPreviewData)
+    -- Conversion goal results kept up to date by the conversion tracking sync
+    converted INTEGER NOT NULL DEFAULT 0,
+    conversion_revenue NUMERIC(14, 2) NOT NULL DEFAULT 0,
+    archived_at TIMESTAMPTZ, -- Archived campaigns only show under the list's Archived tab
+    -- Campaign list search matches against the name and ID
+    search_text TEXT GENERATED ALWAYS AS (lower(name || ' ' || id::text)) STORED
 );
 
 -- Create indexes for better performance
@@ -29,6 +46,7 @@ CREATE INDEX IF NOT EXISTS idx_campaigns_created_at ON public.campaigns(created_
 -- Indexes for retry TTL functionality
 CREATE INDEX IF NOT EXISTS idx_campaigns_retry_ttl ON public.campaigns(retry_ttl) WHERE retry_ttl IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled_at ON public.campaigns(scheduled_at) WHERE scheduled_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_campaigns_template_id ON public.campaigns(template_id) WHERE template_id IS NOT NULL;
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
@@ -72,8 +90,207 @@ BEGIN
         ALTER TABLE public.campaigns ADD COLUMN scheduled_at TIMESTAMPTZ;
         CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled_at ON public.campaigns(scheduled_at) WHERE scheduled_at IS NOT NULL;
     END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'template_id'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN template_id TEXT;
+        ALTER TABLE public.campaigns ADD COLUMN template_status TEXT
+            CHECK (template_status IN ('APPROVED', 'PENDING', 'REJECTED', 'PAUSED', 'DISABLED'));
+        CREATE INDEX IF NOT EXISTS idx_campaigns_template_id ON public.campaigns(template_id) WHERE template_id IS NOT NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'delivered'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN delivered INTEGER DEFAULT 0;
+        ALTER TABLE public.campaigns ADD COLUMN failed INTEGER DEFAULT 0;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'search_text'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN search_text TEXT
+            GENERATED ALWAYS AS (lower(name || ' ' || id::text)) STORED;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'content'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN content JSONB;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'tags'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+        ALTER TABLE public.campaigns ADD COLUMN created_by TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'config'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN config JSONB;
+        ALTER TABLE public.campaigns ADD COLUMN converted INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE public.campaigns ADD COLUMN conversion_revenue NUMERIC(14, 2) NOT NULL DEFAULT 0;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name = 'campaigns' 
+        AND column_name = 'archived_at'
+        AND table_schema = 'public'
+    ) THEN
+        ALTER TABLE public.campaigns ADD COLUMN archived_at TIMESTAMPTZ;
+    END IF;
+
+    -- Keyset pagination needs a value to compare on every row
+    UPDATE public.campaigns SET created_at = NOW() WHERE created_at IS NULL;
+    ALTER TABLE public.campaigns ALTER COLUMN created_at SET NOT NULL;
 END $$;
 
+-- Campaign list: substring search on name and ID, and keyset pagination on (sort column, id)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_campaigns_search_text ON public.campaigns USING GIN (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_campaigns_name_id ON public.campaigns(name, id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_status_id ON public.campaigns(status, id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_created_at_id ON public.campaigns(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_channel_created_at_id ON public.campaigns(channel, created_at, id);
+-- Campaign list filter panel
+CREATE INDEX IF NOT EXISTS idx_campaigns_tags ON public.campaigns USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_campaigns_sent_on ON public.campaigns(sent_on);
+CREATE INDEX IF NOT EXISTS idx_campaigns_template_id ON public.campaigns(template_id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_archived_at ON public.campaigns(archived_at) WHERE archived_at IS NOT NULL;
+
+-- Status tab counts without fetching every campaign, optionally for one channel (runs as the caller, so RLS applies).
+-- Archived campaigns are counted under 'ARCHIVED' instead of their status.
+DROP FUNCTION IF EXISTS public.get_campaign_status_counts();
+CREATE OR REPLACE FUNCTION public.get_campaign_status_counts(p_channel TEXT DEFAULT NULL)
+RETURNS TABLE (status TEXT, campaign_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT CASE WHEN c.archived_at IS NOT NULL THEN 'ARCHIVED' ELSE c.status END, COUNT(*)
+    FROM public.campaigns c
+    WHERE p_channel IS NULL OR c.channel = p_channel
+    GROUP BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_status_counts(TEXT) TO authenticated;
+
+-- Bulk actions from the campaign list (duplicate, archive, unarchive, delete, pause, resume).
+-- Runs as the caller (RLS applies) in one transaction: campaigns that don't qualify are reported
+-- and skipped, and any unexpected error rolls back every change. Checks mirror
+-- CampaignService.getBulkActionError.
+CREATE OR REPLACE FUNCTION public.bulk_update_campaigns(
+    p_action TEXT,
+    p_campaign_ids TEXT[],
+    p_copy_prefix TEXT DEFAULT NULL
+)
+RETURNS TABLE (campaign_id TEXT, ok BOOLEAN, error TEXT, new_campaign_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_id TEXT;
+    v_campaign public.campaigns%ROWTYPE;
+    v_error TEXT;
+BEGIN
+    IF p_action NOT IN ('duplicate', 'archive', 'unarchive', 'delete', 'pause', 'resume') THEN
+        RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+    END IF;
+    IF cardinality(p_campaign_ids) > 1000 THEN
+        RAISE EXCEPTION 'Bulk actions are limited to 1000 campaigns';
+    END IF;
+
+    FOREACH v_id IN ARRAY p_campaign_ids LOOP
+        campaign_id := v_id;
+        new_campaign_id := NULL;
+        v_error := NULL;
+        v_campaign := NULL;
+
+        -- IDs that aren't UUIDs (e.g. a just-published placeholder) can't match a stored campaign
+        IF v_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+            SELECT * INTO v_campaign FROM public.campaigns c WHERE c.id = v_id::UUID FOR UPDATE;
+        END IF;
+
+        IF v_campaign.id IS NULL THEN
+            v_error := 'Campaign not found';
+        ELSIF p_action = 'archive' AND v_campaign.archived_at IS NOT NULL THEN
+            v_error := 'Campaign is already archived';
+        ELSIF p_action IN ('archive', 'delete') AND v_campaign.status = 'RUNNING' THEN
+            v_error := CASE p_action WHEN 'archive' THEN 'Running campaigns cannot be archived' ELSE 'Running campaigns cannot be deleted' END;
+        ELSIF p_action = 'unarchive' AND v_campaign.archived_at IS NULL THEN
+            v_error := 'Campaign is not archived';
+        ELSIF p_action = 'pause' AND v_campaign.status <> 'SCHEDULED' THEN
+            v_error := 'Only scheduled campaigns can be paused';
+        ELSIF p_action = 'resume' AND v_campaign.status <> 'SUSPENDED' THEN
+            v_error := 'Only suspended campaigns can be resumed';
+        END IF;
+
+        IF v_error IS NOT NULL THEN
+            ok := FALSE;
+            error := v_error;
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        CASE p_action
+            WHEN 'duplicate' THEN
+                -- A draft copy: counters, schedule and the frozen configuration start over
+                INSERT INTO public.campaigns (name, status, channel, user_id, template_id, template_status, content, tags, created_by)
+                VALUES (
+                    COALESCE(p_copy_prefix, 'Copy:') || v_campaign.name,
+                    'DRAFT',
+                    v_campaign.channel,
+                    auth.uid(),
+                    v_campaign.template_id,
+                    v_campaign.template_status,
+                    v_campaign.content,
+                    v_campaign.tags,
+                    COALESCE(auth.jwt() ->> 'email', v_campaign.created_by)
+                )
+                RETURNING id INTO new_campaign_id;
+            WHEN 'archive' THEN
+                UPDATE public.campaigns SET archived_at = NOW() WHERE id = v_campaign.id;
+            WHEN 'unarchive' THEN
+                UPDATE public.campaigns SET archived_at = NULL WHERE id = v_campaign.id;
+            WHEN 'delete' THEN
+                DELETE FROM public.campaigns WHERE id = v_campaign.id;
+            WHEN 'pause' THEN
+                UPDATE public.campaigns SET status = 'SUSPENDED' WHERE id = v_campaign.id;
+            WHEN 'resume' THEN
+                UPDATE public.campaigns SET status = 'SCHEDULED' WHERE id = v_campaign.id;
+        END CASE;
+
+        ok := TRUE;
+        error := NULL;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_update_campaigns(TEXT, TEXT[], TEXT) TO authenticated;
+
 -- Create a function to automatically update the updated_at timestamp
 CREATE OR REPLACE FUNCTION public.handle_updated_at()
 RETURNS TRIGGER AS $$
@@ -103,6 +320,756 @@ ON CONFLICT DO NOTHING;
 GRANT ALL ON public.campaigns TO authenticated;
 GRANT ALL ON public.campaigns TO service_role;
 
+-- Create campaign retry state table (one row per campaign with retry enabled)
+CREATE TABLE IF NOT EXISTS public.campaign_retry_states (
+    campaign_id UUID PRIMARY KEY REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    retry_ttl TIMESTAMPTZ, -- Unified TTL copied from the campaign
+    scheduled_at TIMESTAMPTZ,
+    stop_on_conversion BOOLEAN NOT NULL DEFAULT TRUE,
+    stop_on_manual_pause BOOLEAN NOT NULL DEFAULT TRUE,
+    stop_on_template_change BOOLEAN NOT NULL DEFAULT TRUE,
+    conversion_event_name TEXT, -- Conversion goal that stops retries when stop_on_conversion is set
+    timezone TEXT, -- Campaign schedule timezone (account timezone when NULL)
+    quiet_hours_enabled BOOLEAN, -- Campaign quiet hours override (account quiet hours when NULL)
+    quiet_hours_start TEXT,
+    quiet_hours_end TEXT,
+    last_attempt_at TIMESTAMPTZ,
+    next_attempt_at TIMESTAMPTZ,
+    is_expired BOOLEAN NOT NULL DEFAULT FALSE,
+    requeued_at TIMESTAMPTZ, -- Last re-queue from the dead-letter queue (policy attempts restart here)
+    paused_at TIMESTAMPTZ, -- Set while an operator has retries paused
+    cancelled_at TIMESTAMPTZ, -- Set once an operator cancelled retries
+    cancel_reason TEXT,
+    business_number_id TEXT, -- WhatsApp business number the campaign sends from (rate-limited per messaging tier)
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create campaign retry attempts table (append-only attempt history)
+CREATE TABLE IF NOT EXISTS public.campaign_retry_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    campaign_id UUID NOT NULL REFERENCES public.campaign_retry_states(campaign_id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    scheduled_at TIMESTAMPTZ NOT NULL,
+    executed_at TIMESTAMPTZ,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'completed', 'failed', 'skipped', 'deferred')),
+    error_code TEXT,
+    reason TEXT, -- Why the attempt was skipped
+    deliveries JSONB, -- Messages sent, accepted and (once their statuses arrive) delivered per retried error code
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (campaign_id, attempt_number)
+);
+
+-- Create campaign retry events table (conversion, manual pause and template change notifications)
+CREATE TABLE IF NOT EXISTS public.campaign_retry_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('conversion', 'manual_pause', 'template_change')),
+    event_name TEXT, -- Conversion event name
+    template_id TEXT, -- New template for template changes
+    details TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create campaign retry recipients table (per-contact retry ledger)
+CREATE TABLE IF NOT EXISTS public.campaign_retry_recipients (
+    campaign_id UUID NOT NULL REFERENCES public.campaign_retry_states(campaign_id) ON DELETE CASCADE,
+    recipient_id TEXT NOT NULL, -- Contact phone number (E.164)
+    status TEXT NOT NULL CHECK (status IN ('retrying', 'sent', 'delivered', 'exhausted', 'stopped')), -- 'sent': awaiting the retry's delivery status
+    error_code TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 0, -- Retries sent to this recipient
+    last_attempt_at TIMESTAMPTZ,
+    next_attempt_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (campaign_id, recipient_id)
+);
+
+-- Migration: Add retry columns introduced after the tables were created (for existing databases)
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS conversion_event_name TEXT;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS quiet_hours_enabled BOOLEAN;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS quiet_hours_start TEXT;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS quiet_hours_end TEXT;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS requeued_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+ALTER TABLE public.campaign_retry_states ADD COLUMN IF NOT EXISTS business_number_id TEXT;
+ALTER TABLE public.campaign_retry_attempts ADD COLUMN IF NOT EXISTS reason TEXT;
+ALTER TABLE public.campaign_retry_attempts ADD COLUMN IF NOT EXISTS deliveries JSONB;
+ALTER TABLE public.campaign_retry_attempts DROP CONSTRAINT IF EXISTS campaign_retry_attempts_status_check;
+ALTER TABLE public.campaign_retry_attempts ADD CONSTRAINT campaign_retry_attempts_status_check
+    CHECK (status IN ('pending', 'completed', 'failed', 'skipped', 'deferred'));
+ALTER TABLE public.campaign_retry_recipients DROP CONSTRAINT IF EXISTS campaign_retry_recipients_status_check;
+ALTER TABLE public.campaign_retry_recipients ADD CONSTRAINT campaign_retry_recipients_status_check
+    CHECK (status IN ('retrying', 'sent', 'delivered', 'exhausted', 'stopped'));
+
+-- Indexes for retry processing
+CREATE INDEX IF NOT EXISTS idx_campaign_retry_states_next_attempt_at ON public.campaign_retry_states(next_attempt_at) WHERE enabled AND NOT is_expired;
+CREATE INDEX IF NOT EXISTS idx_campaign_retry_attempts_campaign_id ON public.campaign_retry_attempts(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_retry_events_campaign_id ON public.campaign_retry_events(campaign_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_retry_recipients_next_attempt_at ON public.campaign_retry_recipients(campaign_id, next_attempt_at) WHERE status = 'retrying';
+
+-- Enable Row Level Security (RLS) - retry data follows campaign ownership
+ALTER TABLE public.campaign_retry_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_retry_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_retry_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_retry_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage retry states of own campaigns" ON public.campaign_retry_states
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage retry attempts of own campaigns" ON public.campaign_retry_attempts
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage retry events of own campaigns" ON public.campaign_retry_events
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage retry recipients of own campaigns" ON public.campaign_retry_recipients
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE TRIGGER handle_campaign_retry_states_updated_at
+    BEFORE UPDATE ON public.campaign_retry_states
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER handle_campaign_retry_recipients_updated_at
+    BEFORE UPDATE ON public.campaign_retry_recipients
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT ALL ON public.campaign_retry_states TO authenticated;
+GRANT ALL ON public.campaign_retry_states TO service_role;
+GRANT ALL ON public.campaign_retry_attempts TO authenticated;
+GRANT ALL ON public.campaign_retry_attempts TO service_role;
+GRANT ALL ON public.campaign_retry_events TO authenticated;
+GRANT ALL ON public.campaign_retry_events TO service_role;
+GRANT ALL ON public.campaign_retry_recipients TO authenticated;
+GRANT ALL ON public.campaign_retry_recipients TO service_role;
+
+-- Add webhook-confirmed deliveries to an attempt's count for one retried error code. A single
+-- UPDATE re-reads the row it locks, so deliveries reported at the same time are all counted.
+CREATE OR REPLACE FUNCTION public.record_retry_attempt_deliveries(
+    p_campaign_id UUID,
+    p_attempt_number INTEGER,
+    p_error_code TEXT,
+    p_count INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    UPDATE public.campaign_retry_attempts
+    SET deliveries = (
+        SELECT jsonb_agg(
+            CASE WHEN d.delivery->>'error_code' = p_error_code
+                THEN jsonb_set(d.delivery, '{delivered}', to_jsonb(COALESCE((d.delivery->>'delivered')::INTEGER, 0) + p_count))
+                ELSE d.delivery
+            END
+            ORDER BY d.position
+        )
+        FROM jsonb_array_elements(deliveries) WITH ORDINALITY AS d(delivery, position)
+    )
+    WHERE campaign_id = p_campaign_id
+      AND attempt_number = p_attempt_number
+      AND jsonb_array_length(COALESCE(deliveries, '[]'::JSONB)) > 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_retry_attempt_deliveries(UUID, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_retry_attempt_deliveries(UUID, INTEGER, TEXT, INTEGER) TO authenticated, service_role;
+
+-- Retry status of a campaign for the list filters, exposed as the computed column campaigns.retry_status
+-- (mirrors CampaignService.getRetryListStatus)
+CREATE OR REPLACE FUNCTION public.retry_status(c public.campaigns)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT COALESCE((
+        SELECT CASE
+            WHEN r.cancelled_at IS NOT NULL THEN 'cancelled'
+            WHEN r.is_expired OR r.retry_ttl <= NOW() THEN 'expired'
+            WHEN r.paused_at IS NOT NULL THEN 'paused'
+            WHEN r.enabled AND r.next_attempt_at IS NOT NULL THEN 'active'
+            ELSE 'finished'
+        END
+        FROM public.campaign_retry_states r
+        WHERE r.campaign_id = c.id
+    ), 'none');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.retry_status(public.campaigns) TO authenticated;
+
+-- Create retry policies table (account-level overrides have campaign_id NULL)
+CREATE TABLE IF NOT EXISTS public.retry_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    campaign_id UUID REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    error_code TEXT NOT NULL CHECK (error_code ~ '^[0-9]{3,6}$'),
+    description TEXT NOT NULL DEFAULT '',
+    retry_intervals NUMERIC[] NOT NULL CHECK (cardinality(retry_intervals) > 0), -- Hours between retries
+    max_attempts INTEGER CHECK (max_attempts BETWEEN 1 AND 20),
+    jitter_pct NUMERIC CHECK (jitter_pct BETWEEN 0 AND 50),
+    backoff_multiplier NUMERIC CHECK (backoff_multiplier BETWEEN 1 AND 10),
+    requires_template_active BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (user_id, campaign_id, error_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_retry_policies_user_id ON public.retry_policies(user_id);
+
+ALTER TABLE public.retry_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own retry policies" ON public.retry_policies
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_retry_policies_updated_at
+    BEFORE UPDATE ON public.retry_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT ALL ON public.retry_policies TO authenticated;
+GRANT ALL ON public.retry_policies TO service_role;
+
+-- Create account settings table (one row per user)
+CREATE TABLE IF NOT EXISTS public.account_settings (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    -- Quiet hours (local time) during which no retries are sent
+    quiet_hours_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    quiet_hours_start TEXT NOT NULL DEFAULT '21:00' CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    quiet_hours_end TEXT NOT NULL DEFAULT '09:00' CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+    -- Allowed retry TTL range after the scheduled time
+    ttl_min_hours INTEGER NOT NULL DEFAULT 24 CHECK (ttl_min_hours >= 1),
+    ttl_max_hours INTEGER NOT NULL DEFAULT 672 CHECK (ttl_max_hours <= 720),
+    -- Charged per delivered retry message (retry cost analytics)
+    message_cost_currency TEXT NOT NULL DEFAULT 'INR',
+    message_cost_amount NUMERIC(10, 4) NOT NULL DEFAULT 0.7846 CHECK (message_cost_amount >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT account_settings_ttl_range_check CHECK (ttl_max_hours > ttl_min_hours)
+);
+
+-- Migration: Add account settings columns introduced after the table was created (for existing databases)
+ALTER TABLE public.account_settings ADD COLUMN IF NOT EXISTS ttl_min_hours INTEGER NOT NULL DEFAULT 24 CHECK (ttl_min_hours >= 1);
+ALTER TABLE public.account_settings ADD COLUMN IF NOT EXISTS ttl_max_hours INTEGER NOT NULL DEFAULT 672 CHECK (ttl_max_hours <= 720);
+ALTER TABLE public.account_settings DROP CONSTRAINT IF EXISTS account_settings_ttl_range_check;
+ALTER TABLE public.account_settings ADD CONSTRAINT account_settings_ttl_range_check CHECK (ttl_max_hours > ttl_min_hours);
+ALTER TABLE public.account_settings ADD COLUMN IF NOT EXISTS message_cost_currency TEXT NOT NULL DEFAULT 'INR';
+ALTER TABLE public.account_settings ADD COLUMN IF NOT EXISTS message_cost_amount NUMERIC(10, 4) NOT NULL DEFAULT 0.7846 CHECK (message_cost_amount >= 0);
+
+ALTER TABLE public.account_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own account settings" ON public.account_settings
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_account_settings_updated_at
+    BEFORE UPDATE ON public.account_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT ALL ON public.account_settings TO authenticated;
+GRANT ALL ON public.account_settings TO service_role;
+
+-- Create retry engine controls table (one row per user; the dashboard's Start, Stop and Run Now,
+-- read by the retry worker)
+CREATE TABLE IF NOT EXISTS public.retry_engine_controls (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    paused BOOLEAN NOT NULL DEFAULT FALSE, -- Stopped: the worker sends none of the account's retries
+    run_requested_at TIMESTAMPTZ, -- Run Now: the worker runs a cycle when it sees a newer request
+    updated_by TEXT, -- Operator email
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.retry_engine_controls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own retry engine controls" ON public.retry_engine_controls
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_retry_engine_controls_updated_at
+    BEFORE UPDATE ON public.retry_engine_controls
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT ALL ON public.retry_engine_controls TO authenticated;
+GRANT ALL ON public.retry_engine_controls TO service_role;
+
+-- Whether the campaign owner has stopped retries, exposed as the computed column
+-- campaign_retry_states.retries_stopped so the engine's due-states query leaves them out
+CREATE OR REPLACE FUNCTION public.retries_stopped(s public.campaign_retry_states)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.campaigns c
+        JOIN public.retry_engine_controls rc ON rc.user_id = c.user_id
+        WHERE c.id = s.campaign_id AND rc.paused
+    );
+$$;
+
+-- Create retry locks table (lease-based locks shared by retry engine instances)
+CREATE TABLE IF NOT EXISTS public.retry_locks (
+    lock_key TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    acquired_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Locks are only reachable through the functions below
+ALTER TABLE public.retry_locks ENABLE ROW LEVEL SECURITY;
+
+-- Whether the caller may take or release a lease: the service role (retry worker) may use any lock,
+-- signed-in users only the campaign locks of their own campaigns (retry controls)
+CREATE OR REPLACE FUNCTION public.can_use_retry_lock(p_lock_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT auth.role() = 'service_role'
+        OR (
+            p_lock_key LIKE 'retry-engine:campaign:%'
+            AND EXISTS (
+                SELECT 1 FROM public.campaigns c
+                WHERE c.id::TEXT = substring(p_lock_key FROM char_length('retry-engine:campaign:') + 1)
+                  AND c.user_id = auth.uid()
+            )
+        );
+$$;
+
+-- Take (or renew) a lease; returns false while another owner holds an unexpired lease
+CREATE OR REPLACE FUNCTION public.acquire_retry_lock(p_lock_key TEXT, p_owner_id TEXT, p_ttl_ms INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    acquired BOOLEAN;
+BEGIN
+    IF NOT public.can_use_retry_lock(p_lock_key) THEN
+        RAISE EXCEPTION 'Not allowed to take retry lock %', p_lock_key USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.retry_locks (lock_key, owner_id, expires_at, acquired_at)
+    VALUES (p_lock_key, p_owner_id, NOW() + (p_ttl_ms || ' milliseconds')::INTERVAL, NOW())
+    ON CONFLICT (lock_key) DO UPDATE
+        SET owner_id = EXCLUDED.owner_id,
+            expires_at = EXCLUDED.expires_at,
+            acquired_at = CASE WHEN retry_locks.owner_id = EXCLUDED.owner_id THEN retry_locks.acquired_at ELSE NOW() END
+        WHERE retry_locks.owner_id = EXCLUDED.owner_id OR retry_locks.expires_at < NOW()
+    RETURNING TRUE INTO acquired;
+
+    RETURN COALESCE(acquired, FALSE);
+END;
+$$;
+
+-- Release a lease held by the given owner
+CREATE OR REPLACE FUNCTION public.release_retry_lock(p_lock_key TEXT, p_owner_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.can_use_retry_lock(p_lock_key) THEN
+        RAISE EXCEPTION 'Not allowed to release retry lock %', p_lock_key USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.retry_locks WHERE lock_key = p_lock_key AND owner_id = p_owner_id;
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; only signed-in users and the worker may call these
+REVOKE EXECUTE ON FUNCTION public.can_use_retry_lock(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.acquire_retry_lock(TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_retry_lock(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acquire_retry_lock(TEXT, TEXT, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.release_retry_lock(TEXT, TEXT) TO authenticated, service_role;
+
+-- Create business numbers table (each account's WhatsApp numbers and their Meta messaging tier)
+CREATE TABLE IF NOT EXISTS public.business_numbers (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    id TEXT NOT NULL, -- Business number ID, as stored in campaign_retry_states.business_number_id
+    name TEXT NOT NULL,
+    daily_messaging_limit INTEGER NOT NULL CHECK (daily_messaging_limit > 0), -- Unique recipients per rolling 24 hours
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, id)
+);
+
+ALTER TABLE public.business_numbers ENABLE ROW LEVEL SECURITY;
+
+-- Tiers are granted by Meta, so accounts can read theirs but only the service role writes them
+CREATE POLICY "Users can view own business numbers" ON public.business_numbers
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_business_numbers_updated_at
+    BEFORE UPDATE ON public.business_numbers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT SELECT ON public.business_numbers TO authenticated;
+GRANT ALL ON public.business_numbers TO service_role;
+
+-- Create messaging rate buckets (token bucket per account and business number, shared by initial sends and retries)
+CREATE TABLE IF NOT EXISTS public.messaging_rate_buckets (
+    bucket_key TEXT PRIMARY KEY, -- Owner's user ID and business number ID ("<user_id>:<business_number_id>")
+    tokens DOUBLE PRECISION NOT NULL, -- Messages left as of updated_at
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Migration: Drop buckets keyed by business number alone (for existing databases); they refill within the day
+DELETE FROM public.messaging_rate_buckets WHERE bucket_key NOT LIKE '%:%';
+
+-- Buckets are only reachable through the functions below
+ALTER TABLE public.messaging_rate_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Superseded by the version below, which looks the capacity up itself
+DROP FUNCTION IF EXISTS public.take_messaging_tokens(TEXT, INTEGER, INTEGER, BIGINT);
+
+-- Refill the owner's bucket for a business number (its tier per 24 hours) and take up to p_requested tokens.
+-- Signed-in users always use their own buckets; the service role names the campaign owner.
+-- Numbers without a business_numbers row get Meta's starting tier of 250.
+CREATE OR REPLACE FUNCTION public.take_messaging_tokens(p_business_number_id TEXT, p_requested INTEGER, p_owner_id UUID DEFAULT NULL)
+RETURNS TABLE (granted INTEGER, remaining DOUBLE PRECISION, capacity INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    window_ms CONSTANT BIGINT := 24 * 60 * 60 * 1000;
+    owner_id UUID;
+    bucket TEXT;
+    tier_capacity INTEGER;
+    current_tokens DOUBLE PRECISION;
+    granted_tokens INTEGER;
+BEGIN
+    owner_id := CASE WHEN auth.role() = 'service_role' THEN p_owner_id ELSE auth.uid() END;
+    IF owner_id IS NULL THEN
+        RAISE EXCEPTION 'Messaging budgets need a campaign owner' USING ERRCODE = '22004';
+    END IF;
+
+    SELECT n.daily_messaging_limit
+    INTO tier_capacity
+    FROM public.business_numbers n
+    WHERE n.user_id = owner_id AND n.id = p_business_number_id;
+    tier_capacity := COALESCE(tier_capacity, 250);
+
+    bucket := owner_id::TEXT || ':' || p_business_number_id;
+
+    INSERT INTO public.messaging_rate_buckets (bucket_key, tokens, updated_at)
+    VALUES (bucket, tier_capacity, NOW())
+    ON CONFLICT (bucket_key) DO NOTHING;
+
+    SELECT LEAST(
+        tier_capacity::DOUBLE PRECISION,
+        b.tokens + EXTRACT(EPOCH FROM (NOW() - b.updated_at)) * 1000 * tier_capacity / window_ms
+    )
+    INTO current_tokens
+    FROM public.messaging_rate_buckets b
+    WHERE b.bucket_key = bucket
+    FOR UPDATE;
+
+    granted_tokens := LEAST(GREATEST(p_requested, 0), FLOOR(current_tokens)::INTEGER);
+
+    UPDATE public.messaging_rate_buckets
+    SET tokens = current_tokens - granted_tokens,
+        updated_at = NOW()
+    WHERE bucket_key = bucket;
+
+    RETURN QUERY SELECT granted_tokens, current_tokens - granted_tokens, tier_capacity;
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; only signed-in users and the worker may call this
+REVOKE EXECUTE ON FUNCTION public.take_messaging_tokens(TEXT, INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.take_messaging_tokens(TEXT, INTEGER, UUID) TO authenticated, service_role;
+
+-- Create retry dead-letter table (campaigns whose retries were exhausted or expired)
+CREATE TABLE IF NOT EXISTS public.retry_dead_letters (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('exhausted', 'expired')),
+    error_code TEXT, -- Final Meta error code
+    details TEXT,
+    recipient_count INTEGER NOT NULL DEFAULT 0, -- Recipients still undelivered
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'requeued', 'exported', 'dismissed')),
+    resolved_at TIMESTAMPTZ,
+    resolved_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create retry control audit log (operator pause, resume, TTL change and cancel actions)
+CREATE TABLE IF NOT EXISTS public.campaign_retry_audit (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN ('paused', 'resumed', 'ttl_changed', 'cancelled')),
+    actor TEXT NOT NULL,
+    details TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_retry_audit_campaign_id ON public.campaign_retry_audit(campaign_id, occurred_at);
+
+ALTER TABLE public.campaign_retry_audit ENABLE ROW LEVEL SECURITY;
+
+-- The audit log is append-only
+CREATE POLICY "Users can read retry audit of own campaigns" ON public.campaign_retry_audit
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can append retry audit of own campaigns" ON public.campaign_retry_audit
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+GRANT SELECT, INSERT ON public.campaign_retry_audit TO authenticated;
+GRANT ALL ON public.campaign_retry_audit TO service_role;
+
+-- Create retry dead-letter audit log (every operator action on an entry)
+CREATE TABLE IF NOT EXISTS public.retry_dead_letter_audit (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dead_letter_id UUID NOT NULL REFERENCES public.retry_dead_letters(id) ON DELETE CASCADE,
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN ('created', 'requeued', 'exported', 'dismissed')),
+    actor TEXT NOT NULL,
+    details TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create recipient segments table (e.g. failed recipients exported from the dead-letter queue)
+CREATE TABLE IF NOT EXISTS public.recipient_segments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    source_campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+    recipient_ids TEXT[] NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retry_dead_letters_status ON public.retry_dead_letters(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_retry_dead_letter_audit_dead_letter_id ON public.retry_dead_letter_audit(dead_letter_id, occurred_at);
+
+ALTER TABLE public.retry_dead_letters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retry_dead_letter_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipient_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage dead letters of own campaigns" ON public.retry_dead_letters
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+-- The audit log is append-only
+CREATE POLICY "Users can read dead-letter audit of own campaigns" ON public.retry_dead_letter_audit
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can append dead-letter audit of own campaigns" ON public.retry_dead_letter_audit
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can manage own segments" ON public.recipient_segments
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.retry_dead_letters TO authenticated;
+GRANT ALL ON public.retry_dead_letters TO service_role;
+GRANT SELECT, INSERT ON public.retry_dead_letter_audit TO authenticated;
+GRANT ALL ON public.retry_dead_letter_audit TO service_role;
+GRANT ALL ON public.recipient_segments TO authenticated;
+GRANT ALL ON public.recipient_segments TO service_role;
+
+-- Create retry engine event log (structured events written by the Supabase log sink)
+CREATE TABLE IF NOT EXISTS public.retry_engine_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    instance_id TEXT NOT NULL, -- Engine instance that emitted the event
+    event_type TEXT NOT NULL, -- e.g. attempt.executed, retry.exhausted
+    campaign_id UUID REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retry_engine_events_occurred_at ON public.retry_engine_events(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_retry_engine_events_campaign_id ON public.retry_engine_events(campaign_id, occurred_at) WHERE campaign_id IS NOT NULL;
+
+-- Written by engine workers (service role); readable for own campaigns
+ALTER TABLE public.retry_engine_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read engine events of own campaigns" ON public.retry_engine_events
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.campaigns c WHERE c.id = campaign_id AND c.user_id = auth.uid())
+    );
+
+GRANT SELECT ON public.retry_engine_events TO authenticated;
+GRANT ALL ON public.retry_engine_events TO service_role;
+
+-- Create WhatsApp message status table (delivery progress per message, fed by the status webhook)
+CREATE TABLE IF NOT EXISTS public.whatsapp_message_statuses (
+    message_id TEXT PRIMARY KEY, -- wamid
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    recipient_id TEXT NOT NULL,
+    sent_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    read_at TIMESTAMPTZ,
+    failed_at TIMESTAMPTZ,
+    error_code TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_message_statuses_campaign_id ON public.whatsapp_message_statuses(campaign_id);
+
+-- Only reachable through the function below
+ALTER TABLE public.whatsapp_message_statuses ENABLE ROW LEVEL SECURITY;
+
+-- Record a message status and bump the campaign counters for the stages it newly reached.
+-- A later status implies the earlier ones; repeated statuses return an empty array.
+-- Returns NULL for campaigns that don't exist, so the receiver can acknowledge and drop the status.
+CREATE OR REPLACE FUNCTION public.apply_message_status(
+    p_message_id TEXT,
+    p_campaign_id UUID,
+    p_recipient_id TEXT,
+    p_status TEXT,
+    p_error_code TEXT,
+    p_occurred_at TIMESTAMPTZ
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    msg public.whatsapp_message_statuses%ROWTYPE;
+    reached TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.campaigns WHERE id = p_campaign_id) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.whatsapp_message_statuses (message_id, campaign_id, recipient_id)
+    VALUES (p_message_id, p_campaign_id, p_recipient_id)
+    ON CONFLICT (message_id) DO NOTHING;
+
+    SELECT * INTO msg
+    FROM public.whatsapp_message_statuses
+    WHERE message_id = p_message_id
+    FOR UPDATE;
+
+    IF p_status IN ('sent', 'delivered', 'read') AND msg.sent_at IS NULL THEN
+        reached := reached || 'sent'::TEXT;
+    END IF;
+    IF p_status IN ('delivered', 'read') AND msg.delivered_at IS NULL THEN
+        reached := reached || 'delivered'::TEXT;
+    END IF;
+    IF p_status = 'read' AND msg.read_at IS NULL THEN
+        reached := reached || 'read'::TEXT;
+    END IF;
+    IF p_status = 'failed' AND msg.failed_at IS NULL THEN
+        reached := reached || 'failed'::TEXT;
+    END IF;
+
+    IF cardinality(reached) = 0 THEN
+        RETURN reached;
+    END IF;
+
+    UPDATE public.whatsapp_message_statuses
+    SET sent_at = CASE WHEN 'sent' = ANY(reached) THEN p_occurred_at ELSE sent_at END,
+        delivered_at = CASE WHEN 'delivered' = ANY(reached) THEN p_occurred_at ELSE delivered_at END,
+        read_at = CASE WHEN 'read' = ANY(reached) THEN p_occurred_at ELSE read_at END,
+        failed_at = CASE WHEN 'failed' = ANY(reached) THEN p_occurred_at ELSE failed_at END,
+        error_code = COALESCE(p_error_code, error_code),
+        updated_at = NOW()
+    WHERE message_id = p_message_id;
+
+    UPDATE public.campaigns
+    SET sent = sent + ('sent' = ANY(reached))::INTEGER,
+        delivered = delivered + ('delivered' = ANY(reached))::INTEGER,
+        opened = opened + ('read' = ANY(reached))::INTEGER,
+        failed = failed + ('failed' = ANY(reached))::INTEGER,
+        updated_at = NOW()
+    WHERE id = p_campaign_id;
+
+    -- Bounce rate: failed / (delivered + failed)
+    UPDATE public.campaigns
+    SET bounce = CASE
+        WHEN delivered + failed > 0 THEN ROUND(failed * 100.0 / (delivered + failed), 1)::TEXT || '%'
+        ELSE 'NA'
+    END
+    WHERE id = p_campaign_id;
+
+    RETURN reached;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_message_status(TEXT, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_message_status(TEXT, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- Campaign detail page: failed messages counted by error code. The status table has no policies,
+-- so this runs as the owner and only answers for campaigns the caller can see.
+CREATE OR REPLACE FUNCTION public.get_campaign_failure_breakdown(p_campaign_id UUID)
+RETURNS TABLE (error_code TEXT, message_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(s.error_code, 'UNKNOWN'), COUNT(*)
+    FROM public.whatsapp_message_statuses s
+    JOIN public.campaigns c ON c.id = s.campaign_id
+    WHERE s.campaign_id = p_campaign_id
+      AND s.failed_at IS NOT NULL
+      AND c.user_id = auth.uid()
+    GROUP BY 1
+    ORDER BY 2 DESC, 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_failure_breakdown(UUID) TO authenticated;
+
+-- Create saved campaign list views (named filter sets, one set per user)
+CREATE TABLE IF NOT EXISTS public.campaign_saved_views (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+    filters JSONB NOT NULL, -- CampaignFilters
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.campaign_saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own saved views" ON public.campaign_saved_views
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_campaign_saved_views_updated_at
+    BEFORE UPDATE ON public.campaign_saved_views
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+GRANT ALL ON public.campaign_saved_views TO authenticated;
+GRANT ALL ON public.campaign_saved_views TO service_role;
+
 -- Create a view for campaign statistics (optional)
 CREATE OR REPLACE VIEW public.campaign_stats AS
 SELECT 